@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { alertService } from '@/lib/supabase/alert-service'
+
+/**
+ * Send a sample alert through each channel of one of the current user's alert rules
+ * Body: { ruleId }. Responds with an error message per channel, null where delivery worked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { ruleId } = await request.json()
+    if (typeof ruleId !== 'string' || !ruleId) {
+      return NextResponse.json({ error: 'ruleId is required' }, { status: 400 })
+    }
+
+    console.log(`🔔 Sending test alert for rule ${ruleId}`)
+    const results = await alertService.sendTestAlert(user.id, ruleId)
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('❌ Error sending test alert:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send test alert' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { aiAnalysisQueueService } from '@/lib/supabase/ai-analysis-queue-service'
+
+/**
+ * Background AI analysis status for the current user: pending, running and failed jobs
+ * and today's token usage against the daily budget
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const summary = await aiAnalysisQueueService.getQueueSummary(user.id)
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('❌ Error loading AI analysis queue:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load AI analysis queue' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,39 +1,64 @@
 import { NextResponse } from "next/server"
-import { DEFAULT_AI_PROMPTS, processPromptTemplate, type AIPrompts } from "@/lib/ai-prompts"
+import { AI_PROMPT_VERSION, DEFAULT_AI_PROMPTS, isDefaultPrompts, type AIPrompts } from "@/lib/ai-prompts"
+import { createRouteHandlerClient } from "@/lib/supabase/server"
+import { apiKeyService } from "@/lib/supabase/api-key-service"
+import { aiAnalysisService } from "@/lib/supabase/ai-analysis-service"
+import { workspaceService } from "@/lib/supabase/workspace-service"
+import { canEditWorkspace } from "@/lib/workspaces"
+import type { FinancialFacts } from "@/lib/types"
+import {
+  analyzeRelease,
+  ClaudeAPIError,
+  describeClaudeError,
+  type AnalysisHighlight,
+  type ReleaseAnalysis,
+  type ReleaseAnalysisInput,
+  type UnalignedHighlight,
+} from "@/lib/release-analyzer"
 
 interface AnalyzeReleaseRequest {
   content: string
   title: string
-  apiKey: string
   customPrompts?: AIPrompts
   companyName?: string
   date?: string
-}
-
-interface Highlight {
-  type: "financial" | "opportunity" | "risk" | "strategic"
-  text: string
-  start: number
-  end: number
+  sourceUrl?: string // Enables reuse of the analysis stored for this release
+  forceRefresh?: boolean // Re-analyze even when a stored analysis exists
 }
 
 interface AnalysisResponse {
   success: boolean
   summary?: string
   keyPoints?: string[]
-  highlights?: Highlight[]
+  highlights?: AnalysisHighlight[]
+  unalignedHighlights?: UnalignedHighlight[] // Highlights whose text couldn't be found in the content
+  financialFacts?: FinancialFacts
   error?: string
   usage?: {
     inputTokens: number
     outputTokens: number
   }
+  promptVersion?: string
+  analyzedAt?: string
+  cached?: boolean
 }
 
 export async function POST(request: Request) {
   try {
     console.log("🚀 Starting AI analysis request...")
 
-    const { content, title, apiKey, customPrompts, companyName, date }: AnalyzeReleaseRequest = await request.json()
+    const supabase = createRouteHandlerClient(request)
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
+    }
+
+    const { content, title, customPrompts, companyName, date, sourceUrl, forceRefresh = false }: AnalyzeReleaseRequest =
+      await request.json()
 
     // Enhanced input validation
     if (!content?.trim()) {
@@ -52,199 +77,124 @@ export async function POST(request: Request) {
       })
     }
 
-    if (!apiKey?.trim()) {
-      console.error("❌ Validation failed: API key is missing or empty")
-      return NextResponse.json({
-        success: false,
-        error: "Claude API key is required",
-      })
-    }
-
-    console.log(`🤖 Analyzing press release: ${title.substring(0, 50)}...`)
-    console.log("🔍 API Key (first 20 chars):", apiKey.substring(0, 20))
-    console.log("🔍 API Key length:", apiKey.length)
-    console.log("📄 Content length:", content.length)
-    console.log("🏢 Company name:", companyName || "Not provided")
-    console.log("📅 Date:", date || "Not provided")
-
     // Get prompts (custom or defaults)
     const prompts = customPrompts || DEFAULT_AI_PROMPTS
     console.log("📝 Using prompts:", customPrompts ? "Custom" : "Default")
 
-    // Process the user prompt template with variables
-    let processedUserPrompt: string
-    try {
-      processedUserPrompt = processPromptTemplate(prompts.userPromptTemplate, {
-        companyName,
-        content,
-        title,
-        date,
-      })
-      console.log("✅ Template processing successful")
-    } catch (templateError) {
-      console.error("❌ Template processing failed:", templateError)
-      return NextResponse.json({
-        success: false,
-        error: `Template processing failed: ${templateError instanceof Error ? templateError.message : 'Unknown error'}`,
-      })
+    // Only default-prompt analyses are versioned, so only those are stored and reused
+    const promptVersion = isDefaultPrompts(prompts) ? AI_PROMPT_VERSION : null
+
+    // Analyses are shared by everyone in the workspace, so a release is only paid for once
+    const { workspaceId, role } = await workspaceService.getActiveWorkspace(user.id)
+
+    if (sourceUrl && promptVersion && !forceRefresh) {
+      const stored = await aiAnalysisService.getAnalysis(workspaceId, sourceUrl, promptVersion)
+      if (stored) {
+        console.log(`📋 Using stored AI analysis (${promptVersion}) from ${stored.aiAnalysis.analyzedAt}`)
+        const cachedResult: AnalysisResponse = {
+          success: true,
+          summary: stored.aiAnalysis.summary,
+          keyPoints: stored.aiAnalysis.keyPoints,
+          highlights: stored.highlights,
+          unalignedHighlights: stored.aiAnalysis.unalignedHighlights || [],
+          usage: stored.aiAnalysis.usage,
+          promptVersion,
+          analyzedAt: stored.aiAnalysis.analyzedAt,
+          cached: true,
+        }
+        return NextResponse.json(cachedResult)
+      }
     }
 
-    console.log("📝 Using system prompt:", prompts.systemPrompt.substring(0, 100) + "...")
-    console.log("📝 Processed user prompt:", processedUserPrompt.substring(0, 200) + "...")
-
-    // Call Claude API with enhanced error handling
-    let claudeResponse: Response
+    // The key never leaves the server: it is decrypted here from the user's profile
+    let apiKey: string | null
     try {
-      claudeResponse = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": apiKey,
-          "anthropic-version": "2023-06-01",
-        },
-        body: JSON.stringify({
-          model: "claude-3-5-sonnet-20241022",
-          max_tokens: 2000,
-          temperature: 0.3,
-          system: prompts.systemPrompt,
-          messages: [
-            {
-              role: "user",
-              content: processedUserPrompt,
-            },
-          ],
-        }),
-      })
-    } catch (fetchError) {
-      console.error("❌ Network error calling Claude API:", fetchError)
+      apiKey = await apiKeyService.getClaudeAPIKey(user.id)
+    } catch (keyError) {
+      console.error("❌ Failed to load stored Claude API key:", keyError)
       return NextResponse.json({
         success: false,
-        error: "Network error: Unable to reach Claude API. Please check your connection.",
+        error: "Unable to read your stored Claude API key. Please save it again in Settings → AI Configuration.",
       })
     }
 
-    if (!claudeResponse.ok) {
-      const errorData = await claudeResponse.json().catch(() => ({}))
-      console.error("❌ Claude API error:", claudeResponse.status, errorData)
-
-      let errorMessage = "Analysis failed"
-      if (claudeResponse.status === 401) {
-        errorMessage = "Invalid API key. Please check your Claude API key in settings."
-      } else if (claudeResponse.status === 429) {
-        errorMessage = "Rate limit exceeded. Please try again in a moment."
-      } else if (claudeResponse.status === 400) {
-        errorMessage = "Invalid request format. Please try again."
-      } else if (claudeResponse.status >= 500) {
-        errorMessage = "Claude API temporarily unavailable. Please try again later."
-      }
-
+    if (!apiKey) {
+      console.error("❌ Validation failed: No Claude API key stored for user")
       return NextResponse.json({
         success: false,
-        error: errorMessage,
+        error: "Configure your Claude API key in Settings → AI Configuration to enable AI analysis",
       })
     }
 
-    const claudeResult = await claudeResponse.json()
-    const analysisText = claudeResult.content[0]?.text
+    // Saved analyses overwrite the release for the whole workspace, so only owners and editors
+    // save them, and they are made from the stored release rather than the text sent here
+    const storedRelease =
+      sourceUrl && promptVersion && canEditWorkspace(role)
+        ? await aiAnalysisService.getStoredRelease(workspaceId, sourceUrl)
+        : null
+    const input: ReleaseAnalysisInput = storedRelease || { companyName, content, title, date }
 
-    if (!analysisText) {
-      console.error("❌ No analysis content received from Claude")
-      return NextResponse.json({
-        success: false,
-        error: "No analysis content received from Claude API",
-      })
-    }
+    console.log(`🤖 Analyzing press release: ${input.title.substring(0, 50)}...`)
+    console.log("📄 Content length:", input.content.length, storedRelease ? "(stored release)" : "")
+    console.log("🏢 Company name:", input.companyName || "Not provided")
+    console.log("📅 Date:", input.date || "Not provided")
 
-    console.log("🔍 Raw Claude response:", analysisText.substring(0, 200) + "...")
-
-    // Parse the JSON response from Claude with enhanced error handling
-    let parsedAnalysis
+    let analysis: ReleaseAnalysis
     try {
-      // Extract JSON from the response (Claude might wrap it in markdown)
-      const jsonMatch = analysisText.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        console.error("❌ No JSON found in Claude response")
-        throw new Error("No JSON found in Claude response")
+      analysis = await analyzeRelease(apiKey, prompts, input)
+    } catch (analysisError) {
+      if (analysisError instanceof ClaudeAPIError) {
+        return NextResponse.json({
+          success: false,
+          error: describeClaudeError(analysisError),
+        })
       }
+      throw analysisError
+    }
 
-      parsedAnalysis = JSON.parse(jsonMatch[0])
-      console.log("✅ Successfully parsed Claude JSON response")
-    } catch (parseError) {
-      console.error("❌ Failed to parse Claude JSON:", parseError)
-      console.error("Raw response:", analysisText)
-
-      // Enhanced fallback: try to extract summary manually
-      const summaryMatch = analysisText.match(/summary['"]\s*:\s*['"]([^'"]+)['"]/i)
-      const summary = summaryMatch ? summaryMatch[1] : "Analysis completed but response formatting error occurred"
-
-      console.log("🔄 Using fallback parsing, extracted summary:", summary)
-
+    // A reply that couldn't be parsed is shown once but never stored
+    if (analysis.formatError) {
       return NextResponse.json({
         success: true,
-        summary,
-        keyPoints: ["Analysis completed with formatting issues. Please try again."],
+        summary: analysis.summary,
+        keyPoints: analysis.keyPoints,
         highlights: [],
+        unalignedHighlights: [],
+        usage: analysis.usage,
       })
     }
 
-    // Process highlights to find their positions in the content
-    const processedHighlights: Highlight[] = []
-
-    if (parsedAnalysis.highlights && Array.isArray(parsedAnalysis.highlights)) {
-      console.log(`🔍 Processing ${parsedAnalysis.highlights.length} highlights...`)
-      
-      for (const highlight of parsedAnalysis.highlights) {
-        if (!highlight.text || !highlight.type) {
-          console.warn("⚠️ Skipping invalid highlight:", highlight)
-          continue
-        }
-
-        // Find the position of this text in the content
-        const searchText = highlight.text.trim()
-        const contentLower = content.toLowerCase()
-        const searchLower = searchText.toLowerCase()
-
-        let startIndex = contentLower.indexOf(searchLower)
-
-        // If exact match not found, try partial matching
-        if (startIndex === -1) {
-          // Try to find a substantial portion of the text
-          const words = searchText.split(/\s+/)
-          if (words.length > 3) {
-            const partialText = words.slice(0, Math.ceil(words.length * 0.7)).join(" ")
-            startIndex = contentLower.indexOf(partialText.toLowerCase())
-          }
-        }
-
-        if (startIndex !== -1) {
-          // Use the original case from content
-          const actualText = content.substring(startIndex, startIndex + searchText.length)
-
-          processedHighlights.push({
-            type: highlight.type as any,
-            text: actualText,
-            start: startIndex,
-            end: startIndex + searchText.length,
-          })
-          console.log(`✅ Found highlight: ${highlight.type} - "${actualText.substring(0, 50)}..."`)
-        } else {
-          console.warn(`⚠️ Could not find highlight text in content: "${searchText.substring(0, 50)}..."`)
-        }
-      }
-    }
-
     const result: AnalysisResponse = {
       success: true,
-      summary: parsedAnalysis.summary || "Analysis completed",
-      keyPoints: parsedAnalysis.keyPoints || [],
-      highlights: processedHighlights,
-      usage: {
-        inputTokens: claudeResult.usage?.input_tokens || 0,
-        outputTokens: claudeResult.usage?.output_tokens || 0,
-      },
+      summary: analysis.summary,
+      keyPoints: analysis.keyPoints,
+      highlights: analysis.highlights,
+      unalignedHighlights: analysis.unalignedHighlights,
+      financialFacts: analysis.financialFacts,
+      usage: analysis.usage,
+      promptVersion: promptVersion || undefined,
+      analyzedAt: new Date().toISOString(),
+      cached: false,
+    }
+
+    if (storedRelease && sourceUrl && promptVersion) {
+      await aiAnalysisService.saveAnalysis(workspaceId, sourceUrl, {
+        aiAnalysis: {
+          summary: analysis.summary,
+          keyPoints: analysis.keyPoints,
+          usage: analysis.usage,
+          unalignedHighlights: analysis.unalignedHighlights,
+          promptVersion,
+          analyzedAt: result.analyzedAt,
+        },
+        highlights: analysis.highlights,
+        financialFacts: analysis.financialFacts,
+      })
     }
 
-    console.log(`✅ Analysis complete: ${result.highlights?.length || 0} highlights found`)
+    console.log(
+      `✅ Analysis complete: ${result.highlights?.length || 0} highlights aligned, ${result.unalignedHighlights?.length || 0} unaligned`,
+    )
     console.log(`📊 Token usage: ${result.usage?.inputTokens} input, ${result.usage?.outputTokens} output`)
 
     return NextResponse.json(result)
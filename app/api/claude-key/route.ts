@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { apiKeyService } from '@/lib/supabase/api-key-service'
+
+async function getUser(request: NextRequest) {
+  const supabase = createRouteHandlerClient(request)
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+/**
+ * Whether the current user has a Claude API key stored, with a masked copy for display
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const status = await apiKeyService.getClaudeAPIKeyStatus(user.id)
+    return NextResponse.json(status)
+  } catch (error) {
+    console.error('❌ Error loading Claude API key status:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load API key' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Encrypt and store the current user's Claude API key
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { apiKey } = await request.json()
+    if (typeof apiKey !== 'string' || !apiKey.trim()) {
+      return NextResponse.json({ error: 'API key is required' }, { status: 400 })
+    }
+
+    await apiKeyService.setClaudeAPIKey(user.id, user.email!, apiKey.trim())
+    console.log(`🔐 Stored encrypted Claude API key for user ${user.id}`)
+
+    return NextResponse.json(await apiKeyService.getClaudeAPIKeyStatus(user.id))
+  } catch (error) {
+    console.error('❌ Error storing Claude API key:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to store API key' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove the current user's stored Claude API key
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    await apiKeyService.clearClaudeAPIKey(user.id)
+    return NextResponse.json({ hasKey: false, maskedKey: null })
+  } catch (error) {
+    console.error('❌ Error clearing Claude API key:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to clear API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { createRouteHandlerClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { RSSSourceManager } from '@/lib/supabase/database'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+import { canEditWorkspace } from '@/lib/workspaces'
 import type { CreateRSSSource } from '@/lib/types'
 
 // GET /api/companies/:id/rss-sources - Fetch all RSS sources for company
@@ -32,12 +34,11 @@ export async function GET(
       return NextResponse.json({ sources: [] }, { status: 200 })
     }
 
-    // Verify company belongs to user
+    // Verify the company is in one of the user's workspaces (RLS only returns those)
     const { data: company, error: companyError } = await supabase
       .from('companies')
       .select('id')
       .eq('id', params.id)
-      .eq('user_id', user.id)
       .single()
     
     console.log('[RSS Sources API] Company check:', { company, companyError })
@@ -51,6 +52,17 @@ export async function GET(
       const rssSourceManager = new RSSSourceManager(supabase)
       const sources = await rssSourceManager.getRSSSourcesByCompany(params.id)
       console.log('[RSS Sources API] Found sources:', sources.length)
+
+      // Attach recent fetch history for the health sparkline; sources still load without it
+      try {
+        const attempts = await rssSourceManager.getRecentFetchAttempts(sources.map(s => s.id))
+        for (const source of sources) {
+          source.recentAttempts = attempts[source.id] || []
+        }
+      } catch (historyError) {
+        console.warn('[RSS Sources API] Failed to load fetch history:', historyError)
+      }
+
       return NextResponse.json({ sources })
     } catch (dbError) {
       console.error('[RSS Sources API] Database error:', dbError)
@@ -87,18 +99,21 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized - please log in' }, { status: 401 })
     }
 
-    // Verify company belongs to user
+    // Verify the company is in one of the user's workspaces (RLS only returns those)
     const { data: company, error: companyError } = await supabase
       .from('companies')
-      .select('id')
+      .select('id, workspace_id')
       .eq('id', params.id)
-      .eq('user_id', user.id)
       .single()
 
     if (companyError || !company) {
       return NextResponse.json({ error: 'Company not found or access denied' }, { status: 404 })
     }
 
+    if (!canEditWorkspace(await workspaceService.getRole(user.id, company.workspace_id))) {
+      return NextResponse.json({ error: 'Only workspace owners and editors can add RSS sources' }, { status: 403 })
+    }
+
     // Parse request body
     const body = await request.json()
     const { feedUrl, feedName, feedType, enabled }: CreateRSSSource = body
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { cronGET, isAuthorizedCron } from '@/lib/cron-auth'
 import { createClient } from '@supabase/supabase-js'
 import { pressReleasesService } from '@/lib/supabase/press-releases-service'
+import { feedHealthService } from '@/lib/supabase/feed-health-service'
 
 // Use service role key for cron jobs
 const supabaseAdmin = createClient(
@@ -9,8 +11,9 @@ const supabaseAdmin = createClient(
 )
 
 interface CleanupResult {
-  totalUsers: number
+  totalWorkspaces: number
   totalReleasesCleaned: number
+  fetchAttemptsPruned: number
   errors: string[]
   startTime: string
   endTime: string
@@ -18,7 +21,8 @@ interface CleanupResult {
 }
 
 /**
- * Cleanup endpoint to remove old press releases (30+ days)
+ * Cleanup endpoint to remove old press releases (30+ days) and RSS fetch attempts
+ * that have fallen out of each source's health window
  * Should be called daily
  */
 export async function POST(request: NextRequest) {
@@ -28,11 +32,7 @@ export async function POST(request: NextRequest) {
   console.log('🧹 Starting cleanup job: removing old press releases')
   
   try {
-    // Verify cron authorization
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET || 'development-secret'
-    
-    if (authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCron(request)) {
       console.error('❌ Unauthorized cleanup attempt')
       return NextResponse.json(
         { error: 'Unauthorized' }, 
@@ -40,42 +40,52 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Get all users
-    const { data: users, error: usersError } = await supabaseAdmin
-      .from('user_profiles')
+    // Get all workspaces
+    const { data: workspaces, error: workspacesError } = await supabaseAdmin
+      .from('workspaces')
       .select('id')
     
-    if (usersError) {
-      throw new Error(`Failed to get users: ${usersError.message}`)
+    if (workspacesError) {
+      throw new Error(`Failed to get workspaces: ${workspacesError.message}`)
     }
     
-    console.log(`📋 Found ${users?.length || 0} users to clean up`)
+    console.log(`📋 Found ${workspaces?.length || 0} workspaces to clean up`)
     
     const result: CleanupResult = {
-      totalUsers: users?.length || 0,
+      totalWorkspaces: workspaces?.length || 0,
       totalReleasesCleaned: 0,
+      fetchAttemptsPruned: 0,
       errors: [],
       startTime,
       endTime: '',
       duration: 0
     }
     
-    // Clean up old releases for each user
-    for (const user of users || []) {
+    // Clean up old releases for each workspace
+    for (const workspace of workspaces || []) {
       try {
-        console.log(`🧹 Cleaning up releases for user: ${user.id}`)
+        console.log(`🧹 Cleaning up releases for workspace: ${workspace.id}`)
         
-        const cleanedCount = await pressReleasesService.cleanupOldReleases(user.id)
+        const cleanedCount = await pressReleasesService.cleanupOldReleases(workspace.id)
         result.totalReleasesCleaned += cleanedCount
         
-        console.log(`✅ Cleaned ${cleanedCount} releases for user ${user.id}`)
+        console.log(`✅ Cleaned ${cleanedCount} releases for workspace ${workspace.id}`)
         
       } catch (error) {
-        console.error(`💥 Error cleaning up for user ${user.id}:`, error)
-        result.errors.push(`User ${user.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        console.error(`💥 Error cleaning up for workspace ${workspace.id}:`, error)
+        result.errors.push(`Workspace ${workspace.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
     }
     
+    // Polling adds an attempt per source every run, so keep only the health window
+    try {
+      result.fetchAttemptsPruned = await feedHealthService.pruneAttempts()
+      console.log(`✅ Pruned ${result.fetchAttemptsPruned} RSS fetch attempts`)
+    } catch (error) {
+      console.error('💥 Error pruning RSS fetch attempts:', error)
+      result.errors.push(`Fetch attempts: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+    
     const endTime = new Date().toISOString()
     const duration = Date.now() - startTimestamp
     
@@ -101,8 +111,9 @@ export async function POST(request: NextRequest) {
         error: 'Cleanup job failed',
         details: error instanceof Error ? error.message : 'Unknown error',
         result: {
-          totalUsers: 0,
+          totalWorkspaces: 0,
           totalReleasesCleaned: 0,
+          fetchAttemptsPruned: 0,
           errors: [error instanceof Error ? error.message : 'Unknown error'],
           startTime,
           endTime,
@@ -114,13 +125,4 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Health check endpoint
- */
-export async function GET() {
-  return NextResponse.json({
-    message: 'Cleanup endpoint is healthy',
-    timestamp: new Date().toISOString(),
-    env: process.env.NODE_ENV
-  })
-} 
\ No newline at end of file
+export const GET = cronGET(POST, 'Cleanup endpoint is healthy')
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronGET, isAuthorizedCron } from '@/lib/cron-auth'
+import { alertService } from '@/lib/supabase/alert-service'
+
+/**
+ * Cron endpoint to send alerts that are due
+ * Polling sends alerts right away; this picks up ones held for quiet hours and retries of
+ * failed webhook and email deliveries. Should be called every few minutes.
+ */
+export async function POST(request: NextRequest) {
+  const startTimestamp = Date.now()
+
+  console.log('🔔 Starting cron job: alert deliveries')
+
+  try {
+    if (!isAuthorizedCron(request)) {
+      console.error('❌ Unauthorized alert delivery attempt')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await alertService.deliverDue()
+    const duration = Date.now() - startTimestamp
+
+    console.log(`🎉 Alert delivery run completed in ${duration}ms`)
+
+    return NextResponse.json({
+      message: 'Alert deliveries processed',
+      result: { ...result, duration }
+    })
+
+  } catch (error) {
+    console.error('💥 Alert delivery run failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Alert delivery run failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = cronGET(POST, 'Alert delivery endpoint is healthy')
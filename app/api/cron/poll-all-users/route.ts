@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { cronGET, isAuthorizedCron } from '@/lib/cron-auth'
 import { createClient } from '@supabase/supabase-js'
+import { adminPressReleasesService } from '@/lib/supabase/press-releases-service'
+import { getFeedsForCompanies } from '@/lib/rss-sources'
+import { fetchFeedConditional, type FeedValidators } from '@/lib/feed-fetcher'
+import type { ParsedFeed } from '@/lib/feed-parser'
+import { feedItemsForUrl, processRSSFeed, type RSSItem } from '@/lib/rss-to-stored-release'
+import { CompanyMatcher } from '@/lib/company-matcher'
+import { feedHealthService, failedAttempt } from '@/lib/supabase/feed-health-service'
+import { extractedContentService, isPollExtractionEnabled } from '@/lib/supabase/extracted-content-service'
+import { aiAnalysisQueueService, isPollAnalysisEnabled } from '@/lib/supabase/ai-analysis-queue-service'
+import { alertService } from '@/lib/supabase/alert-service'
+import type { CreateStoredPressRelease } from '@/lib/types'
 
 // Use service role key for cron jobs (server-to-server)
 const supabaseAdmin = createClient(
@@ -7,61 +19,127 @@ const supabaseAdmin = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
+// How many distinct feeds are downloaded at the same time
+const FEED_FETCH_CONCURRENCY = 5
+
 interface CronResult {
-  totalUsers: number
+  totalWorkspaces: number
   successfulPolls: number
   failedPolls: number
+  feedsFetched: number
+  feedsNotModified: number
+  feedsFailed: number
+  totalNew: number
+  totalDuplicates: number
   errors: string[]
   startTime: string
   endTime: string
   duration: number
 }
 
+interface CronCompany {
+  id: string
+  user_id: string
+  workspace_id: string
+  name: string
+  variations: string[] | null
+  negative_keywords: string[] | null
+}
+
+interface CronRSSSource {
+  id: string
+  company_id: string
+  user_id: string
+  feed_url: string
+  feed_name: string
+  etag: string | null
+  last_modified: string | null
+  content_hash: string | null
+}
+
+/**
+ * A feed URL fetched once per cron run, shared by every workspace that needs it
+ */
+interface SharedFeed {
+  url: string
+  displayName: string
+  // General feeds are matched against every workspace's companies
+  isGeneral: boolean
+  // Company feeds (rss_sources rows) deliver every item to the subscribing company
+  sources: CronRSSSource[]
+  // Validators this cron saved for a general feed, from general_feed_state
+  generalState?: FeedValidators
+}
+
+interface GeneralFeedStateRow {
+  feed_url: string
+  etag: string | null
+  last_modified: string | null
+  content_hash: string | null
+}
+
+interface ReleaseBatch {
+  userId: string // Member who added the company; their poll log and API key are used
+  workspaceId: string
+  companyId: string
+  releases: CreateStoredPressRelease[]
+  feedUrls: Set<string> // Feeds the releases came from, whose validators wait on this batch
+}
+
+type SharedFeedOutcome =
+  | { status: 'fetched'; parsed: ParsedFeed; validators: FeedValidators }
+  | { status: 'not-modified'; validators: FeedValidators }
+  | { status: 'failed'; error: string }
+
 /**
- * Cron endpoint to poll RSS feeds for all users
- * This should be called every 15-30 minutes by your cron service
+ * Cron endpoint to poll RSS feeds for all workspaces
+ * This should be called every 15-30 minutes by your cron service.
+ * Each distinct feed URL is fetched once per run and its items are fanned out to
+ * every subscribed workspace/company.
  */
 export async function POST(request: NextRequest) {
   const startTime = new Date().toISOString()
   const startTimestamp = Date.now()
-  
+
   console.log('🕐 Starting cron job: RSS polling for all users')
-  
+
   try {
-    // Verify cron authorization (simple approach)
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET || 'development-secret'
-    
-    if (authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCron(request)) {
       console.error('❌ Unauthorized cron attempt')
       return NextResponse.json(
-        { error: 'Unauthorized' }, 
+        { error: 'Unauthorized' },
         { status: 401 }
       )
     }
-    
-    // Get all users who have companies (UUID user_id)
-    const { data: users, error: usersError } = await supabaseAdmin
+
+    // Get every workspace's companies
+    const { data: companiesData, error: companiesError } = await supabaseAdmin
       .from('companies')
-      .select('user_id')
-      .not('user_id', 'is', null)
-    
-    if (usersError) {
-      throw new Error(`Failed to get users: ${usersError.message}`)
-    }
-    
-    // Get unique user IDs
-    const uniqueUserIds = [...new Set(users?.map((u: any) => u.user_id) || [])]
-    console.log(`📋 Found ${uniqueUserIds.length} users with companies`)
-    
-    if (uniqueUserIds.length === 0) {
-      console.log('⚠️ No users with companies found')
+      .select('id, user_id, workspace_id, name, variations, negative_keywords')
+
+    if (companiesError) {
+      throw new Error(`Failed to get companies: ${companiesError.message}`)
+    }
+
+    const companies: CronCompany[] = companiesData || []
+
+    // Get unique workspace IDs
+    const uniqueWorkspaceIds = [...new Set(companies.map((c) => c.workspace_id))]
+    console.log(`📋 Found ${uniqueWorkspaceIds.length} workspaces with companies`)
+
+    if (uniqueWorkspaceIds.length === 0) {
+      console.log('⚠️ No workspaces with companies found')
       return NextResponse.json({
-        message: 'No users with companies found',
+        message: 'No workspaces with companies found',
         result: {
-          totalUsers: 0,
+          totalWorkspaces: 0,
           successfulPolls: 0,
           failedPolls: 0,
+          feedsFetched: 0,
+          feedsNotModified: 0,
+          feedsFailed: 0,
+          totalNew: 0,
+          totalDuplicates: 0,
           errors: [],
           startTime,
           endTime: new Date().toISOString(),
@@ -69,100 +147,413 @@ export async function POST(request: NextRequest) {
         }
       })
     }
-    
+
     const result: CronResult = {
-      totalUsers: uniqueUserIds.length,
+      totalWorkspaces: uniqueWorkspaceIds.length,
       successfulPolls: 0,
       failedPolls: 0,
+      feedsFetched: 0,
+      feedsNotModified: 0,
+      feedsFailed: 0,
+      totalNew: 0,
+      totalDuplicates: 0,
       errors: [],
       startTime,
       endTime: '',
       duration: 0
     }
-    
-    // Poll RSS for each user
-    for (const userId of uniqueUserIds) {
-      try {
-        console.log(`🔄 Polling RSS for user: ${userId}`)
-        
-        // Call the poll-rss endpoint for this user
-        const pollResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3006'}/api/poll-rss`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cronSecret}`, // Internal auth
-            'X-User-ID': String(userId), // Pass user ID in header for cron context
-          },
-          body: JSON.stringify({ forceRefresh: false })
-        })
-        
-        if (pollResponse.ok) {
-          const pollResult = await pollResponse.json()
-          console.log(`✅ Successfully polled for user ${userId}: ${pollResult.summary?.totalNew || 0} new releases`)
-          result.successfulPolls++
+
+    const { data: sourcesData, error: sourcesError } = await supabaseAdmin
+      .from('rss_sources')
+      .select('id, company_id, user_id, feed_url, feed_name, etag, last_modified, content_hash')
+      .eq('enabled', true)
+
+    if (sourcesError) {
+      // General feeds can still be polled without company sources
+      console.warn('⚠️ Failed to load RSS sources:', sourcesError.message)
+    }
+
+    const sharedFeeds = buildSharedFeeds(companies, sourcesData || [])
+    await loadGeneralFeedState(sharedFeeds)
+    console.log(`📡 ${sharedFeeds.length} distinct feeds to fetch`)
+
+    // Fetch each feed once, a few at a time
+    const fetchedFeeds: Array<{ feed: SharedFeed; parsed: ParsedFeed }> = []
+    const fetchStates: Array<{ feed: SharedFeed; validators: FeedValidators; changed: boolean }> = []
+    for (let i = 0; i < sharedFeeds.length; i += FEED_FETCH_CONCURRENCY) {
+      const chunk = sharedFeeds.slice(i, i + FEED_FETCH_CONCURRENCY)
+      const outcomes = await Promise.all(chunk.map((feed) => fetchSharedFeed(feed)))
+
+      outcomes.forEach((outcome, index) => {
+        const feed = chunk[index]
+        if (outcome.status === 'fetched') {
+          result.feedsFetched++
+          fetchedFeeds.push({ feed, parsed: outcome.parsed })
+          fetchStates.push({ feed, validators: outcome.validators, changed: true })
+        } else if (outcome.status === 'not-modified') {
+          result.feedsNotModified++
+          fetchStates.push({ feed, validators: outcome.validators, changed: false })
         } else {
-          const errorText = await pollResponse.text()
-          console.error(`❌ Failed to poll for user ${userId}: ${pollResponse.status} ${errorText}`)
-          result.failedPolls++
-          result.errors.push(`User ${userId}: ${pollResponse.status} ${errorText}`)
+          result.feedsFailed++
+          result.errors.push(`Feed ${feed.displayName}: ${outcome.error}`)
+        }
+      })
+    }
+
+    console.log(`📥 Feeds: ${result.feedsFetched} fetched, ${result.feedsNotModified} not modified, ${result.feedsFailed} failed`)
+
+    // Fan parsed items out to every subscribed workspace/company
+    const batches = fanOutFeedItems(fetchedFeeds, companies)
+    const failedWorkspaces = new Set<string>()
+    const unstoredFeedUrls = new Set<string>()
+
+    for (const batch of batches) {
+      try {
+        const { created, duplicates, failed } = await storeReleaseBatch(batch)
+        result.totalNew += created
+        result.totalDuplicates += duplicates
+        if (failed > 0) {
+          batch.feedUrls.forEach((url) => unstoredFeedUrls.add(url))
+          result.errors.push(`Workspace ${batch.workspaceId}: ${failed} releases failed to store`)
         }
-        
-        // Add delay between users to be respectful
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        
       } catch (error) {
-        console.error(`💥 Error polling for user ${userId}:`, error)
-        result.failedPolls++
-        result.errors.push(`User ${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        console.error(`💥 Error storing releases for workspace ${batch.workspaceId}:`, error)
+        failedWorkspaces.add(batch.workspaceId)
+        batch.feedUrls.forEach((url) => unstoredFeedUrls.add(url))
+        result.errors.push(`Workspace ${batch.workspaceId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
     }
-    
+
+    // Validators are saved only for feeds whose items were all stored, so the rest are refetched next run
+    for (const { feed, validators, changed } of fetchStates) {
+      if (!unstoredFeedUrls.has(feed.url)) {
+        await saveSharedFetchState(feed, validators, changed)
+      }
+    }
+
+    result.failedPolls = failedWorkspaces.size
+    result.successfulPolls = uniqueWorkspaceIds.length - failedWorkspaces.size
+
     const endTime = new Date().toISOString()
     const duration = Date.now() - startTimestamp
-    
+
     result.endTime = endTime
     result.duration = duration
-    
+
     console.log(`🎉 Cron job completed in ${duration}ms`)
-    console.log(`📊 Results: ${result.successfulPolls} successful, ${result.failedPolls} failed`)
-    
+    console.log(`📊 Results: ${result.successfulPolls} successful, ${result.failedPolls} failed, ${result.totalNew} new releases`)
+
     return NextResponse.json({
       message: 'Cron job completed',
       result
     })
-    
+
   } catch (error) {
     const endTime = new Date().toISOString()
     const duration = Date.now() - startTimestamp
-    
+
     console.error('💥 Cron job failed:', error)
-    
+
     return NextResponse.json(
-      { 
+      {
         error: 'Cron job failed',
         details: error instanceof Error ? error.message : 'Unknown error',
         result: {
-          totalUsers: 0,
+          totalWorkspaces: 0,
           successfulPolls: 0,
           failedPolls: 1,
+          feedsFetched: 0,
+          feedsNotModified: 0,
+          feedsFailed: 0,
+          totalNew: 0,
+          totalDuplicates: 0,
           errors: [error instanceof Error ? error.message : 'Unknown error'],
           startTime,
           endTime,
           duration
         }
-      }, 
+      },
       { status: 500 }
     )
   }
 }
 
 /**
- * Health check endpoint
+ * Build the deduplicated set of feed URLs across the general feeds and all workspaces' RSS sources
+ */
+function buildSharedFeeds(companies: CronCompany[], sources: CronRSSSource[]): SharedFeed[] {
+  const feeds = new Map<string, SharedFeed>()
+
+  for (const general of getFeedsForCompanies(companies.map((c) => c.name))) {
+    feeds.set(general.url, { url: general.url, displayName: general.displayName, isGeneral: true, sources: [] })
+  }
+
+  for (const source of sources) {
+    const url = source.feed_url.trim()
+    const existing = feeds.get(url)
+    if (existing) {
+      existing.sources.push(source)
+    } else {
+      feeds.set(url, { url, displayName: source.feed_name, isGeneral: false, sources: [source] })
+    }
+  }
+
+  return Array.from(feeds.values())
+}
+
+/**
+ * Attach the validators this cron saved for its general feeds. The cron keeps its own, rather than
+ * the in-process cache /api/fetch-releases refreshes, so a dashboard fetch can't make it skip items
+ * it never stored. Without them a general feed is downloaded in full.
+ */
+async function loadGeneralFeedState(feeds: SharedFeed[]): Promise<void> {
+  const generalFeeds = feeds.filter((feed) => feed.isGeneral && feed.sources.length === 0)
+  if (generalFeeds.length === 0) return
+
+  const { data, error } = await supabaseAdmin
+    .from('general_feed_state')
+    .select('feed_url, etag, last_modified, content_hash')
+    .in('feed_url', generalFeeds.map((feed) => feed.url))
+
+  if (error) {
+    console.warn('⚠️ Failed to load general feed state:', error.message)
+    return
+  }
+
+  const rows = new Map(((data || []) as GeneralFeedStateRow[]).map((row) => [row.feed_url, row]))
+  for (const feed of generalFeeds) {
+    const row = rows.get(feed.url)
+    if (row) {
+      feed.generalState = { etag: row.etag, lastModified: row.last_modified, contentHash: row.content_hash }
+    }
+  }
+}
+
+/**
+ * Validators are only safe to send when every subscribing row has seen the same content,
+ * otherwise a newly added source would get a 304 and never receive the current items
  */
-export async function GET() {
-  return NextResponse.json({
-    message: 'Cron endpoint is healthy',
-    timestamp: new Date().toISOString(),
-    env: process.env.NODE_ENV
+function sharedValidators(sources: CronRSSSource[]): FeedValidators {
+  const [first] = sources
+  if (!first || !first.content_hash) return {}
+  if (sources.some((s) => s.content_hash !== first.content_hash)) return {}
+
+  return { etag: first.etag, lastModified: first.last_modified, contentHash: first.content_hash }
+}
+
+/**
+ * Fetch a shared feed once. The new validators are returned rather than saved, so they are
+ * only written after the feed's items have been stored.
+ */
+async function fetchSharedFeed(feed: SharedFeed): Promise<SharedFeedOutcome> {
+  const sourceIds = feed.sources.map((s) => s.id)
+  const attemptStart = Date.now()
+
+  try {
+    // General feeds have no rss_sources row, so they use the cron's own saved validators. Those are
+    // only written once the feed's items are stored, so not modified means there is nothing to fan out.
+    if (feed.sources.length === 0) {
+      const result = await fetchFeedConditional(feed.url, feed.generalState || {})
+      console.log(`📡 ${feed.displayName}: ${result.notModified ? `not modified (${result.reason})` : `${result.feed.items.length} items`}`)
+      return result.notModified
+        ? { status: 'not-modified', validators: result.validators }
+        : { status: 'fetched', parsed: result.feed, validators: result.validators }
+    }
+
+    const result = await fetchFeedConditional(feed.url, sharedValidators(feed.sources))
+
+    await feedHealthService.recordAttempt(sourceIds, {
+      status: result.notModified ? 'not-modified' : 'success',
+      httpStatus: result.httpStatus,
+      latencyMs: Date.now() - attemptStart,
+      itemCount: result.notModified ? 0 : result.feed.items.length,
+      bytes: result.bytes,
+    })
+
+    if (result.notModified) {
+      console.log(`♻️ ${feed.displayName}: not modified (${result.reason}), shared by ${feed.sources.length} sources`)
+      return { status: 'not-modified', validators: result.validators }
+    }
+
+    console.log(`📡 ${feed.displayName} (${result.feed.format}): ${result.feed.items.length} items, shared by ${feed.sources.length} sources`)
+    return { status: 'fetched', parsed: result.feed, validators: result.validators }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`❌ ${feed.displayName} failed:`, message)
+    await feedHealthService.recordAttempt(sourceIds, failedAttempt(error, Date.now() - attemptStart))
+    return { status: 'failed', error: message }
+  }
+}
+
+/**
+ * Record a shared feed's validators on every subscribing RSS source, or in general_feed_state
+ * for a general feed. A failed write only costs a full download next run, so it is logged and ignored
+ */
+async function saveSharedFetchState(feed: SharedFeed, validators: FeedValidators, changed: boolean): Promise<void> {
+  const now = new Date().toISOString()
+
+  if (feed.sources.length === 0) {
+    const { error } = await supabaseAdmin
+      .from('general_feed_state')
+      .upsert({
+        feed_url: feed.url,
+        etag: validators.etag || null,
+        last_modified: validators.lastModified || null,
+        content_hash: validators.contentHash || null,
+        ...(changed ? { last_changed_at: now } : {}),
+        updated_at: now,
+      }, { onConflict: 'feed_url' })
+
+    if (error) {
+      console.warn(`⚠️ Failed to save general feed state for ${feed.displayName}:`, error.message)
+    }
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('rss_sources')
+    .update({
+      etag: validators.etag || null,
+      last_modified: validators.lastModified || null,
+      content_hash: validators.contentHash || null,
+      ...(changed ? { last_changed_at: now } : {}),
+    })
+    .in('id', feed.sources.map((s) => s.id))
+
+  if (error) {
+    console.warn(`⚠️ Failed to save fetch state for ${feed.displayName}:`, error.message)
+  }
+}
+
+/**
+ * Turn fetched feeds into per company release batches, one per company whichever member
+ * added it. Company feed items go to their subscribing company; general feed items only go to
+ * companies the matcher finds in them.
+ */
+function fanOutFeedItems(
+  fetchedFeeds: Array<{ feed: SharedFeed; parsed: ParsedFeed }>,
+  companies: CronCompany[]
+): ReleaseBatch[] {
+  const companiesById = new Map(companies.map((c) => [c.id, c]))
+  const batches = new Map<string, ReleaseBatch>()
+  const addReleases = (companyId: string, items: RSSItem[], feedUrl: string) => {
+    const company = companiesById.get(companyId)
+    if (items.length === 0 || !company) return
+
+    const batch = batches.get(companyId) || {
+      userId: company.user_id,
+      workspaceId: company.workspace_id,
+      companyId,
+      releases: [],
+      feedUrls: new Set<string>(),
+    }
+    batch.releases.push(...processRSSFeed(items, companyId, feedUrl).validReleases)
+    batch.feedUrls.add(feedUrl)
+    batches.set(companyId, batch)
+  }
+
+  // One matcher per workspace, built lazily from that workspace's companies
+  const matchers = new Map<string, CompanyMatcher>()
+  const matcherFor = (workspaceId: string) => {
+    let matcher = matchers.get(workspaceId)
+    if (!matcher) {
+      matcher = new CompanyMatcher(
+        companies
+          .filter((c) => c.workspace_id === workspaceId)
+          .map((c) => ({
+            id: c.id,
+            name: c.name,
+            variations: c.variations || [],
+            negativeKeywords: c.negative_keywords || [],
+          }))
+      )
+      matchers.set(workspaceId, matcher)
+    }
+    return matcher
+  }
+
+  const workspaceIds = [...new Set(companies.map((c) => c.workspace_id))]
+
+  for (const { feed, parsed } of fetchedFeeds) {
+    const items = feedItemsForUrl(parsed, feed.url)
+
+    for (const source of feed.sources) {
+      addReleases(source.company_id, items, feed.url)
+    }
+
+    if (!feed.isGeneral) continue
+
+    for (const workspaceId of workspaceIds) {
+      const itemsByCompany = new Map<string, RSSItem[]>()
+
+      for (const item of items) {
+        for (const match of matcherFor(workspaceId).match(item.title, item.description)) {
+          if (!match.companyId) continue
+          itemsByCompany.set(match.companyId, [...(itemsByCompany.get(match.companyId) || []), item])
+        }
+      }
+
+      itemsByCompany.forEach((companyItems, companyId) => addReleases(companyId, companyItems, feed.url))
+    }
+  }
+
+  return Array.from(batches.values())
+}
+
+/**
+ * Store one company batch through the admin service, recording a poll log like /api/poll-rss does
+ */
+async function storeReleaseBatch(batch: ReleaseBatch): Promise<{ created: number; duplicates: number; failed: number }> {
+  const pollStartedAt = new Date().toISOString()
+  const pollLog = await adminPressReleasesService.adminCreatePollLog(batch.userId, {
+    companyId: batch.companyId,
+    pollStartedAt,
+    status: 'running'
   })
-} 
\ No newline at end of file
+
+  try {
+    const { created, duplicates, failed } = await adminPressReleasesService.adminBatchCreatePressReleases(
+      batch.userId,
+      batch.releases
+    )
+
+    if (pollLog) {
+      await adminPressReleasesService.adminUpdatePollLog(pollLog.id, {
+        status: 'success',
+        pollCompletedAt: new Date().toISOString(),
+        releasesFound: batch.releases.length,
+        releasesNew: created,
+        releasesDuplicate: duplicates
+      })
+    }
+
+    // Optionally fetch full article bodies now rather than on first view
+    if (isPollExtractionEnabled()) {
+      await extractedContentService.extractPendingContent(batch.workspaceId, batch.companyId)
+    }
+
+    // Optionally queue new releases for the process-analysis-queue cron
+    if (isPollAnalysisEnabled()) {
+      await aiAnalysisQueueService.enqueuePendingReleases(batch.userId, batch.companyId)
+    }
+
+    // Alert on new releases that match the workspace members' alert rules
+    if (created > 0) {
+      await alertService.evaluateNewReleases(batch.workspaceId, batch.companyId, pollStartedAt)
+    }
+
+    return { created, duplicates, failed }
+  } catch (error) {
+    if (pollLog) {
+      await adminPressReleasesService.adminUpdatePollLog(pollLog.id, {
+        status: 'error',
+        pollCompletedAt: new Date().toISOString(),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        errorDetails: error instanceof Error ? { stack: error.stack } : { error }
+      })
+    }
+    throw error
+  }
+}
+
+export const GET = cronGET(POST, 'Cron endpoint is healthy')
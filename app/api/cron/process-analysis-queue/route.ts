@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronGET, isAuthorizedCron } from '@/lib/cron-auth'
+import { aiAnalysisQueueService } from '@/lib/supabase/ai-analysis-queue-service'
+
+/**
+ * Cron endpoint to work through the background AI analysis queue
+ * Jobs are queued by RSS polling when ANALYZE_ON_POLL is enabled. Should be called
+ * every few minutes so retries with backoff are picked up close to when they're due.
+ */
+export async function POST(request: NextRequest) {
+  const startTimestamp = Date.now()
+
+  console.log('🧠 Starting cron job: AI analysis queue')
+
+  try {
+    if (!isAuthorizedCron(request)) {
+      console.error('❌ Unauthorized analysis queue attempt')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await aiAnalysisQueueService.processQueue()
+    const duration = Date.now() - startTimestamp
+
+    console.log(`🎉 AI analysis queue run completed in ${duration}ms`)
+
+    return NextResponse.json({
+      message: 'AI analysis queue processed',
+      result: { ...result, duration }
+    })
+
+  } catch (error) {
+    console.error('💥 AI analysis queue run failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'AI analysis queue run failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = cronGET(POST, 'AI analysis queue endpoint is healthy')
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronGET, isAuthorizedCron } from '@/lib/cron-auth'
+import { digestService } from '@/lib/supabase/digest-service'
+
+/**
+ * Cron endpoint to send scheduled digests
+ * Sends each user's digest once their local send hour has passed on a scheduled day. Runs
+ * alongside poll-all-users, so a digest covers what the latest poll stored.
+ */
+export async function POST(request: NextRequest) {
+  const startTimestamp = Date.now()
+
+  console.log('📰 Starting cron job: scheduled digests')
+
+  try {
+    if (!isAuthorizedCron(request)) {
+      console.error('❌ Unauthorized digest run attempt')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await digestService.sendDue()
+    const duration = Date.now() - startTimestamp
+
+    console.log(`🎉 Digest run completed in ${duration}ms`)
+
+    return NextResponse.json({
+      message: 'Digests processed',
+      result: { ...result, duration }
+    })
+
+  } catch (error) {
+    console.error('💥 Digest run failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Digest run failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = cronGET(POST, 'Digest endpoint is healthy')
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { digestService } from '@/lib/supabase/digest-service'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+
+/**
+ * Send the current user's digest for their active workspace now instead of waiting for the
+ * schedule. Responds with the digest, or null when nothing new was stored since the last one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { workspaceId } = await workspaceService.getActiveWorkspace(user.id)
+
+    console.log(`📰 Sending digest now for user ${user.id}`)
+    const digest = await digestService.sendNow(user.id, workspaceId)
+    return NextResponse.json({ digest })
+  } catch (error) {
+    console.error('❌ Error sending digest:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send digest' },
+      { status: 500 }
+    )
+  }
+}
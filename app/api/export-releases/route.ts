@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { mapDbToAIAnalysis } from '@/lib/supabase/ai-analysis-service'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+import { ReleaseTagManager, TopicTaxonomyManager } from '@/lib/supabase/database'
+import { extractFinancialFacts, matchesFinancialFactsFilter } from '@/lib/financial-facts'
+import { compileTaxonomy, detectTopics } from '@/lib/topic-detector'
+import { normalizeSearchQuery, searchDateRange } from '@/lib/release-search'
+import { sameTag } from '@/lib/release-annotations'
+import { stableRSSItemId } from '@/lib/rss-to-press-release'
+import {
+  describeExportView,
+  EXPORT_FORMATS,
+  exportFilename,
+  fromExportParams,
+  isExportFormat,
+  MAX_EXPORT_RELEASES,
+  renderExport,
+  type ExportedRelease,
+} from '@/lib/release-export'
+import type { FinancialFacts } from '@/lib/types'
+
+type StoredReleaseRow = Parameters<typeof mapDbToAIAnalysis>[0] & {
+  id: string
+  title: string
+  content: string | null
+  summary: string | null
+  source_url: string
+  published_at: string
+  company_id: string
+  financial_facts: FinancialFacts | null
+}
+
+// Newest stored releases looked at before the bookmark, tag, topic and deal filters narrow them down
+const MAX_SCANNED_RELEASES = 2000
+
+/**
+ * Export the stored releases of the active workspace that match an activity feed view
+ * Query parameters: format (csv, json, markdown or html), companyIds (comma separated), q,
+ * sinceDays or from/to (YYYY-MM-DD), topic (taxonomy id), bookmarked=1, tag, dealType, minAmount
+ * Syndicated copies of a story are left out like in the feed. The HTML digest is served inline
+ * so it opens in a tab for printing; the other formats download.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format')
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const filters = fromExportParams(searchParams)
+
+    const { workspaceId } = await workspaceService.getActiveWorkspace(user.id)
+    const { data: workspaceCompanies, error: companiesError } = await supabase
+      .from('companies')
+      .select('id, name')
+      .eq('workspace_id', workspaceId)
+
+    if (companiesError) {
+      console.error('Error fetching workspace companies:', companiesError)
+      return NextResponse.json(
+        { error: 'Failed to fetch companies' },
+        { status: 500 }
+      )
+    }
+
+    const companyMap = new Map((workspaceCompanies || []).map((c: { id: string; name: string }) => [c.id, c.name]))
+    const companyIds = filters.companyIds.length > 0
+      ? filters.companyIds.filter((id) => companyMap.has(id))
+      : Array.from(companyMap.keys())
+
+    console.log(`📤 Exporting ${format} for workspace ${workspaceId}`)
+
+    let rows: StoredReleaseRow[] = []
+    if (companyIds.length > 0) {
+      const { from, to } = searchDateRange({ ...filters, feedTypes: [] })
+      let query = supabase
+        .from('press_releases')
+        .select('*')
+        .in('company_id', companyIds)
+        .eq('is_deleted', false)
+        .is('cluster_id', null)
+        .order('published_at', { ascending: false })
+        .limit(MAX_SCANNED_RELEASES)
+
+      if (from) query = query.gte('published_at', from)
+      if (to) query = query.lte('published_at', to)
+      if (filters.query.trim()) {
+        query = query.textSearch('search_vector', normalizeSearchQuery(filters.query), { type: 'websearch', config: 'english' })
+      }
+
+      const { data, error: dbError } = await query
+      if (dbError) {
+        console.error('Database error:', dbError)
+        return NextResponse.json(
+          { error: 'Failed to fetch releases' },
+          { status: 500 }
+        )
+      }
+      rows = (data || []) as StoredReleaseRow[]
+    }
+
+    const taxonomies = await new TopicTaxonomyManager(supabase).getTaxonomies().catch((error) => {
+      console.warn('Failed to load topic taxonomies, exporting without categories:', error)
+      return []
+    })
+    const topic = taxonomies.find((taxonomy) => taxonomy.id === filters.topicTaxonomyId)
+    const compiledTaxonomies = taxonomies.map(compileTaxonomy)
+
+    let bookmarks = new Set<string>()
+    if (filters.bookmarkedOnly) {
+      const { data: bookmarkRows } = await supabase.from('bookmarks').select('press_release_id').eq('user_id', user.id)
+      bookmarks = new Set((bookmarkRows || []).map((row: { press_release_id: string }) => row.press_release_id))
+    }
+    const releaseTags = await new ReleaseTagManager(supabase).getTags().catch((error) => {
+      console.warn('Failed to load release tags, exporting without tags:', error)
+      return new Map<string, string[]>()
+    })
+
+    const releases: ExportedRelease[] = []
+    for (const row of rows) {
+      // Bookmarks and tags made on the live RSS copy are kept under its link-derived id
+      const ids = [row.id, stableRSSItemId(row.source_url)]
+      if (filters.bookmarkedOnly && !ids.some((id) => bookmarks.has(id))) continue
+
+      const tags = Array.from(new Set(ids.flatMap((id) => releaseTags.get(id) || [])))
+      if (filters.tag && !tags.some((tag) => sameTag(tag, filters.tag!))) continue
+
+      const content = row.content || row.summary || ''
+      const topicMatches = detectTopics(compiledTaxonomies, row.title, content)
+      if (filters.topicTaxonomyId && !topicMatches.some((match) => match.taxonomyId === filters.topicTaxonomyId)) continue
+
+      const facts = row.financial_facts || extractFinancialFacts(row.title, content, row.published_at)
+      if (!matchesFinancialFactsFilter(facts, filters)) continue
+
+      const analysis = mapDbToAIAnalysis(row)
+      releases.push({
+        id: row.id,
+        title: row.title,
+        company: companyMap.get(row.company_id) || 'Unknown Company',
+        publishedAt: row.published_at,
+        sourceUrl: row.source_url,
+        categories: Array.from(new Set(topicMatches.flatMap((match) => match.categories))),
+        tags,
+        summary: (row.summary || '').replace(/<[^>]*>/g, '').trim(),
+        aiSummary: analysis?.summary || undefined,
+        keyPoints: analysis?.keyPoints || [],
+      })
+      if (releases.length >= MAX_EXPORT_RELEASES) break
+    }
+
+    const generatedAt = new Date()
+    const view = describeExportView(filters, {
+      companies: filters.companyIds.length > 0 ? companyIds.map((id) => companyMap.get(id) || id) : undefined,
+      topic: topic?.name,
+    })
+    const body = renderExport(format, releases, { view, generatedAt })
+    const filename = exportFilename(format, generatedAt)
+
+    console.log(`✅ Exported ${releases.length} releases as ${format}`)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        // The digest opens in the browser on our origin, so nothing in it may run or load
+        ...(format === 'html' && { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'" }),
+      },
+    })
+  } catch (error) {
+    console.error('Error in export-releases:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,198 @@
+import { NextResponse } from "next/server"
+import { extractContentFromUrl, type ContentExtractionResult } from "@/lib/enhanced-content-extractor"
+import { resolveGoogleNewsUrl, type GoogleNewsResolution } from "@/lib/google-news-resolver"
+import { googleNewsMonitor } from "@/lib/google-news-monitor"
+import { createRouteHandlerClient } from "@/lib/supabase/server"
+import { extractedContentService, toCachedExtractionResult } from "@/lib/supabase/extracted-content-service"
+import { workspaceService } from "@/lib/supabase/workspace-service"
+
+interface GoogleNewsExtractionResponse extends ContentExtractionResult {
+  originalUrl: string
+  resolvedUrl: string
+  redirectChain: string[]
+  resolution: {
+    success: boolean
+    fromCache: boolean
+    method?: GoogleNewsResolution['method']
+    error?: string
+    time: number
+  }
+}
+
+interface BatchRequestBody {
+  urls?: unknown
+  options?: {
+    concurrency?: number
+    timeout?: number
+  }
+}
+
+const MAX_BATCH_SIZE = 20
+const DEFAULT_CONCURRENCY = 3
+const MAX_CONCURRENCY = 5
+const BATCH_DELAY = 1000 // Pause between batches to stay under Google's rate limits
+
+/**
+ * Resolve a Google News link and extract the publisher's article content
+ */
+async function extractGoogleNewsContent(url: string, timeout?: number): Promise<GoogleNewsExtractionResponse> {
+  const startTime = Date.now()
+  const resolution = await resolveGoogleNewsUrl(url, { timeout })
+
+  googleNewsMonitor.record({
+    type: "resolution",
+    url,
+    success: resolution.success,
+    duration: resolution.timing.total,
+    fromCache: resolution.fromCache,
+    error: resolution.error,
+  })
+
+  const resolutionInfo = {
+    success: resolution.success,
+    fromCache: resolution.fromCache,
+    method: resolution.method,
+    error: resolution.error,
+    time: resolution.timing.total,
+  }
+
+  if (!resolution.success) {
+    const total = Date.now() - startTime
+    googleNewsMonitor.record({ type: "extraction", url, success: false, duration: total, error: resolution.error })
+
+    return {
+      success: false,
+      content: "",
+      error: `Could not resolve Google News link: ${resolution.error}`,
+      originalUrl: url,
+      resolvedUrl: url,
+      redirectChain: [],
+      resolution: resolutionInfo,
+      timing: { total, extraction: 0 },
+    }
+  }
+
+  const extraction = await extractContentFromUrl(resolution.resolvedUrl, { timeout })
+  const total = Date.now() - startTime
+
+  googleNewsMonitor.record({
+    type: "extraction",
+    url,
+    success: extraction.success,
+    duration: total,
+    error: extraction.error,
+  })
+
+  return {
+    ...extraction,
+    originalUrl: url,
+    resolvedUrl: resolution.resolvedUrl,
+    redirectChain: resolution.redirectChain,
+    resolution: resolutionInfo,
+    timing: {
+      total,
+      extraction: extraction.timing?.extraction ?? total - resolution.timing.total,
+    },
+  }
+}
+
+function parseTimeout(value: unknown): number | undefined {
+  const timeout = Number(value)
+  return Number.isFinite(timeout) && timeout > 0 ? Math.min(timeout, 30000) : undefined
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const url = searchParams.get("url")
+
+  if (!url) {
+    return NextResponse.json(
+      {
+        success: false,
+        content: "",
+        error: "URL parameter is required",
+      },
+      { status: 400 },
+    )
+  }
+
+  // Stored releases keep the Google News link as their source URL, so the stored copy is keyed by it
+  const supabase = createRouteHandlerClient(request)
+  const { data: { user } } = await supabase.auth.getUser()
+  const workspaceId = user ? (await workspaceService.getActiveWorkspace(user.id)).workspaceId : null
+
+  if (workspaceId && searchParams.get("refresh") !== "true") {
+    const stored = await extractedContentService.getExtractedContent(workspaceId, url)
+    if (stored) {
+      console.log(`📋 Using stored extraction from ${stored.extractedAt}`)
+      return NextResponse.json({ ...toCachedExtractionResult(stored), originalUrl: url })
+    }
+  }
+
+  console.log(`📰 Extracting Google News content from: ${url.substring(0, 100)}`)
+
+  const result = await extractGoogleNewsContent(url, parseTimeout(searchParams.get("timeout")))
+
+  if (result.success) {
+    console.log(`✅ Google News extraction completed in ${result.timing?.total}ms`)
+    if (workspaceId) await extractedContentService.saveExtractedContent(workspaceId, url, result)
+  } else {
+    console.error(`❌ Google News extraction failed: ${result.error}`)
+  }
+
+  return NextResponse.json(result)
+}
+
+export async function POST(request: Request) {
+  let body: BatchRequestBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const urls = Array.isArray(body.urls)
+    ? body.urls.filter((u): u is string => typeof u === "string" && u.trim().length > 0)
+    : []
+
+  if (urls.length === 0) {
+    return NextResponse.json({ success: false, error: "urls must be a non-empty array of strings" }, { status: 400 })
+  }
+
+  if (urls.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { success: false, error: `A batch can contain at most ${MAX_BATCH_SIZE} URLs` },
+      { status: 400 },
+    )
+  }
+
+  const concurrency = Math.min(Math.max(1, Number(body.options?.concurrency) || DEFAULT_CONCURRENCY), MAX_CONCURRENCY)
+  const timeout = parseTimeout(body.options?.timeout)
+  const startTime = Date.now()
+
+  console.log(`📰 Extracting ${urls.length} Google News articles (concurrency ${concurrency})`)
+
+  const results: GoogleNewsExtractionResponse[] = []
+  for (let i = 0; i < urls.length; i += concurrency) {
+    const batch = urls.slice(i, i + concurrency)
+    results.push(...await Promise.all(batch.map(url => extractGoogleNewsContent(url, timeout))))
+
+    if (i + concurrency < urls.length) {
+      await new Promise(resolve => setTimeout(resolve, BATCH_DELAY))
+    }
+  }
+
+  const successful = results.filter(r => r.success).length
+  console.log(`✅ Google News batch completed: ${successful}/${urls.length} extracted in ${Date.now() - startTime}ms`)
+
+  return NextResponse.json({
+    success: successful > 0,
+    results,
+    summary: {
+      total: urls.length,
+      successful,
+      failed: urls.length - successful,
+      totalTime: Date.now() - startTime,
+    },
+  })
+}
@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server"
 import { getFeedsForCompanies, getFeedDisplayName } from "@/lib/rss-sources"
-import { detectFintechContent } from "@/lib/fintech-detector"
+import { compileTaxonomy, detectTopics, type CompiledTaxonomy } from "@/lib/topic-detector"
+import { FINTECH_TAXONOMY_TEMPLATE } from "@/lib/topic-templates"
+import { extractFinancialFacts } from "@/lib/financial-facts"
 import { createRouteHandlerClient } from '@/lib/supabase/server'
-import { RSSSourceManager } from '@/lib/supabase/database'
+import { RSSSourceManager, TopicTaxonomyManager } from '@/lib/supabase/database'
+import type { ParsedFeed } from "@/lib/feed-parser"
+import { fetchFeedCached } from "@/lib/feed-fetcher"
+import { CompanyMatcher, type MatchableCompany } from "@/lib/company-matcher"
+import type { CompanyMatchPosition, FinancialFacts } from "@/lib/types"
 
 interface RSSItem {
   title: string
@@ -13,13 +19,11 @@ interface RSSItem {
   companyMentions: string[]
   matchedCompany?: string
   relevanceScore?: number
+  companyMatches?: CompanyMatchPosition[]
   feedSource: string
   feedType: "ir-news" | "sec-filings" | "all-news" | "financial"
   sourceName: string
-  // Fintech detection fields
-  isFintech?: boolean
-  fintechCategories?: string[]
-  fintechRelevanceScore?: number
+  financialFacts?: FinancialFacts
 }
 
 interface FeedResult {
@@ -28,6 +32,7 @@ interface FeedResult {
   feedType: string
   sourceName: string
   success: boolean
+  notModified?: boolean
   items: RSSItem[]
   error?: string
 }
@@ -45,32 +50,10 @@ interface ParsedRSSData {
     duplicatesRemoved: number
     companyMatches: number
     feedsByType: Record<string, number>
+    feedsNotModified: number
   }
 }
 
-// Common company names and variations to look for
-const COMPANY_PATTERNS = [
-  // Private Equity
-  {
-    name: "Blackstone",
-    patterns: ["blackstone", "bx", "blackstone group", "blackstone inc", "blackstone real estate"],
-  },
-  { name: "Apollo", patterns: ["apollo", "apo", "apollo global", "apollo management", "apollo global management"] },
-  { name: "KKR", patterns: ["kkr", "kohlberg kravis roberts", "kkr & co"] },
-  { name: "Carlyle", patterns: ["carlyle", "carlyle group", "the carlyle group"] },
-
-  // Tech/FinTech
-  { name: "CAIS", patterns: ["cais", "cais group", "cais holdings"] },
-  { name: "Addepar", patterns: ["addepar"] },
-  { name: "Subscribe", patterns: ["subscribe technologies", "subscribe inc"] },
-
-  // Major Tech
-  { name: "Microsoft", patterns: ["microsoft", "msft"] },
-  { name: "Apple", patterns: ["apple", "aapl"] },
-  { name: "Google", patterns: ["google", "alphabet", "googl"] },
-  { name: "Amazon", patterns: ["amazon", "amzn"] },
-]
-
 // Common non-English words/patterns to filter out
 const NON_ENGLISH_PATTERNS = [
   // Spanish
@@ -118,107 +101,52 @@ function isEnglishContent(text: string): boolean {
   return nonEnglishMatches === 0 || englishMatches > nonEnglishMatches * 2
 }
 
-function extractCompanyMentions(text: string): string[] {
-  const mentions: string[] = []
-  const lowerText = text.toLowerCase()
-
-  for (const company of COMPANY_PATTERNS) {
-    for (const pattern of company.patterns) {
-      if (lowerText.includes(pattern)) {
-        if (!mentions.includes(company.name)) {
-          mentions.push(company.name)
-        }
-        break // Found this company, move to next
-      }
-    }
-  }
-
-  return mentions
-}
-
-function parseRSSXML(xmlText: string, feedSource: string, feedType: string, sourceName: string): RSSItem[] {
+/**
+ * Convert parsed feed entries (RSS, Atom or RDF) into RSS items with extracted financial facts.
+ * Company mentions are filled in later, once the user's companies are known.
+ */
+function buildRSSItems(feed: ParsedFeed, feedSource: string, feedType: string, sourceName: string): RSSItem[] {
   const items: RSSItem[] = []
 
-  try {
-    // Simple XML parsing - in production, consider using a proper XML parser
-    const itemMatches = xmlText.match(/<item>([\s\S]*?)<\/item>/g)
-
-    if (!itemMatches) {
-      return items
-    }
-
-    for (const itemXML of itemMatches) {
-      try {
-        // Extract title
-        const titleMatch =
-          itemXML.match(/<title><!\[CDATA\[(.*?)\]\]><\/title>/) || itemXML.match(/<title>(.*?)<\/title>/)
-        const title = titleMatch ? titleMatch[1].trim() : ""
-
-        // Extract description
-        const descMatch =
-          itemXML.match(/<description><!\[CDATA\[(.*?)\]\]><\/description>/) ||
-          itemXML.match(/<description>(.*?)<\/description>/)
-        const description = descMatch ? descMatch[1].trim() : ""
-
-        // Extract publication date
-        const pubDateMatch = itemXML.match(/<pubDate>(.*?)<\/pubDate>/)
-        const pubDate = pubDateMatch ? pubDateMatch[1].trim() : ""
-
-        // Extract link
-        const linkMatch = itemXML.match(/<link>(.*?)<\/link>/)
-        const link = linkMatch ? linkMatch[1].trim() : ""
-
-        // Extract GUID (for duplicate detection)
-        const guidMatch = itemXML.match(/<guid[^>]*>(.*?)<\/guid>/)
-        const guid = guidMatch ? guidMatch[1].trim() : ""
-
-        // Skip if missing essential data
-        if (!title || !link) {
-          continue
-        }
-
-        // Filter out non-English content for general feeds
-        const fullText = `${title} ${description}`
-        if (feedType === "all-news" && !isEnglishContent(fullText)) {
-          continue
-        }
-
-        // Extract company mentions from title and description
-        const companyMentions = extractCompanyMentions(fullText)
-
-
-
-        // Clean HTML from description for better processing
-        const cleanDescription = description.replace(/<[^>]*>/g, '').trim()
-
-        // Detect fintech content
-        const fintechDetection = detectFintechContent(title, cleanDescription)
+  for (const feedItem of feed.items) {
+    try {
+      const { title, link, pubDate } = feedItem
+      // Atom entries and content:encoded-only items may have no description
+      const description = feedItem.description || feedItem.content || ""
+      const guid = feedItem.guid || ""
 
-        const item: RSSItem = {
-          title,
-          description: cleanDescription,
-          pubDate,
-          link,
-          guid,
-          companyMentions,
-          feedSource,
-          feedType: feedType as "ir-news" | "sec-filings" | "all-news" | "financial",
-          sourceName,
-          // Add fintech detection results
-          isFintech: fintechDetection.isFintech,
-          fintechCategories: fintechDetection.categories,
-          fintechRelevanceScore: fintechDetection.relevanceScore
-        }
+      // Skip if missing essential data
+      if (!title || !link) {
+        continue
+      }
 
-        items.push(item)
-      } catch (error) {
-        console.warn("Error parsing RSS item:", error)
+      // Filter out non-English content for general feeds
+      const fullText = `${title} ${description}`
+      if (feedType === "all-news" && !isEnglishContent(fullText)) {
         continue
       }
+
+      // Clean HTML from description for better processing
+      const cleanDescription = description.replace(/<[^>]*>/g, '').trim()
+
+      const item: RSSItem = {
+        title,
+        description: cleanDescription,
+        pubDate,
+        link,
+        guid,
+        companyMentions: [],
+        feedSource,
+        feedType: feedType as "ir-news" | "sec-filings" | "all-news" | "financial",
+        sourceName,
+        financialFacts: extractFinancialFacts(title, cleanDescription, pubDate)
+      }
+
+      items.push(item)
+    } catch (error) {
+      console.warn("Error parsing RSS item:", error)
+      continue
     }
-  } catch (error) {
-    console.error("Error parsing RSS XML:", error)
-    throw new Error(`Failed to parse RSS XML from ${feedSource}`)
   }
 
   return items
@@ -233,32 +161,9 @@ async function fetchSingleFeed(feed: any): Promise<FeedResult> {
   try {
     console.log(`Fetching ${displayName}...`)
 
-    const response = await fetch(feed.url, {
-      headers: {
-        "User-Agent": "CIGNAL/1.0 (Competitive Intelligence Tool)",
-        Accept: "application/rss+xml, application/xml, text/xml",
-      },
-      redirect: "follow", // Follow redirects automatically
-      signal: AbortSignal.timeout(15000), // 15 second timeout per feed
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const xmlText = await response.text()
-
-    if (!xmlText || xmlText.trim().length === 0) {
-      throw new Error("Empty RSS feed received")
-    }
-
-    // Check if response is actually XML/RSS
-    if (!xmlText.includes("<rss") && !xmlText.includes("<feed")) {
-      throw new Error("Response is not a valid RSS/XML feed")
-    }
-
-    const items = parseRSSXML(xmlText, `${feed.sourceName}-${feed.type}`, feed.type, feed.sourceName)
-    console.log(`✅ ${displayName}: ${items.length} items`)
+    const { feed: feedDocument, notModified } = await fetchFeedCached(feed.url)
+    const items = buildRSSItems(feedDocument, `${feed.sourceName}-${feed.type}`, feed.type, feed.sourceName)
+    console.log(`✅ ${displayName}: ${items.length} items${notModified ? ' (not modified)' : ''}`)
 
     return {
       feedName: `${feed.sourceName}-${feed.type}`,
@@ -266,6 +171,7 @@ async function fetchSingleFeed(feed: any): Promise<FeedResult> {
       feedType: feed.type,
       sourceName: feed.sourceName,
       success: true,
+      notModified,
       items,
     }
   } catch (error) {
@@ -304,60 +210,32 @@ function removeDuplicates(items: RSSItem[]): { items: RSSItem[]; duplicatesRemov
 
 function calculateRelevanceScore(
   item: RSSItem,
-  userCompanies: Array<{ name: string; variations: string[] }>,
-): { score: number; matchedCompany: string | null } {
-  let maxScore = 0
-  let matchedCompany: string | null = null
+  userCompanies: MatchableCompany[],
+  matcher: CompanyMatcher,
+): { score: number; matchedCompany: string | null; companyMentions: string[]; positions: CompanyMatchPosition[] } {
+  const matches = matcher.match(item.title, item.description)
+  const companyMentions = matches.map((m) => m.companyName)
 
   // IR feeds get automatic high relevance for their company
   if (item.feedType === "ir-news" || item.feedType === "sec-filings") {
     const companyFromSource = userCompanies.find((c) => c.name.toLowerCase() === item.sourceName.toLowerCase())
     if (companyFromSource) {
-      return { score: 200, matchedCompany: companyFromSource.name }
-    }
-  }
-
-  for (const company of userCompanies) {
-    let companyScore = 0
-
-    // Check exact company name match in title (highest priority)
-    if (item.title.toLowerCase().includes(company.name.toLowerCase())) {
-      companyScore += 100
-    }
-
-    // Check exact company name match in description
-    if (item.description.toLowerCase().includes(company.name.toLowerCase())) {
-      companyScore += 50
-    }
-
-    // Check variations
-    for (const variation of company.variations) {
-      const variationLower = variation.toLowerCase()
-
-      // Title matches for variations
-      if (item.title.toLowerCase().includes(variationLower)) {
-        companyScore += 80
-      }
-
-      // Description matches for variations
-      if (item.description.toLowerCase().includes(variationLower)) {
-        companyScore += 40
+      const sourceMatch = matches.find((m) => m.companyName === companyFromSource.name)
+      return {
+        score: 200,
+        matchedCompany: companyFromSource.name,
+        companyMentions,
+        positions: sourceMatch?.positions || [],
       }
     }
+  }
 
-    // Bonus for multiple mentions
-    const titleMentions = (item.title.toLowerCase().match(new RegExp(company.name.toLowerCase(), "g")) || []).length
-    const descMentions = (item.description.toLowerCase().match(new RegExp(company.name.toLowerCase(), "g")) || [])
-      .length
-    companyScore += (titleMentions + descMentions - 1) * 10
-
-    if (companyScore > maxScore) {
-      maxScore = companyScore
-      matchedCompany = company.name
-    }
+  const best = matches[0]
+  if (!best) {
+    return { score: 0, matchedCompany: null, companyMentions, positions: [] }
   }
 
-  return { score: maxScore, matchedCompany }
+  return { score: best.score, matchedCompany: best.companyName, companyMentions, positions: best.positions }
 }
 
 function sortByRelevanceAndDate(items: RSSItem[]): RSSItem[] {
@@ -387,7 +265,7 @@ export async function GET(request: Request) {
     const companiesParam = searchParams.get("companies")
 
     // Parse companies from query parameter
-    let userCompanies: Array<{ id: string; name: string; variations: string[] }> = []
+    let userCompanies: Array<{ id: string; name: string; variations: string[]; negativeKeywords?: string[] }> = []
     if (companiesParam) {
       try {
         userCompanies = JSON.parse(companiesParam)
@@ -405,6 +283,8 @@ export async function GET(request: Request) {
     
     // Get company-specific RSS sources from database
     let companyFeeds: Array<{ type: string; url: string; displayName: string; sourceName: string; companyId: string }> = []
+    // Topics that keep feed articles not mentioning a tracked company; the default applies until the user's load
+    let topicTaxonomies: CompiledTaxonomy[] = [compileTaxonomy({ id: "default", ...FINTECH_TAXONOMY_TEMPLATE })]
     
     if (userCompanies.length > 0) {
       try {
@@ -412,6 +292,14 @@ export async function GET(request: Request) {
         const { data: { user } } = await supabase.auth.getUser()
         
         if (user) {
+          try {
+            const taxonomies = await new TopicTaxonomyManager(supabase).getTaxonomies()
+            topicTaxonomies = taxonomies.map(compileTaxonomy)
+            console.log(`[RSS Integration] Matching ${topicTaxonomies.length} topic taxonomies`)
+          } catch (error) {
+            console.warn("Failed to load topic taxonomies, using the default fintech topic:", error)
+          }
+
           // Get all RSS sources for all user companies
           for (const company of userCompanies) {
             try {
@@ -488,13 +376,21 @@ export async function GET(request: Request) {
     let companyMatches = 0
 
     if (userCompanies.length > 0) {
+      const matcher = new CompanyMatcher(userCompanies)
+
       filteredItems = uniqueItems
         .map((item) => {
-          const { score, matchedCompany } = calculateRelevanceScore(item, userCompanies)
+          const { score, matchedCompany, companyMentions, positions } = calculateRelevanceScore(
+            item,
+            userCompanies,
+            matcher,
+          )
           return {
             ...item,
+            companyMentions,
             relevanceScore: score,
             matchedCompany: matchedCompany || undefined,
+            companyMatches: positions.length > 0 ? positions : undefined,
           }
         })
         .filter((item) => {
@@ -504,12 +400,12 @@ export async function GET(request: Request) {
             return true
           }
           
-          // Also keep RSS articles that are fintech-relevant (even if they don't mention specific companies)
-          if (item.feedSource && item.feedSource !== 'general' && item.isFintech) {
+          // Also keep RSS articles that match one of the user's topics (even if they don't mention specific companies)
+          if (item.feedSource && item.feedSource !== 'general' && detectTopics(topicTaxonomies, item.title, item.description).length > 0) {
             return true
           }
           
-          // Keep RSS articles from company-specific feeds regardless of fintech detection
+          // Keep RSS articles from company-specific feeds regardless of topic detection
           if (item.feedSource && item.feedSource !== 'general' && item.sourceName !== 'PR Newswire Main') {
             return true
           }
@@ -524,10 +420,14 @@ export async function GET(request: Request) {
     // Log successful and failed feeds
     const successfulFeeds = feedResults.filter((r) => r.success)
     const failedFeeds = feedResults.filter((r) => !r.success)
+    const feedsNotModified = feedResults.filter((r) => r.notModified).length
 
     console.log(
       `✅ Successful feeds: ${successfulFeeds.map((f) => getFeedDisplayName(f.sourceName, f.feedType)).join(", ")}`,
     )
+    if (feedsNotModified > 0) {
+      console.log(`♻️ ${feedsNotModified} feeds not modified since last fetch`)
+    }
     if (failedFeeds.length > 0) {
       console.log(
         `❌ Failed feeds: ${failedFeeds.map((f) => `${getFeedDisplayName(f.sourceName, f.feedType)} (${f.error})`).join(", ")}`,
@@ -547,6 +447,7 @@ export async function GET(request: Request) {
         duplicatesRemoved,
         companyMatches,
         feedsByType,
+        feedsNotModified,
       },
     }
 
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { mapDbToAIAnalysis } from '@/lib/supabase/ai-analysis-service'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+import { extractFinancialFacts } from '@/lib/financial-facts'
 
 interface StoredRelease {
   id: string
@@ -14,9 +17,8 @@ interface StoredRelease {
 }
 
 /**
- * Get stored press releases for the current user
+ * Get stored press releases for the current user's active workspace
  * This supplements the RSS feed with historical data
- * NOTE: Currently works without user_id column by filtering through company ownership
  */
 export async function GET(request: NextRequest) {
   try {
@@ -52,11 +54,12 @@ export async function GET(request: NextRequest) {
     console.log(`📋 Getting stored releases for user: ${user.id}`)
     console.log(`📊 Company filter: ${companyFilter.map(c => c.name).join(', ')}`)
     
-    // Step 1: Get user's company IDs (since no user_id column in press_releases yet)
+    // Step 1: Get the active workspace's company IDs
+    const { workspaceId } = await workspaceService.getActiveWorkspace(user.id)
     const { data: userCompanies, error: companiesError } = await supabase
       .from('companies')
       .select('id, name, variations')
-      .eq('user_id', user.id)
+      .eq('workspace_id', workspaceId)
     
     if (companiesError) {
       console.error('Error fetching user companies:', companiesError)
@@ -142,7 +145,13 @@ export async function GET(request: NextRequest) {
       companyId: release.company_id,
       matchedCompany: companyMap.get(release.company_id) || 'Unknown Company',
       source: 'database',
-      aiAnalysis: release.ai_analysis,
+      aiAnalysis: mapDbToAIAnalysis(release),
+      // Releases stored before facts were extracted get them computed on read
+      financialFacts: release.financial_facts || extractFinancialFacts(release.title, release.content || release.summary || '', release.published_at),
+      highlights: release.highlights || undefined,
+      filing: release.filing || undefined,
+      simhash: release.simhash || undefined,
+      clusterId: release.cluster_id || undefined,
       createdAt: release.created_at
     }))
     
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { googleNewsMonitor } from '@/lib/google-news-monitor'
+import { getResolutionCacheStats, clearResolutionCache } from '@/lib/google-news-resolver'
+
+/**
+ * GET /api/google-news-health?window=24&detailed=true
+ * Health of Google News link resolution and article extraction
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const windowHours = Math.min(Math.max(Number(searchParams.get('window')) || 24, 1), 24 * 7)
+  const detailed = searchParams.get('detailed') === 'true'
+
+  const health = googleNewsMonitor.getHealth(windowHours)
+
+  return NextResponse.json({
+    status: health.status,
+    successRate: health.successRate,
+    averageTime: health.averageTime,
+    insights: health.insights,
+    cache: getResolutionCacheStats(),
+    ...(detailed && {
+      metrics: health.metrics,
+      recentEvents: googleNewsMonitor.getRecentEvents(),
+    }),
+    timestamp: new Date().toISOString(),
+  })
+}
+
+/**
+ * POST /api/google-news-health { action: 'reset' }
+ * Clears collected metrics and the resolution cache (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET || 'development-secret'
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let action: unknown
+  try {
+    action = (await request.json()).action
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (action !== 'reset') {
+    return NextResponse.json({ error: `Unknown action: ${String(action)}` }, { status: 400 })
+  }
+
+  googleNewsMonitor.reset()
+  clearResolutionCache()
+  console.log('🔄 Google News metrics and resolution cache reset')
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { InvitationError, workspaceService } from '@/lib/supabase/workspace-service'
+
+/**
+ * Accept a workspace invitation as the signed-in user, who must have the invited email address
+ * Body: { token }. Responds with the workspace joined, which becomes the user's active workspace.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      return NextResponse.json({ error: 'Sign in to accept this invitation' }, { status: 401 })
+    }
+
+    const { token } = await request.json()
+    if (typeof token !== 'string' || !/^[0-9a-f]{64}$/.test(token)) {
+      return NextResponse.json({ error: 'This invitation link is not valid' }, { status: 400 })
+    }
+
+    const workspace = await workspaceService.acceptInvitation(token, { id: user.id, email: user.email })
+    return NextResponse.json({ workspace })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('❌ Error accepting invitation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to accept invitation' },
+      { status: 500 }
+    )
+  }
+}
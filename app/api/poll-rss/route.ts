@@ -3,8 +3,15 @@ import { createRouteHandlerClient } from '@/lib/supabase/server'
 import { createClient } from '@supabase/supabase-js'
 import { pressReleasesService, adminPressReleasesService } from '@/lib/supabase/press-releases-service'
 import { companyManager } from '@/lib/supabase/database'
-import { processRSSFeed } from '@/lib/rss-to-stored-release'
+import { processRSSFeed, feedItemsForUrl, type RSSItem } from '@/lib/rss-to-stored-release'
 import { getFeedsForCompanies } from '@/lib/rss-sources'
+import { fetchFeedConditional } from '@/lib/feed-fetcher'
+import { feedHealthService, failedAttempt } from '@/lib/supabase/feed-health-service'
+import { extractedContentService, isPollExtractionEnabled } from '@/lib/supabase/extracted-content-service'
+import { aiAnalysisQueueService, isPollAnalysisEnabled } from '@/lib/supabase/ai-analysis-queue-service'
+import { alertService } from '@/lib/supabase/alert-service'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+import { canEditWorkspace } from '@/lib/workspaces'
 
 // Admin client for cron jobs
 const supabaseAdmin = createClient(
@@ -19,23 +26,29 @@ interface PollResult {
   releasesFound: number
   releasesNew: number
   releasesDuplicate: number
+  feedsNotModified: number
+  articlesExtracted?: number // Set when EXTRACT_CONTENT_ON_POLL is enabled
+  analysesQueued?: number // Set when ANALYZE_ON_POLL is enabled
+  alertsTriggered?: number // Set when new releases were stored
   error?: string
 }
 
 interface PollSummary {
   userId: string
+  workspaceId?: string
   startTime: string
   endTime: string
   companiesProcessed: number
   totalReleases: number
   totalNew: number
   totalDuplicates: number
+  totalNotModified: number
   errors: number
   results: PollResult[]
 }
 
 /**
- * Poll RSS feeds for a specific user's companies and store new releases
+ * Poll RSS feeds for the companies in a user's active workspace and store new releases
  */
 export async function POST(request: NextRequest) {
   let userId: string | null = null
@@ -70,16 +83,25 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}))
     const { companyId, forceRefresh = false } = body
     
-    console.log(`🔄 Starting RSS poll for user ${userId}${companyId ? ` (company: ${companyId})` : ''}`)
+    // Polling stores releases for the whole workspace, so viewers can't start one
+    const { workspaceId, role } = await workspaceService.getActiveWorkspace(userId)
+    if (!canEditWorkspace(role)) {
+      return NextResponse.json(
+        { error: 'Viewers can\'t poll feeds. Ask a workspace owner or editor to refresh.' },
+        { status: 403 }
+      )
+    }
     
-    // Get user's companies (use admin client for cron calls)
+    console.log(`🔄 Starting RSS poll for user ${userId} in workspace ${workspaceId}${companyId ? ` (company: ${companyId})` : ''}`)
+    
+    // Get the workspace's companies (use admin client for cron calls)
     let companies
     if (cronUserId && authHeader === `Bearer ${cronSecret}`) {
       // For cron calls, get companies directly with admin client
       const { data: companiesData, error: companiesError } = await supabaseAdmin
         .from('companies')
         .select('*')
-        .eq('user_id', userId)
+        .eq('workspace_id', workspaceId)
       
       if (companiesError) {
         throw new Error(`Failed to get companies: ${companiesError.message}`)
@@ -96,12 +118,14 @@ export async function POST(request: NextRequest) {
         message: 'No companies found for user',
         summary: {
           userId,
+          workspaceId,
           startTime,
           endTime: new Date().toISOString(),
           companiesProcessed: 0,
           totalReleases: 0,
           totalNew: 0,
           totalDuplicates: 0,
+          totalNotModified: 0,
           errors: 0,
           results: []
         }
@@ -127,19 +151,21 @@ export async function POST(request: NextRequest) {
     let totalReleases = 0
     let totalNew = 0
     let totalDuplicates = 0
+    let totalNotModified = 0
     let errors = 0
     
     // Determine if this is a cron call
     const isCronCall = Boolean(cronUserId && authHeader === `Bearer ${cronSecret}`)
     
     for (const company of companiesToProcess) {
-      const pollResult = await pollCompanyRSS(userId, company, forceRefresh, isCronCall)
+      const pollResult = await pollCompanyRSS(userId, workspaceId, company, forceRefresh, isCronCall)
       results.push(pollResult)
       
       if (pollResult.success) {
         totalReleases += pollResult.releasesFound
         totalNew += pollResult.releasesNew
         totalDuplicates += pollResult.releasesDuplicate
+        totalNotModified += pollResult.feedsNotModified
       } else {
         errors++
       }
@@ -151,17 +177,19 @@ export async function POST(request: NextRequest) {
     const endTime = new Date().toISOString()
     const summary: PollSummary = {
       userId,
+      workspaceId,
       startTime,
       endTime,
       companiesProcessed: companiesToProcess.length,
       totalReleases,
       totalNew,
       totalDuplicates,
+      totalNotModified,
       errors,
       results
     }
     
-    console.log(`✅ RSS poll completed: ${totalNew} new releases, ${totalDuplicates} duplicates, ${errors} errors`)
+    console.log(`✅ RSS poll completed: ${totalNew} new releases, ${totalDuplicates} duplicates, ${totalNotModified} feeds not modified, ${errors} errors`)
     
     return NextResponse.json({
       message: 'RSS poll completed',
@@ -183,6 +211,7 @@ export async function POST(request: NextRequest) {
           totalReleases: 0,
           totalNew: 0,
           totalDuplicates: 0,
+          totalNotModified: 0,
           errors: 1,
           results: []
         }
@@ -197,6 +226,7 @@ export async function POST(request: NextRequest) {
  */
 async function pollCompanyRSS(
   userId: string, 
+  workspaceId: string,
   company: any, 
   forceRefresh: boolean = false,
   isCronCall: boolean = false
@@ -246,15 +276,30 @@ async function pollCompanyRSS(
       'https://www.prnewswire.com/rss/news-releases-list.rss' // Primary RSS source
     )
     
-    console.log(`✅ Processed ${validReleases.length} valid releases, skipped ${skippedCount}`)
+    // Company-specific feeds (IR, SEC, custom) are parsed directly - every item is relevant to this company
+    const { feeds: companyFeeds, notModified: companyFeedsNotModified } = await fetchCompanyFeedItems(company.id, forceRefresh)
+    const feedsNotModified = (rssData.metrics?.feedsNotModified || 0) + companyFeedsNotModified
+    let companyFeedSkipped = 0
+    for (const { feedUrl, items } of companyFeeds) {
+      const processed = processRSSFeed(items, company.id, feedUrl)
+      validReleases.push(...processed.validReleases)
+      companyFeedSkipped += processed.skippedCount
+    }
+    
+    console.log(`✅ Processed ${validReleases.length} valid releases, skipped ${skippedCount + companyFeedSkipped}`)
     
     // Store releases in database (use admin service for cron calls)
-    const { created, duplicates } = isCronCall
+    const { created, duplicates, failed } = isCronCall
       ? await adminPressReleasesService.adminBatchCreatePressReleases(userId, validReleases)
       : await pressReleasesService.batchCreatePressReleases(userId, validReleases)
     
     console.log(`💾 Stored ${created} new releases, ${duplicates} duplicates for ${company.name}`)
     
+    // Validators are only saved once every item is stored, so releases that failed are refetched next poll
+    if (failed === 0) {
+      await Promise.all(companyFeeds.map(({ sourceId, fetchState }) => saveFetchState(sourceId, fetchState)))
+    }
+    
     // Update poll log with success (use admin service for cron calls)
     if (pollLog) {
       if (isCronCall) {
@@ -276,13 +321,32 @@ async function pollCompanyRSS(
       }
     }
     
+    // Optionally fetch full article bodies now rather than on first view
+    const articlesExtracted = isPollExtractionEnabled()
+      ? (await extractedContentService.extractPendingContent(workspaceId, company.id)).extracted
+      : undefined
+    
+    // Optionally queue new releases for background AI analysis with the user's stored key
+    const analysesQueued = isPollAnalysisEnabled()
+      ? await aiAnalysisQueueService.enqueuePendingReleases(userId, company.id)
+      : undefined
+    
+    // Alert on new releases that match the workspace members' alert rules
+    const alertsTriggered = created > 0
+      ? await alertService.evaluateNewReleases(workspaceId, company.id, pollStartTime)
+      : undefined
+    
     return {
       companyId: company.id,
       companyName: company.name,
       success: true,
       releasesFound: validReleases.length,
       releasesNew: created,
-      releasesDuplicate: duplicates
+      releasesDuplicate: duplicates,
+      feedsNotModified,
+      articlesExtracted,
+      analysesQueued,
+      alertsTriggered
     }
     
   } catch (error) {
@@ -316,11 +380,112 @@ async function pollCompanyRSS(
       releasesFound: 0,
       releasesNew: 0,
       releasesDuplicate: 0,
+      feedsNotModified: 0,
       error: errorMessage
     }
   }
 }
 
+interface CompanyFeedItems {
+  sourceId: string
+  feedUrl: string
+  items: RSSItem[]
+  fetchState: Record<string, string | null> // Validators to save once the items are stored
+}
+
+interface RSSSourceFetchState {
+  id: string
+  feed_url: string
+  feed_name: string
+  etag: string | null
+  last_modified: string | null
+  content_hash: string | null
+}
+
+/**
+ * Fetch and parse the enabled RSS sources configured for a company
+ * Uses the stored ETag / Last-Modified / content hash so unchanged feeds are skipped,
+ * unless forceRefresh is set. Failures are logged per feed so one broken source
+ * doesn't fail the whole poll. New validators are returned rather than saved, so the
+ * caller can save them after the items are stored.
+ */
+async function fetchCompanyFeedItems(
+  companyId: string,
+  forceRefresh: boolean = false
+): Promise<{ feeds: CompanyFeedItems[]; notModified: number }> {
+  const { data: sources, error } = await supabaseAdmin
+    .from('rss_sources')
+    .select('id, feed_url, feed_name, etag, last_modified, content_hash')
+    .eq('company_id', companyId)
+    .eq('enabled', true)
+
+  if (error) {
+    console.warn(`⚠️ Failed to load RSS sources for company ${companyId}:`, error.message)
+    return { feeds: [], notModified: 0 }
+  }
+
+  let notModified = 0
+
+  const feeds = await Promise.all(
+    (sources || []).map(async (source: RSSSourceFetchState): Promise<CompanyFeedItems | null> => {
+      const attemptStart = Date.now()
+      try {
+        const previous = forceRefresh
+          ? {}
+          : { etag: source.etag, lastModified: source.last_modified, contentHash: source.content_hash }
+        const result = await fetchFeedConditional(source.feed_url, previous)
+        const fetchedAt = new Date().toISOString()
+        const fetchState = {
+          etag: result.validators.etag || null,
+          last_modified: result.validators.lastModified || null,
+          content_hash: result.validators.contentHash || null,
+          ...(result.notModified ? {} : { last_changed_at: fetchedAt }),
+        }
+
+        await feedHealthService.recordAttempt([source.id], {
+          status: result.notModified ? 'not-modified' : 'success',
+          httpStatus: result.httpStatus,
+          latencyMs: Date.now() - attemptStart,
+          itemCount: result.notModified ? 0 : result.feed.items.length,
+          bytes: result.bytes,
+        })
+
+        if (result.notModified) {
+          notModified++
+          console.log(`♻️ ${source.feed_name}: not modified (${result.reason})`)
+          return { sourceId: source.id, feedUrl: source.feed_url, items: [], fetchState }
+        }
+
+        const { feed } = result
+        console.log(`📡 ${source.feed_name} (${feed.format}): ${feed.items.length} items`)
+
+        return { sourceId: source.id, feedUrl: source.feed_url, items: feedItemsForUrl(feed, source.feed_url), fetchState }
+      } catch (feedError) {
+        console.warn(`⚠️ Failed to fetch ${source.feed_name}:`, feedError instanceof Error ? feedError.message : feedError)
+        await feedHealthService.recordAttempt([source.id], failedAttempt(feedError, Date.now() - attemptStart))
+        return null
+      }
+    })
+  )
+
+  return { feeds: feeds.filter((feed): feed is CompanyFeedItems => feed !== null), notModified }
+}
+
+/**
+ * Persist conditional GET validators for an RSS source
+ * A failed write only costs a full download next time, so it is logged and ignored
+ */
+async function saveFetchState(sourceId: string, state: Record<string, string | null>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('rss_sources')
+    .update(state)
+    .eq('id', sourceId)
+
+  if (error) {
+    console.warn(`⚠️ Failed to save fetch state for RSS source ${sourceId}:`, error.message)
+  }
+}
+
 /**
  * GET method for checking poll status or getting recent polls
  */
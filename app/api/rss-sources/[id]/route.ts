@@ -33,7 +33,7 @@ export async function PUT(
       )
     }
 
-    // Update RSS source (RSSSourceManager handles user authorization)
+    // Update RSS source (RLS limits changes to workspace owners and editors)
     const rssSourceManager = new RSSSourceManager(supabase)
     const updatedSource = await rssSourceManager.updateRSSSource(params.id, updates)
 
@@ -76,7 +76,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Delete RSS source (RSSSourceManager handles user authorization)
+    // Delete RSS source (RLS limits changes to workspace owners and editors)
     const rssSourceManager = new RSSSourceManager(supabase)
     await rssSourceManager.deleteRSSSource(params.id)
 
@@ -114,12 +114,11 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get RSS source via database query (ensures user authorization)
+    // Get RSS source via database query (RLS limits it to the user's workspaces)
     const { data: source, error } = await supabase
       .from('rss_sources')
       .select('*')
       .eq('id', params.id)
-      .eq('user_id', user.id)
       .single()
 
     if (error || !source) {
@@ -131,6 +130,7 @@ export async function GET(
       id: source.id,
       companyId: source.company_id,
       userId: source.user_id,
+      workspaceId: source.workspace_id,
       feedUrl: source.feed_url,
       feedName: source.feed_name,
       feedType: source.feed_type,
@@ -1,6 +1,7 @@
 import { createRouteHandlerClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { RSSSourceManager } from '@/lib/supabase/database'
+import { testRSSConnectivity } from '@/lib/feed-fetcher'
 
 // POST /api/rss-sources/:id/test - Test RSS feed connectivity
 export async function POST(
@@ -20,12 +21,11 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get RSS source to verify ownership and get URL
+    // Get RSS source to verify access (RLS limits it to the user's workspaces) and get URL
     const { data: source, error: sourceError } = await supabase
       .from('rss_sources')
-      .select('feed_url, user_id')
+      .select('feed_url')
       .eq('id', params.id)
-      .eq('user_id', user.id)
       .single()
 
     if (sourceError || !source) {
@@ -34,7 +34,7 @@ export async function POST(
 
     // Test the RSS feed
     const rssSourceManager = new RSSSourceManager(supabase)
-    const testResult = await rssSourceManager.testRSSFeed(source.feed_url)
+    const testResult = await testRSSConnectivity(source.feed_url)
 
     // Update the RSS source with test results if successful
     if (testResult.valid) {
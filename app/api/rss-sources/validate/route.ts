@@ -1,6 +1,7 @@
 import { createRouteHandlerClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
-import { testRSSConnectivity, detectRSSFeedType, suggestFeedName } from '@/lib/rss-validation'
+import { detectRSSFeedType, suggestFeedName } from '@/lib/rss-validation'
+import { testRSSConnectivity } from '@/lib/feed-fetcher'
 
 // POST /api/rss-sources/validate - Validate RSS URL without saving
 export async function POST(request: NextRequest) {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { adminPressReleasesService } from '@/lib/supabase/press-releases-service'
+import { workspaceService } from '@/lib/supabase/workspace-service'
+import { extractFinancialFacts } from '@/lib/financial-facts'
+import { fromSearchParams, isSearchActive, MAX_SEARCH_RESULTS } from '@/lib/release-search'
+
+/**
+ * Full-text search over the stored press releases of the current user's active workspace
+ * Query parameters: q (web search syntax), sinceDays or from/to (YYYY-MM-DD), feedTypes (comma separated), limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const filters = fromSearchParams(searchParams)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, MAX_SEARCH_RESULTS)
+
+    if (!isSearchActive(filters)) {
+      return NextResponse.json(
+        { error: 'Enter a search query or choose a filter' },
+        { status: 400 }
+      )
+    }
+
+    const { workspaceId } = await workspaceService.getActiveWorkspace(user.id)
+    console.log(`🔎 Searching releases for workspace ${workspaceId}: "${filters.query}"`)
+
+    let releases
+    try {
+      releases = await adminPressReleasesService.searchPressReleases(workspaceId, filters, limit)
+    } catch (searchError) {
+      return NextResponse.json(
+        { error: searchError instanceof Error ? searchError.message : 'Search failed' },
+        { status: 500 }
+      )
+    }
+
+    const { data: userCompanies } = await supabase
+      .from('companies')
+      .select('id, name')
+      .eq('workspace_id', workspaceId)
+    const companyMap = new Map((userCompanies || []).map(c => [c.id, c.name]))
+
+    console.log(`✅ Search found ${releases.length} releases`)
+
+    // Same shape as /api/get-stored-releases
+    const items = releases.map(release => ({
+      id: release.id,
+      title: release.title,
+      content: release.content || release.summary,
+      summary: release.summary,
+      sourceUrl: release.sourceUrl,
+      publishedAt: release.publishedAt,
+      companyId: release.companyId,
+      matchedCompany: companyMap.get(release.companyId) || 'Unknown Company',
+      source: 'database',
+      aiAnalysis: release.aiAnalysis,
+      financialFacts: release.financialFacts || extractFinancialFacts(release.title, release.content || release.summary || '', release.publishedAt),
+      highlights: release.highlights || undefined,
+      filing: release.filing,
+      simhash: release.simhash,
+      clusterId: release.clusterId,
+      createdAt: release.createdAt
+    }))
+
+    return NextResponse.json({
+      items,
+      fetchedAt: new Date().toISOString(),
+      totalItems: items.length,
+      source: 'database'
+    })
+  } catch (error) {
+    console.error('Error in search-releases:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server"
+import { parseFeed } from "@/lib/feed-parser"
 
 // Test endpoint to verify RSS parsing with sample data
 export async function GET() {
@@ -29,45 +30,29 @@ export async function GET() {
 </rss>`
 
   try {
-    // Import the parsing function from the main route
-    const { parseRSSXML, extractCompanyMentions } = await import("./route")
+    const feed = parseFeed(sampleRSSXML)
 
-    // This is a simplified version for testing
-    const items = []
-    const itemMatches = sampleRSSXML.match(/<item>([\s\S]*?)<\/item>/g)
+    const items = feed.items.map((item) => {
+      // Simple company mention detection for test
+      const companyMentions = []
+      const text = `${item.title} ${item.description}`.toLowerCase()
+      if (text.includes("blackstone")) companyMentions.push("Blackstone")
+      if (text.includes("apollo")) companyMentions.push("Apollo")
 
-    if (itemMatches) {
-      for (const itemXML of itemMatches) {
-        const titleMatch = itemXML.match(/<title><!\[CDATA\[(.*?)\]\]><\/title>/)
-        const descMatch = itemXML.match(/<description><!\[CDATA\[(.*?)\]\]><\/description>/)
-        const pubDateMatch = itemXML.match(/<pubDate>(.*?)<\/pubDate>/)
-        const linkMatch = itemXML.match(/<link>(.*?)<\/link>/)
-
-        const title = titleMatch ? titleMatch[1].trim() : ""
-        const description = descMatch ? descMatch[1].trim() : ""
-        const pubDate = pubDateMatch ? pubDateMatch[1].trim() : ""
-        const link = linkMatch ? linkMatch[1].trim() : ""
-
-        // Simple company mention detection for test
-        const companyMentions = []
-        const text = `${title} ${description}`.toLowerCase()
-        if (text.includes("blackstone")) companyMentions.push("Blackstone")
-        if (text.includes("apollo")) companyMentions.push("Apollo")
-
-        items.push({
-          title,
-          description,
-          pubDate,
-          link,
-          companyMentions,
-        })
+      return {
+        title: item.title,
+        description: item.description,
+        pubDate: item.pubDate,
+        link: item.link,
+        companyMentions,
       }
-    }
+    })
 
     return NextResponse.json({
       message: "RSS parsing test successful",
       sampleData: {
         items,
+        format: feed.format,
         fetchedAt: new Date().toISOString(),
         totalItems: items.length,
       },
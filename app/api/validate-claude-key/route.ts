@@ -29,8 +29,6 @@ export async function POST(request: Request) {
     }
 
     console.log("🔑 Validating Claude API key...")
-    console.log("🔍 API Key (first 20 chars):", apiKey.substring(0, 20))
-    console.log("🔍 API Key length:", apiKey.length)
 
     // Test the API key with a simple request to Claude
     const claudeResponse = await fetch("https://api.anthropic.com/v1/messages", {
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@/lib/supabase/server'
+import { InvitationError, workspaceService } from '@/lib/supabase/workspace-service'
+import { canManageWorkspace, isInvitationRole, isValidEmail } from '@/lib/workspaces'
+
+/**
+ * Invite someone to a workspace by email (owners only)
+ * Body: { email, role } with role "editor" or "viewer". Responds with the invitation and its link,
+ * and whether the link was emailed; without SMTP_URL the owner shares the link themselves.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient(request)
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    if (!canManageWorkspace(await workspaceService.getRole(user.id, params.id))) {
+      return NextResponse.json({ error: 'Only workspace owners can invite members' }, { status: 403 })
+    }
+
+    const { email, role } = await request.json()
+    if (typeof email !== 'string' || !isValidEmail(email)) {
+      return NextResponse.json({ error: 'Enter a valid email address' }, { status: 400 })
+    }
+    if (!isInvitationRole(role)) {
+      return NextResponse.json({ error: 'Role must be editor or viewer' }, { status: 400 })
+    }
+
+    const { invitation, token } = await workspaceService.createInvitation(params.id, user.id, email, role)
+    const inviteUrl = `${process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin}/invite/${token}`
+    const emailed = await workspaceService.sendInvitationEmail(invitation, inviteUrl, user.email)
+
+    return NextResponse.json({ invitation, inviteUrl, emailed }, { status: 201 })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('❌ Error creating invitation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create invitation' },
+      { status: 500 }
+    )
+  }
+}
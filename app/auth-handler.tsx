@@ -8,6 +8,7 @@ import { signOut } from "@/lib/auth"
 import { createClientComponentClient, clearAuthState } from "@/lib/supabase/client"
 import type { User } from "@supabase/supabase-js"
 import { AuthErrorBoundary, AuthErrorFallback } from "@/components/auth/error-boundary"
+import { PENDING_INVITATION_KEY } from "@/lib/workspaces"
 
 // Loading component
 function LoadingSpinner({ message = "Loading...", progress = null }: { message?: string; progress?: number | null }) {
@@ -286,6 +287,16 @@ function AuthHandlerContent() {
     }
   }, [processingOAuth])
 
+  // Finish an invitation that was opened before signing in
+  useEffect(() => {
+    if (!user || typeof window === "undefined") return
+
+    const pendingInvitation = window.localStorage.getItem(PENDING_INVITATION_KEY)
+    if (pendingInvitation) {
+      router.replace(`/invite/${pendingInvitation}`)
+    }
+  }, [user, router])
+
   const handleSignOut = async () => {
     try {
       setLoading(true)
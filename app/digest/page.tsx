@@ -0,0 +1,31 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { SignInPage } from "@/components/auth/sign-in-page"
+import { DigestList } from "@/components/dashboard/digest-list"
+import { createClientComponentClient } from "@/lib/supabase/client"
+
+export default function DigestPage({ searchParams }: { searchParams: { id?: string } }) {
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    createClientComponentClient()
+      .auth.getSession()
+      .then(({ data: { session } }) => setSignedIn(!!session))
+  }, [])
+
+  if (signedIn === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!signedIn) {
+    return <SignInPage />
+  }
+
+  return <DigestList selectedId={searchParams.id} />
+}
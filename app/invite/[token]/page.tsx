@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { SignInPage } from "@/components/auth/sign-in-page"
+import { createClientComponentClient } from "@/lib/supabase/client"
+import { PENDING_INVITATION_KEY } from "@/lib/workspaces"
+
+type InviteState =
+  | { status: "checking" }
+  | { status: "signed-out" }
+  | { status: "accepting" }
+  | { status: "accepted"; name: string }
+  | { status: "failed"; error: string }
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const [state, setState] = useState<InviteState>({ status: "checking" })
+  const router = useRouter()
+
+  useEffect(() => {
+    let mounted = true
+
+    const accept = async () => {
+      const supabase = createClientComponentClient()
+      const { data: { session } } = await supabase.auth.getSession()
+
+      if (!session) {
+        window.localStorage.setItem(PENDING_INVITATION_KEY, params.token)
+        if (mounted) setState({ status: "signed-out" })
+        return
+      }
+
+      window.localStorage.removeItem(PENDING_INVITATION_KEY)
+      if (mounted) setState({ status: "accepting" })
+
+      try {
+        const response = await fetch("/api/invitations/accept", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token: params.token }),
+        })
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Failed to accept invitation")
+
+        if (mounted) setState({ status: "accepted", name: result.workspace.name })
+        setTimeout(() => router.replace("/"), 1500)
+      } catch (err) {
+        console.error("Error accepting invitation:", err)
+        if (mounted) setState({ status: "failed", error: err instanceof Error ? err.message : "Failed to accept invitation" })
+      }
+    }
+
+    accept()
+
+    return () => {
+      mounted = false
+    }
+  }, [params.token, router])
+
+  if (state.status === "signed-out") {
+    return <SignInPage />
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">Workspace invitation</CardTitle>
+          <CardDescription>
+            {state.status === "accepted"
+              ? `You joined ${state.name}. Taking you to the dashboard...`
+              : state.status === "failed"
+                ? "This invitation couldn't be accepted"
+                : "Joining the workspace..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {(state.status === "checking" || state.status === "accepting") && (
+            <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+          )}
+          {state.status === "failed" && (
+            <>
+              <div className="p-3 text-sm text-red-600 bg-red-50 dark:bg-red-950/20 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-md">
+                {state.error}
+              </div>
+              <Button variant="outline" onClick={() => router.replace("/")}>
+                Go to dashboard
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,20 +1,67 @@
 "use client"
 
+import type { ReactNode } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
-import type { PressRelease, Company } from "@/lib/types"
+import type { PressRelease, Company, TopicTaxonomy, SavedSearch, WatchlistGroup, ReleaseExportFormat } from "@/lib/types"
 import { formatRelativeTime } from "@/lib/date-utils"
-import { RefreshCw } from "lucide-react"
+import { describeMatchPositions } from "@/lib/company-matcher"
+import { EIGHT_K_ITEMS } from "@/lib/sec-edgar"
+import { relatedSourceNames } from "@/lib/story-clusters"
+import { DEAL_TYPE_LABELS, DEAL_TYPES, type FinancialFactsFilter } from "@/lib/financial-facts"
+import { EXPORT_FORMATS } from "@/lib/release-export"
+import { FinancialFactsSummary } from "./financial-facts-summary"
+import { Bookmark, Download, RefreshCw, Search, Tag } from "lucide-react"
 
 const cleanHtmlTags = (text: string): string => {
   return text.replace(/<[^>]*>/g, "").trim()
 }
 
+// Filter values for topic tabs, so a topic can't be confused with a company of the same name
+export const TOPIC_FILTER_PREFIX = "topic:"
+
+export function topicFilterValue(taxonomyId: string): string {
+  return `${TOPIC_FILTER_PREFIX}${taxonomyId}`
+}
+
+// Filter values for saved search views
+export const SAVED_SEARCH_FILTER_PREFIX = "search:"
+
+export function savedSearchFilterValue(searchId: string): string {
+  return `${SAVED_SEARCH_FILTER_PREFIX}${searchId}`
+}
+
+// Filter values for watchlist group tabs
+export const GROUP_FILTER_PREFIX = "group:"
+
+export function groupFilterValue(groupId: string): string {
+  return `${GROUP_FILTER_PREFIX}${groupId}`
+}
+
+// Past this many companies the company tabs move into a dropdown; groups take their place as tabs
+const MAX_COMPANY_TABS = 15
+
+// Headline amount thresholds offered by the amount filter
+const MIN_AMOUNT_OPTIONS = [
+  { value: 0, label: "Any amount" },
+  { value: 10e6, label: "10M+" },
+  { value: 100e6, label: "100M+" },
+  { value: 1e9, label: "1B+" },
+]
+
 interface ActivityFeedProps {
   releases: PressRelease[]
   companies: Company[]
+  topics?: Array<Pick<TopicTaxonomy, "id" | "name">>
+  groups?: Array<Pick<WatchlistGroup, "id" | "name">>
+  groupUnreadCounts?: Map<string, number>
+  savedSearches?: Array<Pick<SavedSearch, "id" | "name">>
+  searchBar?: ReactNode
+  searching?: boolean // Releases are search results rather than the live feed
   selectedCompany: string
   onCompanyChange: (company: string) => void
   selectedReleaseId?: string
@@ -25,11 +72,28 @@ interface ActivityFeedProps {
   refreshing: boolean
   isBackgroundRefreshing?: boolean
   processingCompanies?: Set<string>
+  factsFilter: FinancialFactsFilter
+  onFactsFilterChange: (filter: FinancialFactsFilter) => void
+  tags?: string[]
+  releaseTags?: Map<string, string[]>
+  selectedTag?: string // "any" when not filtering by tag
+  onTagChange?: (tag: string) => void
+  bookmarkedOnly?: boolean
+  onBookmarkedOnlyChange?: (bookmarkedOnly: boolean) => void
+  onExport?: (format: ReleaseExportFormat) => void
+  exporting?: boolean
+  exportError?: string | null
 }
 
 export function ActivityFeed({
   releases = [],
   companies = [],
+  topics = [],
+  groups = [],
+  groupUnreadCounts = new Map(),
+  savedSearches = [],
+  searchBar,
+  searching = false,
   selectedCompany,
   onCompanyChange,
   selectedReleaseId,
@@ -40,14 +104,40 @@ export function ActivityFeed({
   refreshing,
   isBackgroundRefreshing = false,
   processingCompanies = new Set(),
+  factsFilter,
+  onFactsFilterChange,
+  tags = [],
+  releaseTags = new Map(),
+  selectedTag = "any",
+  onTagChange,
+  bookmarkedOnly = false,
+  onBookmarkedOnlyChange,
+  onExport,
+  exporting = false,
+  exportError,
 }: ActivityFeedProps) {
   // Safe array operations with null checks
   const safeCompanies = Array.isArray(companies) ? companies : []
   const safeReleases = Array.isArray(releases) ? releases : []
   const safeReadReleases = readReleases instanceof Set ? readReleases : new Set()
 
-  // Add Fintech News as a special filter option
-  const companyOptions = ["All", "Fintech News", ...safeCompanies.map((c) => c.name)]
+  // Groups, saved searches and topic taxonomies get their own filter tabs between "All" and the companies
+  const companiesAsTabs = safeCompanies.length <= MAX_COMPANY_TABS
+  const filterOptions = [
+    { value: "All", label: "All" },
+    ...groups.map((group) => ({
+      value: groupFilterValue(group.id),
+      label: group.name,
+      unread: groupUnreadCounts.get(group.id) || 0,
+    })),
+    ...savedSearches.map((search) => ({ value: savedSearchFilterValue(search.id), label: search.name, savedSearch: true })),
+    ...topics.map((topic) => ({ value: topicFilterValue(topic.id), label: topic.name })),
+    ...(companiesAsTabs ? safeCompanies.map((c) => ({ value: c.name, label: c.name })) : []),
+  ]
+  const selectedCompanyName = safeCompanies.some((c) => c.name === selectedCompany) ? selectedCompany : "any"
+  const selectedTopicId = selectedCompany.startsWith(TOPIC_FILTER_PREFIX)
+    ? selectedCompany.slice(TOPIC_FILTER_PREFIX.length)
+    : null
 
   const formatLastUpdated = (timestamp: number | null) => {
     if (!timestamp) return "Never"
@@ -94,20 +184,23 @@ export function ActivityFeed({
           </div>
         )}
         
+        {/* Full-text search over stored releases */}
+        {searchBar}
+
         {/* Company Filter Buttons - Responsive mobile-optimized tags */}
         <div className="mb-3">
           <ScrollArea className="w-full">
             <div className="flex gap-1 xs:gap-1.5 sm:gap-2 pb-2 min-w-max">
-              {companyOptions.map((company) => {
-                const isProcessing = processingCompanies.has(company)
-                console.log(`🔍 Company: ${company}, isProcessing: ${isProcessing}`, Array.from(processingCompanies))
+              {filterOptions.map((option) => {
+                const isProcessing = processingCompanies.has(option.value)
+                console.log(`🔍 Company: ${option.label}, isProcessing: ${isProcessing}`, Array.from(processingCompanies))
                 
                 return (
                   <Button
-                    key={company}
-                    variant={selectedCompany === company ? "default" : "outline"}
+                    key={option.value}
+                    variant={selectedCompany === option.value ? "default" : "outline"}
                     size="sm"
-                    onClick={() => onCompanyChange(company)}
+                    onClick={() => onCompanyChange(option.value)}
                     className={cn(
                       // Responsive text sizing - smaller on mobile, larger on desktop
                       "text-[10px] xs:text-[11px] sm:text-xs",
@@ -127,7 +220,21 @@ export function ActivityFeed({
                       {isProcessing && (
                         <RefreshCw className="h-3 w-3 animate-spin" />
                       )}
-                      {company}
+                      {"savedSearch" in option && <Search className="h-3 w-3" />}
+                      {option.label}
+                      {"unread" in option && option.unread > 0 && (
+                        <span
+                          className={cn(
+                            "rounded-full px-1.5 text-[10px] leading-4",
+                            selectedCompany === option.value
+                              ? "bg-primary-foreground text-primary"
+                              : "bg-blue-500 text-white"
+                          )}
+                          title={`${option.unread} unread`}
+                        >
+                          {option.unread}
+                        </span>
+                      )}
                     </div>
                   </Button>
                 )
@@ -136,9 +243,118 @@ export function ActivityFeed({
           </ScrollArea>
         </div>
 
-        {/* Last Updated and Refresh */}
+        {/* Company, deal type and amount filters */}
+        <div className="flex gap-2 mb-3">
+          {!companiesAsTabs && (
+            <Select
+              value={selectedCompanyName}
+              onValueChange={(value) => onCompanyChange(value === "any" ? "All" : value)}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Company" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">All companies</SelectItem>
+                {safeCompanies.map((company) => (
+                  <SelectItem key={company.id} value={company.name}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select
+            value={factsFilter.dealType}
+            onValueChange={(value) =>
+              onFactsFilterChange({ ...factsFilter, dealType: value as FinancialFactsFilter["dealType"] })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Deal type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All deal types</SelectItem>
+              {DEAL_TYPES.map((dealType) => (
+                <SelectItem key={dealType} value={dealType}>
+                  {DEAL_TYPE_LABELS[dealType]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(factsFilter.minAmount)}
+            onValueChange={(value) => onFactsFilterChange({ ...factsFilter, minAmount: Number(value) })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Amount" />
+            </SelectTrigger>
+            <SelectContent>
+              {MIN_AMOUNT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {tags.length > 0 && onTagChange && (
+            <Select value={selectedTag} onValueChange={onTagChange}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">All tags</SelectItem>
+                {tags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>
+                    {tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onBookmarkedOnlyChange && (
+            <Button
+              variant={bookmarkedOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => onBookmarkedOnlyChange(!bookmarkedOnly)}
+              className="h-8 px-2 shrink-0"
+              title={bookmarkedOnly ? "Show all releases" : "Show bookmarked releases only"}
+            >
+              <Bookmark className={cn("h-3 w-3", bookmarkedOnly && "fill-current")} />
+            </Button>
+          )}
+        </div>
+
+        {/* Last Updated, Export and Refresh */}
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <span className="truncate">Last updated: {formatLastUpdated(lastUpdated)}</span>
+          {exportError && (
+            <span className="truncate ml-2 text-red-600 dark:text-red-400" title={exportError}>
+              {exportError}
+            </span>
+          )}
+          {onExport && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={exporting || safeReleases.length === 0}
+                  className="h-6 px-1.5 shrink-0 ml-auto text-xs mobile-touch-target"
+                  title="Export this view"
+                >
+                  <Download className={cn("h-3 w-3 mr-1", exporting && "animate-pulse")} />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(EXPORT_FORMATS) as ReleaseExportFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                    {EXPORT_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -159,6 +375,14 @@ export function ActivityFeed({
             const company = safeCompanies.find((c) => c.id === release.companyId)
             const isSelected = selectedReleaseId === release.id
             const isUnread = !safeReadReleases.has(release.id)
+            const matchReason = release.companyMatches?.length
+              ? `Matched ${describeMatchPositions(release.companyMatches)}`
+              : undefined
+            const relatedSources = release.relatedReleases?.length ? relatedSourceNames(release.relatedReleases) : []
+            const topicMatch = selectedTopicId
+              ? release.topicMatches?.find((match) => match.taxonomyId === selectedTopicId)
+              : undefined
+            const tagsOnRelease = releaseTags.get(release.id) || []
 
             return (
               <div
@@ -176,7 +400,7 @@ export function ActivityFeed({
                     <Badge 
                       variant="secondary" 
                       className="mobile-optimized-badge"
-                      title={company?.name || "Unknown Company"} // Accessibility tooltip
+                      title={matchReason || company?.name || "Unknown Company"} // Accessibility tooltip, explains the match when known
                     >
                       {company?.name || "Unknown Company"}
                     </Badge>
@@ -191,23 +415,77 @@ export function ActivityFeed({
                   </span>
                 </div>
 
+                {/* Filing form type and 8-K items */}
+                {release.filing && (
+                  <div className="flex flex-wrap items-center gap-1 mb-2">
+                    <Badge variant="outline" className="text-xs font-mono" title={release.filing.formName}>
+                      {release.filing.formType === "4" ? "Form 4" : release.filing.formType}
+                    </Badge>
+                    {release.filing.items
+                      .filter((item) => item.code !== "9.01")
+                      .map((item) => (
+                        <Badge key={item.code} variant="secondary" className="text-xs" title={item.description}>
+                          {item.code} {EIGHT_K_ITEMS[item.code]?.label || item.description}
+                        </Badge>
+                      ))}
+                  </div>
+                )}
+
                 {/* Title with improved mobile spacing */}
                 <h3 className="font-medium text-sm mb-3 line-clamp-2 leading-relaxed text-foreground">
                   {release.title}
                 </h3>
 
+                {/* Topic categories the release matched, on a topic tab */}
+                {topicMatch && (
+                  <div className="flex flex-wrap items-center gap-1 mb-2" title={topicMatch.matchedTerms.join(", ")}>
+                    {topicMatch.categories.map((category) => (
+                      <Badge key={category} variant="outline" className="text-xs">
+                        {category}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">Relevance {topicMatch.relevanceScore}</span>
+                  </div>
+                )}
+
+                {/* Tags the team applied */}
+                {tagsOnRelease.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 mb-2">
+                    <Tag className="h-3 w-3 text-muted-foreground" />
+                    {tagsOnRelease.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs font-normal">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {/* Deal type, amount, period and counterparties */}
+                <FinancialFactsSummary facts={release.financialFacts} className="mb-2" />
+
                 {/* Summary with improved mobile readability */}
                 <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
                   {cleanHtmlTags(release.summary)}
                 </p>
+
+                {/* Syndicated copies of the same story */}
+                {relatedSources.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2" title={relatedSources.join(", ")}>
+                    Also reported by {relatedSources.length} {relatedSources.length === 1 ? "source" : "sources"}
+                  </p>
+                )}
               </div>
             )
           })}
 
           {safeReleases.length === 0 && (
             <div className="text-center py-12 text-muted-foreground">
-              <p className="text-sm mb-2">No press releases found</p>
-              <p className="text-xs">Try adjusting your company filters or refresh the data</p>
+              <p className="text-sm mb-2">{searching ? "No stored releases match your search" : "No press releases found"}</p>
+              <p className="text-xs">
+                {searching
+                  ? "Try other terms, a wider date range or more feed types"
+                  : "Try adjusting your company, topic, deal, tag or bookmark filters or refresh the data"}
+              </p>
             </div>
           )}
         </div>
@@ -8,6 +8,7 @@ interface AIAnalysisSectionProps {
   analysis: {
     summary: string
     keyPoints: string[]
+    unalignedHighlights?: Array<{ type: string; text: string; reasoning?: string }>
     usage?: {
       inputTokens: number
       outputTokens: number
@@ -173,6 +174,23 @@ export function AIAnalysisSection({
           </div>
         )}
 
+        {/* Highlights Claude quoted that couldn't be located in the article, so they can't be marked inline */}
+        {analysis.unalignedHighlights && analysis.unalignedHighlights.length > 0 && (
+          <div>
+            <h3 className="text-xs font-medium mb-2">Also Noted</h3>
+            <ul className="space-y-1">
+              {analysis.unalignedHighlights.map((highlight, index) => (
+                <li key={index} className="flex items-start gap-2 text-xs text-muted-foreground" title={highlight.reasoning}>
+                  <Badge variant="outline" className="text-[10px] px-1 py-0 capitalize shrink-0">
+                    {highlight.type}
+                  </Badge>
+                  <span>&ldquo;{highlight.text}&rdquo;</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {analysis.usage && (
           <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t border-border">
             <span>Tokens: {analysis.usage.inputTokens + analysis.usage.outputTokens} total</span>
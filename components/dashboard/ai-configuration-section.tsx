@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label"
 import { Eye, EyeOff, Key, CheckCircle, XCircle, Loader2, User } from "lucide-react"
 import { claudeAPIKeyManager } from "@/lib/claude-api-key"
 import { createClientComponentClient } from "@/lib/supabase/client"
+import { AnalysisQueueStatus } from "./analysis-queue-status"
 
 interface AIConfigurationSectionProps {
   onAPIKeyChange?: (hasKey: boolean) => void
@@ -19,7 +20,7 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
   const [testResult, setTestResult] = useState<{ valid: boolean; error?: string } | null>(null)
   const [saved, setSaved] = useState(false)
   const [hasStoredKey, setHasStoredKey] = useState(false)
-  const [displayKey, setDisplayKey] = useState("")
+  const [storedMaskedKey, setStoredMaskedKey] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [authDebug, setAuthDebug] = useState<any>(null)
@@ -76,15 +77,11 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
           return
         }
         
-        const storedKey = await claudeAPIKeyManager.getAPIKey()
-        const hasKey = await claudeAPIKeyManager.hasAPIKey()
+        // Only a masked copy is ever sent to the browser
+        const { hasKey, maskedKey } = await claudeAPIKeyManager.getAPIKeyStatus()
         
-        setApiKey(storedKey || "")
         setHasStoredKey(hasKey)
-        
-        if (hasKey && storedKey) {
-          setDisplayKey(claudeAPIKeyManager.maskAPIKey(storedKey))
-        }
+        setStoredMaskedKey(maskedKey)
         
         onAPIKeyChange?.(hasKey)
       } catch (error) {
@@ -115,8 +112,10 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
       console.log("AI Config: API key saved successfully")
       
       setSaved(true)
-      const hasKey = await claudeAPIKeyManager.hasAPIKey()
+      const { hasKey, maskedKey } = await claudeAPIKeyManager.getAPIKeyStatus()
       setHasStoredKey(hasKey)
+      setStoredMaskedKey(maskedKey)
+      setApiKey("")
       onAPIKeyChange?.(hasKey)
       setTimeout(() => setSaved(false), 2000)
     } catch (error) {
@@ -169,7 +168,7 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
 
   const handleClearKey = async () => {
     setApiKey("")
-    setDisplayKey("")
+    setStoredMaskedKey(null)
     await claudeAPIKeyManager.clearAPIKey()
     setTestResult(null)
     setSaved(false)
@@ -177,25 +176,6 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
     onAPIKeyChange?.(false)
   }
 
-  // Update display key when apiKey changes
-  useEffect(() => {
-    if (!apiKey) {
-      setDisplayKey("")
-    } else if (hasStoredKey && apiKey === "") {
-      // If there's a stored key but apiKey state is empty, show masked version
-      const loadMaskedKey = async () => {
-        const storedKey = await claudeAPIKeyManager.getAPIKey()
-        if (storedKey) {
-          setDisplayKey(claudeAPIKeyManager.maskAPIKey(storedKey))
-        }
-      }
-      loadMaskedKey()
-    } else {
-      // Otherwise show the current apiKey value
-      setDisplayKey(apiKey)
-    }
-  }, [apiKey, hasStoredKey])
-
   if (loading) {
     return (
       <div className="flex justify-center items-center p-4">
@@ -247,9 +227,10 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
               <Input
                 id="claude-api-key"
                 type={showKey ? "text" : "password"}
-                value={displayKey}
+                value={apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
-                placeholder="sk-ant-..."
+                // The stored key is never sent back, so its masked form stands in as a placeholder
+                placeholder={storedMaskedKey || "sk-ant-..."}
                 className="pr-10"
               />
               <Button
@@ -321,6 +302,8 @@ export function AIConfigurationSection({ onAPIKeyChange }: AIConfigurationSectio
         <div className="text-xs text-gray-500">
           Status: {hasStoredKey ? "✅ API key configured" : "❌ No API key configured"}
         </div>
+
+        {hasStoredKey && <AnalysisQueueStatus />}
       </div>
     </div>
   )
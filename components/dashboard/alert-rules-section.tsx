@@ -0,0 +1,522 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bell, Mail, Pencil, Plus, Send, Trash2, Webhook } from "lucide-react"
+import { useAlertRules } from "@/hooks/use-alert-rules"
+import { describeQuietHours } from "@/lib/alert-rules"
+import { SEARCH_FEED_TYPES, SEARCH_FEED_TYPE_LABELS } from "@/lib/release-search"
+import { browserTimeZone, formatRelativeTime } from "@/lib/date-utils"
+import type { AlertDeliveryStatus, AlertRule, Company, CreateAlertRule, SearchFeedType, TopicTaxonomy } from "@/lib/types"
+
+interface AlertRulesSectionProps {
+  companies: Company[]
+  topicTaxonomies: TopicTaxonomy[]
+}
+
+// Rule as edited in the form; "any" and "off" stand for unset selects
+interface AlertRuleForm {
+  name: string
+  enabled: boolean
+  companyId: string
+  query: string
+  topicTaxonomyId: string
+  topicCategory: string
+  minRelevanceScore: string
+  feedTypes: SearchFeedType[]
+  webhookUrl: string
+  email: string
+  quietHoursStart: string
+  quietHoursEnd: string
+  timezone: string
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const STATUS_STYLES: Record<AlertDeliveryStatus, string> = {
+  sent: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300",
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300",
+  deferred: "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300",
+}
+
+function emptyForm(): AlertRuleForm {
+  return {
+    name: "",
+    enabled: true,
+    companyId: "any",
+    query: "",
+    topicTaxonomyId: "any",
+    topicCategory: "any",
+    minRelevanceScore: "",
+    feedTypes: [],
+    webhookUrl: "",
+    email: "",
+    quietHoursStart: "off",
+    quietHoursEnd: "off",
+    timezone: browserTimeZone(),
+  }
+}
+
+function toForm(rule: AlertRule): AlertRuleForm {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    companyId: rule.companyId || "any",
+    query: rule.query || "",
+    topicTaxonomyId: rule.topicTaxonomyId || "any",
+    topicCategory: rule.topicCategory || "any",
+    minRelevanceScore: rule.minRelevanceScore === undefined ? "" : String(rule.minRelevanceScore),
+    feedTypes: rule.feedTypes,
+    webhookUrl: rule.webhookUrl || "",
+    email: rule.email || "",
+    quietHoursStart: rule.quietHoursStart === undefined ? "off" : String(rule.quietHoursStart),
+    quietHoursEnd: rule.quietHoursEnd === undefined ? "off" : String(rule.quietHoursEnd),
+    timezone: rule.timezone,
+  }
+}
+
+function fromForm(form: AlertRuleForm): CreateAlertRule {
+  const hasTopic = form.topicTaxonomyId !== "any"
+  return {
+    name: form.name.trim(),
+    enabled: form.enabled,
+    companyId: form.companyId === "any" ? undefined : form.companyId,
+    query: form.query.trim() || undefined,
+    topicTaxonomyId: hasTopic ? form.topicTaxonomyId : undefined,
+    topicCategory: hasTopic && form.topicCategory !== "any" ? form.topicCategory : undefined,
+    minRelevanceScore: hasTopic && form.minRelevanceScore.trim() ? Number(form.minRelevanceScore) : undefined,
+    feedTypes: form.feedTypes,
+    webhookUrl: form.webhookUrl.trim() || undefined,
+    email: form.email.trim() || undefined,
+    quietHoursStart: form.quietHoursStart === "off" ? undefined : Number(form.quietHoursStart),
+    quietHoursEnd: form.quietHoursEnd === "off" ? undefined : Number(form.quietHoursEnd),
+    timezone: form.timezone.trim() || "UTC",
+  }
+}
+
+export function AlertRulesSection({ companies, topicTaxonomies }: AlertRulesSectionProps) {
+  const {
+    alertRules,
+    deliveries,
+    loading,
+    error: loadError,
+    addAlertRule,
+    updateAlertRule,
+    deleteAlertRule,
+    sendTestAlert,
+    refreshDeliveries,
+  } = useAlertRules()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [addingNew, setAddingNew] = useState(false)
+  const [form, setForm] = useState<AlertRuleForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [testResults, setTestResults] = useState<Record<string, string>>({})
+
+  const companyNames = new Map(companies.map((company) => [company.id, company.name]))
+  const taxonomyNames = new Map(topicTaxonomies.map((taxonomy) => [taxonomy.id, taxonomy.name]))
+  const selectedTaxonomy = topicTaxonomies.find((taxonomy) => taxonomy.id === form.topicTaxonomyId)
+
+  const handleEdit = (rule: AlertRule) => {
+    setEditingId(rule.id)
+    setAddingNew(false)
+    setForm(toForm(rule))
+    setError("")
+  }
+
+  const handleAddNew = () => {
+    setEditingId(null)
+    setAddingNew(true)
+    setForm(emptyForm())
+    setError("")
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setAddingNew(false)
+    setError("")
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+    try {
+      const rule = fromForm(form)
+      if (editingId) {
+        await updateAlertRule(editingId, rule)
+      } else {
+        await addAlertRule(rule)
+      }
+      handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save alert rule")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      await updateAlertRule(rule.id, { enabled })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update alert rule")
+    }
+  }
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete the "${rule.name}" alert rule? Its delivery log will be removed too.`)) return
+    try {
+      await deleteAlertRule(rule.id)
+      if (editingId === rule.id) handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete alert rule")
+    }
+  }
+
+  const handleTest = async (rule: AlertRule) => {
+    setTestResults((prev) => ({ ...prev, [rule.id]: "Sending..." }))
+    try {
+      const results = await sendTestAlert(rule.id)
+      const summary = Object.entries(results)
+        .map(([channel, message]) => `${channel}: ${message || "sent"}`)
+        .join(" · ")
+      setTestResults((prev) => ({ ...prev, [rule.id]: summary }))
+    } catch (err) {
+      setTestResults((prev) => ({ ...prev, [rule.id]: err instanceof Error ? err.message : "Test alert failed" }))
+    }
+  }
+
+  const toggleFeedType = (type: SearchFeedType, checked: boolean) => {
+    setForm({
+      ...form,
+      feedTypes: checked ? [...form.feedTypes, type] : form.feedTypes.filter((t) => t !== type),
+    })
+  }
+
+  const describeRule = (rule: AlertRule): string => {
+    const parts = [rule.companyId ? companyNames.get(rule.companyId) || "Unknown company" : "All companies"]
+    if (rule.query) parts.push(`"${rule.query}"`)
+    if (rule.topicTaxonomyId) {
+      const topic = taxonomyNames.get(rule.topicTaxonomyId) || "Topic"
+      parts.push(rule.topicCategory ? `${topic} / ${rule.topicCategory}` : topic)
+    }
+    if (rule.minRelevanceScore !== undefined) parts.push(`relevance ≥ ${rule.minRelevanceScore}`)
+    if (rule.feedTypes.length > 0) parts.push(rule.feedTypes.map((type) => SEARCH_FEED_TYPE_LABELS[type]).join(", "))
+    return parts.join(" · ")
+  }
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="alert-name">Rule Name</Label>
+          <Input
+            id="alert-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., Credit facilities"
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <Label>Company</Label>
+          <Select value={form.companyId} onValueChange={(companyId) => setForm({ ...form, companyId })} disabled={saving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">All companies</SelectItem>
+              {companies.map((company) => (
+                <SelectItem key={company.id} value={company.id}>
+                  {company.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="alert-query">Keywords</Label>
+        <Input
+          id="alert-query"
+          value={form.query}
+          onChange={(e) => setForm({ ...form, query: e.target.value })}
+          placeholder='Optional, search syntax: "credit facility" OR unitranche -crypto'
+          disabled={saving}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label>Topic</Label>
+          <Select
+            value={form.topicTaxonomyId}
+            onValueChange={(topicTaxonomyId) => setForm({ ...form, topicTaxonomyId, topicCategory: "any" })}
+            disabled={saving}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any topic</SelectItem>
+              {topicTaxonomies.map((taxonomy) => (
+                <SelectItem key={taxonomy.id} value={taxonomy.id}>
+                  {taxonomy.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Category</Label>
+          <Select
+            value={form.topicCategory}
+            onValueChange={(topicCategory) => setForm({ ...form, topicCategory })}
+            disabled={saving || !selectedTaxonomy}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any category</SelectItem>
+              {selectedTaxonomy?.categories.map((category) => (
+                <SelectItem key={category.name} value={category.name}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="alert-min-score">Minimum relevance</Label>
+          <Input
+            id="alert-min-score"
+            type="number"
+            min={0}
+            max={100}
+            value={form.minRelevanceScore}
+            onChange={(e) => setForm({ ...form, minRelevanceScore: e.target.value })}
+            placeholder={selectedTaxonomy ? String(selectedTaxonomy.minScore) : ""}
+            disabled={saving || !selectedTaxonomy}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label>Feed types</Label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 mt-2">
+          {SEARCH_FEED_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.feedTypes.includes(type)}
+                onCheckedChange={(checked) => toggleFeedType(type, checked === true)}
+                disabled={saving}
+              />
+              {SEARCH_FEED_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Leave all unchecked to alert on every feed type.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="alert-webhook">Webhook URL</Label>
+          <Input
+            id="alert-webhook"
+            value={form.webhookUrl}
+            onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+            placeholder="https://hooks.slack.com/services/..."
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <Label htmlFor="alert-email">Email</Label>
+          <Input
+            id="alert-email"
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="you@example.com"
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label>Quiet hours from</Label>
+          <Select value={form.quietHoursStart} onValueChange={(quietHoursStart) => setForm({ ...form, quietHoursStart })} disabled={saving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {String(hour).padStart(2, "0")}:00
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Until</Label>
+          <Select value={form.quietHoursEnd} onValueChange={(quietHoursEnd) => setForm({ ...form, quietHoursEnd })} disabled={saving}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {String(hour).padStart(2, "0")}:00
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="alert-timezone">Time zone</Label>
+          <Input
+            id="alert-timezone"
+            value={form.timezone}
+            onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+            placeholder="e.g., Europe/London"
+            disabled={saving}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Alerts during quiet hours are held and sent when they end. Copies of the same story from different sources
+        alert once.
+      </p>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-medium mb-4 flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          Alert Rules
+        </h3>
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Get a webhook call or an email when polling finds new releases that match a rule, without keeping the
+          dashboard open.
+        </div>
+
+        {(error || loadError) && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded mb-3">
+            {error || loadError}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading alert rules...</div>
+        ) : (
+          <div className="space-y-3">
+            {alertRules.map((rule) => (
+              <div key={rule.id} className="border rounded-lg p-4">
+                {editingId === rule.id ? (
+                  renderForm()
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-medium flex items-center gap-2">
+                          {rule.name}
+                          {rule.webhookUrl && <Webhook className="h-3.5 w-3.5 text-gray-400" />}
+                          {rule.email && <Mail className="h-3.5 w-3.5 text-gray-400" />}
+                        </h3>
+                        <p className="text-xs text-gray-500 truncate">{describeRule(rule)}</p>
+                        {rule.quietHoursStart !== undefined && (
+                          <p className="text-xs text-gray-500">Quiet {describeQuietHours(rule)}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+                          title={rule.enabled ? "Disable rule" : "Enable rule"}
+                        />
+                        <Button size="sm" variant="ghost" onClick={() => handleTest(rule)} title="Send a test alert">
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {testResults[rule.id] && <p className="text-xs text-gray-500">Test: {testResults[rule.id]}</p>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {addingNew ? (
+          <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-900 mt-3">{renderForm()}</div>
+        ) : (
+          <Button variant="outline" onClick={handleAddNew} className="w-full mt-3">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Alert Rule
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-medium">Delivery Log</h3>
+          <Button size="sm" variant="ghost" onClick={refreshDeliveries}>
+            Refresh
+          </Button>
+        </div>
+        {deliveries.length === 0 ? (
+          <div className="text-sm text-gray-500">No alerts have been sent yet.</div>
+        ) : (
+          <div className="border rounded-lg divide-y">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="p-3 flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate">{delivery.releaseTitle || "Deleted release"}</p>
+                  <p className="text-xs text-gray-500">
+                    {delivery.ruleName} · {delivery.channel} · {formatRelativeTime(delivery.sentAt || delivery.createdAt)}
+                    {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                  </p>
+                  {delivery.lastError && delivery.status !== "sent" && (
+                    <p className="text-xs text-red-600 dark:text-red-400 truncate">{delivery.lastError}</p>
+                  )}
+                </div>
+                <Badge className={`text-xs shrink-0 ${STATUS_STYLES[delivery.status]}`}>
+                  {delivery.status === "deferred" ? "quiet hours" : delivery.status}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
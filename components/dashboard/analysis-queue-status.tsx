@@ -0,0 +1,79 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Loader2, RefreshCw } from "lucide-react"
+import type { AIAnalysisQueueSummary } from "@/lib/types"
+
+/**
+ * Background analysis status: queued, running and failed jobs and today's token usage
+ */
+export function AnalysisQueueStatus() {
+  const [summary, setSummary] = useState<AIAnalysisQueueSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSummary = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/analysis-queue")
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+      setSummary(data)
+      setError(null)
+    } catch (err) {
+      console.error("Error loading analysis queue:", err)
+      setError(err instanceof Error ? err.message : "Failed to load analysis queue")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSummary()
+  }, [])
+
+  const activeJobs = summary?.recentJobs.filter((job) => job.status !== "succeeded") || []
+
+  return (
+    <div className="space-y-2 pt-4 border-t">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Background Analysis</h4>
+        <Button onClick={loadSummary} disabled={loading} size="sm" variant="ghost" className="h-6 px-2">
+          {loading ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {summary && (
+        <>
+          <div className="text-xs text-gray-500">
+            {summary.counts.pending} pending · {summary.counts.running} running · {summary.counts.failed} failed ·{" "}
+            {summary.tokensUsedToday.toLocaleString()} / {summary.dailyTokenBudget.toLocaleString()} tokens today
+          </div>
+
+          {activeJobs.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {activeJobs.map((job) => (
+                <li key={job.id} className="flex justify-between gap-2">
+                  <span className="truncate">{job.releaseTitle || job.releaseId}</span>
+                  <span
+                    className={job.status === "failed" ? "text-red-600 shrink-0" : "text-gray-500 shrink-0"}
+                    title={job.lastError}
+                  >
+                    {job.status === "pending" && job.attempts > 0
+                      ? `retry ${job.attempts + 1}/${job.maxAttempts}`
+                      : job.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -7,10 +7,24 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Pencil, Trash2, Plus, Building2, Rss, Bot } from "lucide-react"
-import type { Company } from "@/lib/types"
+import { Pencil, Trash2, Plus, Building2, Rss, Bot, Tags, Bell, Users, FolderOpen, Newspaper } from "lucide-react"
+import type {
+  Company,
+  CreateTopicTaxonomy,
+  CreateWatchlistGroup,
+  TopicTaxonomy,
+  UpdateTopicTaxonomy,
+  UpdateWatchlistGroup,
+  WatchlistGroup,
+} from "@/lib/types"
+import { normalizeCik } from "@/lib/sec-edgar"
 import { AIConfigurationSection } from "./ai-configuration-section"
 import { RSSSourcesSection } from "./rss-sources-section"
+import { TopicTaxonomiesSection } from "./topic-taxonomies-section"
+import { AlertRulesSection } from "./alert-rules-section"
+import { WorkspaceSection } from "./workspace-section"
+import { WatchlistGroupsSection } from "./watchlist-groups-section"
+import { DigestSettingsSection } from "./digest-settings-section"
 
 interface CompanyManagementModalProps {
   open: boolean
@@ -21,6 +35,16 @@ interface CompanyManagementModalProps {
   addCompany: (company: Omit<Company, "id" | "userId" | "createdAt" | "updatedAt">) => Promise<Company>
   updateCompany: (id: string, updates: Partial<Company>) => Promise<Company>
   deleteCompany: (id: string) => Promise<void>
+  topicTaxonomies: TopicTaxonomy[]
+  addTopicTaxonomy: (taxonomy: CreateTopicTaxonomy) => Promise<TopicTaxonomy>
+  updateTopicTaxonomy: (id: string, updates: UpdateTopicTaxonomy) => Promise<TopicTaxonomy>
+  deleteTopicTaxonomy: (id: string) => Promise<void>
+  watchlistGroups: WatchlistGroup[]
+  addWatchlistGroup: (group: CreateWatchlistGroup) => Promise<WatchlistGroup>
+  updateWatchlistGroup: (id: string, updates: UpdateWatchlistGroup) => Promise<WatchlistGroup>
+  moveWatchlistGroup: (id: string, direction: -1 | 1) => Promise<void>
+  deleteWatchlistGroup: (id: string) => Promise<void>
+  currentUserId?: string
 }
 
 export function CompanyManagementModal({ 
@@ -31,7 +55,17 @@ export function CompanyManagementModal({
   companies,
   addCompany,
   updateCompany,
-  deleteCompany 
+  deleteCompany,
+  topicTaxonomies,
+  addTopicTaxonomy,
+  updateTopicTaxonomy,
+  deleteTopicTaxonomy,
+  watchlistGroups,
+  addWatchlistGroup,
+  updateWatchlistGroup,
+  moveWatchlistGroup,
+  deleteWatchlistGroup,
+  currentUserId,
 }: CompanyManagementModalProps) {
   const [activeTab, setActiveTab] = useState("ai")
   const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null)
@@ -44,7 +78,7 @@ export function CompanyManagementModal({
   }, [companies, selectedCompanyId])
   const [editingId, setEditingId] = useState<string | null>(null)
   const [addingNew, setAddingNew] = useState(false)
-  const [editForm, setEditForm] = useState({ name: "", variations: "" })
+  const [editForm, setEditForm] = useState({ name: "", variations: "", negativeKeywords: "", cik: "" })
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState("")
 
@@ -53,6 +87,8 @@ export function CompanyManagementModal({
     setEditForm({
       name: company.name,
       variations: company.variations.join(", "),
+      negativeKeywords: (company.negativeKeywords || []).join(", "),
+      cik: company.cik || "",
     })
     setAddingNew(false)
     setError("")
@@ -61,7 +97,7 @@ export function CompanyManagementModal({
   const handleAddNew = () => {
     setAddingNew(true)
     setEditingId(null)
-    setEditForm({ name: "", variations: "" })
+    setEditForm({ name: "", variations: "", negativeKeywords: "", cik: "" })
     setError("")
   }
 
@@ -71,6 +107,12 @@ export function CompanyManagementModal({
       return
     }
 
+    const cik = editForm.cik.trim() ? normalizeCik(editForm.cik) : ""
+    if (cik === null) {
+      setError("CIK must be up to 10 digits, e.g. 0000320193")
+      return
+    }
+
     setSaving(true)
     setError("")
 
@@ -79,6 +121,10 @@ export function CompanyManagementModal({
         .split(",")
         .map((v) => v.trim())
         .filter((v) => v.length > 0)
+      const negativeKeywords = editForm.negativeKeywords
+        .split(",")
+        .map((k) => k.trim())
+        .filter((k) => k.length > 0)
 
       let updatedCompanies: Company[] = [...companies]
       let addedCompanyName: string | undefined = undefined
@@ -88,6 +134,8 @@ export function CompanyManagementModal({
         const newCompany = await addCompany({
           name: companyName,
           variations,
+          negativeKeywords,
+          cik: cik || undefined,
           website: "",
           industry: "",
         })
@@ -97,13 +145,15 @@ export function CompanyManagementModal({
         const updated = await updateCompany(editingId, {
           name: editForm.name.trim(),
           variations,
+          negativeKeywords,
+          cik,
         })
         updatedCompanies = companies.map(c => c.id === editingId ? updated : c)
       }
 
       setEditingId(null)
       setAddingNew(false)
-      setEditForm({ name: "", variations: "" })
+      setEditForm({ name: "", variations: "", negativeKeywords: "", cik: "" })
       
       // Update selected company if needed
       if (addedCompanyName && !selectedCompanyId) {
@@ -125,7 +175,7 @@ export function CompanyManagementModal({
   const handleCancel = () => {
     setEditingId(null)
     setAddingNew(false)
-    setEditForm({ name: "", variations: "" })
+    setEditForm({ name: "", variations: "", negativeKeywords: "", cik: "" })
     setError("")
   }
 
@@ -152,7 +202,7 @@ export function CompanyManagementModal({
         )}
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="ai" className="flex items-center gap-2">
               <Bot className="h-4 w-4" />
               AI Settings
@@ -161,10 +211,30 @@ export function CompanyManagementModal({
               <Building2 className="h-4 w-4" />
               Companies
             </TabsTrigger>
+            <TabsTrigger value="groups" className="flex items-center gap-2">
+              <FolderOpen className="h-4 w-4" />
+              Groups
+            </TabsTrigger>
             <TabsTrigger value="rss" className="flex items-center gap-2">
               <Rss className="h-4 w-4" />
               RSS Sources
             </TabsTrigger>
+            <TabsTrigger value="topics" className="flex items-center gap-2">
+              <Tags className="h-4 w-4" />
+              Topics
+            </TabsTrigger>
+            <TabsTrigger value="alerts" className="flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              Alerts
+            </TabsTrigger>
+            <TabsTrigger value="digest" className="flex items-center gap-2">
+              <Newspaper className="h-4 w-4" />
+              Digest
+            </TabsTrigger>
+            <TabsTrigger value="team" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Team
+            </TabsTrigger>
           </TabsList>
 
           <div className="mt-6">
@@ -204,6 +274,28 @@ export function CompanyManagementModal({
                         />
                         <p className="text-xs text-gray-500 mt-1">Add variations separated by commas</p>
                       </div>
+                      <div>
+                        <Label htmlFor="edit-negative-keywords">Exclude keywords</Label>
+                        <Input
+                          id="edit-negative-keywords"
+                          value={editForm.negativeKeywords}
+                          onChange={(e) => setEditForm({ ...editForm, negativeKeywords: e.target.value })}
+                          placeholder="e.g., Apple Records, Apollo program"
+                          disabled={saving}
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Articles mentioning any of these are not matched to this company</p>
+                      </div>
+                      <div>
+                        <Label htmlFor="edit-cik">SEC CIK</Label>
+                        <Input
+                          id="edit-cik"
+                          value={editForm.cik}
+                          onChange={(e) => setEditForm({ ...editForm, cik: e.target.value })}
+                          placeholder="e.g., 0001393818"
+                          disabled={saving}
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Lets you subscribe to this company&apos;s SEC filings from the RSS Sources tab</p>
+                      </div>
                       <div className="flex gap-2">
                         <Button size="sm" onClick={handleSave} disabled={saving}>
                           {saving ? "Saving..." : "Save"}
@@ -261,6 +353,26 @@ export function CompanyManagementModal({
                       disabled={saving}
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="new-negative-keywords">Exclude keywords</Label>
+                    <Input
+                      id="new-negative-keywords"
+                      value={editForm.negativeKeywords}
+                      onChange={(e) => setEditForm({ ...editForm, negativeKeywords: e.target.value })}
+                      placeholder="Optional: Articles mentioning these are not matched (e.g., Apple Records)"
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="new-cik">SEC CIK</Label>
+                    <Input
+                      id="new-cik"
+                      value={editForm.cik}
+                      onChange={(e) => setEditForm({ ...editForm, cik: e.target.value })}
+                      placeholder="Optional: SEC Central Index Key for filings (e.g., 0001393818)"
+                      disabled={saving}
+                    />
+                  </div>
                   <div className="flex gap-2">
                     <Button size="sm" onClick={handleSave} disabled={saving}>
                       {saving ? "Saving..." : "Save"}
@@ -280,6 +392,17 @@ export function CompanyManagementModal({
               </div>
             </TabsContent>
 
+            <TabsContent value="groups" className="space-y-6">
+              <WatchlistGroupsSection
+                companies={companies}
+                groups={watchlistGroups}
+                addGroup={addWatchlistGroup}
+                updateGroup={updateWatchlistGroup}
+                moveGroup={moveWatchlistGroup}
+                deleteGroup={deleteWatchlistGroup}
+              />
+            </TabsContent>
+
             <TabsContent value="rss" className="space-y-6">
               <RSSSourcesSection 
                 companies={companies}
@@ -287,6 +410,27 @@ export function CompanyManagementModal({
                 onCompanySelect={setSelectedCompanyId}
               />
             </TabsContent>
+
+            <TabsContent value="topics" className="space-y-6">
+              <TopicTaxonomiesSection
+                taxonomies={topicTaxonomies}
+                addTaxonomy={addTopicTaxonomy}
+                updateTaxonomy={updateTopicTaxonomy}
+                deleteTaxonomy={deleteTopicTaxonomy}
+              />
+            </TabsContent>
+
+            <TabsContent value="alerts" className="space-y-6">
+              <AlertRulesSection companies={companies} topicTaxonomies={topicTaxonomies} />
+            </TabsContent>
+
+            <TabsContent value="digest" className="space-y-6">
+              <DigestSettingsSection companies={companies} />
+            </TabsContent>
+
+            <TabsContent value="team" className="space-y-6">
+              <WorkspaceSection currentUserId={currentUserId} />
+            </TabsContent>
           </div>
         </Tabs>
       </DialogContent>
@@ -1,19 +1,38 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Header } from "./header"
-import { ActivityFeed } from "./activity-feed"
+import {
+  ActivityFeed,
+  GROUP_FILTER_PREFIX,
+  TOPIC_FILTER_PREFIX,
+  SAVED_SEARCH_FILTER_PREFIX,
+  groupFilterValue,
+  savedSearchFilterValue,
+} from "./activity-feed"
+import { ReleaseSearchBar } from "./release-search-bar"
 import { PressReleaseDetail } from "./press-release-detail"
 import { APIKeyBannerWrapper } from "./api-key-warning-banner"
-import type { PressRelease, Company } from "@/lib/types"
+import type { PressRelease, Company, ReleaseExportFormat, ReleaseSearchFilters } from "@/lib/types"
 import { CompanyManagementModal } from "./company-management-modal"
 import { useEnhancedPressReleases } from "@/hooks/use-enhanced-press-releases"
 import { convertRSSItemToPressRelease } from "@/lib/rss-to-press-release"
-import { readStatusManager } from "@/lib/read-status"
-import { bookmarkManager } from "@/lib/bookmark-manager"
 import { claudeAPIKeyManager } from "@/lib/claude-api-key"
 import { useCompanies } from "@/hooks/use-companies"
+import { useTopicTaxonomies } from "@/hooks/use-topic-taxonomies"
+import { useSavedSearches } from "@/hooks/use-saved-searches"
+import { useWatchlistGroups } from "@/hooks/use-watchlist-groups"
+import { useReleaseSearch } from "@/hooks/use-release-search"
+import { useReadStatus } from "@/hooks/use-read-status"
+import { useBookmarks } from "@/hooks/use-bookmarks"
+import { useReleaseTags } from "@/hooks/use-release-tags"
+import { useReleaseExport } from "@/hooks/use-release-export"
 import { pressReleasesCache } from "@/lib/cache"
+import { DEFAULT_FINANCIAL_FACTS_FILTER, matchesFinancialFactsFilter, type FinancialFactsFilter } from "@/lib/financial-facts"
+import { compileTaxonomy, detectTopics } from "@/lib/topic-detector"
+import { countUnreadByGroup, releasesInGroup } from "@/lib/watchlist-groups"
+import { EMPTY_SEARCH_FILTERS } from "@/lib/release-search"
+import { sameTag } from "@/lib/release-annotations"
 
 interface DashboardProps {
   user: any
@@ -23,8 +42,14 @@ interface DashboardProps {
 export function Dashboard({ user, onSignOut }: DashboardProps) {
   const [selectedRelease, setSelectedRelease] = useState<PressRelease | null>(null)
   const [selectedCompany, setSelectedCompany] = useState<string>("All")
-  const [readReleases, setReadReleases] = useState<Set<string>>(new Set())
-  const [bookmarkedReleases, setBookmarkedReleases] = useState<Set<string>>(new Set())
+  const [factsFilter, setFactsFilter] = useState<FinancialFactsFilter>(DEFAULT_FINANCIAL_FACTS_FILTER)
+  const [searchFilters, setSearchFilters] = useState<ReleaseSearchFilters>(EMPTY_SEARCH_FILTERS)
+  const [selectedTag, setSelectedTag] = useState<string>("any")
+  const [bookmarkedOnly, setBookmarkedOnly] = useState(false)
+  const { readReleases, markAsRead } = useReadStatus()
+  const { bookmarks: bookmarkedReleases, toggleBookmark: toggleStoredBookmark } = useBookmarks()
+  const { releaseTags, allTags, addTag: addReleaseTag, removeTag: removeReleaseTag } = useReleaseTags()
+  const { exporting, error: exportError, exportReleases } = useReleaseExport()
   const [settingsOpen, setSettingsOpen] = useState(false)
   
   // Tri-state API key management: null = loading, true = has key, false = no key
@@ -50,6 +75,26 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
     deleteCompany 
   } = useCompanies()
 
+  const {
+    taxonomies: topicTaxonomies,
+    addTaxonomy,
+    updateTaxonomy,
+    deleteTaxonomy,
+  } = useTopicTaxonomies()
+
+  const {
+    groups: watchlistGroups,
+    addGroup: addWatchlistGroup,
+    updateGroup: updateWatchlistGroup,
+    moveGroup: moveWatchlistGroup,
+    deleteGroup: deleteWatchlistGroup,
+    removeCompany: removeCompanyFromGroups,
+  } = useWatchlistGroups()
+
+  const { savedSearches, addSavedSearch, deleteSavedSearch } = useSavedSearches()
+  const search = useReleaseSearch(searchFilters)
+  const activeSavedSearch = savedSearches.find((saved) => savedSearchFilterValue(saved.id) === selectedCompany)
+
   // Sync local companies with fetched companies
   useEffect(() => {
     if (Array.isArray(companies)) {
@@ -91,10 +136,6 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
       }
     }
 
-    // Load read status and bookmarks
-    setReadReleases(readStatusManager.getReadReleases())
-    setBookmarkedReleases(bookmarkManager.getBookmarkedReleases())
-
     // Check API key status immediately
     checkAPIKeyStatus()
   }, [])
@@ -105,6 +146,73 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
     setApiKeyCheckError(null)
   }
 
+  // Score releases against the user's topics; recomputed when either changes, so edits apply immediately
+  const compiledTaxonomies = useMemo(() => topicTaxonomies.map(compileTaxonomy), [topicTaxonomies])
+  const topicMatchesById = useMemo(() => {
+    const matches = new Map<string, PressRelease["topicMatches"]>()
+    for (const item of [...(rssData?.items || []), ...search.results]) {
+      matches.set(item.id, detectTopics(compiledTaxonomies, item.title, item.content))
+    }
+    return matches
+  }, [rssData, search.results, compiledTaxonomies])
+
+  // Fall back to all releases when the selected topic, group or saved search is deleted
+  useEffect(() => {
+    if (
+      selectedCompany.startsWith(TOPIC_FILTER_PREFIX) &&
+      !topicTaxonomies.some((taxonomy) => `${TOPIC_FILTER_PREFIX}${taxonomy.id}` === selectedCompany)
+    ) {
+      setSelectedCompany("All")
+    }
+  }, [topicTaxonomies, selectedCompany])
+
+  useEffect(() => {
+    if (
+      selectedCompany.startsWith(GROUP_FILTER_PREFIX) &&
+      !watchlistGroups.some((group) => groupFilterValue(group.id) === selectedCompany)
+    ) {
+      setSelectedCompany("All")
+    }
+  }, [watchlistGroups, selectedCompany])
+
+  // Fall back to all tags when the last release with the selected tag is untagged
+  useEffect(() => {
+    if (selectedTag !== "any" && !allTags.some((tag) => sameTag(tag, selectedTag))) {
+      setSelectedTag("any")
+    }
+  }, [allTags, selectedTag])
+
+  // Selecting a saved search runs it; leaving it clears the search it brought along
+  const handleFilterChange = (value: string) => {
+    const savedSearch = savedSearches.find((saved) => savedSearchFilterValue(saved.id) === value)
+    if (savedSearch) {
+      const { query, sinceDays, from, to, feedTypes } = savedSearch
+      setSearchFilters({ query, sinceDays, from, to, feedTypes })
+    } else if (activeSavedSearch) {
+      setSearchFilters(EMPTY_SEARCH_FILTERS)
+    }
+    setSelectedCompany(value)
+  }
+
+  // Editing the search turns a saved view into an ad hoc search
+  const handleSearchChange = (filters: ReleaseSearchFilters) => {
+    if (selectedCompany.startsWith(SAVED_SEARCH_FILTER_PREFIX)) {
+      setSelectedCompany("All")
+    }
+    setSearchFilters(filters)
+  }
+
+  const handleSaveSearch = async (name: string) => {
+    const saved = await addSavedSearch({ ...searchFilters, name })
+    setSelectedCompany(savedSearchFilterValue(saved.id))
+  }
+
+  const handleDeleteSavedSearch = async (id: string) => {
+    await deleteSavedSearch(id)
+    setSearchFilters(EMPTY_SEARCH_FILTERS)
+    setSelectedCompany("All")
+  }
+
   // Convert enhanced items to PressRelease format with safe array handling
   const pressReleases: PressRelease[] =
     rssData?.items?.map((item, index) => {
@@ -120,10 +228,13 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
         sourceUrl: item.sourceUrl,
         publishedAt: item.publishedAt,
         companyId: companyId,
-        // Preserve fintech detection fields
-        isFintech: item.isFintech,
-        fintechCategories: item.fintechCategories,
-        fintechRelevanceScore: item.fintechRelevanceScore,
+        companyMatches: item.companyMatches,
+        filing: item.filing,
+        relatedReleases: item.relatedReleases,
+        aiAnalysis: item.aiAnalysis,
+        highlights: item.highlights,
+        financialFacts: item.financialFacts,
+        topicMatches: topicMatchesById.get(item.id),
         createdAt: item.createdAt
       }
     }) || []
@@ -135,43 +246,86 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
     }
   }, [pressReleases, selectedRelease])
 
-  const filteredReleases =
-    selectedCompany === "All"
-      ? pressReleases
-      : selectedCompany === "Fintech News"
-      ? pressReleases
-          .filter((release) => release.isFintech === true)
+  const selectedTopicId = selectedCompany.startsWith(TOPIC_FILTER_PREFIX)
+    ? selectedCompany.slice(TOPIC_FILTER_PREFIX.length)
+    : null
+  const selectedGroup = watchlistGroups.find((group) => groupFilterValue(group.id) === selectedCompany)
+  const topicScore = (release: PressRelease) =>
+    release.topicMatches?.find((match) => match.taxonomyId === selectedTopicId)?.relevanceScore || 0
+
+  // While searching, the feed lists matching stored releases instead of the live feed
+  const feedReleases = search.active
+    ? search.results.map((release) => ({ ...release, topicMatches: topicMatchesById.get(release.id) }))
+    : pressReleases
+
+  const companyReleases =
+    selectedCompany === "All" || activeSavedSearch
+      ? feedReleases
+      : selectedGroup
+      ? releasesInGroup(selectedGroup, feedReleases)
+      : selectedTopicId
+      ? feedReleases
+          .filter((release) => topicScore(release) > 0)
           .sort((a, b) => {
-            // Sort by fintech relevance score (higher scores first)
-            const scoreA = a.fintechRelevanceScore || 0
-            const scoreB = b.fintechRelevanceScore || 0
+            // Sort by topic relevance score (higher scores first)
+            const scoreA = topicScore(a)
+            const scoreB = topicScore(b)
             if (scoreA !== scoreB) {
               return scoreB - scoreA
             }
             // If scores are equal, sort by date (newest first)
             return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
           })
-      : pressReleases.filter((release) => {
+      : feedReleases.filter((release) => {
           const company = localCompanies.find((c) => c.id === release.companyId)
           return company?.name === selectedCompany
         })
 
+  // Unread counts cover the live feed, so they don't change while a search is showing
+  const groupUnreadCounts = countUnreadByGroup(watchlistGroups, pressReleases, readReleases)
+
+  const filteredReleases = companyReleases.filter(
+    (release) =>
+      matchesFinancialFactsFilter(release.financialFacts, factsFilter) &&
+      (selectedTag === "any" || (releaseTags.get(release.id) || []).some((tag) => sameTag(tag, selectedTag))) &&
+      (!bookmarkedOnly || bookmarkedReleases.has(release.id)),
+  )
+
+  // The export covers the stored releases of the view on screen
+  const handleExport = (format: ReleaseExportFormat) => {
+    const selectedCompanyId = localCompanies.find((c) => c.name === selectedCompany)?.id
+    const { query, sinceDays, from, to } = searchFilters
+    exportReleases(
+      {
+        query,
+        sinceDays,
+        from,
+        to,
+        companyIds: selectedGroup ? selectedGroup.companyIds : selectedCompanyId ? [selectedCompanyId] : [],
+        topicTaxonomyId: selectedTopicId || undefined,
+        bookmarkedOnly,
+        tag: selectedTag === "any" ? undefined : selectedTag,
+        dealType: factsFilter.dealType,
+        minAmount: factsFilter.minAmount,
+      },
+      format,
+    ).catch(() => {}) // The hook keeps the error for the feed to show
+  }
+
   const handleReleaseSelect = (release: PressRelease) => {
     setSelectedRelease(release)
     // Switch to detail view on mobile when a release is selected
     setMobileView('detail')
 
     // Mark as read
+    // Mark as read (the hook rolls back if the save fails)
     if (!readReleases.has(release.id)) {
-      readStatusManager.markAsRead(release.id)
-      setReadReleases(readStatusManager.getReadReleases())
+      markAsRead(release.id).catch((error) => console.error("Error marking release as read:", error))
     }
   }
 
   const toggleBookmark = (releaseId: string) => {
-    const newBookmarkState = bookmarkManager.toggleBookmark(releaseId)
-    setBookmarkedReleases(bookmarkManager.getBookmarkedReleases())
-    return newBookmarkState
+    toggleStoredBookmark(releaseId).catch((error) => console.error("Error toggling bookmark:", error))
   }
 
   const handleSignOut = () => {
@@ -280,8 +434,24 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
           <ActivityFeed
             releases={filteredReleases}
             companies={localCompanies}
+            topics={topicTaxonomies}
+            groups={watchlistGroups}
+            groupUnreadCounts={groupUnreadCounts}
+            savedSearches={savedSearches}
+            searching={search.active}
+            searchBar={
+              <ReleaseSearchBar
+                filters={searchFilters}
+                onFiltersChange={handleSearchChange}
+                loading={search.loading}
+                error={search.error}
+                activeSavedSearch={activeSavedSearch}
+                onSave={handleSaveSearch}
+                onDeleteSavedSearch={handleDeleteSavedSearch}
+              />
+            }
             selectedCompany={selectedCompany}
-            onCompanyChange={setSelectedCompany}
+            onCompanyChange={handleFilterChange}
             selectedReleaseId={selectedRelease?.id}
             onReleaseSelect={handleReleaseSelect}
             readReleases={readReleases}
@@ -290,6 +460,17 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
             refreshing={rssLoading}
             isBackgroundRefreshing={isBackgroundRefreshing}
             processingCompanies={processingCompanies}
+            factsFilter={factsFilter}
+            onFactsFilterChange={setFactsFilter}
+            tags={allTags}
+            releaseTags={releaseTags}
+            selectedTag={selectedTag}
+            onTagChange={setSelectedTag}
+            bookmarkedOnly={bookmarkedOnly}
+            onBookmarkedOnlyChange={setBookmarkedOnly}
+            onExport={handleExport}
+            exporting={exporting !== null}
+            exportError={exportError}
           />
         </div>
 
@@ -305,6 +486,10 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
               company={localCompanies.find((c) => c.id === selectedRelease.companyId)}
               isBookmarked={bookmarkedReleases.has(selectedRelease.id)}
               onToggleBookmark={() => toggleBookmark(selectedRelease.id)}
+              tags={releaseTags.get(selectedRelease.id) || []}
+              tagSuggestions={allTags}
+              onAddTag={(tag) => addReleaseTag(selectedRelease.id, tag)}
+              onRemoveTag={(tag) => removeReleaseTag(selectedRelease.id, tag)}
               onBackToFeed={handleBackToFeed}
               showBackButton={true}
             />
@@ -324,7 +509,20 @@ export function Dashboard({ user, onSignOut }: DashboardProps) {
         companies={companies}
         addCompany={addCompany}
         updateCompany={updateCompany}
-        deleteCompany={deleteCompany}
+        deleteCompany={async (id: string) => {
+          await deleteCompany(id)
+          removeCompanyFromGroups(id)
+        }}
+        topicTaxonomies={topicTaxonomies}
+        addTopicTaxonomy={addTaxonomy}
+        updateTopicTaxonomy={updateTaxonomy}
+        deleteTopicTaxonomy={deleteTaxonomy}
+        watchlistGroups={watchlistGroups}
+        addWatchlistGroup={addWatchlistGroup}
+        updateWatchlistGroup={updateWatchlistGroup}
+        moveWatchlistGroup={moveWatchlistGroup}
+        deleteWatchlistGroup={deleteWatchlistGroup}
+        currentUserId={user?.id}
         onCompaniesChange={async (newCompanies?: Company[], addedCompanyName?: string) => {
           console.log("🔄 Companies changed - updating optimistically")
           console.log("📋 New companies:", newCompanies?.map(c => c.name))
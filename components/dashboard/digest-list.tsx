@@ -0,0 +1,164 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { ArrowLeft, ExternalLink, Loader2, Mail, Newspaper, Sparkles, Webhook } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useDigests } from "@/hooks/use-digests"
+import { describeDigestSchedule } from "@/lib/digests"
+import { isWebURL } from "@/lib/markup"
+import type { AlertChannel, Digest } from "@/lib/types"
+
+interface DigestListProps {
+  selectedId?: string // Digest linked from an email or webhook, scrolled to and opened
+}
+
+function describePeriod(digest: Digest): string {
+  const start = format(new Date(digest.periodStart), "MMM d")
+  const end = format(new Date(digest.periodEnd), "MMM d")
+  const year = format(new Date(digest.periodEnd), "yyyy")
+  return start === end ? `${end}, ${year}` : `${start} – ${end}, ${year}`
+}
+
+function DeliveryBadge({ channel, error }: { channel: AlertChannel; error: string | null | undefined }) {
+  const Icon = channel === "email" ? Mail : Webhook
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs gap-1 ${error ? "text-red-600 border-red-300 dark:text-red-400" : ""}`}
+      title={error || `Sent by ${channel}`}
+    >
+      <Icon className="h-3 w-3" />
+      {error ? `${channel} failed` : channel}
+    </Badge>
+  )
+}
+
+export function DigestList({ selectedId }: DigestListProps) {
+  const { settings, digests, loading, error } = useDigests()
+  const [openId, setOpenId] = useState<string | undefined>(selectedId)
+
+  // Open the linked digest, or the latest one
+  useEffect(() => {
+    if (loading || digests.length === 0) return
+    const target = digests.find((digest) => digest.id === selectedId) || digests[0]
+    setOpenId(target.id)
+    if (target.id === selectedId) {
+      document.getElementById(`digest-${target.id}`)?.scrollIntoView({ block: "start" })
+    }
+  }, [loading, digests, selectedId])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bricolage font-semibold tracking-tight flex items-center gap-2">
+              <Newspaper className="h-5 w-5" />
+              Digest
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {settings?.enabled
+                ? describeDigestSchedule(settings)
+                : "No digest scheduled. Set one up in Settings > Digest on the dashboard."}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded">{error}</div>
+        )}
+
+        {loading ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+        ) : digests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No digests yet. They appear here once one has been sent.</p>
+        ) : (
+          digests.map((digest) => {
+            const open = digest.id === openId
+            const channels = Object.keys(digest.deliveries) as AlertChannel[]
+
+            return (
+              <Card key={digest.id} id={`digest-${digest.id}`} className="scroll-mt-4">
+                <CardHeader className="cursor-pointer" onClick={() => setOpenId(open ? undefined : digest.id)}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-base">{describePeriod(digest)}</CardTitle>
+                      <CardDescription>
+                        {digest.releaseCount} {digest.releaseCount === 1 ? "release" : "releases"} from{" "}
+                        {digest.sections.length} {digest.sections.length === 1 ? "company" : "companies"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {channels.map((channel) => (
+                        <DeliveryBadge key={channel} channel={channel} error={digest.deliveries[channel]} />
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
+
+                {open && (
+                  <CardContent className="space-y-6">
+                    {digest.sections.map((section) => (
+                      <div key={section.companyId} className="space-y-2">
+                        <h3 className="font-medium border-b pb-1">
+                          {section.companyName}{" "}
+                          <span className="text-sm font-normal text-muted-foreground">({section.releaseCount})</span>
+                        </h3>
+                        {section.rollup && (
+                          <p className="text-sm flex gap-2">
+                            <Sparkles className="h-4 w-4 shrink-0 mt-0.5 text-purple-500" />
+                            <span>{section.rollup}</span>
+                          </p>
+                        )}
+                        <ul className="space-y-2">
+                          {section.releases.map((release) => (
+                            <li key={release.id} className="text-sm">
+                              {isWebURL(release.sourceUrl) ? (
+                                <a
+                                  href={release.sourceUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="font-medium hover:underline inline-flex items-center gap-1"
+                                >
+                                  {release.title}
+                                  <ExternalLink className="h-3 w-3 shrink-0" />
+                                </a>
+                              ) : (
+                                <span className="font-medium">{release.title}</span>
+                              )}
+                              <span className="text-xs text-muted-foreground ml-2">
+                                {format(new Date(release.publishedAt), "MMM d")}
+                              </span>
+                              {!section.rollup && release.summary && (
+                                <p className="text-muted-foreground line-clamp-2">{release.summary}</p>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                        {section.releaseCount > section.releases.length && (
+                          <p className="text-xs text-muted-foreground">
+                            and {section.releaseCount - section.releases.length} more in the feed
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                )}
+              </Card>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Newspaper, Send } from "lucide-react"
+import { useDigests } from "@/hooks/use-digests"
+import { DIGEST_FREQUENCY_LABELS, WEEKDAYS, describeDigestSchedule } from "@/lib/digests"
+import { browserTimeZone, formatRelativeTime } from "@/lib/date-utils"
+import type { Company, DigestFrequency, DigestSettings, SaveDigestSettings } from "@/lib/types"
+
+interface DigestSettingsSectionProps {
+  companies: Company[]
+}
+
+// Settings as edited in the form
+interface DigestForm {
+  enabled: boolean
+  frequency: DigestFrequency
+  sendHour: string
+  weekday: string
+  timezone: string
+  companyIds: string[]
+  email: string
+  webhookUrl: string
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+function toForm(settings: DigestSettings | null): DigestForm {
+  return {
+    enabled: settings?.enabled ?? true,
+    frequency: settings?.frequency || "daily",
+    sendHour: String(settings?.sendHour ?? 8),
+    weekday: String(settings?.weekday ?? 1),
+    timezone: settings?.timezone || browserTimeZone(),
+    companyIds: settings?.companyIds || [],
+    email: settings?.email || "",
+    webhookUrl: settings?.webhookUrl || "",
+  }
+}
+
+function fromForm(form: DigestForm): SaveDigestSettings {
+  return {
+    enabled: form.enabled,
+    frequency: form.frequency,
+    sendHour: Number(form.sendHour),
+    weekday: Number(form.weekday),
+    timezone: form.timezone.trim() || "UTC",
+    companyIds: form.companyIds,
+    email: form.email.trim() || undefined,
+    webhookUrl: form.webhookUrl.trim() || undefined,
+  }
+}
+
+export function DigestSettingsSection({ companies }: DigestSettingsSectionProps) {
+  const { settings, loading, error: loadError, saveSettings, sendNow } = useDigests()
+  const [form, setForm] = useState<DigestForm>(() => toForm(null))
+  const [saving, setSaving] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState("")
+  const [status, setStatus] = useState("")
+
+  useEffect(() => {
+    if (!loading) setForm(toForm(settings))
+  }, [loading, settings])
+
+  // Companies removed from the workspace drop out of the selection
+  const selectedIds = form.companyIds.filter((id) => companies.some((company) => company.id === id))
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+    setStatus("")
+    try {
+      await saveSettings(fromForm({ ...form, companyIds: selectedIds }))
+      setStatus("Saved")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save digest settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSendNow = async () => {
+    setSending(true)
+    setError("")
+    setStatus("")
+    try {
+      const digest = await sendNow()
+      if (!digest) {
+        setStatus("No new releases since the last digest")
+      } else {
+        const failures = Object.entries(digest.deliveries).filter(([, message]) => message)
+        setStatus(
+          failures.length > 0
+            ? failures.map(([channel, message]) => `${channel}: ${message}`).join(" · ")
+            : `Sent a digest of ${digest.releaseCount} releases`
+        )
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send digest")
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const toggleCompany = (id: string, checked: boolean) => {
+    setForm({
+      ...form,
+      companyIds: checked ? [...selectedIds, id] : selectedIds.filter((companyId) => companyId !== id),
+    })
+  }
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading digest settings...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="font-medium flex items-center gap-2">
+            <Newspaper className="h-4 w-4" />
+            Scheduled Digest
+          </h3>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={form.enabled} onCheckedChange={(enabled) => setForm({ ...form, enabled })} disabled={saving} />
+            {form.enabled ? "On" : "Off"}
+          </label>
+        </div>
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          A summary of the releases stored since your last digest, grouped by company. With a Claude API key each
+          company gets a short AI roll-up of its releases. Digests are kept on the{" "}
+          <Link href="/digest" className="underline">
+            Digest page
+          </Link>
+          .
+        </div>
+
+        {(error || loadError) && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded mb-3">
+            {error || loadError}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div>
+              <Label>Frequency</Label>
+              <Select
+                value={form.frequency}
+                onValueChange={(frequency) => setForm({ ...form, frequency: frequency as DigestFrequency })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIGEST_FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Day</Label>
+              <Select
+                value={form.weekday}
+                onValueChange={(weekday) => setForm({ ...form, weekday })}
+                disabled={saving || form.frequency !== "weekly"}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Time</Label>
+              <Select value={form.sendHour} onValueChange={(sendHour) => setForm({ ...form, sendHour })} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOURS.map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {String(hour).padStart(2, "0")}:00
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="digest-timezone">Time zone</Label>
+              <Input
+                id="digest-timezone"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                placeholder="e.g., Europe/London"
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Companies</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2 mt-2 max-h-40 overflow-y-auto">
+              {companies.map((company) => (
+                <label key={company.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedIds.includes(company.id)}
+                    onCheckedChange={(checked) => toggleCompany(company.id, checked === true)}
+                    disabled={saving}
+                  />
+                  <span className="truncate">{company.name}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave all unchecked to include every company in the workspace.</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="digest-email">Email</Label>
+              <Input
+                id="digest-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="you@example.com"
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="digest-webhook">Webhook URL</Label>
+              <Input
+                id="digest-webhook"
+                value={form.webhookUrl}
+                onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                placeholder="https://hooks.slack.com/services/..."
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Leave both empty to only read digests in the app. Days without new releases don&apos;t send a digest.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" onClick={handleSave} disabled={saving || sending}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleSendNow} disabled={saving || sending || !settings}>
+              <Send className="h-4 w-4 mr-2" />
+              {sending ? "Sending..." : "Send Now"}
+            </Button>
+            {status && <span className="text-xs text-gray-500">{status}</span>}
+          </div>
+
+          {settings && (
+            <p className="text-xs text-gray-500">
+              {settings.enabled ? describeDigestSchedule(settings) : "Paused"}
+              {settings.lastSentAt && ` · last run ${formatRelativeTime(settings.lastSentAt)}`}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { DEAL_TYPE_LABELS, formatAmount } from "@/lib/financial-facts"
+import type { FinancialFacts } from "@/lib/types"
+
+interface FinancialFactsSummaryProps {
+  facts?: FinancialFacts
+  className?: string
+}
+
+/**
+ * One-line summary of a release's financial facts: deal type, headline amount, period and counterparties
+ */
+export function FinancialFactsSummary({ facts, className }: FinancialFactsSummaryProps) {
+  if (!facts?.dealType && !facts?.amount) return null
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-xs text-muted-foreground", className)}>
+      {facts.dealType && (
+        <Badge
+          variant="outline"
+          className="text-xs"
+          title={facts.source === "ai" ? "Confirmed by AI analysis" : "Detected from the release text"}
+        >
+          {DEAL_TYPE_LABELS[facts.dealType]}
+        </Badge>
+      )}
+      {facts.amount && (
+        <span className="font-medium text-foreground" title={facts.amount.text}>
+          {formatAmount(facts.amount)}
+        </span>
+      )}
+      {facts.fiscalPeriod && <span>{facts.fiscalPeriod.label}</span>}
+      {facts.counterparties.length > 0 && (
+        <span className="truncate" title={facts.counterparties.join(", ")}>
+          with {facts.counterparties.slice(0, 2).join(", ")}
+          {facts.counterparties.length > 2 && ` +${facts.counterparties.length - 2}`}
+        </span>
+      )}
+    </div>
+  )
+}
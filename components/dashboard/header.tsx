@@ -5,7 +5,8 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { LogOut, Settings, Bookmark } from "lucide-react"
+import Link from "next/link"
+import { LogOut, Settings, Bookmark, Newspaper } from "lucide-react"
 import { getUserDisplayName, getUserInitials, getUserAvatarUrl, preloadAvatarImage } from "@/lib/auth"
 import type { User } from "@supabase/supabase-js"
 import { useState, useEffect } from "react"
@@ -79,6 +80,11 @@ export function Header({ user, onSignOut, onOpenSettings, bookmarkCount = 0 }: H
 
       <div className="flex items-center space-x-1 sm:space-x-2">
         <ThemeToggle />
+        <Button variant="ghost" size="sm" asChild title="Digest">
+          <Link href="/digest">
+            <Newspaper className="h-4 w-4" />
+          </Link>
+        </Button>
         <Button variant="ghost" size="sm" onClick={onOpenSettings}>
           <Settings className="h-4 w-4" />
         </Button>
@@ -1,27 +1,79 @@
 "use client"
 
-import type { PressRelease, Company } from "@/lib/types"
+import { useEffect, useRef, useState } from "react"
+import type { PressRelease, Company, AnnotationVisibility } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Bookmark, BookmarkPlus, ExternalLink, Loader2, ArrowLeft } from "lucide-react"
-import { useContentExtraction, getBestContent } from "@/hooks/use-content-extraction"
+import { Input } from "@/components/ui/input"
+import { Bookmark, BookmarkPlus, ExternalLink, Highlighter, Loader2, ArrowLeft } from "lucide-react"
+import { useContentExtraction, getBestContent, getExtractionQuality } from "@/hooks/use-content-extraction"
 import { useAIAnalysis } from "@/hooks/use-ai-analysis"
 import { useAISummaryCollapse } from "@/hooks/use-ai-summary-collapse"
+import { useReleaseAnnotations } from "@/hooks/use-release-annotations"
+import { markHighlightsInHTML, normalizeQuote, segmentHighlights, type PlaceableHighlight } from "@/lib/release-annotations"
 import { AIAnalysisSection } from "./ai-analysis-section"
+import { FinancialFactsSummary } from "./financial-facts-summary"
+import { ReleaseTagsEditor } from "./release-tags-editor"
+import { ReleaseAnnotationsSection, VisibilitySelect } from "./release-annotations-section"
+
+const extractionQualityLabels = {
+  high: "High quality extraction",
+  medium: "Partial extraction",
+  low: "Low quality extraction",
+} as const
 
 interface PressReleaseDetailProps {
   release: PressRelease
   company?: Company
   isBookmarked: boolean
   onToggleBookmark: () => void
+  tags: string[]
+  tagSuggestions: string[]
+  onAddTag: (tag: string) => Promise<string>
+  onRemoveTag: (tag: string) => Promise<void>
   onBackToFeed?: () => void
   showBackButton?: boolean
 }
 
-export function PressReleaseDetail({ release, company, isBookmarked, onToggleBookmark, onBackToFeed, showBackButton }: PressReleaseDetailProps) {
+export function PressReleaseDetail({
+  release,
+  company,
+  isBookmarked,
+  onToggleBookmark,
+  tags,
+  tagSuggestions,
+  onAddTag,
+  onRemoveTag,
+  onBackToFeed,
+  showBackButton,
+}: PressReleaseDetailProps) {
   // Extract full content from the source URL
   const { data: extractionResult, loading: extractionLoading } = useContentExtraction(release.sourceUrl)
 
+  // Notes and user highlights on this release
+  const {
+    notes,
+    highlights: userHighlights,
+    loading: annotationsLoading,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+  } = useReleaseAnnotations(release.id)
+
+  // Text selected in the article, waiting to be saved as a highlight
+  const contentRef = useRef<HTMLDivElement>(null)
+  const [pendingQuote, setPendingQuote] = useState("")
+  const [highlightComment, setHighlightComment] = useState("")
+  const [highlightVisibility, setHighlightVisibility] = useState<AnnotationVisibility>("private")
+  const [savingHighlight, setSavingHighlight] = useState(false)
+  const [highlightError, setHighlightError] = useState("")
+
+  useEffect(() => {
+    setPendingQuote("")
+    setHighlightComment("")
+    setHighlightError("")
+  }, [release.id])
+
 
 
   // AI Summary collapse state management (desktop-only)
@@ -33,7 +85,7 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
   // Determine which content to display for AI analysis (always use text for AI)
   const getTextForAI = (): string => {
     if (extractionLoading) {
-      return release.content // Use fallback while loading
+      return "" // Wait for the full article so the stored analysis is made from it
     }
 
     if (extractionResult?.success) {
@@ -61,7 +113,11 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
     retry: retryAnalysis,
     fromCache,
     cacheAge,
-  } = useAIAnalysis(release.title, getTextForAI())
+  } = useAIAnalysis(release.title, getTextForAI(), {
+    sourceUrl: release.sourceUrl,
+    storedAnalysis: release.aiAnalysis,
+    storedHighlights: release.highlights,
+  })
 
   // Helper function to strip HTML tags for AI analysis
   const stripHtmlTags = (html: string): string => {
@@ -113,13 +169,25 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
     }
   }
 
+  // User highlights are found again by their text each render; the ones that can't be placed
+  // (the article changed, or the selection crossed a link) are only listed with the notes
+  const placeableHighlights: PlaceableHighlight[] = userHighlights.map((highlight) => ({
+    id: highlight.id,
+    quote: highlight.quote || "",
+    comment: highlight.body || undefined,
+  }))
+  const placedHighlightIds = new Set<string>()
+
   // Render HTML content safely
   const renderHTMLContent = (htmlContent: string) => {
-    // Apply AI highlights to HTML if available
-    let processedHTML = htmlContent
+    // Mark user highlights first, while the passages are still unbroken runs of text
+    const marked = markHighlightsInHTML(htmlContent, placeableHighlights)
+    marked.placed.forEach((id) => placedHighlightIds.add(id))
+    let processedHTML = marked.html
 
+    // Apply AI highlights to HTML if available
     if (analysis?.highlights && analysis.highlights.length > 0) {
-      processedHTML = applyHighlightsToHTML(htmlContent, analysis.highlights)
+      processedHTML = applyHighlightsToHTML(processedHTML, analysis.highlights)
     }
 
     return (
@@ -132,21 +200,53 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
 
   // Apply highlights to HTML content
   const applyHighlightsToHTML = (html: string, highlights: any[]): string => {
-    let highlighted = html
+    // Only text between tags is marked, so attributes such as highlight comments stay intact
+    return html
+      .split(/(<[^>]*>)/)
+      .map((part) => {
+        if (part.startsWith("<")) return part
+
+        let highlighted = part
+
+        // Apply financial highlights
+        highlighted = highlighted.replace(
+          /(\$[\d,]+(?:\.\d{2})?\s*(?:million|billion|trillion|thousand)?)/gi,
+          '<mark class="highlight-financial">$1</mark>'
+        )
 
-    // Apply financial highlights
-    highlighted = highlighted.replace(
-      /(\$[\d,]+(?:\.\d{2})?\s*(?:million|billion|trillion|thousand)?)/gi,
-      '<mark class="highlight-financial">$1</mark>'
-    )
+        // Apply percentage highlights
+        highlighted = highlighted.replace(
+          /(\d+(?:\.\d+)?%\s*(?:growth|increase|rise|up|down|decline|decrease))/gi,
+          '<mark class="highlight-percentage">$1</mark>'
+        )
 
-    // Apply percentage highlights
-    highlighted = highlighted.replace(
-      /(\d+(?:\.\d+)?%\s*(?:growth|increase|rise|up|down|decline|decrease))/gi,
-      '<mark class="highlight-percentage">$1</mark>'
-    )
+        return highlighted
+      })
+      .join("")
+  }
 
-    return highlighted
+  // Plain text with the user highlights that haven't been placed in an earlier paragraph
+  const renderHighlightedText = (text: string) => {
+    const remaining = placeableHighlights.filter((highlight) => !placedHighlightIds.has(highlight.id))
+    if (remaining.length === 0) return text
+
+    const { segments, placed } = segmentHighlights(text, remaining)
+    placed.forEach((id) => placedHighlightIds.add(id))
+
+    return segments.map((segment, index) =>
+      segment.highlight ? (
+        <mark
+          key={index}
+          className="highlight-user"
+          data-annotation-id={segment.highlight.id}
+          title={segment.highlight.comment}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )
   }
 
   // Render text content with basic paragraph formatting
@@ -162,7 +262,7 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
       if (trimmed.length < 100 && (trimmed === trimmed.toUpperCase() || trimmed.endsWith(':'))) {
         return (
           <h3 key={index} className="font-semibold text-lg mb-3 mt-6 first:mt-0">
-            {trimmed}
+            {renderHighlightedText(trimmed)}
           </h3>
         )
       }
@@ -170,12 +270,58 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
       // Regular paragraph
       return (
         <p key={index} className="mb-4 last:mb-0">
-          {trimmed}
+          {renderHighlightedText(trimmed)}
         </p>
       )
     })
   }
 
+  // Offer to highlight text selected inside the article
+  const handleContentMouseUp = () => {
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0 || !contentRef.current) return
+    if (!contentRef.current.contains(selection.getRangeAt(0).commonAncestorContainer)) return
+
+    const quote = normalizeQuote(selection.toString())
+    if (quote.length < 3) return
+
+    setPendingQuote(quote)
+    setHighlightError("")
+  }
+
+  const handleCancelHighlight = () => {
+    setPendingQuote("")
+    setHighlightComment("")
+    setHighlightError("")
+  }
+
+  const handleSaveHighlight = async () => {
+    setSavingHighlight(true)
+    setHighlightError("")
+    try {
+      await addAnnotation({
+        kind: "highlight",
+        quote: pendingQuote,
+        body: highlightComment,
+        visibility: highlightVisibility,
+      })
+      window.getSelection()?.removeAllRanges()
+      handleCancelHighlight()
+    } catch (err) {
+      setHighlightError(err instanceof Error ? err.message : "Failed to save highlight")
+    } finally {
+      setSavingHighlight(false)
+    }
+  }
+
+  const showHighlight = (id: string) => {
+    const mark = contentRef.current?.querySelector(`[data-annotation-id="${CSS.escape(id)}"]`)
+    mark?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }
+
+  // Rendered before the annotations section, which lists the highlights that weren't placed
+  const content = renderContent()
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -221,9 +367,28 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
             <span className="text-sm text-muted-foreground flex-none">
               {formatDate(release.publishedAt)}
             </span>
+            {extractionResult?.success && extractionResult.extractedBy && (
+              <Badge
+                variant="outline"
+                className="ml-auto flex-none text-xs font-normal text-muted-foreground"
+                title={
+                  extractionResult.cached && extractionResult.extractedAt
+                    ? `Saved copy extracted by ${extractionResult.extractedBy} on ${formatDate(extractionResult.extractedAt)}`
+                    : `Full article extracted by ${extractionResult.extractedBy}`
+                }
+              >
+                {extractionQualityLabels[getExtractionQuality(extractionResult.confidence)]}
+                {extractionResult.confidence !== undefined && ` · ${Math.round(extractionResult.confidence * 100)}%`}
+              </Badge>
+            )}
           </div>
           
           <h1 className="text-xl font-semibold leading-tight">{release.title}</h1>
+
+          <ReleaseTagsEditor tags={tags} suggestions={tagSuggestions} onAddTag={onAddTag} onRemoveTag={onRemoveTag} />
+
+          {/* Facts refined by a fresh analysis take precedence over those stored with the release */}
+          <FinancialFactsSummary facts={analysis?.financialFacts || release.financialFacts} />
           
           {/* AI Analysis Section - Moved to top with desktop collapse functionality */}
           <div className={`${!isCollapsed ? 'border-t pt-2' : 'pt-1'}`}>
@@ -244,11 +409,50 @@ export function PressReleaseDetail({ release, company, isBookmarked, onToggleBoo
 
       {/* Content */}
       <div className="flex-1 overflow-auto">
+        {pendingQuote && (
+          <div className="sticky top-0 z-10 border-b bg-background px-4 py-2 sm:px-6 space-y-2">
+            <p className="text-xs text-muted-foreground line-clamp-2">
+              <Highlighter className="h-3 w-3 inline mr-1" />
+              &ldquo;{pendingQuote}&rdquo;
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={highlightComment}
+                onChange={(e) => setHighlightComment(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSaveHighlight()
+                }}
+                placeholder="Comment (optional)"
+                className="h-8 flex-1 min-w-40 text-sm"
+                disabled={savingHighlight}
+              />
+              <VisibilitySelect value={highlightVisibility} onChange={setHighlightVisibility} disabled={savingHighlight} />
+              <Button size="sm" onClick={handleSaveHighlight} disabled={savingHighlight}>
+                {savingHighlight ? "Saving..." : "Save Highlight"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleCancelHighlight} disabled={savingHighlight}>
+                Cancel
+              </Button>
+            </div>
+            {highlightError && <p className="text-xs text-red-600 dark:text-red-400">{highlightError}</p>}
+          </div>
+        )}
         <div className="px-4 pt-2 pb-4 sm:px-6 sm:pt-3 sm:pb-6 space-y-3 sm:space-y-4">
           {/* Main article content */}
-          <div className="space-y-4">
-            {renderContent()}
+          <div ref={contentRef} className="space-y-4" onMouseUp={handleContentMouseUp}>
+            {content}
           </div>
+
+          <ReleaseAnnotationsSection
+            notes={notes}
+            highlights={userHighlights}
+            loading={annotationsLoading}
+            placedHighlightIds={placedHighlightIds}
+            addAnnotation={addAnnotation}
+            updateAnnotation={updateAnnotation}
+            deleteAnnotation={deleteAnnotation}
+            onShowHighlight={showHighlight}
+          />
         </div>
       </div>
     </div>
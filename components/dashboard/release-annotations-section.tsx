@@ -0,0 +1,226 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Highlighter, Lock, MessageSquare, Pencil, Trash2, Users } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { AnnotationVisibility, CreateReleaseAnnotation, ReleaseAnnotation, UpdateReleaseAnnotation } from "@/lib/types"
+
+interface ReleaseAnnotationsSectionProps {
+  notes: ReleaseAnnotation[]
+  highlights: ReleaseAnnotation[]
+  loading: boolean
+  placedHighlightIds: Set<string>
+  addAnnotation: (annotation: Omit<CreateReleaseAnnotation, "releaseId">) => Promise<ReleaseAnnotation>
+  updateAnnotation: (id: string, updates: UpdateReleaseAnnotation) => Promise<ReleaseAnnotation>
+  deleteAnnotation: (id: string) => Promise<void>
+  onShowHighlight: (id: string) => void
+}
+
+export function VisibilitySelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: AnnotationVisibility
+  onChange: (visibility: AnnotationVisibility) => void
+  disabled?: boolean
+}) {
+  return (
+    <Select value={value} onValueChange={(visibility) => onChange(visibility as AnnotationVisibility)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-32 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="private">Only me</SelectItem>
+        <SelectItem value="team">Team</SelectItem>
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ReleaseAnnotationsSection({
+  notes,
+  highlights,
+  loading,
+  placedHighlightIds,
+  addAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+  onShowHighlight,
+}: ReleaseAnnotationsSectionProps) {
+  const [draft, setDraft] = useState("")
+  const [visibility, setVisibility] = useState<AnnotationVisibility>("private")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editBody, setEditBody] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleAddNote = async () => {
+    setSaving(true)
+    setError("")
+    try {
+      await addAnnotation({ kind: "note", body: draft, visibility })
+      setDraft("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save note")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = (annotation: ReleaseAnnotation) => {
+    setEditingId(annotation.id)
+    setEditBody(annotation.body)
+    setError("")
+  }
+
+  const handleUpdate = async (id: string, updates: UpdateReleaseAnnotation) => {
+    setSaving(true)
+    setError("")
+    try {
+      await updateAnnotation(id, updates)
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (annotation: ReleaseAnnotation) => {
+    if (!confirm(`Delete this ${annotation.kind}?`)) return
+    try {
+      await deleteAnnotation(annotation.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete")
+    }
+  }
+
+  const renderAnnotation = (annotation: ReleaseAnnotation) => {
+    const editing = editingId === annotation.id
+    const placed = placedHighlightIds.has(annotation.id)
+
+    return (
+      <div key={annotation.id} className="border rounded-lg p-3 space-y-2">
+        {annotation.quote && (
+          <blockquote
+            className={`border-l-4 border-purple-400 pl-3 text-sm italic ${placed ? "cursor-pointer hover:text-foreground" : ""} text-muted-foreground`}
+            onClick={placed ? () => onShowHighlight(annotation.id) : undefined}
+            title={placed ? "Show in article" : undefined}
+          >
+            {annotation.quote}
+            {!placed && (
+              <span className="block not-italic text-xs mt-1">Not found in the article as currently extracted</span>
+            )}
+          </blockquote>
+        )}
+
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editBody}
+              onChange={(e) => setEditBody(e.target.value)}
+              placeholder={annotation.kind === "highlight" ? "Comment (optional)" : "Note"}
+              className="min-h-[60px]"
+              disabled={saving}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleUpdate(annotation.id, { body: editBody })} disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          annotation.body && <p className="text-sm whitespace-pre-wrap">{annotation.body}</p>
+        )}
+
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5 min-w-0">
+            {annotation.visibility === "team" ? <Users className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+            <span className="truncate">
+              {annotation.isOwn ? "You" : annotation.authorName || "A teammate"} ·{" "}
+              {formatDistanceToNow(new Date(annotation.createdAt), { addSuffix: true })}
+            </span>
+          </span>
+          {annotation.isOwn && !editing && (
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={() =>
+                  handleUpdate(annotation.id, { visibility: annotation.visibility === "team" ? "private" : "team" })
+                }
+                disabled={saving}
+                title={annotation.visibility === "team" ? "Make private" : "Share with the team"}
+              >
+                {annotation.visibility === "team" ? "Make private" : "Share"}
+              </Button>
+              <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => handleEdit(annotation)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => handleDelete(annotation)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="font-medium text-sm flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Notes
+          {notes.length > 0 && <Badge variant="secondary" className="text-xs">{notes.length}</Badge>}
+        </h3>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading notes...</p>
+        ) : (
+          notes.map(renderAnnotation)
+        )}
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a note about this release"
+            className="min-h-[60px]"
+            disabled={saving}
+          />
+          <div className="flex items-center gap-2">
+            <VisibilitySelect value={visibility} onChange={setVisibility} disabled={saving} />
+            <Button size="sm" onClick={handleAddNote} disabled={saving || !draft.trim()}>
+              {saving ? "Saving..." : "Add Note"}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-medium text-sm flex items-center gap-2">
+          <Highlighter className="h-4 w-4" />
+          Highlights
+          {highlights.length > 0 && <Badge variant="secondary" className="text-xs">{highlights.length}</Badge>}
+        </h3>
+        {!loading && highlights.length === 0 && (
+          <p className="text-sm text-muted-foreground">Select text in the article to highlight it and add a comment.</p>
+        )}
+        {highlights.map(renderAnnotation)}
+      </div>
+    </div>
+  )
+}
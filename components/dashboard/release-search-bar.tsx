@@ -0,0 +1,224 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Bookmark, Search, Trash2, X } from "lucide-react"
+import type { ReleaseSearchFilters, SavedSearch } from "@/lib/types"
+import {
+  EMPTY_SEARCH_FILTERS,
+  SEARCH_DATE_PRESETS,
+  SEARCH_FEED_TYPES,
+  SEARCH_FEED_TYPE_LABELS,
+  isSearchActive,
+} from "@/lib/release-search"
+
+interface ReleaseSearchBarProps {
+  filters: ReleaseSearchFilters
+  onFiltersChange: (filters: ReleaseSearchFilters) => void
+  loading?: boolean
+  error?: string | null
+  activeSavedSearch?: SavedSearch
+  onSave: (name: string) => Promise<void>
+  onDeleteSavedSearch: (id: string) => Promise<void>
+}
+
+export function ReleaseSearchBar({
+  filters,
+  onFiltersChange,
+  loading = false,
+  error,
+  activeSavedSearch,
+  onSave,
+  onDeleteSavedSearch,
+}: ReleaseSearchBarProps) {
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState("")
+  const [customRange, setCustomRange] = useState(false)
+
+  const active = isSearchActive(filters)
+  // A saved view may bring its own custom range
+  const showCustomRange = !filters.sinceDays && (customRange || Boolean(filters.from || filters.to))
+  const dateValue = filters.sinceDays ? String(filters.sinceDays) : showCustomRange ? "custom" : "any"
+
+  const handleDateChange = (value: string) => {
+    setCustomRange(value === "custom")
+    onFiltersChange({
+      ...filters,
+      sinceDays: value === "any" || value === "custom" ? undefined : Number(value),
+      from: value === "custom" ? filters.from : undefined,
+      to: value === "custom" ? filters.to : undefined,
+    })
+  }
+
+  const toggleFeedType = (type: (typeof SEARCH_FEED_TYPES)[number], checked: boolean) => {
+    onFiltersChange({
+      ...filters,
+      feedTypes: checked ? [...filters.feedTypes, type] : filters.feedTypes.filter((t) => t !== type),
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setSaveError("")
+    try {
+      await onSave(name)
+      setNaming(false)
+      setName("")
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save search")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClear = () => {
+    setCustomRange(false)
+    setNaming(false)
+    onFiltersChange(EMPTY_SEARCH_FILTERS)
+  }
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="relative">
+        <Search
+          className={`absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground ${loading ? "animate-pulse" : ""}`}
+        />
+        <Input
+          value={filters.query}
+          onChange={(e) => onFiltersChange({ ...filters, query: e.target.value })}
+          placeholder='Search releases: "credit facility" OR unitranche -crypto'
+          className="h-8 pl-8 pr-8 text-xs"
+          aria-label="Search stored releases"
+        />
+        {active && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            title="Clear search"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={dateValue} onValueChange={handleDateChange}>
+          <SelectTrigger className="h-8 text-xs w-auto min-w-[120px]">
+            <SelectValue placeholder="Date" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any time</SelectItem>
+            {SEARCH_DATE_PRESETS.map((preset) => (
+              <SelectItem key={preset.days} value={String(preset.days)}>
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom range</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 text-xs font-normal">
+              {filters.feedTypes.length === 0
+                ? "All feed types"
+                : filters.feedTypes.length === 1
+                  ? SEARCH_FEED_TYPE_LABELS[filters.feedTypes[0]]
+                  : `${filters.feedTypes.length} feed types`}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {SEARCH_FEED_TYPES.map((type) => (
+              <DropdownMenuCheckboxItem
+                key={type}
+                checked={filters.feedTypes.includes(type)}
+                onCheckedChange={(checked) => toggleFeedType(type, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {SEARCH_FEED_TYPE_LABELS[type]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {activeSavedSearch ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() =>
+              onDeleteSavedSearch(activeSavedSearch.id).catch((err) =>
+                setSaveError(err instanceof Error ? err.message : "Failed to delete view"),
+              )
+            }
+            title={`Delete the "${activeSavedSearch.name}" view`}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1" />
+            Delete view
+          </Button>
+        ) : (
+          active &&
+          !naming && (
+            <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setNaming(true)}>
+              <Bookmark className="h-3.5 w-3.5 mr-1" />
+              Save view
+            </Button>
+          )
+        )}
+      </div>
+
+      {showCustomRange && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={filters.from || ""}
+            onChange={(e) => onFiltersChange({ ...filters, from: e.target.value || undefined })}
+            className="h-8 text-xs"
+            aria-label="From date"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={filters.to || ""}
+            onChange={(e) => onFiltersChange({ ...filters, to: e.target.value || undefined })}
+            className="h-8 text-xs"
+            aria-label="To date"
+          />
+        </div>
+      )}
+
+      {naming && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSave()}
+            placeholder="View name"
+            className="h-8 text-xs"
+            disabled={saving}
+            autoFocus
+          />
+          <Button size="sm" className="h-8 text-xs" onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setNaming(false)} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {(saveError || error) && <p className="text-xs text-red-600 dark:text-red-400">{saveError || error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Tag, X } from "lucide-react"
+import { sameTag } from "@/lib/release-annotations"
+
+interface ReleaseTagsEditorProps {
+  tags: string[]
+  suggestions: string[]
+  onAddTag: (tag: string) => Promise<string>
+  onRemoveTag: (tag: string) => Promise<void>
+}
+
+export function ReleaseTagsEditor({ tags, suggestions, onAddTag, onRemoveTag }: ReleaseTagsEditorProps) {
+  const [draft, setDraft] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const unusedSuggestions = suggestions.filter((suggestion) => !tags.some((tag) => sameTag(tag, suggestion)))
+
+  const handleAdd = async () => {
+    if (!draft.trim()) return
+    setSaving(true)
+    setError("")
+    try {
+      await onAddTag(draft)
+      setDraft("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add tag")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (tag: string) => {
+    setError("")
+    try {
+      await onRemoveTag(tag)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove tag")
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Tag className="h-3.5 w-3.5 text-muted-foreground" />
+        {tags.map((tag) => (
+          <Badge key={tag} variant="secondary" className="text-xs font-normal gap-1 pr-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => handleRemove(tag)}
+              className="rounded-sm opacity-60 hover:opacity-100"
+              title={`Remove "${tag}"`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          placeholder={tags.length === 0 ? "Add a tag, e.g. follow-up" : "Add tag"}
+          list="release-tag-suggestions"
+          className="h-6 w-36 text-xs px-2"
+          disabled={saving}
+        />
+        <datalist id="release-tag-suggestions">
+          {unusedSuggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
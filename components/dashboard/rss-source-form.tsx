@@ -8,10 +8,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea"
 import { AlertCircle, CheckCircle, Loader2, TestTube, ExternalLink, Rss } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
-import type { CreateRSSSource, RSSSource, RSSValidationResult } from "@/lib/types"
+import { buildGoogleNewsSearchUrl } from "@/lib/rss-sources"
+import { buildEdgarFilingsUrl } from "@/lib/sec-edgar"
+import type { Company, CreateRSSSource, RSSSource, RSSValidationResult } from "@/lib/types"
 
 interface RSSSourceFormProps {
   source?: RSSSource // For editing existing source
+  company?: Pick<Company, "name" | "variations" | "cik"> // Used to build Google News and SEC filing feeds
   onSubmit: (data: CreateRSSSource) => Promise<void>
   onCancel: () => void
   onTestUrl: (url: string) => Promise<RSSValidationResult>
@@ -21,6 +24,7 @@ const FEED_TYPES = [
   { value: "ir-news", label: "Investor Relations", description: "Company IR news and announcements" },
   { value: "sec-filings", label: "SEC Filings", description: "Regulatory filings and documents" },
   { value: "general-news", label: "General News", description: "News articles and press releases" },
+  { value: "google-news", label: "Google News Search", description: "Google News results for the company name and variations" },
   { value: "industry", label: "Industry News", description: "Sector-specific news and analysis" },
   { value: "custom", label: "Custom", description: "Other specialized feeds" }
 ]
@@ -46,7 +50,7 @@ const FEED_TEMPLATES = [
   }
 ]
 
-export function RSSSourceForm({ source, onSubmit, onCancel, onTestUrl }: RSSSourceFormProps) {
+export function RSSSourceForm({ source, company, onSubmit, onCancel, onTestUrl }: RSSSourceFormProps) {
   const [formData, setFormData] = useState<CreateRSSSource>({
     feedUrl: source?.feedUrl || "",
     feedName: source?.feedName || "",
@@ -93,7 +97,9 @@ export function RSSSourceForm({ source, onSubmit, onCancel, onTestUrl }: RSSSour
     // Detect feed type based on URL patterns
     let suggestedType: RSSSource['feedType'] = "custom"
     
-    if (lowerUrl.includes('investor') || lowerUrl.includes('/ir/') || lowerUrl.includes('press')) {
+    if (lowerUrl.includes('news.google.com')) {
+      suggestedType = "google-news"
+    } else if (lowerUrl.includes('investor') || lowerUrl.includes('/ir/') || lowerUrl.includes('press')) {
       suggestedType = "ir-news"
     } else if (lowerUrl.includes('sec.gov') || lowerUrl.includes('edgar') || lowerUrl.includes('filing')) {
       suggestedType = "sec-filings"
@@ -181,6 +187,55 @@ export function RSSSourceForm({ source, onSubmit, onCancel, onTestUrl }: RSSSour
     setError("")
   }
 
+  const googleNewsTemplate = company && {
+    name: `Google News: ${company.name}`,
+    url: buildGoogleNewsSearchUrl(company),
+    type: "google-news",
+    description: `Google News search for ${[company.name, ...(company.variations || [])].join(", ")}`
+  }
+
+  const secFilingsTemplate = company?.cik ? {
+    name: `SEC Filings: ${company.name}`,
+    url: buildEdgarFilingsUrl(company.cik),
+    type: "sec-filings",
+    description: "8-K, 10-Q, 10-K, S-1 and Form 4 filings from SEC EDGAR"
+  } : undefined
+
+  const handleFeedTypeChange = (value: RSSSource['feedType']) => {
+    // Build the search URL from the company unless the user already entered a different feed
+    if (value === "google-news" && googleNewsTemplate && (!formData.feedUrl.trim() || formData.feedUrl.includes("news.google.com"))) {
+      setFormData({
+        ...formData,
+        feedType: value,
+        feedUrl: googleNewsTemplate.url,
+        feedName: formData.feedName || googleNewsTemplate.name
+      })
+      setValidationResult(null)
+      setUrlTested(false)
+      return
+    }
+
+    if (value === "sec-filings" && secFilingsTemplate && !formData.feedUrl.trim()) {
+      setFormData({
+        ...formData,
+        feedType: value,
+        feedUrl: secFilingsTemplate.url,
+        feedName: formData.feedName || secFilingsTemplate.name
+      })
+      setValidationResult(null)
+      setUrlTested(false)
+      return
+    }
+
+    setFormData({ ...formData, feedType: value })
+  }
+
+  const templates = [
+    ...(secFilingsTemplate ? [secFilingsTemplate] : []),
+    ...(googleNewsTemplate ? [googleNewsTemplate] : []),
+    ...FEED_TEMPLATES
+  ]
+
   const selectedFeedType = FEED_TYPES.find(ft => ft.value === formData.feedType)
 
   return (
@@ -202,7 +257,7 @@ export function RSSSourceForm({ source, onSubmit, onCancel, onTestUrl }: RSSSour
         <div className="mb-6">
           <Label className="text-sm font-medium mb-2 block">Quick Start Templates</Label>
           <div className="grid grid-cols-1 gap-2">
-            {FEED_TEMPLATES.map((template) => (
+            {templates.map((template) => (
               <Button
                 key={template.url}
                 variant="outline"
@@ -311,7 +366,7 @@ export function RSSSourceForm({ source, onSubmit, onCancel, onTestUrl }: RSSSour
         {/* Feed Type */}
         <div>
           <Label className="text-sm font-medium mb-2 block">Feed Type</Label>
-          <Select value={formData.feedType} onValueChange={(value: RSSSource['feedType']) => setFormData({ ...formData, feedType: value })}>
+          <Select value={formData.feedType} onValueChange={handleFeedTypeChange}>
             <SelectTrigger disabled={saving} className="w-full text-left">
               <SelectValue />
             </SelectTrigger>
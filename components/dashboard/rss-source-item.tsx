@@ -26,7 +26,7 @@ import {
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu"
 import { RSSSourceForm } from "./rss-source-form"
-import type { RSSSource, UpdateRSSSource, RSSValidationResult } from "@/lib/types"
+import type { RSSSource, UpdateRSSSource, RSSValidationResult, RSSFetchAttempt } from "@/lib/types"
 import { formatDistanceToNow } from "date-fns"
 
 interface RSSSourceItemProps {
@@ -40,6 +40,7 @@ const FEED_TYPE_LABELS: Record<RSSSource['feedType'], string> = {
   "ir-news": "IR News",
   "sec-filings": "SEC Filings", 
   "general-news": "General News",
+  "google-news": "Google News",
   "industry": "Industry",
   "custom": "Custom"
 }
@@ -48,10 +49,49 @@ const FEED_TYPE_COLORS: Record<RSSSource['feedType'], string> = {
   "ir-news": "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
   "sec-filings": "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
   "general-news": "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200", 
+  "google-news": "bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200",
   "industry": "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
   "custom": "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200"
 }
 
+const ATTEMPT_COLORS: Record<RSSFetchAttempt['status'], string> = {
+  "success": "bg-green-500",
+  "not-modified": "bg-gray-400 dark:bg-gray-500",
+  "error": "bg-red-500"
+}
+
+/**
+ * Last fetch attempts as bars, oldest on the left. Bar height follows latency.
+ */
+function FetchHistorySparkline({ attempts }: { attempts: RSSFetchAttempt[] }) {
+  const ordered = [...attempts].reverse()
+  const maxLatency = Math.max(...ordered.map(a => a.latencyMs), 1)
+
+  return (
+    <div className="flex items-end gap-px h-4" aria-label={`Last ${ordered.length} fetch attempts`}>
+      {ordered.map((attempt) => {
+        const details = [
+          attempt.status === "not-modified" ? "Not modified" : attempt.status === "success" ? "Success" : "Failed",
+          attempt.httpStatus ? `HTTP ${attempt.httpStatus}` : null,
+          `${attempt.latencyMs}ms`,
+          attempt.status === "success" ? `${attempt.itemCount} items` : null,
+          attempt.errorMessage || null,
+          formatDistanceToNow(new Date(attempt.attemptedAt), { addSuffix: true }),
+        ].filter(Boolean).join(" · ")
+
+        return (
+          <div
+            key={attempt.id}
+            title={details}
+            className={`w-1 rounded-sm ${ATTEMPT_COLORS[attempt.status]}`}
+            style={{ height: `${Math.max(20, (attempt.latencyMs / maxLatency) * 100)}%` }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
 export function RSSSourceItem({ source, onUpdate, onDelete, onTest }: RSSSourceItemProps) {
   const [showEditForm, setShowEditForm] = useState(false)
   const [testing, setTesting] = useState(false)
@@ -211,6 +251,17 @@ export function RSSSourceItem({ source, onUpdate, onDelete, onTest }: RSSSourceI
               </div>
             )}
 
+            {source.recentAttempts && source.recentAttempts.length > 0 && (
+              <FetchHistorySparkline attempts={source.recentAttempts} />
+            )}
+
+            {source.enabled && source.consecutiveFailures > 1 && (
+              <div className="flex items-center gap-1 text-red-600">
+                <XCircle className="h-3 w-3" />
+                <span>{source.consecutiveFailures} failures in a row</span>
+              </div>
+            )}
+
             {source.lastFetchedAt && (
               <div className="flex items-center gap-1">
                 <Calendar className="h-3 w-3" />
@@ -221,6 +272,20 @@ export function RSSSourceItem({ source, onUpdate, onDelete, onTest }: RSSSourceI
             )}
           </div>
 
+          {/* Auto-disable Reason */}
+          {!source.enabled && source.disabledReason && (
+            <div className="mt-2 p-2 bg-orange-50 dark:bg-orange-950/30 rounded text-xs text-orange-700 dark:text-orange-400">
+              <div className="flex items-center gap-1">
+                <WifiOff className="h-3 w-3" />
+                <span className="font-medium">
+                  Automatically disabled
+                  {source.disabledAt && ` ${formatDistanceToNow(new Date(source.disabledAt), { addSuffix: true })}`}
+                </span>
+              </div>
+              <div className="mt-1">{source.disabledReason}</div>
+            </div>
+          )}
+
           {/* Error Message */}
           {source.lastError && (
             <div className="mt-2 p-2 bg-red-50 dark:bg-red-950/30 rounded text-xs text-red-600 dark:text-red-400">
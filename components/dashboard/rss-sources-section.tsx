@@ -204,6 +204,7 @@ export function RSSSourcesSection({ companies, selectedCompanyId, onCompanySelec
               <div className="mt-6">
                 <Separator className="mb-4" />
                 <RSSSourceForm
+                  company={selectedCompany}
                   onSubmit={handleAddSource}
                   onCancel={() => setShowAddForm(false)}
                   onTestUrl={testSource}
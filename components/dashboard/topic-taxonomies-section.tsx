@@ -0,0 +1,342 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Pencil, Trash2, Plus, Tags, X } from "lucide-react"
+import type { CreateTopicTaxonomy, TopicCategory, TopicTaxonomy, UpdateTopicTaxonomy } from "@/lib/types"
+import { DEFAULT_MIN_TOPIC_SCORE } from "@/lib/topic-detector"
+import { TOPIC_TAXONOMY_TEMPLATES } from "@/lib/topic-templates"
+
+interface TopicTaxonomiesSectionProps {
+  taxonomies: TopicTaxonomy[]
+  addTaxonomy: (taxonomy: CreateTopicTaxonomy) => Promise<TopicTaxonomy>
+  updateTaxonomy: (id: string, updates: UpdateTopicTaxonomy) => Promise<TopicTaxonomy>
+  deleteTaxonomy: (id: string) => Promise<void>
+}
+
+// Category as edited in the form: term lists are comma separated, patterns one per line
+interface CategoryForm {
+  name: string
+  keywords: string
+  patterns: string
+  negativeTerms: string
+  weight: string
+}
+
+interface TaxonomyForm {
+  name: string
+  minScore: string
+  categories: CategoryForm[]
+}
+
+const EMPTY_CATEGORY: CategoryForm = { name: "", keywords: "", patterns: "", negativeTerms: "", weight: "1" }
+
+function toForm(taxonomy: Pick<TopicTaxonomy, "name" | "categories"> & { minScore?: number }): TaxonomyForm {
+  return {
+    name: taxonomy.name,
+    minScore: String(taxonomy.minScore ?? DEFAULT_MIN_TOPIC_SCORE),
+    categories: taxonomy.categories.map((category) => ({
+      name: category.name,
+      keywords: category.keywords.join(", "),
+      patterns: category.patterns.join("\n"),
+      negativeTerms: category.negativeTerms.join(", "),
+      weight: String(category.weight),
+    })),
+  }
+}
+
+function fromForm(form: TaxonomyForm): CreateTopicTaxonomy {
+  const splitList = (value: string, separator: string | RegExp) =>
+    value
+      .split(separator)
+      .map((term) => term.trim())
+      .filter(Boolean)
+
+  return {
+    name: form.name.trim(),
+    minScore: Number(form.minScore),
+    categories: form.categories.map(
+      (category): TopicCategory => ({
+        name: category.name.trim(),
+        keywords: splitList(category.keywords, ","),
+        patterns: splitList(category.patterns, /\r?\n/),
+        negativeTerms: splitList(category.negativeTerms, ","),
+        weight: Number(category.weight),
+      }),
+    ),
+  }
+}
+
+export function TopicTaxonomiesSection({
+  taxonomies,
+  addTaxonomy,
+  updateTaxonomy,
+  deleteTaxonomy,
+}: TopicTaxonomiesSectionProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [addingNew, setAddingNew] = useState(false)
+  const [form, setForm] = useState<TaxonomyForm>({ name: "", minScore: String(DEFAULT_MIN_TOPIC_SCORE), categories: [] })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleEdit = (taxonomy: TopicTaxonomy) => {
+    setEditingId(taxonomy.id)
+    setAddingNew(false)
+    setForm(toForm(taxonomy))
+    setError("")
+  }
+
+  // Templates can be added more than once, e.g. to keep an edited copy next to the original
+  const uniqueName = (name: string) => {
+    const names = new Set(taxonomies.map((taxonomy) => taxonomy.name.toLowerCase()))
+    if (!names.has(name.toLowerCase())) return name
+    let suffix = 2
+    while (names.has(`${name} ${suffix}`.toLowerCase())) suffix++
+    return `${name} ${suffix}`
+  }
+
+  const handleAddNew = (template?: CreateTopicTaxonomy) => {
+    setEditingId(null)
+    setAddingNew(true)
+    setForm(
+      template
+        ? toForm({ ...template, name: uniqueName(template.name) })
+        : { name: "", minScore: String(DEFAULT_MIN_TOPIC_SCORE), categories: [{ ...EMPTY_CATEGORY }] },
+    )
+    setError("")
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setAddingNew(false)
+    setError("")
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+    try {
+      const taxonomy = fromForm(form)
+      if (editingId) {
+        await updateTaxonomy(editingId, taxonomy)
+      } else {
+        await addTaxonomy(taxonomy)
+      }
+      handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save topic")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (taxonomy: TopicTaxonomy) => {
+    if (!confirm(`Delete the "${taxonomy.name}" topic? Its filter tab will be removed.`)) return
+    try {
+      await deleteTaxonomy(taxonomy.id)
+      if (editingId === taxonomy.id) handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete topic")
+    }
+  }
+
+  const updateCategory = (index: number, updates: Partial<CategoryForm>) => {
+    setForm({
+      ...form,
+      categories: form.categories.map((category, i) => (i === index ? { ...category, ...updates } : category)),
+    })
+  }
+
+  const removeCategory = (index: number) => {
+    setForm({ ...form, categories: form.categories.filter((_, i) => i !== index) })
+  }
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <Label htmlFor="topic-name">Topic Name</Label>
+          <Input
+            id="topic-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., Private Credit"
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <Label htmlFor="topic-min-score">Minimum relevance</Label>
+          <Input
+            id="topic-min-score"
+            type="number"
+            min={0}
+            max={100}
+            value={form.minScore}
+            onChange={(e) => setForm({ ...form, minScore: e.target.value })}
+            disabled={saving}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        A matched category adds 10 points and each keyword or pattern hit 5, multiplied by the category weight (max 100).
+        Releases scoring at least the minimum relevance appear under this topic.
+      </p>
+
+      {form.categories.map((category, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor={`category-name-${index}`}>Category</Label>
+              <Input
+                id={`category-name-${index}`}
+                value={category.name}
+                onChange={(e) => updateCategory(index, { name: e.target.value })}
+                placeholder="e.g., Direct Lending"
+                disabled={saving}
+              />
+            </div>
+            <div className="w-24">
+              <Label htmlFor={`category-weight-${index}`}>Weight</Label>
+              <Input
+                id={`category-weight-${index}`}
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                value={category.weight}
+                onChange={(e) => updateCategory(index, { weight: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => removeCategory(index)} disabled={saving} title="Remove category">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div>
+            <Label htmlFor={`category-keywords-${index}`}>Keywords</Label>
+            <Textarea
+              id={`category-keywords-${index}`}
+              value={category.keywords}
+              onChange={(e) => updateCategory(index, { keywords: e.target.value })}
+              placeholder="Separate with commas, e.g., direct lending, unitranche, private credit fund"
+              className="min-h-[60px]"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`category-patterns-${index}`}>Patterns</Label>
+            <Textarea
+              id={`category-patterns-${index}`}
+              value={category.patterns}
+              onChange={(e) => updateCategory(index, { patterns: e.target.value })}
+              placeholder="Optional: one per line, * matches any letters in a word or any one word, e.g., $* million credit facility"
+              className="min-h-[60px] font-mono text-xs"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`category-negative-${index}`}>Exclude terms</Label>
+            <Input
+              id={`category-negative-${index}`}
+              value={category.negativeTerms}
+              onChange={(e) => updateCategory(index, { negativeTerms: e.target.value })}
+              placeholder="Optional: releases mentioning any of these skip this category"
+              disabled={saving}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setForm({ ...form, categories: [...form.categories, { ...EMPTY_CATEGORY }] })}
+        disabled={saving}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Category
+      </Button>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-medium mb-4 flex items-center gap-2">
+          <Tags className="h-4 w-4" />
+          Topic Management
+        </h3>
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Each topic becomes a filter tab in the activity feed, listing the releases that match its categories by
+          relevance.
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded mb-3">{error}</div>
+        )}
+
+        <div className="space-y-3">
+          {taxonomies.map((taxonomy) => (
+            <div key={taxonomy.id} className="border rounded-lg p-4">
+              {editingId === taxonomy.id ? (
+                renderForm()
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-medium">{taxonomy.name}</h3>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {taxonomy.categories.map((category) => (
+                        <Badge key={category.name} variant="secondary" className="text-xs">
+                          {category.name}
+                          {category.weight !== 1 && ` ×${category.weight}`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => handleEdit(taxonomy)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(taxonomy)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {addingNew ? (
+          <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-900 mt-3">{renderForm()}</div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-2 mt-3">
+            <Button variant="outline" onClick={() => handleAddNew()} className="flex-1">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Topic
+            </Button>
+            {TOPIC_TAXONOMY_TEMPLATES.map((template) => (
+              <Button key={template.name} variant="outline" onClick={() => handleAddNew(template)} className="flex-1">
+                <Plus className="h-4 w-4 mr-2" />
+                Start from {template.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
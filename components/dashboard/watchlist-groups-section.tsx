@@ -0,0 +1,243 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ChevronLeft, ChevronRight, FolderOpen, Pencil, Plus, Trash2 } from "lucide-react"
+import type { Company, CreateWatchlistGroup, UpdateWatchlistGroup, WatchlistGroup } from "@/lib/types"
+
+interface WatchlistGroupsSectionProps {
+  companies: Company[]
+  groups: WatchlistGroup[]
+  addGroup: (group: CreateWatchlistGroup) => Promise<WatchlistGroup>
+  updateGroup: (id: string, updates: UpdateWatchlistGroup) => Promise<WatchlistGroup>
+  moveGroup: (id: string, direction: -1 | 1) => Promise<void>
+  deleteGroup: (id: string) => Promise<void>
+}
+
+const EMPTY_FORM: CreateWatchlistGroup = { name: "", companyIds: [] }
+
+export function WatchlistGroupsSection({
+  companies,
+  groups,
+  addGroup,
+  updateGroup,
+  moveGroup,
+  deleteGroup,
+}: WatchlistGroupsSectionProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [addingNew, setAddingNew] = useState(false)
+  const [form, setForm] = useState<CreateWatchlistGroup>(EMPTY_FORM)
+  const [companyQuery, setCompanyQuery] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const companyNames = new Map(companies.map((company) => [company.id, company.name]))
+  const visibleCompanies = companies.filter((company) =>
+    company.name.toLowerCase().includes(companyQuery.trim().toLowerCase())
+  )
+
+  const handleEdit = (group: WatchlistGroup) => {
+    setEditingId(group.id)
+    setAddingNew(false)
+    setForm({ name: group.name, companyIds: group.companyIds })
+    setCompanyQuery("")
+    setError("")
+  }
+
+  const handleAddNew = () => {
+    setEditingId(null)
+    setAddingNew(true)
+    setForm(EMPTY_FORM)
+    setCompanyQuery("")
+    setError("")
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setAddingNew(false)
+    setError("")
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+    try {
+      if (editingId) {
+        await updateGroup(editingId, form)
+      } else {
+        await addGroup(form)
+      }
+      handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save group")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (group: WatchlistGroup) => {
+    if (!confirm(`Delete the "${group.name}" group? Its companies are kept.`)) return
+    try {
+      await deleteGroup(group.id)
+      if (editingId === group.id) handleCancel()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete group")
+    }
+  }
+
+  const handleMove = async (group: WatchlistGroup, direction: -1 | 1) => {
+    try {
+      await moveGroup(group.id, direction)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reorder groups")
+    }
+  }
+
+  const toggleCompany = (companyId: string, checked: boolean) => {
+    setForm({
+      ...form,
+      companyIds: checked ? [...form.companyIds, companyId] : form.companyIds.filter((id) => id !== companyId),
+    })
+  }
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="group-name">Group Name</Label>
+        <Input
+          id="group-name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="e.g., Portfolio, Competitors, Deal pipeline"
+          disabled={saving}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between gap-3">
+          <Label>Companies ({form.companyIds.length} selected)</Label>
+          {companies.length > 10 && (
+            <Input
+              value={companyQuery}
+              onChange={(e) => setCompanyQuery(e.target.value)}
+              placeholder="Filter companies"
+              className="h-8 max-w-48"
+              disabled={saving}
+            />
+          )}
+        </div>
+        {companies.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-2">Add companies first, then group them here.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 mt-2 max-h-56 overflow-y-auto">
+            {visibleCompanies.map((company) => (
+              <label key={company.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.companyIds.includes(company.id)}
+                  onCheckedChange={(checked) => toggleCompany(company.id, checked === true)}
+                  disabled={saving}
+                />
+                <span className="truncate">{company.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-1">A company can be in several groups.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-medium mb-4 flex items-center gap-2">
+          <FolderOpen className="h-4 w-4" />
+          Watchlist Groups
+        </h3>
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Each group becomes a tab in the activity feed with the releases of all its companies and an unread count.
+          Groups are shared with everyone in the workspace.
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded mb-3">{error}</div>
+        )}
+
+        <div className="space-y-3">
+          {groups.map((group, index) => (
+            <div key={group.id} className="border rounded-lg p-4">
+              {editingId === group.id ? (
+                renderForm()
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-medium">{group.name}</h3>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {group.companyIds.length === 0 ? (
+                        <span className="text-xs text-gray-500">No companies yet</span>
+                      ) : (
+                        group.companyIds.map((companyId) => (
+                          <Badge key={companyId} variant="secondary" className="text-xs">
+                            {companyNames.get(companyId) || "Unknown company"}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleMove(group, -1)}
+                      disabled={index === 0}
+                      title="Move tab left"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleMove(group, 1)}
+                      disabled={index === groups.length - 1}
+                      title="Move tab right"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleEdit(group)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(group)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {addingNew ? (
+          <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-900 mt-3">{renderForm()}</div>
+        ) : (
+          <Button variant="outline" onClick={handleAddNew} className="w-full mt-3">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
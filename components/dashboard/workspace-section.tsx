@@ -0,0 +1,387 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Check, Copy, LogOut, Mail, Pencil, Plus, Trash2, Users } from "lucide-react"
+import { useWorkspaces } from "@/hooks/use-workspaces"
+import { canManageWorkspace, isValidEmail, ROLE_DESCRIPTIONS, WORKSPACE_ROLES } from "@/lib/workspaces"
+import { formatRelativeTime } from "@/lib/date-utils"
+import type { WorkspaceInvitation, WorkspaceRole } from "@/lib/types"
+
+interface WorkspaceSectionProps {
+  currentUserId?: string
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+}
+
+export function WorkspaceSection({ currentUserId }: WorkspaceSectionProps) {
+  const {
+    workspaces,
+    activeWorkspace,
+    members,
+    invitations,
+    loading,
+    error: loadError,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+  } = useWorkspaces()
+  const [newWorkspaceName, setNewWorkspaceName] = useState("")
+  const [creating, setCreating] = useState(false)
+  const [renaming, setRenaming] = useState(false)
+  const [workspaceName, setWorkspaceName] = useState("")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<WorkspaceInvitation["role"]>("editor")
+  const [inviteResult, setInviteResult] = useState<{ email: string; inviteUrl: string; emailed: boolean } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const isOwner = canManageWorkspace(activeWorkspace?.role)
+  const ownerCount = members.filter((member) => member.role === "owner").length
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true)
+    setError("")
+    try {
+      await action()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = () => run(() => createWorkspace(newWorkspaceName), "Failed to create workspace")
+
+  const handleRename = async () => {
+    if (!activeWorkspace) return
+    if (await run(() => renameWorkspace(activeWorkspace.id, workspaceName), "Failed to rename workspace")) {
+      setRenaming(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (!activeWorkspace) return
+    if (
+      !confirm(
+        `Delete the "${activeWorkspace.name}" workspace? Its companies, feeds and releases are deleted for every member.`
+      )
+    ) {
+      return
+    }
+    run(() => deleteWorkspace(activeWorkspace.id), "Failed to delete workspace")
+  }
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim()
+    if (!isValidEmail(email)) {
+      setError("Enter a valid email address")
+      return
+    }
+
+    setCopied(false)
+    await run(async () => {
+      const result = await inviteMember(email, inviteRole)
+      setInviteResult({ email, ...result })
+      setInviteEmail("")
+    }, "Failed to send invitation")
+  }
+
+  const handleCopyLink = async () => {
+    if (!inviteResult) return
+    try {
+      await navigator.clipboard.writeText(inviteResult.inviteUrl)
+      setCopied(true)
+    } catch {
+      setError("Couldn't copy the link; select it and copy it by hand")
+    }
+  }
+
+  const handleRemove = (userId: string, email: string) => {
+    const leaving = userId === currentUserId
+    const message = leaving
+      ? "Leave this workspace? You'll need a new invitation to rejoin."
+      : `Remove ${email} from this workspace?`
+    if (!confirm(message)) return
+
+    run(async () => {
+      await removeMember(userId)
+      if (leaving) window.location.reload()
+    }, leaving ? "Failed to leave workspace" : "Failed to remove member")
+  }
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading workspaces...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-medium mb-4 flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Workspace
+        </h3>
+        <div className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Companies, RSS sources and releases belong to a workspace and are shared with everyone in it. Bookmarks, read
+          status, topics and alert rules stay personal.
+        </div>
+
+        {(error || loadError) && (
+          <div className="text-sm text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 p-2 rounded mb-3">
+            {error || loadError}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label>Active workspace</Label>
+            <Select
+              value={activeWorkspace?.id}
+              onValueChange={(id) => run(() => switchWorkspace(id), "Failed to switch workspace")}
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace.id} value={workspace.id}>
+                    {workspace.name} · {ROLE_LABELS[workspace.role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="new-workspace-name">New workspace</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-workspace-name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="e.g., Research team"
+                disabled={saving || creating}
+              />
+              <Button
+                variant="outline"
+                onClick={async () => {
+                  setCreating(true)
+                  await handleCreate()
+                  setCreating(false)
+                }}
+                disabled={saving || creating || !newWorkspaceName.trim()}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {activeWorkspace && (
+          <div className="border rounded-lg p-4 mt-4 space-y-2">
+            {renaming ? (
+              <div className="flex gap-2">
+                <Input value={workspaceName} onChange={(e) => setWorkspaceName(e.target.value)} disabled={saving} />
+                <Button size="sm" onClick={handleRename} disabled={saving}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setRenaming(false)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-medium flex items-center gap-2">
+                    {activeWorkspace.name}
+                    {activeWorkspace.personal && <Badge variant="secondary" className="text-xs">Personal</Badge>}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    You are {activeWorkspace.role === "owner" ? "an owner" : `a${activeWorkspace.role === "editor" ? "n" : ""} ${activeWorkspace.role}`}:{" "}
+                    {ROLE_DESCRIPTIONS[activeWorkspace.role].toLowerCase()}
+                  </p>
+                </div>
+                {isOwner && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setWorkspaceName(activeWorkspace.name)
+                        setRenaming(true)
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!activeWorkspace.personal && (
+                      <Button size="sm" variant="ghost" onClick={handleDelete} disabled={saving}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium mb-3">Members</h3>
+        <div className="border rounded-lg divide-y">
+          {members.map((member) => {
+            const isSelf = member.userId === currentUserId
+            // The last owner can't be demoted or leave; the database enforces the same rule
+            const lastOwner = member.role === "owner" && ownerCount <= 1
+
+            return (
+              <div key={member.userId} className="p-3 flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate">
+                    {member.fullName || member.email}
+                    {isSelf && <span className="text-gray-500"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {member.fullName ? `${member.email} · ` : ""}joined {formatRelativeTime(member.joinedAt)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {isOwner && !lastOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) =>
+                        run(() => updateMemberRole(member.userId, role as WorkspaceRole), "Failed to update role")
+                      }
+                      disabled={saving}
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      {ROLE_LABELS[member.role]}
+                    </Badge>
+                  )}
+                  {!lastOwner && (isOwner || isSelf) && !activeWorkspace?.personal && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemove(member.userId, member.email)}
+                      title={isSelf ? "Leave workspace" : "Remove member"}
+                      disabled={saving}
+                    >
+                      {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {isOwner && (
+        <div>
+          <h3 className="font-medium mb-3 flex items-center gap-2">
+            <Mail className="h-4 w-4" />
+            Invite by email
+          </h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              disabled={saving}
+            />
+            <Select
+              value={inviteRole}
+              onValueChange={(role) => setInviteRole(role as WorkspaceInvitation["role"])}
+              disabled={saving}
+            >
+              <SelectTrigger className="sm:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">Editor</SelectItem>
+                <SelectItem value="viewer">Viewer</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleInvite} disabled={saving || !inviteEmail.trim()}>
+              {saving ? "Inviting..." : "Invite"}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[inviteRole]}.</p>
+
+          {inviteResult && (
+            <div className="border rounded-lg p-3 mt-3 space-y-2 bg-gray-50 dark:bg-gray-900">
+              <p className="text-sm">
+                {inviteResult.emailed
+                  ? `Invitation emailed to ${inviteResult.email}. You can also share this link:`
+                  : `Email isn't configured, so share this link with ${inviteResult.email}:`}
+              </p>
+              <div className="flex gap-2">
+                <Input value={inviteResult.inviteUrl} readOnly className="font-mono text-xs" />
+                <Button size="sm" variant="outline" onClick={handleCopyLink}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {invitations.length > 0 && (
+            <div className="border rounded-lg divide-y mt-3">
+              {invitations.map((invitation) => {
+                const expired = new Date(invitation.expiresAt).getTime() <= Date.now()
+                return (
+                  <div key={invitation.id} className="p-3 flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">{invitation.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {ROLE_LABELS[invitation.role]} · invited {formatRelativeTime(invitation.createdAt)}
+                        {expired && " · expired"}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => run(() => revokeInvitation(invitation.id), "Failed to revoke invitation")}
+                      title="Revoke invitation"
+                      disabled={saving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { alertRuleManager } from "@/lib/supabase/database"
+import type { AlertChannel, AlertDelivery, AlertRule, CreateAlertRule, UpdateAlertRule } from "@/lib/types"
+
+export function useAlertRules() {
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([])
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAlertRules = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [rules, log] = await Promise.all([alertRuleManager.getAlertRules(), alertRuleManager.getDeliveries()])
+      setAlertRules(Array.isArray(rules) ? rules : [])
+      setDeliveries(Array.isArray(log) ? log : [])
+    } catch (err) {
+      console.error("Error loading alert rules:", err)
+      setError(err instanceof Error ? err.message : "Failed to load alert rules")
+      setAlertRules([])
+      setDeliveries([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addAlertRule = async (rule: CreateAlertRule) => {
+    try {
+      const newRule = await alertRuleManager.createAlertRule(rule)
+      setAlertRules((prev) => [...prev, newRule])
+      return newRule
+    } catch (err) {
+      console.error("Error adding alert rule:", err)
+      setError(err instanceof Error ? err.message : "Failed to add alert rule")
+      throw err
+    }
+  }
+
+  const updateAlertRule = async (id: string, updates: UpdateAlertRule) => {
+    const existing = alertRules.find((r) => r.id === id)
+    if (!existing) throw new Error("Alert rule not found")
+
+    try {
+      const updatedRule = await alertRuleManager.updateAlertRule(existing, updates)
+      setAlertRules((prev) => prev.map((r) => (r.id === id ? updatedRule : r)))
+      return updatedRule
+    } catch (err) {
+      console.error("Error updating alert rule:", err)
+      setError(err instanceof Error ? err.message : "Failed to update alert rule")
+      throw err
+    }
+  }
+
+  const deleteAlertRule = async (id: string) => {
+    try {
+      await alertRuleManager.deleteAlertRule(id)
+      setAlertRules((prev) => prev.filter((r) => r.id !== id))
+      setDeliveries((prev) => prev.filter((d) => d.ruleId !== id))
+    } catch (err) {
+      console.error("Error deleting alert rule:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete alert rule")
+      throw err
+    }
+  }
+
+  /**
+   * Send a sample alert through each of the rule's channels
+   * @returns Error message per channel, null where delivery worked
+   */
+  const sendTestAlert = async (id: string): Promise<Partial<Record<AlertChannel, string | null>>> => {
+    const response = await fetch("/api/alert-rules/test", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ruleId: id }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || `Test alert failed: ${response.status}`)
+    }
+
+    return result.results || {}
+  }
+
+  const refreshDeliveries = async () => {
+    try {
+      setDeliveries(await alertRuleManager.getDeliveries())
+    } catch (err) {
+      console.error("Error loading alert deliveries:", err)
+    }
+  }
+
+  useEffect(() => {
+    loadAlertRules()
+  }, [])
+
+  return {
+    alertRules,
+    deliveries,
+    loading,
+    error,
+    addAlertRule,
+    updateAlertRule,
+    deleteAlertRule,
+    sendTestAlert,
+    refreshDeliveries,
+    refetch: loadAlertRules,
+  }
+}
@@ -1,40 +1,65 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { bookmarkManager } from "@/lib/supabase/database"
 
 export function useBookmarks() {
   const [bookmarks, setBookmarks] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const bookmarksRef = useRef(bookmarks)
+  bookmarksRef.current = bookmarks
 
-  const loadBookmarks = async () => {
+  const loadBookmarks = useCallback(async (silent = false) => {
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
+
+      // Bring over bookmarks saved on this device before they were stored in the database
+      try {
+        await bookmarkManager.migrateFromLocalStorage()
+      } catch (migrationError) {
+        console.warn("⚠️ Failed to migrate local bookmarks, will retry on next load:", migrationError)
+      }
+
       const data = await bookmarkManager.getBookmarks()
       setBookmarks(data)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load bookmarks")
     } finally {
-      setLoading(false)
+      if (!silent) setLoading(false)
     }
-  }
+  }, [])
 
+  /**
+   * Toggle a bookmark optimistically, restoring the previous state if the save fails
+   * @returns The new bookmark state
+   */
   const toggleBookmark = async (pressReleaseId: string) => {
-    try {
-      const isBookmarked = await bookmarkManager.toggleBookmark(pressReleaseId)
+    const wasBookmarked = bookmarksRef.current.has(pressReleaseId)
+
+    const apply = (bookmarked: boolean) =>
       setBookmarks((prev) => {
         const newBookmarksSet = new Set(prev)
-        if (isBookmarked) {
+        if (bookmarked) {
           newBookmarksSet.add(pressReleaseId)
         } else {
           newBookmarksSet.delete(pressReleaseId)
         }
         return newBookmarksSet
       })
-      return isBookmarked
+
+    apply(!wasBookmarked)
+
+    try {
+      if (wasBookmarked) {
+        await bookmarkManager.removeBookmark(pressReleaseId)
+      } else {
+        await bookmarkManager.addBookmark(pressReleaseId)
+      }
+      return !wasBookmarked
     } catch (err) {
+      apply(wasBookmarked)
       setError(err instanceof Error ? err.message : "Failed to toggle bookmark")
       throw err
     }
@@ -49,10 +74,13 @@ export function useBookmarks() {
   }
 
   const clearAllBookmarks = async () => {
+    const previous = bookmarksRef.current
+    setBookmarks(new Set())
+
     try {
       await bookmarkManager.clearAll()
-      setBookmarks(new Set())
     } catch (err) {
+      setBookmarks(previous)
       setError(err instanceof Error ? err.message : "Failed to clear bookmarks")
       throw err
     }
@@ -60,7 +88,14 @@ export function useBookmarks() {
 
   useEffect(() => {
     loadBookmarks()
-  }, [])
+
+    // Pick up bookmarks made on other devices when the tab becomes visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") loadBookmarks(true)
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }, [loadBookmarks])
 
   return {
     bookmarks,
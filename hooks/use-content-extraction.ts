@@ -1,14 +1,17 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { isGoogleNewsUrl } from "@/lib/rss-sources"
 
-interface ContentExtractionResult {
+export interface ContentExtractionResult {
   success: boolean
   content: string
   htmlContent?: string
   textContent?: string
   extractedBy?: string
   confidence?: number
+  cached?: boolean // Served from the copy stored with the release
+  extractedAt?: string
   error?: string
 }
 
@@ -30,9 +33,11 @@ export function useContentExtraction(url: string | null) {
       setError(null)
 
       try {
-        const apiEndpoint = '/api/extract-content'
+        // Google News links are redirects that have to be resolved before extraction
+        const isGoogleNews = isGoogleNewsUrl(url)
+        const apiEndpoint = isGoogleNews ? '/api/extract-google-news-content' : '/api/extract-content'
 
-        console.log(`🔍 Using standard extraction for: ${url.substring(0, 100)}...`)
+        console.log(`🔍 Using ${isGoogleNews ? 'Google News' : 'standard'} extraction for: ${url.substring(0, 100)}...`)
 
         const response = await fetch(`${apiEndpoint}?url=${encodeURIComponent(url)}`)
         const result = await response.json()
@@ -41,9 +46,8 @@ export function useContentExtraction(url: string | null) {
           throw new Error(result.error || `HTTP ${response.status}`)
         }
 
-        // Standard extraction API response format
         setData(result)
-        console.log(`✅ Standard extraction successful`)
+        console.log(`✅ ${isGoogleNews ? 'Google News' : 'Standard'} extraction successful`)
 
       } catch (err) {
         console.error("Content extraction error:", err)
@@ -115,3 +119,13 @@ export function getBestContent(data: ContentExtractionResult | null): {
     hasContent: false
   }
 }
+
+/**
+ * Qualitative label for an extraction's confidence score
+ */
+export function getExtractionQuality(confidence?: number): "high" | "medium" | "low" {
+  if (confidence === undefined) return "low"
+  if (confidence >= 0.8) return "high"
+  if (confidence >= 0.5) return "medium"
+  return "low"
+}
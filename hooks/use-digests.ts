@@ -0,0 +1,75 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { digestManager } from "@/lib/supabase/database"
+import type { Digest, DigestSettings, SaveDigestSettings } from "@/lib/types"
+
+export function useDigests() {
+  const [settings, setSettings] = useState<DigestSettings | null>(null)
+  const [digests, setDigests] = useState<Digest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDigests = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [saved, sent] = await Promise.all([digestManager.getSettings(), digestManager.getDigests()])
+      setSettings(saved)
+      setDigests(Array.isArray(sent) ? sent : [])
+    } catch (err) {
+      console.error("Error loading digests:", err)
+      setError(err instanceof Error ? err.message : "Failed to load digests")
+      setSettings(null)
+      setDigests([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async (updates: SaveDigestSettings) => {
+    try {
+      const saved = await digestManager.saveSettings(updates)
+      setSettings(saved)
+      return saved
+    } catch (err) {
+      console.error("Error saving digest settings:", err)
+      setError(err instanceof Error ? err.message : "Failed to save digest settings")
+      throw err
+    }
+  }
+
+  /**
+   * Send the digest now, covering everything since the last one
+   * @returns The digest, null when there was nothing new
+   */
+  const sendNow = async (): Promise<Digest | null> => {
+    const response = await fetch("/api/digests/send", { method: "POST" })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || `Sending the digest failed: ${response.status}`)
+    }
+
+    const digest: Digest | null = result.digest || null
+    if (digest) {
+      setDigests((prev) => [digest, ...prev])
+      setSettings((prev) => (prev ? { ...prev, lastSentAt: digest.periodEnd } : prev))
+    }
+    return digest
+  }
+
+  useEffect(() => {
+    loadDigests()
+  }, [])
+
+  return {
+    settings,
+    digests,
+    loading,
+    error,
+    saveSettings,
+    sendNow,
+    refetch: loadDigests,
+  }
+}
@@ -1,8 +1,10 @@
 "use client"
 
 import { useState, useEffect, useCallback, useRef } from "react"
-import type { Company } from "@/lib/types"
+import type { Company, CompanyMatchPosition, FinancialFacts, PressRelease, ReleaseAIAnalysis, SECFiling } from "@/lib/types"
 import { pressReleasesCache, generateCompaniesKey } from "@/lib/cache"
+import { groupStoryClusters, type RelatedRelease } from "@/lib/story-clusters"
+import { stableRSSItemId } from "@/lib/rss-to-press-release"
 
 interface RSSItem {
   title: string
@@ -11,10 +13,8 @@ interface RSSItem {
   link: string
   companyMentions: string[]
   matchedCompany?: string
-  // Fintech detection fields
-  isFintech?: boolean
-  fintechCategories?: string[]
-  fintechRelevanceScore?: number
+  companyMatches?: CompanyMatchPosition[]
+  financialFacts?: FinancialFacts
 }
 
 interface RSSResponse {
@@ -36,10 +36,14 @@ interface EnhancedPressRelease {
   matchedCompany: string
   source: 'rss' | 'database'
   createdAt: string
-  // Fintech detection fields
-  isFintech?: boolean
-  fintechCategories?: string[]
-  fintechRelevanceScore?: number
+  companyMatches?: CompanyMatchPosition[]
+  filing?: SECFiling
+  simhash?: string
+  clusterId?: string
+  relatedReleases?: RelatedRelease[]
+  aiAnalysis?: ReleaseAIAnalysis
+  highlights?: PressRelease['highlights']
+  financialFacts?: FinancialFacts
 }
 
 interface EnhancedResponse {
@@ -61,7 +65,9 @@ export function useEnhancedPressReleases(companies: Company[]) {
   const [error, setError] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<number | null>(null)
 
-  const companiesKey = generateCompaniesKey(companies.map((c) => ({ name: c.name, variations: c.variations })))
+  const companiesKey = generateCompaniesKey(
+    companies.map((c) => ({ name: c.name, variations: c.variations, negativeKeywords: c.negativeKeywords })),
+  )
 
   const fetchEnhancedReleases = useCallback(
     async (forceRefresh = false, silent = false) => {
@@ -105,6 +111,7 @@ export function useEnhancedPressReleases(companies: Company[]) {
           id: company.id,
           name: company.name,
           variations: company.variations,
+          negativeKeywords: company.negativeKeywords || [],
         }))
 
         const companiesParam = encodeURIComponent(JSON.stringify(companiesData))
@@ -123,8 +130,9 @@ export function useEnhancedPressReleases(companies: Company[]) {
         // Process RSS data
         if (rssResponse.status === 'fulfilled' && rssResponse.value.ok) {
           const rssResult = await rssResponse.value.json()
-          rssItems = (rssResult.items || []).map((item: RSSItem, index: number) => ({
-            id: `rss-${index}-${Date.now()}`,
+          rssItems = (rssResult.items || []).map((item: RSSItem) => ({
+            // Stable across fetches and devices so read status and bookmarks stick to the item
+            id: stableRSSItemId(item.link),
             title: item.title,
             content: item.description,
             summary: item.description.substring(0, 200) + (item.description.length > 200 ? '...' : ''),
@@ -134,10 +142,8 @@ export function useEnhancedPressReleases(companies: Company[]) {
             matchedCompany: item.matchedCompany || 'Unknown',
             source: 'rss' as const,
             createdAt: new Date().toISOString(),
-            // Preserve fintech detection fields
-            isFintech: item.isFintech,
-            fintechCategories: item.fintechCategories,
-            fintechRelevanceScore: item.fintechRelevanceScore
+            companyMatches: item.companyMatches,
+            financialFacts: item.financialFacts
           }))
           console.log(`📡 Fetched ${rssItems.length} RSS items`)
         } else {
@@ -155,7 +161,8 @@ export function useEnhancedPressReleases(companies: Company[]) {
 
         // Combine and deduplicate items (prefer RSS for recent items)
         const allItems = [...rssItems, ...storedItems]
-        const uniqueItems = deduplicateByUrl(allItems)
+        // Collapse syndicated copies of the same story (matchedCompany is the only id shared by both sources)
+        const uniqueItems = groupStoryClusters(deduplicateByUrl(allItems), (item) => item.matchedCompany)
         
         // Sort by published date (newest first)
         uniqueItems.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
@@ -197,8 +204,8 @@ export function useEnhancedPressReleases(companies: Company[]) {
   // Auto-refresh when companies list actually changes
   useEffect(() => {
     // Check if companies actually changed (not just re-render)
-    const currentCompaniesKey = JSON.stringify(companies.map(c => ({ name: c.name, variations: c.variations })))
-    const prevCompaniesKey = JSON.stringify(prevCompaniesRef.current.map(c => ({ name: c.name, variations: c.variations })))
+    const currentCompaniesKey = JSON.stringify(companies.map(c => ({ name: c.name, variations: c.variations, negativeKeywords: c.negativeKeywords })))
+    const prevCompaniesKey = JSON.stringify(prevCompaniesRef.current.map(c => ({ name: c.name, variations: c.variations, negativeKeywords: c.negativeKeywords })))
     
     if (companies.length > 0 && currentCompaniesKey !== prevCompaniesKey) {
       console.log("👥 Companies actually changed in hook, triggering silent refresh")
@@ -233,6 +240,20 @@ export function useEnhancedPressReleases(companies: Company[]) {
   }
 }
 
+/**
+ * Carry a stored release's AI analysis over to the live RSS copy so it isn't analyzed again,
+ * along with financial facts the analysis refined
+ */
+function withStoredAnalysis(item: EnhancedPressRelease, stored: EnhancedPressRelease): EnhancedPressRelease {
+  if (!stored.aiAnalysis) return item
+  return {
+    ...item,
+    aiAnalysis: stored.aiAnalysis,
+    highlights: stored.highlights,
+    financialFacts: stored.financialFacts?.source === 'ai' ? stored.financialFacts : item.financialFacts,
+  }
+}
+
 /**
  * Remove duplicate articles based on URL, preferring RSS items for recent articles
  */
@@ -251,7 +272,9 @@ function deduplicateByUrl(items: EnhancedPressRelease[]): EnhancedPressRelease[]
       const isRecent = itemAge < 7 * 24 * 60 * 60 * 1000 // 7 days
       
       if (isRecent && item.source === 'rss' && existing.source === 'database') {
-        urlMap.set(url, item)
+        urlMap.set(url, withStoredAnalysis(item, existing))
+      } else if (item.source === 'database' && existing.source === 'rss') {
+        urlMap.set(url, withStoredAnalysis(existing, item))
       }
     }
   }
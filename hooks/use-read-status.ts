@@ -1,45 +1,71 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { readStatusManager } from "@/lib/supabase/database"
 
 export function useReadStatus() {
   const [readReleases, setReadReleases] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const readReleasesRef = useRef(readReleases)
+  readReleasesRef.current = readReleases
 
-  const loadReadStatus = async () => {
+  const loadReadStatus = useCallback(async (silent = false) => {
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
+
+      // Bring over read status saved on this device before it was stored in the database
+      try {
+        await readStatusManager.migrateFromLocalStorage()
+      } catch (migrationError) {
+        console.warn("⚠️ Failed to migrate local read status, will retry on next load:", migrationError)
+      }
+
       const data = await readStatusManager.getReadReleases()
       setReadReleases(data)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load read status")
     } finally {
-      setLoading(false)
+      if (!silent) setLoading(false)
     }
-  }
+  }, [])
 
+  const setRead = (pressReleaseId: string, read: boolean) =>
+    setReadReleases((prev) => {
+      const newSet = new Set(prev)
+      if (read) {
+        newSet.add(pressReleaseId)
+      } else {
+        newSet.delete(pressReleaseId)
+      }
+      return newSet
+    })
+
+  /**
+   * Mark a release as read optimistically, restoring it as unread if the save fails
+   */
   const markAsRead = async (pressReleaseId: string) => {
+    if (readReleasesRef.current.has(pressReleaseId)) return
+
+    setRead(pressReleaseId, true)
     try {
       await readStatusManager.markAsRead(pressReleaseId)
-      setReadReleases((prev) => new Set([...prev, pressReleaseId]))
     } catch (err) {
+      setRead(pressReleaseId, false)
       setError(err instanceof Error ? err.message : "Failed to mark as read")
       throw err
     }
   }
 
   const markAsUnread = async (pressReleaseId: string) => {
+    if (!readReleasesRef.current.has(pressReleaseId)) return
+
+    setRead(pressReleaseId, false)
     try {
       await readStatusManager.markAsUnread(pressReleaseId)
-      setReadReleases((prev) => {
-        const newSet = new Set(prev)
-        newSet.delete(pressReleaseId)
-        return newSet
-      })
     } catch (err) {
+      setRead(pressReleaseId, true)
       setError(err instanceof Error ? err.message : "Failed to mark as unread")
       throw err
     }
@@ -54,10 +80,13 @@ export function useReadStatus() {
   }
 
   const clearAllReadStatus = async () => {
+    const previous = readReleasesRef.current
+    setReadReleases(new Set())
+
     try {
       await readStatusManager.clearAll()
-      setReadReleases(new Set())
     } catch (err) {
+      setReadReleases(previous)
       setError(err instanceof Error ? err.message : "Failed to clear read status")
       throw err
     }
@@ -65,7 +94,14 @@ export function useReadStatus() {
 
   useEffect(() => {
     loadReadStatus()
-  }, [])
+
+    // Pick up releases read on other devices when the tab becomes visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") loadReadStatus(true)
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }, [loadReadStatus])
 
   return {
     readReleases,
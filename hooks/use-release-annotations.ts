@@ -0,0 +1,89 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { releaseAnnotationManager } from "@/lib/supabase/database"
+import type { CreateReleaseAnnotation, ReleaseAnnotation, UpdateReleaseAnnotation } from "@/lib/types"
+
+/**
+ * Notes and highlights on one release, reloaded when the release changes
+ */
+export function useReleaseAnnotations(releaseId: string) {
+  const [annotations, setAnnotations] = useState<ReleaseAnnotation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAnnotations = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await releaseAnnotationManager.getAnnotations(releaseId)
+      setAnnotations(Array.isArray(data) ? data : [])
+    } catch (err) {
+      console.error("Error loading release annotations:", err)
+      setError(err instanceof Error ? err.message : "Failed to load notes")
+      setAnnotations([])
+    } finally {
+      setLoading(false)
+    }
+  }, [releaseId])
+
+  const addAnnotation = useCallback(
+    async (annotation: Omit<CreateReleaseAnnotation, "releaseId">) => {
+      try {
+        const newAnnotation = await releaseAnnotationManager.createAnnotation({ ...annotation, releaseId })
+        setAnnotations((prev) => [...prev, newAnnotation])
+        return newAnnotation
+      } catch (err) {
+        console.error("Error adding release annotation:", err)
+        setError(err instanceof Error ? err.message : "Failed to save")
+        throw err
+      }
+    },
+    [releaseId]
+  )
+
+  const updateAnnotation = useCallback(
+    async (id: string, updates: UpdateReleaseAnnotation) => {
+      const existing = annotations.find((a) => a.id === id)
+      if (!existing) throw new Error("Note not found")
+
+      try {
+        const updatedAnnotation = await releaseAnnotationManager.updateAnnotation(existing, updates)
+        setAnnotations((prev) => prev.map((a) => (a.id === id ? updatedAnnotation : a)))
+        return updatedAnnotation
+      } catch (err) {
+        console.error("Error updating release annotation:", err)
+        setError(err instanceof Error ? err.message : "Failed to update")
+        throw err
+      }
+    },
+    [annotations]
+  )
+
+  const deleteAnnotation = useCallback(async (id: string) => {
+    try {
+      await releaseAnnotationManager.deleteAnnotation(id)
+      setAnnotations((prev) => prev.filter((a) => a.id !== id))
+    } catch (err) {
+      console.error("Error deleting release annotation:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete")
+      throw err
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAnnotations()
+  }, [loadAnnotations])
+
+  return {
+    annotations,
+    notes: annotations.filter((a) => a.kind === "note"),
+    highlights: annotations.filter((a) => a.kind === "highlight"),
+    loading,
+    error,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+    refetch: loadAnnotations,
+  }
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useState } from "react"
+import type { ReleaseExportFilters, ReleaseExportFormat } from "@/lib/types"
+import { exportFilename, toExportParams } from "@/lib/release-export"
+
+/**
+ * Export the activity feed view through /api/export-releases. The printable digest opens in a
+ * new tab; the other formats are downloaded.
+ */
+export function useReleaseExport() {
+  const [exporting, setExporting] = useState<ReleaseExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const exportReleases = async (filters: ReleaseExportFilters, format: ReleaseExportFormat) => {
+    const url = `/api/export-releases?${toExportParams(filters, format)}`
+    setError(null)
+
+    if (format === "html") {
+      window.open(url, "_blank", "noopener")
+      return
+    }
+
+    try {
+      setExporting(format)
+      const response = await fetch(url)
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || `Export failed: ${response.status}`)
+      }
+
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || exportFilename(format)
+      const objectUrl = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = objectUrl
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(objectUrl)
+    } catch (err) {
+      console.error("Error exporting releases:", err)
+      setError(err instanceof Error ? err.message : "Export failed")
+      throw err
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return {
+    exporting,
+    error,
+    exportReleases,
+  }
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { PressRelease, ReleaseSearchFilters } from "@/lib/types"
+import { isSearchActive, toSearchParams } from "@/lib/release-search"
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Full-text search over stored releases; idle (no results) while no filter is set
+ */
+export function useReleaseSearch(filters: ReleaseSearchFilters) {
+  const [results, setResults] = useState<PressRelease[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const active = isSearchActive(filters)
+  const searchKey = active ? toSearchParams(filters).toString() : ""
+
+  useEffect(() => {
+    if (!searchKey) {
+      setResults([])
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search-releases?${searchKey}&limit=100`, { signal: controller.signal })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || `Search failed: ${response.status}`)
+        }
+
+        setResults(result.items || [])
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error("Error searching releases:", err)
+        setError(err instanceof Error ? err.message : "Search failed")
+        setResults([])
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [searchKey])
+
+  return { active, results, loading, error }
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { releaseTagManager } from "@/lib/supabase/database"
+import { sameTag } from "@/lib/release-annotations"
+
+export function useReleaseTags() {
+  const [releaseTags, setReleaseTags] = useState<Map<string, string[]>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTags = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setReleaseTags(await releaseTagManager.getTags())
+    } catch (err) {
+      console.error("Error loading release tags:", err)
+      setError(err instanceof Error ? err.message : "Failed to load tags")
+      setReleaseTags(new Map())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addTag = async (releaseId: string, tag: string) => {
+    try {
+      const added = await releaseTagManager.addTag(releaseId, tag)
+      setReleaseTags((prev) => {
+        const current = prev.get(releaseId) || []
+        if (current.some((existing) => sameTag(existing, added))) return prev
+        return new Map(prev).set(releaseId, [...current, added])
+      })
+      return added
+    } catch (err) {
+      console.error("Error adding release tag:", err)
+      setError(err instanceof Error ? err.message : "Failed to add tag")
+      throw err
+    }
+  }
+
+  const removeTag = async (releaseId: string, tag: string) => {
+    try {
+      await releaseTagManager.removeTag(releaseId, tag)
+      setReleaseTags((prev) => {
+        const remaining = (prev.get(releaseId) || []).filter((existing) => !sameTag(existing, tag))
+        const next = new Map(prev)
+        if (remaining.length > 0) next.set(releaseId, remaining)
+        else next.delete(releaseId)
+        return next
+      })
+    } catch (err) {
+      console.error("Error removing release tag:", err)
+      setError(err instanceof Error ? err.message : "Failed to remove tag")
+      throw err
+    }
+  }
+
+  // Every tag in use, once each regardless of case, for the feed filter and suggestions
+  const allTags: string[] = []
+  releaseTags.forEach((tags) => {
+    for (const tag of tags) {
+      if (!allTags.some((existing) => sameTag(existing, tag))) allTags.push(tag)
+    }
+  })
+  allTags.sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }))
+
+  useEffect(() => {
+    loadTags()
+  }, [])
+
+  return {
+    releaseTags,
+    allTags,
+    loading,
+    error,
+    addTag,
+    removeTag,
+    refetch: loadTags,
+  }
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { savedSearchManager } from "@/lib/supabase/database"
+import type { CreateSavedSearch, SavedSearch } from "@/lib/types"
+
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSavedSearches = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await savedSearchManager.getSavedSearches()
+      setSavedSearches(Array.isArray(data) ? data : [])
+    } catch (err) {
+      console.error("Error loading saved searches:", err)
+      setError(err instanceof Error ? err.message : "Failed to load saved searches")
+      setSavedSearches([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addSavedSearch = async (search: CreateSavedSearch) => {
+    try {
+      const newSearch = await savedSearchManager.createSavedSearch(search)
+      setSavedSearches((prev) => [...prev, newSearch])
+      return newSearch
+    } catch (err) {
+      console.error("Error saving search:", err)
+      setError(err instanceof Error ? err.message : "Failed to save search")
+      throw err
+    }
+  }
+
+  const deleteSavedSearch = async (id: string) => {
+    try {
+      await savedSearchManager.deleteSavedSearch(id)
+      setSavedSearches((prev) => prev.filter((s) => s.id !== id))
+    } catch (err) {
+      console.error("Error deleting saved search:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete saved search")
+      throw err
+    }
+  }
+
+  useEffect(() => {
+    loadSavedSearches()
+  }, [])
+
+  return {
+    savedSearches,
+    loading,
+    error,
+    addSavedSearch,
+    deleteSavedSearch,
+    refetch: loadSavedSearches,
+  }
+}
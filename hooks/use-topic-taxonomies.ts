@@ -0,0 +1,75 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { topicTaxonomyManager } from "@/lib/supabase/database"
+import type { CreateTopicTaxonomy, TopicTaxonomy, UpdateTopicTaxonomy } from "@/lib/types"
+
+export function useTopicTaxonomies() {
+  const [taxonomies, setTaxonomies] = useState<TopicTaxonomy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTaxonomies = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await topicTaxonomyManager.getTaxonomies()
+      setTaxonomies(Array.isArray(data) ? data : [])
+    } catch (err) {
+      console.error("Error loading topic taxonomies:", err)
+      setError(err instanceof Error ? err.message : "Failed to load topics")
+      setTaxonomies([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addTaxonomy = async (taxonomy: CreateTopicTaxonomy) => {
+    try {
+      const newTaxonomy = await topicTaxonomyManager.createTaxonomy(taxonomy)
+      setTaxonomies((prev) => [...prev, newTaxonomy])
+      return newTaxonomy
+    } catch (err) {
+      console.error("Error adding topic taxonomy:", err)
+      setError(err instanceof Error ? err.message : "Failed to add topic")
+      throw err
+    }
+  }
+
+  const updateTaxonomy = async (id: string, updates: UpdateTopicTaxonomy) => {
+    try {
+      const updatedTaxonomy = await topicTaxonomyManager.updateTaxonomy(id, updates)
+      setTaxonomies((prev) => prev.map((t) => (t.id === id ? updatedTaxonomy : t)))
+      return updatedTaxonomy
+    } catch (err) {
+      console.error("Error updating topic taxonomy:", err)
+      setError(err instanceof Error ? err.message : "Failed to update topic")
+      throw err
+    }
+  }
+
+  const deleteTaxonomy = async (id: string) => {
+    try {
+      await topicTaxonomyManager.deleteTaxonomy(id)
+      setTaxonomies((prev) => prev.filter((t) => t.id !== id))
+    } catch (err) {
+      console.error("Error deleting topic taxonomy:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete topic")
+      throw err
+    }
+  }
+
+  useEffect(() => {
+    loadTaxonomies()
+  }, [])
+
+  return {
+    taxonomies,
+    loading,
+    error,
+    addTaxonomy,
+    updateTaxonomy,
+    deleteTaxonomy,
+    refetch: loadTaxonomies,
+  }
+}
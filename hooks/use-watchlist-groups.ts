@@ -0,0 +1,108 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { watchlistGroupManager } from "@/lib/supabase/database"
+import type { CreateWatchlistGroup, UpdateWatchlistGroup, WatchlistGroup } from "@/lib/types"
+
+export function useWatchlistGroups() {
+  const [groups, setGroups] = useState<WatchlistGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadGroups = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await watchlistGroupManager.getGroups()
+      setGroups(Array.isArray(data) ? data : [])
+    } catch (err) {
+      console.error("Error loading watchlist groups:", err)
+      setError(err instanceof Error ? err.message : "Failed to load groups")
+      setGroups([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addGroup = async (group: CreateWatchlistGroup) => {
+    try {
+      const newGroup = await watchlistGroupManager.createGroup(group)
+      setGroups((prev) => [...prev, newGroup])
+      return newGroup
+    } catch (err) {
+      console.error("Error adding watchlist group:", err)
+      setError(err instanceof Error ? err.message : "Failed to add group")
+      throw err
+    }
+  }
+
+  const updateGroup = async (id: string, updates: UpdateWatchlistGroup) => {
+    const existing = groups.find((g) => g.id === id)
+    if (!existing) throw new Error("Group not found")
+
+    try {
+      const updatedGroup = await watchlistGroupManager.updateGroup(existing, updates)
+      setGroups((prev) => prev.map((g) => (g.id === id ? updatedGroup : g)))
+      return updatedGroup
+    } catch (err) {
+      console.error("Error updating watchlist group:", err)
+      setError(err instanceof Error ? err.message : "Failed to update group")
+      throw err
+    }
+  }
+
+  /**
+   * Move a group one tab left or right
+   */
+  const moveGroup = async (id: string, direction: -1 | 1) => {
+    const index = groups.findIndex((g) => g.id === id)
+    const target = index + direction
+    if (index < 0 || target < 0 || target >= groups.length) return
+
+    const previous = groups
+    const reordered = [...groups]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setGroups(reordered.map((g, position) => ({ ...g, position })))
+
+    try {
+      await watchlistGroupManager.reorderGroups(reordered.map((g) => g.id))
+    } catch (err) {
+      console.error("Error reordering watchlist groups:", err)
+      setGroups(previous)
+      setError(err instanceof Error ? err.message : "Failed to reorder groups")
+      throw err
+    }
+  }
+
+  const deleteGroup = async (id: string) => {
+    try {
+      await watchlistGroupManager.deleteGroup(id)
+      setGroups((prev) => prev.filter((g) => g.id !== id))
+    } catch (err) {
+      console.error("Error deleting watchlist group:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete group")
+      throw err
+    }
+  }
+
+  // Deleted companies drop out of the groups they were in (the database cascades the same way)
+  const removeCompany = (companyId: string) => {
+    setGroups((prev) => prev.map((g) => ({ ...g, companyIds: g.companyIds.filter((id) => id !== companyId) })))
+  }
+
+  useEffect(() => {
+    loadGroups()
+  }, [])
+
+  return {
+    groups,
+    loading,
+    error,
+    addGroup,
+    updateGroup,
+    moveGroup,
+    deleteGroup,
+    removeCompany,
+    refetch: loadGroups,
+  }
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { workspaceManager } from "@/lib/supabase/database"
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from "@/lib/types"
+
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null)
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId) || null
+
+  const loadWorkspaces = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      // The active id first: it creates the personal workspace for users who have none yet
+      const activeId = await workspaceManager.getActiveWorkspaceId()
+      const list = await workspaceManager.getWorkspaces()
+      const active = list.find((w) => w.id === activeId)
+
+      const [memberList, invitationList] = await Promise.all([
+        workspaceManager.getMembers(activeId),
+        active?.role === "owner" ? workspaceManager.getInvitations(activeId) : Promise.resolve([]),
+      ])
+
+      setWorkspaces(list)
+      setActiveWorkspaceId(activeId)
+      setMembers(memberList)
+      setInvitations(invitationList)
+    } catch (err) {
+      console.error("Error loading workspaces:", err)
+      setError(err instanceof Error ? err.message : "Failed to load workspaces")
+      setWorkspaces([])
+      setMembers([])
+      setInvitations([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Companies, feeds and releases all come from the active workspace, so the page reloads
+   * rather than refetching every hook
+   */
+  const switchWorkspace = async (id: string) => {
+    try {
+      await workspaceManager.setActiveWorkspace(id)
+      window.location.reload()
+    } catch (err) {
+      console.error("Error switching workspace:", err)
+      setError(err instanceof Error ? err.message : "Failed to switch workspace")
+      throw err
+    }
+  }
+
+  const createWorkspace = async (name: string) => {
+    try {
+      const workspace = await workspaceManager.createWorkspace(name)
+      await switchWorkspace(workspace.id)
+      return workspace
+    } catch (err) {
+      console.error("Error creating workspace:", err)
+      setError(err instanceof Error ? err.message : "Failed to create workspace")
+      throw err
+    }
+  }
+
+  const renameWorkspace = async (id: string, name: string) => {
+    try {
+      await workspaceManager.renameWorkspace(id, name)
+      setWorkspaces((prev) => prev.map((w) => (w.id === id ? { ...w, name: name.trim() } : w)))
+    } catch (err) {
+      console.error("Error renaming workspace:", err)
+      setError(err instanceof Error ? err.message : "Failed to rename workspace")
+      throw err
+    }
+  }
+
+  /**
+   * Delete a shared workspace; the user lands back in their oldest remaining one
+   */
+  const deleteWorkspace = async (id: string) => {
+    try {
+      await workspaceManager.deleteWorkspace(id)
+      window.location.reload()
+    } catch (err) {
+      console.error("Error deleting workspace:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete workspace")
+      throw err
+    }
+  }
+
+  /**
+   * Invite by email; the link is returned so it can be shared by hand when email isn't configured
+   */
+  const inviteMember = async (
+    email: string,
+    role: WorkspaceInvitation["role"]
+  ): Promise<{ inviteUrl: string; emailed: boolean }> => {
+    if (!activeWorkspaceId) throw new Error("No active workspace")
+
+    const response = await fetch(`/api/workspaces/${activeWorkspaceId}/invitations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, role }),
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || `Invitation failed: ${response.status}`)
+    }
+
+    setInvitations((prev) => [result.invitation, ...prev.filter((i) => i.email !== result.invitation.email)])
+    return { inviteUrl: result.inviteUrl, emailed: result.emailed }
+  }
+
+  const revokeInvitation = async (id: string) => {
+    try {
+      await workspaceManager.revokeInvitation(id)
+      setInvitations((prev) => prev.filter((i) => i.id !== id))
+    } catch (err) {
+      console.error("Error revoking invitation:", err)
+      setError(err instanceof Error ? err.message : "Failed to revoke invitation")
+      throw err
+    }
+  }
+
+  const updateMemberRole = async (userId: string, role: WorkspaceRole) => {
+    if (!activeWorkspaceId) throw new Error("No active workspace")
+
+    try {
+      await workspaceManager.updateMemberRole(activeWorkspaceId, userId, role)
+      setMembers((prev) => prev.map((m) => (m.userId === userId ? { ...m, role } : m)))
+    } catch (err) {
+      console.error("Error updating member role:", err)
+      setError(err instanceof Error ? err.message : "Failed to update member role")
+      throw err
+    }
+  }
+
+  const removeMember = async (userId: string) => {
+    if (!activeWorkspaceId) throw new Error("No active workspace")
+
+    try {
+      await workspaceManager.removeMember(activeWorkspaceId, userId)
+      setMembers((prev) => prev.filter((m) => m.userId !== userId))
+    } catch (err) {
+      console.error("Error removing member:", err)
+      setError(err instanceof Error ? err.message : "Failed to remove member")
+      throw err
+    }
+  }
+
+  useEffect(() => {
+    loadWorkspaces()
+  }, [])
+
+  return {
+    workspaces,
+    activeWorkspace,
+    members,
+    invitations,
+    loading,
+    error,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+    refetch: loadWorkspaces,
+  }
+}
@@ -3,6 +3,9 @@ export interface AIPrompts {
   userPromptTemplate: string
 }
 
+// Bump whenever DEFAULT_AI_PROMPTS change so stored analyses are regenerated with the new prompts
+export const AI_PROMPT_VERSION = "v2"
+
 export const DEFAULT_AI_PROMPTS: AIPrompts = {
   systemPrompt: `You are an expert financial analyst with deep knowledge of corporate communications, market dynamics, and business strategy. Your role is to analyze press releases and provide actionable insights for investors and business professionals.
 
@@ -42,12 +45,28 @@ Please respond in this exact JSON format:
       "text": "exact text from press release",
       "reasoning": "why this is significant"
     }
-  ]
+  ],
+  "financialFacts": {
+    "dealType": "acquisition|funding_round|debt_raise|fund_close|partnership|earnings|none",
+    "amount": "headline amount as written, e.g. $50 million, or null",
+    "counterparties": ["other companies or investors party to the deal"],
+    "fiscalPeriod": "period reported for earnings, e.g. Q3 2025, or null"
+  }
 }
 
 Important: Only include highlights for text that actually appears in the press release content. Be precise with the text matching.`,
 }
 
+/**
+ * Whether prompts are the current defaults; only analyses from default prompts are stored and shared
+ */
+export function isDefaultPrompts(prompts: AIPrompts): boolean {
+  return (
+    prompts.systemPrompt === DEFAULT_AI_PROMPTS.systemPrompt &&
+    prompts.userPromptTemplate === DEFAULT_AI_PROMPTS.userPromptTemplate
+  )
+}
+
 /**
  * Process prompt template with variables
  * Enhanced with error handling and logging
@@ -0,0 +1,308 @@
+import { safeFetch, SafeFetchError } from './safe-fetch'
+import { getEmailTransport, SMTPError, type EmailMessage } from './email-transport'
+import { escapeHTML, htmlLink, isWebURL } from './markup'
+import type { DigestCompanySection } from './types'
+
+/**
+ * Alert Delivery
+ * Formats an alert for a release, or a scheduled digest, and sends it to a webhook
+ * (Slack-compatible JSON, also accepted by most chat tools and automation services) or by email
+ * through the configured transport. Server-only: never import this from client components.
+ */
+
+export const ALERT_EMAIL_FROM = process.env.ALERT_EMAIL_FROM || 'Cignal Alerts <alerts@localhost>'
+
+const WEBHOOK_TIMEOUT = 10000
+const SUMMARY_LENGTH = 500
+const DIGEST_SUMMARY_LENGTH = 240
+const MAX_WEBHOOK_DIGEST_SECTIONS = 20 // Slack allows 50 blocks per message
+const MAX_BLOCK_TEXT_LENGTH = 2900
+
+// What an alert says about a release
+export interface AlertContent {
+  ruleName: string
+  title: string
+  companyName: string
+  sourceUrl: string
+  publishedAt: string
+  summary: string
+  categories: string[] // Topic categories the release matched, if the rule has a topic
+}
+
+// What a digest says, one section per company
+export interface DigestContent {
+  workspaceName: string
+  periodStart: string
+  periodEnd: string
+  timezone: string // Dates are shown in the user's zone
+  releaseCount: number
+  sections: DigestCompanySection[]
+  url: string // Digest page in the app
+}
+
+export interface WebhookPayload {
+  text: string // Fallback shown in notifications and by tools that ignore blocks
+  blocks: Array<Record<string, unknown>>
+}
+
+/**
+ * Delivery failure; permanent ones (rejected webhook, unknown mailbox) aren't retried
+ */
+export class AlertDeliveryError extends Error {
+  permanent: boolean
+
+  constructor(message: string, permanent: boolean = false) {
+    super(message)
+    this.name = 'AlertDeliveryError'
+    this.permanent = permanent
+  }
+}
+
+/**
+ * Whether webhooks may target private addresses, for a local stand-in or self-hosted receiver
+ */
+export function allowPrivateWebhooks(): boolean {
+  return process.env.ALERT_WEBHOOK_ALLOW_PRIVATE === 'true'
+}
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  return clean.length > length ? `${clean.substring(0, length - 1)}…` : clean
+}
+
+// Slack mrkdwn treats these as control characters
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Slack link to a feed-supplied URL, or just the text when the URL isn't http(s)
+function mrkdwnLink(url: string, text: string): string {
+  return isWebURL(url) ? `<${url}|${escapeMrkdwn(text)}>` : escapeMrkdwn(text)
+}
+
+function formatDate(date: string): string {
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime()) ? date : parsed.toUTCString().replace(' GMT', ' UTC')
+}
+
+export function buildWebhookPayload(alert: AlertContent): WebhookPayload {
+  const context = [`*${escapeMrkdwn(alert.companyName)}*`, formatDate(alert.publishedAt)]
+  if (alert.categories.length > 0) context.push(escapeMrkdwn(alert.categories.join(', ')))
+  context.push(`Rule: ${escapeMrkdwn(alert.ruleName)}`)
+
+  return {
+    text: `${alert.companyName}: ${alert.title} ${alert.sourceUrl}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${mrkdwnLink(alert.sourceUrl, alert.title)}*\n${escapeMrkdwn(truncate(alert.summary, SUMMARY_LENGTH))}`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: context.join(' · ') }],
+      },
+    ],
+  }
+}
+
+export function buildAlertEmail(alert: AlertContent, to: string): EmailMessage {
+  const summary = truncate(alert.summary, SUMMARY_LENGTH)
+  const details = [alert.companyName, formatDate(alert.publishedAt), ...(alert.categories.length ? [alert.categories.join(', ')] : [])]
+
+  return {
+    from: ALERT_EMAIL_FROM,
+    to,
+    subject: `[${alert.ruleName}] ${alert.companyName}: ${alert.title}`,
+    text: [alert.title, details.join(' · '), '', summary, '', alert.sourceUrl, '', `Sent by your "${alert.ruleName}" alert rule.`].join('\n'),
+    html: [
+      `<h2 style="font-size:16px;margin:0 0 4px">${htmlLink(alert.sourceUrl, alert.title)}</h2>`,
+      `<p style="color:#666;font-size:12px;margin:0 0 12px">${details.map(escapeHTML).join(' &middot; ')}</p>`,
+      `<p style="font-size:14px">${escapeHTML(summary)}</p>`,
+      `<p style="color:#999;font-size:12px">Sent by your &quot;${escapeHTML(alert.ruleName)}&quot; alert rule.</p>`,
+    ].join('\n'),
+  }
+}
+
+function formatDay(date: string, timezone: string): string {
+  const parsed = new Date(date)
+  if (isNaN(parsed.getTime())) return date
+  return parsed.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: timezone })
+}
+
+function describeDigest(digest: DigestContent): string {
+  const companies = digest.sections.length
+  return `${digest.releaseCount} new ${digest.releaseCount === 1 ? 'release' : 'releases'} from ${companies} ${companies === 1 ? 'company' : 'companies'}`
+}
+
+function digestPeriod(digest: DigestContent): string {
+  const start = formatDay(digest.periodStart, digest.timezone)
+  const end = formatDay(digest.periodEnd, digest.timezone)
+  return start === end ? end : `${start} – ${end}`
+}
+
+export function buildDigestWebhookPayload(digest: DigestContent): WebhookPayload {
+  const blocks: Array<Record<string, unknown>> = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*<${digest.url}|Cignal digest: ${escapeMrkdwn(digest.workspaceName)}>*\n${describeDigest(digest)} · ${digestPeriod(digest)}`,
+      },
+    },
+  ]
+
+  for (const section of digest.sections.slice(0, MAX_WEBHOOK_DIGEST_SECTIONS)) {
+    const lines = [`*${escapeMrkdwn(section.companyName)}* (${section.releaseCount})`]
+    if (section.rollup) lines.push(escapeMrkdwn(section.rollup))
+    lines.push(...section.releases.map((release) => `• ${mrkdwnLink(release.sourceUrl, release.title)}`))
+    if (section.releaseCount > section.releases.length) {
+      lines.push(`_and ${section.releaseCount - section.releases.length} more_`)
+    }
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(lines.join('\n'), MAX_BLOCK_TEXT_LENGTH) } })
+  }
+
+  const hidden = digest.sections.length - MAX_WEBHOOK_DIGEST_SECTIONS
+  if (hidden > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `<${digest.url}|${hidden} more ${hidden === 1 ? 'company' : 'companies'} in the app>` }],
+    })
+  }
+
+  return {
+    text: `Cignal digest for ${digest.workspaceName}: ${describeDigest(digest)} ${digest.url}`,
+    blocks,
+  }
+}
+
+export function buildDigestEmail(digest: DigestContent, to: string): EmailMessage {
+  const text: string[] = [`Cignal digest: ${digest.workspaceName}`, `${describeDigest(digest)} · ${digestPeriod(digest)}`]
+  const html: string[] = [
+    `<h1 style="font-size:20px;margin:0 0 4px">Cignal digest: ${escapeHTML(digest.workspaceName)}</h1>`,
+    `<p style="color:#666;font-size:13px;margin:0 0 20px">${describeDigest(digest)} &middot; ${escapeHTML(digestPeriod(digest))}</p>`,
+  ]
+
+  for (const section of digest.sections) {
+    text.push('', `${section.companyName} (${section.releaseCount})`)
+    html.push(
+      `<h2 style="font-size:16px;border-bottom:1px solid #ddd;padding-bottom:4px;margin:20px 0 8px">${escapeHTML(section.companyName)} (${section.releaseCount})</h2>`
+    )
+    if (section.rollup) {
+      text.push(section.rollup)
+      html.push(`<p style="font-size:14px;margin:0 0 8px">${escapeHTML(section.rollup)}</p>`)
+    }
+
+    html.push('<ul style="font-size:14px;margin:0;padding-left:20px">')
+    for (const release of section.releases) {
+      const summary = truncate(release.summary, DIGEST_SUMMARY_LENGTH)
+      text.push(`- ${release.title} (${formatDay(release.publishedAt, digest.timezone)})`, `  ${release.sourceUrl}`)
+      html.push(
+        `<li style="margin:0 0 6px">${htmlLink(release.sourceUrl, release.title)}` +
+          ` <span style="color:#666;font-size:12px">${formatDay(release.publishedAt, digest.timezone)}</span>` +
+          (summary && !section.rollup ? `<br><span style="color:#444">${escapeHTML(summary)}</span>` : '') +
+          '</li>'
+      )
+    }
+    html.push('</ul>')
+
+    if (section.releaseCount > section.releases.length) {
+      const more = `and ${section.releaseCount - section.releases.length} more`
+      text.push(`  ${more}`)
+      html.push(`<p style="color:#666;font-size:12px;margin:4px 0 0">${more}</p>`)
+    }
+  }
+
+  text.push('', `View in Cignal: ${digest.url}`)
+  html.push(
+    `<p style="color:#999;font-size:12px;margin-top:24px"><a href="${escapeHTML(digest.url)}">View in Cignal</a> &middot; Change the schedule in Settings &gt; Digest.</p>`
+  )
+
+  return {
+    from: ALERT_EMAIL_FROM,
+    to,
+    subject: `Cignal digest: ${describeDigest(digest)}`,
+    text: text.join('\n'),
+    html: html.join('\n'),
+  }
+}
+
+/**
+ * POST the alert to a webhook; redirects aren't followed, so the URL must be the receiver itself
+ * @throws AlertDeliveryError
+ */
+export async function sendWebhookAlert(url: string, alert: AlertContent): Promise<void> {
+  await postWebhook(url, buildWebhookPayload(alert))
+}
+
+/**
+ * Email the alert through the configured transport
+ * @throws AlertDeliveryError
+ */
+export async function sendEmailAlert(to: string, alert: AlertContent): Promise<void> {
+  await sendEmail(buildAlertEmail(alert, to))
+}
+
+/**
+ * POST a digest to a webhook, with the same rules as alerts
+ * @throws AlertDeliveryError
+ */
+export async function sendWebhookDigest(url: string, digest: DigestContent): Promise<void> {
+  await postWebhook(url, buildDigestWebhookPayload(digest))
+}
+
+/**
+ * Email a digest through the configured transport
+ * @throws AlertDeliveryError
+ */
+export async function sendEmailDigest(to: string, digest: DigestContent): Promise<void> {
+  await sendEmail(buildDigestEmail(digest, to))
+}
+
+async function postWebhook(url: string, payload: WebhookPayload): Promise<void> {
+  const body = JSON.stringify(payload)
+
+  let response
+  try {
+    response = await safeFetch(url, {
+      method: 'POST',
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': String(Buffer.byteLength(body)),
+        'User-Agent': 'Cignal-Alerts/1.0',
+      },
+      timeout: WEBHOOK_TIMEOUT,
+      followRedirects: false,
+      maxBytes: 64 * 1024,
+      allowPrivateNetwork: allowPrivateWebhooks(),
+    })
+  } catch (error) {
+    if (error instanceof SafeFetchError) {
+      throw new AlertDeliveryError(`Webhook refused: ${error.message}`, error.code !== 'timeout')
+    }
+    throw new AlertDeliveryError(`Webhook request failed: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!response.ok) {
+    // Client errors other than timeouts and rate limits mean the webhook is misconfigured
+    const permanent = response.status >= 300 && response.status < 500 && response.status !== 408 && response.status !== 429
+    throw new AlertDeliveryError(`Webhook returned ${response.status} ${truncate(response.body, 200)}`.trim(), permanent)
+  }
+}
+
+async function sendEmail(message: EmailMessage): Promise<void> {
+  const transport = getEmailTransport()
+  if (!transport) {
+    throw new AlertDeliveryError('Email is not configured (set SMTP_URL)', true)
+  }
+
+  try {
+    await transport.send(message)
+  } catch (error) {
+    const permanent = error instanceof SMTPError && error.permanent
+    throw new AlertDeliveryError(`Email failed: ${error instanceof Error ? error.message : error}`, permanent)
+  }
+}
@@ -0,0 +1,211 @@
+import type { AlertChannel, AlertRule, CreateAlertRule, SearchFeedType, TopicMatch } from "./types"
+import { normalizeSearchQuery } from "./release-search"
+
+/**
+ * Alert Rules
+ * Matching, validation and quiet hours for alert rules. Rules are evaluated against newly
+ * polled releases by lib/supabase/alert-service.ts; delivery lives in lib/alert-delivery.ts.
+ * Queries use the release search syntax (words ANDed, "quoted phrases", OR, -excluded terms)
+ * but match whole words without the stemming stored search applies.
+ */
+
+export const MAX_ALERT_QUERY_LENGTH = 500
+
+// What a newly polled release looks like to a rule
+export interface AlertCandidate {
+  companyId: string
+  title: string
+  content: string
+  feedType: SearchFeedType
+  topicMatch?: TopicMatch | null // Score against the rule's taxonomy, null when it didn't match
+}
+
+interface QueryTerm {
+  regex: RegExp
+  negated: boolean
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Whole-word, case-insensitive matcher for a word or phrase, ignoring extra whitespace inside phrases
+ */
+function phraseRegExp(phrase: string): RegExp {
+  const words = phrase.trim().split(/\s+/).map(escapeRegExp).join("\\s+")
+  return new RegExp(`(^|[^a-z0-9])${words}($|[^a-z0-9])`, "i")
+}
+
+/**
+ * Split a query into groups of alternatives: every group must match, any term within a group will do
+ */
+function parseQuery(query: string): QueryTerm[][] {
+  const tokens = normalizeSearchQuery(query).match(/-?"[^"]*"|\S+/g) || []
+  const groups: QueryTerm[][] = []
+  let joinNext = false
+
+  for (const token of tokens) {
+    if (token === "OR") {
+      joinNext = groups.length > 0
+      continue
+    }
+
+    const negated = token.startsWith("-") && token.length > 1
+    const text = (negated ? token.slice(1) : token).replace(/^"|"$/g, "")
+    if (!text.trim()) continue
+
+    const term = { regex: phraseRegExp(text), negated }
+    if (joinNext) {
+      groups[groups.length - 1].push(term)
+    } else {
+      groups.push([term])
+    }
+    joinNext = false
+  }
+
+  return groups
+}
+
+/**
+ * Whether text satisfies a search query; an empty query matches everything
+ */
+export function matchesSearchQuery(query: string, text: string): boolean {
+  return parseQuery(query).every((group) =>
+    group.some((term) => term.regex.test(text) !== term.negated),
+  )
+}
+
+/**
+ * Whether a newly polled release should trigger a rule
+ */
+export function matchesAlertRule(
+  rule: Pick<AlertRule, "companyId" | "query" | "topicTaxonomyId" | "topicCategory" | "minRelevanceScore" | "feedTypes">,
+  candidate: AlertCandidate,
+): boolean {
+  if (rule.companyId && rule.companyId !== candidate.companyId) return false
+  if (rule.feedTypes.length > 0 && !rule.feedTypes.includes(candidate.feedType)) return false
+  if (rule.query && !matchesSearchQuery(rule.query, `${candidate.title} ${candidate.content}`)) return false
+
+  if (rule.topicTaxonomyId) {
+    const match = candidate.topicMatch
+    if (!match) return false
+
+    const category = rule.topicCategory?.toLowerCase()
+    if (category && !match.categories.some((name) => name.toLowerCase() === category)) return false
+    if (rule.minRelevanceScore !== undefined && match.relevanceScore < rule.minRelevanceScore) return false
+  }
+
+  return true
+}
+
+/**
+ * Channels a rule delivers to
+ */
+export function alertChannels(rule: Pick<AlertRule, "webhookUrl" | "email">): AlertChannel[] {
+  const channels: AlertChannel[] = []
+  if (rule.webhookUrl) channels.push("webhook")
+  if (rule.email) channels.push("email")
+  return channels
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check an alert rule before it is saved
+ * @returns Problems found, empty when the rule is valid
+ */
+export function validateAlertRule(rule: CreateAlertRule): string[] {
+  const errors: string[] = []
+  const isHour = (hour: number | undefined) => hour !== undefined && Number.isInteger(hour) && hour >= 0 && hour <= 23
+
+  if (!rule.name.trim()) {
+    errors.push("Alert rule needs a name")
+  }
+  if (!rule.webhookUrl && !rule.email) {
+    errors.push("Add a webhook URL or an email address to deliver to")
+  }
+  if (rule.webhookUrl) {
+    let protocol = ""
+    try {
+      protocol = new URL(rule.webhookUrl).protocol
+    } catch {
+      // Reported below
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+      errors.push("Webhook URL must be an http(s) URL")
+    }
+  }
+  if (rule.email && !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(rule.email)) {
+    errors.push("Email address is not valid")
+  }
+  if (rule.query && rule.query.length > MAX_ALERT_QUERY_LENGTH) {
+    errors.push(`Query is longer than ${MAX_ALERT_QUERY_LENGTH} characters`)
+  }
+  if (!rule.topicTaxonomyId && (rule.topicCategory || rule.minRelevanceScore !== undefined)) {
+    errors.push("Choose a topic to filter by category or relevance")
+  }
+  if (rule.minRelevanceScore !== undefined && !(rule.minRelevanceScore >= 0 && rule.minRelevanceScore <= 100)) {
+    errors.push("Minimum relevance must be between 0 and 100")
+  }
+  if ((rule.quietHoursStart === undefined) !== (rule.quietHoursEnd === undefined)) {
+    errors.push("Quiet hours need both a start and an end")
+  } else if (rule.quietHoursStart !== undefined && (!isHour(rule.quietHoursStart) || !isHour(rule.quietHoursEnd))) {
+    errors.push("Quiet hours must be whole hours between 0 and 23")
+  }
+  if (!isValidTimeZone(rule.timezone)) {
+    errors.push(`Unknown time zone "${rule.timezone}"`)
+  }
+
+  return errors
+}
+
+/**
+ * Hour and minute of a moment in a time zone
+ */
+function localTime(now: Date, timezone: string): { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now)
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0)
+  return { hour: part("hour") % 24, minute: part("minute") }
+}
+
+/**
+ * When alerts held for quiet hours may go out
+ * @returns The end of the current quiet period, or null outside quiet hours
+ */
+export function quietHoursEnd(
+  rule: Pick<AlertRule, "quietHoursStart" | "quietHoursEnd" | "timezone">,
+  now: Date = new Date(),
+): Date | null {
+  const { quietHoursStart: start, quietHoursEnd: end } = rule
+  if (start === undefined || end === undefined || start === end) return null
+
+  const { hour, minute } = localTime(now, isValidTimeZone(rule.timezone) ? rule.timezone : "UTC")
+  // Windows may wrap past midnight, e.g. 22 to 7
+  const quiet = start < end ? hour >= start && hour < end : hour >= start || hour < end
+  if (!quiet) return null
+
+  const minutesLeft = ((end - hour + 24) % 24) * 60 - minute
+  return new Date(now.getTime() + minutesLeft * 60 * 1000 - now.getSeconds() * 1000 - now.getMilliseconds())
+}
+
+/**
+ * Quiet hours as shown in settings, e.g. "22:00–07:00 Europe/London"
+ */
+export function describeQuietHours(rule: Pick<AlertRule, "quietHoursStart" | "quietHoursEnd" | "timezone">): string {
+  if (rule.quietHoursStart === undefined || rule.quietHoursEnd === undefined) return ""
+  const hour = (value: number) => `${String(value).padStart(2, "0")}:00`
+  return `${hour(rule.quietHoursStart)}–${hour(rule.quietHoursEnd)} ${rule.timezone}`
+}
@@ -169,9 +169,11 @@ export const pressReleasesCache = {
 }
 
 // Helper to generate cache key from companies
-export function generateCompaniesKey(companies: Array<{ name: string; variations: string[] }>): string {
+export function generateCompaniesKey(
+  companies: Array<{ name: string; variations: string[]; negativeKeywords?: string[] }>,
+): string {
   return companies
-    .map((c) => `${c.name}-${c.variations.join(",")}`)
+    .map((c) => `${c.name}-${c.variations.join(",")}-${(c.negativeKeywords || []).join(",")}`)
     .sort()
     .join("|")
 }
@@ -1,4 +1,4 @@
-import { userProfileManager } from "./supabase/database"
+import type { APIKeyStatus } from "./types"
 
 // Client-side cache for API key status
 interface APIKeyCache {
@@ -7,13 +7,33 @@ interface APIKeyCache {
   expiresIn: number; // milliseconds
 }
 
+/**
+ * Mask API key for display (show first 8 and last 4 characters)
+ */
+export function maskAPIKey(apiKey: string): string {
+  if (!apiKey || apiKey.length < 12) {
+    return "••••••••••••"
+  }
+
+  const start = apiKey.substring(0, 8)
+  const end = apiKey.substring(apiKey.length - 4)
+  const middle = "•".repeat(Math.min(apiKey.length - 12, 20))
+
+  return `${start}${middle}${end}`
+}
+
+/**
+ * Client-side access to the user's Claude API key
+ * The key is encrypted and decrypted only on the server (/api/claude-key), so the
+ * browser can store or clear it but only ever reads back its masked form.
+ */
 class ClaudeAPIKeyManager {
   private cache: APIKeyCache | null = null;
   private readonly CACHE_DURATION = 30000; // 30 seconds
   private checkingPromise: Promise<boolean> | null = null;
 
   /**
-   * Store encrypted API key in Supabase
+   * Send API key to the server to be encrypted and stored
    */
   async setAPIKey(apiKey: string): Promise<void> {
     try {
@@ -23,7 +43,18 @@ class ClaudeAPIKeyManager {
       }
 
       console.log("Attempting to store API key...")
-      await userProfileManager.setClaudeAPIKey(apiKey.trim())
+      const response = await fetch("/api/claude-key", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ apiKey: apiKey.trim() }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
       console.log("API key stored successfully")
       
       // Update cache
@@ -53,14 +84,19 @@ class ClaudeAPIKeyManager {
   }
 
   /**
-   * Retrieve and decrypt API key from Supabase
+   * Whether a key is stored, with its masked form for display
    */
-  async getAPIKey(): Promise<string | null> {
-    try {
-      return await userProfileManager.getClaudeAPIKey()
-    } catch (error) {
-      console.error("Error retrieving API key:", error)
-      return null
+  async getAPIKeyStatus(): Promise<APIKeyStatus> {
+    const response = await fetch("/api/claude-key")
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`)
+    }
+
+    return {
+      hasKey: !!data.hasKey,
+      maskedKey: data.maskedKey || null,
     }
   }
 
@@ -114,8 +150,7 @@ class ClaudeAPIKeyManager {
    */
   private async performAPIKeyCheck(): Promise<boolean> {
     try {
-      const key = await this.getAPIKey();
-      const hasKey = key !== null && key.length > 0;
+      const { hasKey } = await this.getAPIKeyStatus();
       
       // Update cache
       this.cache = {
@@ -137,7 +172,11 @@ class ClaudeAPIKeyManager {
    */
   async clearAPIKey(): Promise<void> {
     try {
-      await userProfileManager.clearClaudeAPIKey()
+      const response = await fetch("/api/claude-key", { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
       // Clear cache
       this.cache = {
         hasKey: false,
@@ -169,21 +208,8 @@ class ClaudeAPIKeyManager {
    * Mask API key for display (show first 8 and last 4 characters)
    */
   maskAPIKey(apiKey: string): string {
-    if (!apiKey || apiKey.length < 12) {
-      return "••••••••••••"
-    }
-
-    const start = apiKey.substring(0, 8)
-    const end = apiKey.substring(apiKey.length - 4)
-    const middle = "•".repeat(Math.min(apiKey.length - 12, 20))
-
-    return `${start}${middle}${end}`
+    return maskAPIKey(apiKey)
   }
 }
 
 export const claudeAPIKeyManager = new ClaudeAPIKeyManager()
-
-// Server-side function for API routes
-export async function getClaudeAPIKey(): Promise<string | null> {
-  return await claudeAPIKeyManager.getAPIKey()
-}
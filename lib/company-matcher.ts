@@ -0,0 +1,239 @@
+import type { Company, CompanyMatchPosition } from './types'
+
+/**
+ * Company Matcher
+ * Finds mentions of a user's tracked companies in feed items, built from each
+ * company's name and search variations
+ */
+
+export type MatchableCompany = Pick<Company, 'name' | 'variations'> & {
+  id?: string
+  negativeKeywords?: string[]
+}
+
+export interface CompanyMatch {
+  companyId?: string
+  companyName: string
+  score: number
+  positions: CompanyMatchPosition[]
+}
+
+interface MatchTerm {
+  term: string
+  kind: CompanyMatchPosition['kind']
+  pattern: RegExp
+  weight: { title: number; description: number }
+}
+
+interface CompiledCompany {
+  company: MatchableCompany
+  terms: MatchTerm[]
+  negativePatterns: RegExp[]
+}
+
+// Aliases this short are matched case-sensitively ("Box" should not fire on "box")
+const SHORT_ALIAS_LENGTH = 4
+
+// Exchange prefixes recognised in front of a ticker, e.g. "NYSE: BX" or "(Nasdaq:AAPL)"
+const EXCHANGE_PREFIX = '(?:NYSE(?:\\s+American|\\s+Arca)?|NASDAQ|AMEX|TSXV?|LSE|OTC(?:QX|QB)?|Cboe|BATS)\\s*:\\s*'
+
+// Bare ticker as typed by the user, e.g. "BX", "BRK.B"
+const TICKER_PATTERN = /^[A-Z]{1,5}(?:[.-][A-Z])?$/
+
+// Same weights the old substring scorer used, so relevance ordering stays familiar
+const NAME_WEIGHT = { title: 100, description: 50 }
+const ALIAS_WEIGHT = { title: 80, description: 40 }
+const REPEAT_MENTION_BONUS = 10
+
+// Treat letters and digits in any script as word characters
+const WORD_CHAR = '[\\p{L}\\p{N}]'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function toPatternBody(term: string): string {
+  return escapeRegExp(term.trim()).replace(/\s+/g, '\\s+')
+}
+
+/**
+ * Wrap a pattern body in word boundaries. Lookbehind is avoided for older
+ * browsers, so the leading boundary is captured as group 1 and skipped when
+ * computing match offsets.
+ */
+function bounded(body: string, caseSensitive: boolean): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])(${body})(?!${WORD_CHAR})`, caseSensitive ? 'gu' : 'giu')
+}
+
+/**
+ * Extract a ticker symbol from a variation written as "$BX", "NYSE: BX" or "BX"
+ */
+function parseTicker(variation: string): string | null {
+  const trimmed = variation.trim()
+
+  const dollar = trimmed.match(/^\$([A-Za-z]{1,5}(?:[.-][A-Za-z])?)$/)
+  if (dollar) return dollar[1].toUpperCase()
+
+  const exchange = trimmed.match(new RegExp(`^${EXCHANGE_PREFIX}([A-Za-z]{1,5}(?:[.-][A-Za-z])?)$`, 'i'))
+  if (exchange) return exchange[1].toUpperCase()
+
+  return TICKER_PATTERN.test(trimmed) ? trimmed : null
+}
+
+/**
+ * Build the pattern for a name or alias. Short aliases only match as typed or
+ * in upper case; longer ones match in any case.
+ */
+function aliasPattern(term: string): RegExp {
+  const trimmed = term.trim()
+  if (trimmed.length > SHORT_ALIAS_LENGTH) {
+    return bounded(toPatternBody(trimmed), false)
+  }
+
+  const forms = Array.from(new Set([trimmed, trimmed.toUpperCase()]))
+  return bounded(forms.map(toPatternBody).join('|'), true)
+}
+
+function tickerTerms(ticker: string): MatchTerm[] {
+  const symbol = escapeRegExp(ticker)
+  const terms: MatchTerm[] = [
+    {
+      term: ticker,
+      kind: 'ticker',
+      pattern: bounded(`(?:\\$|${EXCHANGE_PREFIX})${symbol}`, false),
+      weight: ALIAS_WEIGHT,
+    },
+  ]
+
+  // Single-letter tickers ("C", "F") are too ambiguous without a $ or exchange prefix
+  if (ticker.length > 1) {
+    terms.push({ term: ticker, kind: 'ticker', pattern: bounded(symbol, true), weight: ALIAS_WEIGHT })
+  }
+
+  return terms
+}
+
+function compileCompany(company: MatchableCompany): CompiledCompany {
+  const terms: MatchTerm[] = [
+    { term: company.name, kind: 'name', pattern: aliasPattern(company.name), weight: NAME_WEIGHT },
+  ]
+  const seen = new Set([company.name.trim().toLowerCase()])
+  const namePattern = bounded(toPatternBody(company.name), false)
+
+  for (const variation of company.variations || []) {
+    const trimmed = variation.trim()
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue
+    seen.add(trimmed.toLowerCase())
+
+    const ticker = parseTicker(trimmed)
+    if (ticker) {
+      terms.push(...tickerTerms(ticker))
+    } else {
+      // An alias that contains the name ("Blackstone Group") claims the name's mention, so it scores as one
+      namePattern.lastIndex = 0
+      const weight = namePattern.test(trimmed) ? NAME_WEIGHT : ALIAS_WEIGHT
+      terms.push({ term: trimmed, kind: 'alias', pattern: aliasPattern(trimmed), weight })
+    }
+  }
+
+  // Longest terms claim text first so "Blackstone Group" wins over "Blackstone".
+  // The sort is stable, so "$BX"/"NYSE: BX" still run before the bare "BX".
+  terms.sort((a, b) => b.term.length - a.term.length)
+
+  const negativePatterns = (company.negativeKeywords || [])
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0)
+    .map((keyword) => bounded(toPatternBody(keyword), false))
+
+  return { company, terms, negativePatterns }
+}
+
+function overlaps(positions: CompanyMatchPosition[], field: string, start: number, end: number): boolean {
+  return positions.some((p) => p.field === field && start < p.end && end > p.start)
+}
+
+function findPositions(
+  term: MatchTerm,
+  text: string,
+  field: CompanyMatchPosition['field'],
+  claimed: CompanyMatchPosition[],
+): CompanyMatchPosition[] {
+  const found: CompanyMatchPosition[] = []
+  term.pattern.lastIndex = 0
+
+  let match: RegExpExecArray | null
+  while ((match = term.pattern.exec(text)) !== null) {
+    const start = match.index + match[1].length
+    const end = start + match[2].length
+
+    if (!overlaps(claimed, field, start, end) && !overlaps(found, field, start, end)) {
+      found.push({ field, start, end, text: match[2], term: term.term, kind: term.kind })
+    }
+  }
+
+  return found
+}
+
+export class CompanyMatcher {
+  private compiled: CompiledCompany[]
+
+  constructor(companies: MatchableCompany[]) {
+    this.compiled = companies.filter((c) => c.name && c.name.trim()).map(compileCompany)
+  }
+
+  /**
+   * Find every tracked company mentioned in an item
+   * @returns Matches sorted by score, highest first. Companies whose negative
+   * keywords appear anywhere in the item are left out.
+   */
+  match(title: string, description = ''): CompanyMatch[] {
+    const matches: CompanyMatch[] = []
+
+    for (const { company, terms, negativePatterns } of this.compiled) {
+      const excluded = negativePatterns.some((pattern) => {
+        pattern.lastIndex = 0
+        const inTitle = pattern.test(title)
+        pattern.lastIndex = 0
+        return inTitle || pattern.test(description)
+      })
+      if (excluded) continue
+
+      const positions: CompanyMatchPosition[] = []
+      let score = 0
+
+      for (const term of terms) {
+        const inTitle = findPositions(term, title, 'title', positions)
+        positions.push(...inTitle)
+        const inDescription = findPositions(term, description, 'description', positions)
+        positions.push(...inDescription)
+
+        if (inTitle.length > 0) score += term.weight.title
+        if (inDescription.length > 0) score += term.weight.description
+      }
+
+      if (positions.length === 0) continue
+
+      score += (positions.length - 1) * REPEAT_MENTION_BONUS
+      positions.sort((a, b) => (a.field === b.field ? a.start - b.start : a.field === 'title' ? -1 : 1))
+
+      matches.push({ companyId: company.id, companyName: company.name, score, positions })
+    }
+
+    return matches.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Highest scoring company for an item, or null when nothing matched
+   */
+  bestMatch(title: string, description = ''): CompanyMatch | null {
+    return this.match(title, description)[0] || null
+  }
+}
+
+/**
+ * Human-readable explanation of why an item matched, e.g. for tooltips
+ */
+export function describeMatchPositions(positions: CompanyMatchPosition[]): string {
+  const parts = positions.map((p) => `"${p.text}" in ${p.field === 'title' ? 'title' : 'summary'}`)
+  return Array.from(new Set(parts)).join(', ')
+}
@@ -0,0 +1,302 @@
+/**
+ * Content Extractor Registry
+ * Per-site rules for pulling the article body out of a press release page. Wires and news
+ * sites are matched by domain; IR platforms (Q4, Notified) host pages on each company's own
+ * domain, so they are matched by fingerprints in the HTML instead.
+ * Add a site with registerExtractor() and a fixture in lib/fixtures/content-extractors.
+ */
+
+export interface SiteExtractor {
+  id: string
+  name: string
+  domains: string[] // Hostnames, subdomains match too
+  markers?: RegExp[] // HTML fingerprints for platforms served from customer domains
+  selectors: string[] // Tried in order; class, id, [attr="value"] or tag selectors
+  cleanupSelectors: string[] // Removed before selectors run
+  confidence: number // 0-1, reported with the extracted content
+  extract?: (html: string) => string | null // Custom extraction tried before selectors
+}
+
+/**
+ * PR Newswire article body using its structural boundaries
+ * START: <section class="release-body container "><div class="row"><div class="col-lg-10 col-lg-offset-1">
+ * END: <div class="row"><div class="col-sm-10 col-sm-offset-1">
+ */
+function extractPRNewswireArticle(html: string): string | null {
+  const startPattern = /<section[^>]*class="[^"]*release-body[^"]*container[^"]*"[^>]*>\s*<div[^>]*class="[^"]*row[^"]*"[^>]*>\s*<div[^>]*class="[^"]*col-lg-10[^"]*col-lg-offset-1[^"]*"[^>]*>/i
+  const startMatch = html.match(startPattern)
+  if (!startMatch || startMatch.index === undefined) return null
+
+  const htmlAfterStart = html.substring(startMatch.index + startMatch[0].length)
+  const endMatch =
+    htmlAfterStart.match(/<div[^>]*class="[^"]*row[^"]*"[^>]*>\s*<div[^>]*class="[^"]*col-sm-10[^"]*col-sm-offset-1[^"]*"[^>]*>/i) ||
+    htmlAfterStart.match(/<\/section>/i)
+
+  return htmlAfterStart.substring(0, endMatch?.index ?? htmlAfterStart.length).trim()
+}
+
+const SITE_EXTRACTORS: SiteExtractor[] = [
+  {
+    id: 'reuters',
+    name: 'Reuters',
+    domains: ['reuters.com'],
+    selectors: [
+      '[data-module="ArticleBody"] [data-module="StandardArticleBody_body"]',
+      '[data-testid="paragraph"]',
+      '.StandardArticleBody_body',
+      '.ArticleBodyWrapper',
+      '.StandardArticleBody_container',
+      'div[data-module="ArticleBody"]',
+      '.PaywallBarrier-free-content',
+      '.article-body',
+      '.story-body',
+    ],
+    cleanupSelectors: [
+      '.RelatedCoverage-container',
+      '.Attribution-container',
+      '.AdSlot-container',
+      '.SocialEmbed-container',
+      '.Slideshow-container',
+      '.MediaPlayer-container',
+      '.InlineVideo-container',
+      '.trust-project-component',
+      '.paywall-bar',
+      '.related-coverage',
+      '.social-share',
+      '.advertisement',
+      '.ad-container',
+    ],
+    confidence: 0.9,
+  },
+  {
+    id: 'prnewswire',
+    name: 'PR Newswire',
+    domains: ['prnewswire.com'],
+    selectors: [
+      '.release-body',
+      '.news-release-content',
+      '.release-text',
+      '.pr-body',
+      '.content-body',
+      '.press-release-content',
+      '.release-content',
+    ],
+    cleanupSelectors: [
+      '.social-share',
+      '.related-releases',
+      '.company-boilerplate',
+      '.contact-info',
+      '.footer-content',
+      '.advertisement',
+      '.ad-container',
+    ],
+    confidence: 0.85,
+    extract: extractPRNewswireArticle,
+  },
+  {
+    id: 'businesswire',
+    name: 'Business Wire',
+    domains: ['businesswire.com'],
+    selectors: [
+      '.bw-release-story',
+      '[itemprop="articleBody"]',
+      '.bw-release-main',
+    ],
+    cleanupSelectors: [
+      '.bw-release-contact',
+      '.bw-release-tags',
+      '.bw-release-social',
+      '.bw-release-multimedia',
+      '.advertisement',
+    ],
+    confidence: 0.88,
+  },
+  {
+    id: 'globenewswire',
+    name: 'GlobeNewswire',
+    domains: ['globenewswire.com'],
+    selectors: [
+      '#main-body-container',
+      '[itemprop="articleBody"]',
+      '.main-body-container',
+    ],
+    cleanupSelectors: [
+      '.main-tags-attachments',
+      '.main-contact',
+      '.social-share',
+      '.related-news',
+      '.advertisement',
+    ],
+    confidence: 0.87,
+  },
+  {
+    id: 'accesswire',
+    name: 'Accesswire',
+    domains: ['accesswire.com', 'accessnewswire.com'],
+    selectors: [
+      '#articlebody',
+      '.article-body',
+      '[itemprop="articleBody"]',
+      '.release-body',
+    ],
+    cleanupSelectors: [
+      '.article-share',
+      '.related-articles',
+      '.contact-information',
+      '.advertisement',
+    ],
+    confidence: 0.85,
+  },
+  {
+    id: 'q4',
+    name: 'Q4 IR site',
+    domains: ['q4web.com', 'q4inc.com'],
+    markers: [/q4cdn\.com/i, /class="[^"]*\bq4default\b/i],
+    selectors: [
+      '.module_body',
+      '.module-details_body',
+      '.q4default',
+    ],
+    cleanupSelectors: [
+      '.module_nav',
+      '.module_links',
+      '.module_pager',
+      '.module_add-to-calendar',
+      '.module_actions',
+    ],
+    confidence: 0.82,
+  },
+  {
+    id: 'notified',
+    name: 'Notified IR site',
+    domains: ['notified.com'],
+    markers: [/\bnotified\.com\b/i, /class="[^"]*\bnir-widget/i],
+    selectors: [
+      '.node__content',
+      '.nir-widget--news--body',
+      '.field--name-body',
+      '.xn-content',
+    ],
+    cleanupSelectors: [
+      '.nir-widget--news--attachments',
+      '.nir-widget--news--related',
+      '.field--name-field-nir-news-subscribe',
+      '.social-share',
+    ],
+    confidence: 0.8,
+  },
+  {
+    id: 'bloomberg',
+    name: 'Bloomberg',
+    domains: ['bloomberg.com'],
+    selectors: [
+      '[data-module="BodyWrapper"]',
+      '.body-content',
+      '.story-body',
+      '.article-content',
+      '.paywall-banner',
+    ],
+    cleanupSelectors: [
+      '.inline-newsletter',
+      '.related-stories',
+      '.social-icons',
+      '.advertisement',
+      '.ad-container',
+    ],
+    confidence: 0.88,
+  },
+  {
+    id: 'wsj',
+    name: 'Wall Street Journal',
+    domains: ['wsj.com'],
+    selectors: [
+      '.wsj-article-body',
+      '.articleLead-container',
+      '.article-content',
+      '.story-body',
+    ],
+    cleanupSelectors: [
+      '.wsj-article-credit-tagline',
+      '.related-coverage-module',
+      '.social-share',
+      '.advertisement',
+      '.ad-container',
+    ],
+    confidence: 0.87,
+  },
+]
+
+// Fallback for unknown sources
+export const GENERIC_EXTRACTOR: SiteExtractor = {
+  id: 'generic',
+  name: 'Generic',
+  domains: [],
+  selectors: [
+    'article',
+    '.article-content',
+    '.article-body',
+    '.story-content',
+    '.story-body',
+    '.post-content',
+    '.entry-content',
+    '.content',
+    'main',
+    '.main-content',
+    '#main-content',
+  ],
+  cleanupSelectors: [
+    'nav',
+    'header',
+    'footer',
+    'aside',
+    '.sidebar',
+    '.navigation',
+    '.social-share',
+    '.related-articles',
+    '.advertisement',
+    '.ad-container',
+    '.comments',
+    '.comment-section',
+  ],
+  confidence: 0.6,
+}
+
+/**
+ * Add an extractor, replacing any registered extractor with the same id
+ */
+export function registerExtractor(extractor: SiteExtractor): void {
+  const index = SITE_EXTRACTORS.findIndex((e) => e.id === extractor.id)
+  if (index === -1) {
+    SITE_EXTRACTORS.push(extractor)
+  } else {
+    SITE_EXTRACTORS[index] = extractor
+  }
+}
+
+export function getRegisteredExtractors(): SiteExtractor[] {
+  return [...SITE_EXTRACTORS]
+}
+
+/**
+ * Pick the extractor for a page: by domain first, then by HTML fingerprint
+ * @returns null when only the generic extractor applies
+ */
+export function findExtractor(url: string, html?: string): SiteExtractor | null {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+
+  const byDomain = SITE_EXTRACTORS.find((extractor) =>
+    extractor.domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+  )
+  if (byDomain) return byDomain
+
+  if (html) {
+    return SITE_EXTRACTORS.find((extractor) => extractor.markers?.some((marker) => marker.test(html))) || null
+  }
+
+  return null
+}
@@ -1,5 +1,6 @@
 import crypto from 'crypto'
 import type { ContentHashOptions } from './types'
+import { generateSimHash } from './story-clusters'
 
 /**
  * Generate a consistent hash for press release content to detect duplicates
@@ -75,6 +76,7 @@ export function generateFuzzyHashes(
   titleOnly: string
   contentOnly: string
   titleAndDate: string
+  simhash: string | null
 } {
   return {
     exact: generateContentHash(title, content, publishedAt),
@@ -93,6 +95,7 @@ export function generateFuzzyHashes(
       includeContent: false,
       includePublishedAt: true,
     }),
+    simhash: generateSimHash(title, content),
   }
 }
 
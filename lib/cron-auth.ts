@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Cron Auth
+ * Authorization shared by the /api/cron routes. Jobs run with `Authorization: Bearer $CRON_SECRET`,
+ * which Vercel Cron sends on its scheduled GET requests and other schedulers send with POST.
+ */
+
+export function isAuthorizedCron(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET || 'development-secret'
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`
+}
+
+/**
+ * GET handler for a cron route: with an Authorization header it runs the job, so a wrong
+ * secret still gets a 401, and without one it is a health check
+ */
+export function cronGET(job: (request: NextRequest) => Promise<NextResponse>, healthMessage: string) {
+  return async function GET(request: NextRequest) {
+    if (request.headers.get('authorization')) {
+      return job(request)
+    }
+
+    return NextResponse.json({
+      message: healthMessage,
+      timestamp: new Date().toISOString(),
+      env: process.env.NODE_ENV
+    })
+  }
+}
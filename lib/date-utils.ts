@@ -40,3 +40,14 @@ export function formatRelativeTime(dateString: string): string {
     return `${months} month${months !== 1 ? "s" : ""} ago`
   }
 }
+
+/**
+ * The browser's IANA time zone, UTC when it can't be determined
+ */
+export function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+  } catch {
+    return "UTC"
+  }
+}
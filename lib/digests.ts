@@ -0,0 +1,156 @@
+import type { DigestCompanySection, DigestFrequency, DigestRelease, DigestSettings, SaveDigestSettings } from "./types"
+import { isValidTimeZone } from "./alert-rules"
+
+/**
+ * Digests
+ * Scheduling, validation and grouping for scheduled digests. The send-digests cron collects each
+ * user's new releases since their last digest through lib/supabase/digest-service.ts, which adds
+ * Claude's roll-up per company; delivery lives in lib/alert-delivery.ts.
+ */
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+}
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// Releases listed per company; the roll-up and the count still cover all of them
+export const MAX_DIGEST_RELEASES_PER_COMPANY = 10
+
+// A digest never reaches further back than this, e.g. after being turned off for a while
+export const MAX_DIGEST_LOOKBACK_DAYS = 14
+
+const PERIOD_DAYS: Record<DigestFrequency, number> = { daily: 1, weekly: 7 }
+
+// A release as collected for a digest, before grouping
+export interface DigestCandidate extends DigestRelease {
+  companyId: string
+  companyName: string
+}
+
+type DigestSchedule = Pick<DigestSettings, "enabled" | "frequency" | "sendHour" | "weekday" | "timezone" | "lastSentAt">
+
+/**
+ * Check digest settings before they are saved
+ * @returns Problems found, empty when the settings are valid
+ */
+export function validateDigestSettings(settings: SaveDigestSettings): string[] {
+  const errors: string[] = []
+
+  if (!(settings.frequency in PERIOD_DAYS)) {
+    errors.push("Frequency must be daily or weekly")
+  }
+  if (!Number.isInteger(settings.sendHour) || settings.sendHour < 0 || settings.sendHour > 23) {
+    errors.push("Send hour must be a whole hour between 0 and 23")
+  }
+  if (!Number.isInteger(settings.weekday) || settings.weekday < 0 || settings.weekday > 6) {
+    errors.push("Weekday must be between 0 (Sunday) and 6 (Saturday)")
+  }
+  if (settings.webhookUrl) {
+    let protocol = ""
+    try {
+      protocol = new URL(settings.webhookUrl).protocol
+    } catch {
+      // Reported below
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+      errors.push("Webhook URL must be an http(s) URL")
+    }
+  }
+  if (settings.email && !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(settings.email)) {
+    errors.push("Email address is not valid")
+  }
+  if (!isValidTimeZone(settings.timezone)) {
+    errors.push(`Unknown time zone "${settings.timezone}"`)
+  }
+
+  return errors
+}
+
+/**
+ * Calendar day, weekday and hour of a moment in a time zone
+ */
+function localDay(date: Date, timezone: string): { day: string; weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || ""
+  return {
+    day: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    hour: Number(part("hour")) % 24,
+  }
+}
+
+/**
+ * Whether a digest should go out now: the local send hour has passed on a scheduled day and
+ * none went out earlier that day. A run that misses a day doesn't lose releases, since the next
+ * digest starts where the last one ended.
+ */
+export function isDigestDue(settings: DigestSchedule, now: Date = new Date()): boolean {
+  if (!settings.enabled) return false
+
+  const timezone = isValidTimeZone(settings.timezone) ? settings.timezone : "UTC"
+  const today = localDay(now, timezone)
+  if (today.hour < settings.sendHour) return false
+  if (settings.frequency === "weekly" && today.weekday !== settings.weekday) return false
+
+  return !settings.lastSentAt || localDay(new Date(settings.lastSentAt), timezone).day < today.day
+}
+
+/**
+ * Start of the period a digest sent now covers: the end of the last digest, or one period back
+ * for the first one
+ */
+export function digestPeriodStart(settings: Pick<DigestSettings, "frequency" | "lastSentAt">, now: Date = new Date()): Date {
+  const day = 24 * 60 * 60 * 1000
+  const earliest = now.getTime() - MAX_DIGEST_LOOKBACK_DAYS * day
+  const start = settings.lastSentAt ? new Date(settings.lastSentAt).getTime() : now.getTime() - PERIOD_DAYS[settings.frequency] * day
+  return new Date(Math.max(isNaN(start) ? earliest : start, earliest))
+}
+
+/**
+ * Companies in alphabetical order, each with its newest releases first
+ */
+export function groupDigestReleases(
+  releases: DigestCandidate[],
+  limit: number = MAX_DIGEST_RELEASES_PER_COMPANY,
+): DigestCompanySection[] {
+  const groups = new Map<string, DigestCandidate[]>()
+  for (const release of releases) {
+    groups.set(release.companyId, [...(groups.get(release.companyId) || []), release])
+  }
+
+  return Array.from(groups.values())
+    .map((companyReleases) => {
+      const sorted = [...companyReleases].sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+      return {
+        companyId: sorted[0].companyId,
+        companyName: sorted[0].companyName,
+        releaseCount: sorted.length,
+        releases: sorted.slice(0, limit).map(({ id, title, sourceUrl, publishedAt, summary }) => ({
+          id,
+          title,
+          sourceUrl,
+          publishedAt,
+          summary,
+        })),
+      }
+    })
+    .sort((a, b) => a.companyName.localeCompare(b.companyName))
+}
+
+/**
+ * Schedule as shown in settings, e.g. "Daily at 08:00 Europe/London" or "Mondays at 08:00 UTC"
+ */
+export function describeDigestSchedule(settings: Pick<DigestSettings, "frequency" | "sendHour" | "weekday" | "timezone">): string {
+  const time = `${String(settings.sendHour).padStart(2, "0")}:00 ${settings.timezone}`
+  return settings.frequency === "weekly" ? `${WEEKDAYS[settings.weekday]}s at ${time}` : `Daily at ${time}`
+}
@@ -1,46 +1,124 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+
 /**
- * Simple encryption utility for storing sensitive data in localStorage
- * Note: This is basic obfuscation, not cryptographically secure
- * For production, consider using a more robust encryption method
+ * Server-side envelope encryption for secrets stored in the database (e.g. Claude API keys)
+ * Each value gets its own AES-256-GCM data key, which is itself encrypted with the
+ * master key from API_KEY_ENCRYPTION_KEY. Never import this from client components.
+ *
+ * Stored format: "v1:<wrapped data key>:<encrypted value>", each part base64 of iv | auth tag | ciphertext.
+ * Values without a version prefix are the old XOR obfuscation and are re-encrypted on read.
  */
 
-class SimpleEncryption {
-  private readonly key = "cignal-encrypt-key-2024"
+export const ENCRYPTION_VERSION = "v1"
+
+const ALGORITHM = "aes-256-gcm"
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+// Key used by the XOR obfuscation that predates v1, only kept to read old values
+const LEGACY_XOR_KEY = "cignal-encrypt-key-2024"
+
+export interface DecryptedSecret {
+  plaintext: string
+  // True when the stored value uses an older format and should be written back re-encrypted
+  needsReencryption: boolean
+}
 
+class SecretEncryption {
   /**
-   * Simple XOR encryption with base64 encoding
+   * Master key from env, as base64 or hex of 32 bytes
+   * Generate one with: openssl rand -base64 32
    */
-  encrypt(text: string): string {
-    try {
-      let encrypted = ""
-      for (let i = 0; i < text.length; i++) {
-        const charCode = text.charCodeAt(i) ^ this.key.charCodeAt(i % this.key.length)
-        encrypted += String.fromCharCode(charCode)
-      }
-      return btoa(encrypted)
-    } catch (error) {
-      console.error("Encryption error:", error)
-      return ""
+  private getMasterKey(): Buffer {
+    const raw = process.env.API_KEY_ENCRYPTION_KEY?.trim()
+    if (!raw) {
+      throw new Error("API_KEY_ENCRYPTION_KEY is not configured")
+    }
+
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64")
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`API_KEY_ENCRYPTION_KEY must be ${KEY_LENGTH} bytes (base64 or hex encoded)`)
     }
+    return key
+  }
+
+  private seal(key: Buffer, data: Buffer): string {
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(ALGORITHM, key, iv)
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")
+  }
+
+  private open(key: Buffer, sealed: string): Buffer {
+    const buffer = Buffer.from(sealed, "base64")
+    if (buffer.length < IV_LENGTH + TAG_LENGTH) {
+      throw new Error("Encrypted value is truncated")
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, buffer.subarray(0, IV_LENGTH))
+    decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH))
+    return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()])
   }
 
   /**
-   * Decrypt XOR encrypted base64 string
+   * Encrypt a secret with a fresh data key wrapped by the master key
    */
-  decrypt(encryptedText: string): string {
+  encrypt(plaintext: string): string {
+    const dataKey = randomBytes(KEY_LENGTH)
     try {
-      const encrypted = atob(encryptedText)
-      let decrypted = ""
-      for (let i = 0; i < encrypted.length; i++) {
-        const charCode = encrypted.charCodeAt(i) ^ this.key.charCodeAt(i % this.key.length)
-        decrypted += String.fromCharCode(charCode)
+      const wrappedKey = this.seal(this.getMasterKey(), dataKey)
+      const payload = this.seal(dataKey, Buffer.from(plaintext, "utf8"))
+      return `${ENCRYPTION_VERSION}:${wrappedKey}:${payload}`
+    } finally {
+      dataKey.fill(0)
+    }
+  }
+
+  /**
+   * Decrypt a stored secret in any supported format
+   * @throws When the value was tampered with or the master key is wrong
+   */
+  decrypt(stored: string): DecryptedSecret {
+    const [version, wrappedKey, payload] = stored.split(":")
+
+    if (version === ENCRYPTION_VERSION) {
+      if (!wrappedKey || !payload) {
+        throw new Error("Malformed encrypted value")
+      }
+      const dataKey = this.open(this.getMasterKey(), wrappedKey)
+      try {
+        return { plaintext: this.open(dataKey, payload).toString("utf8"), needsReencryption: false }
+      } finally {
+        dataKey.fill(0)
       }
-      return decrypted
-    } catch (error) {
-      console.error("Decryption error:", error)
-      return ""
     }
+
+    if (stored.includes(":")) {
+      throw new Error(`Unsupported encryption version: ${version}`)
+    }
+
+    return { plaintext: this.decryptLegacy(stored), needsReencryption: true }
+  }
+
+  /**
+   * Whether a stored value is already in the current format
+   */
+  isCurrent(stored: string): boolean {
+    return stored.startsWith(`${ENCRYPTION_VERSION}:`)
+  }
+
+  /**
+   * Read a value written by the old XOR obfuscation (base64 of XORed char codes)
+   */
+  private decryptLegacy(stored: string): string {
+    const encrypted = Buffer.from(stored, "base64").toString("latin1")
+    let decrypted = ""
+    for (let i = 0; i < encrypted.length; i++) {
+      decrypted += String.fromCharCode(encrypted.charCodeAt(i) ^ LEGACY_XOR_KEY.charCodeAt(i % LEGACY_XOR_KEY.length))
+    }
+    return decrypted
   }
 }
 
-export const encryption = new SimpleEncryption()
+export const encryption = new SecretEncryption()
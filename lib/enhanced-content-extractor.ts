@@ -1,11 +1,14 @@
 /**
  * Enhanced Content Extractor
- * Handles content extraction from multiple news sources with intelligent fallbacks
+ * Handles content extraction from multiple news sources with intelligent fallbacks.
+ * Site rules live in the content extractor registry; this module fetches pages and runs them.
  */
 
 import { processHTMLContent } from './html-sanitizer'
+import { safeFetch, SafeFetchError, HTML_CONTENT_TYPES } from './safe-fetch'
+import { findExtractor, getRegisteredExtractors, GENERIC_EXTRACTOR, type SiteExtractor } from './content-extractors'
 
-interface ContentExtractionResult {
+export interface ContentExtractionResult {
   success: boolean
   content: string
   htmlContent?: string
@@ -17,7 +20,8 @@ interface ContentExtractionResult {
     total: number
     extraction: number
   }
-
+  cached?: boolean // Served from the copy stored with the release
+  extractedAt?: string
 }
 
 interface ExtractionOptions {
@@ -51,129 +55,6 @@ const DEFAULT_CONFIG: ExtractorConfig = {
 
 const REQUEST_TIMEOUT = 20000 // 20 seconds
 
-// Source-specific content extractors
-const CONTENT_EXTRACTORS = {
-  'reuters.com': {
-    name: 'Reuters',
-    selectors: [
-      '[data-module="ArticleBody"] [data-module="StandardArticleBody_body"]',
-      '[data-testid="paragraph"]',
-      '.StandardArticleBody_body',
-      '.ArticleBodyWrapper',
-      '.StandardArticleBody_container',
-      'div[data-module="ArticleBody"]',
-      '.PaywallBarrier-free-content',
-      '.article-body',
-      '.story-body',
-    ],
-    cleanupSelectors: [
-      '.RelatedCoverage-container',
-      '.Attribution-container',
-      '.AdSlot-container',
-      '.SocialEmbed-container',
-      '.Slideshow-container',
-      '.MediaPlayer-container',
-      '.InlineVideo-container',
-      '.trust-project-component',
-      '.paywall-bar',
-      '.related-coverage',
-      '.social-share',
-      '.advertisement',
-      '.ad-container',
-    ],
-    confidence: 0.9
-  },
-  'prnewswire.com': {
-    name: 'PR Newswire',
-    selectors: [
-      '.release-body',
-      '.news-release-content',
-      '.release-text',
-      '.pr-body',
-      '.content-body',
-      '.press-release-content',
-      '.release-content',
-    ],
-    cleanupSelectors: [
-      '.social-share',
-      '.related-releases',
-      '.company-boilerplate',
-      '.contact-info',
-      '.footer-content',
-      '.advertisement',
-      '.ad-container',
-    ],
-    confidence: 0.85
-  },
-  'bloomberg.com': {
-    name: 'Bloomberg',
-    selectors: [
-      '[data-module="BodyWrapper"]',
-      '.body-content',
-      '.story-body',
-      '.article-content',
-      '.paywall-banner',
-    ],
-    cleanupSelectors: [
-      '.inline-newsletter',
-      '.related-stories',
-      '.social-icons',
-      '.advertisement',
-      '.ad-container',
-    ],
-    confidence: 0.88
-  },
-  'wsj.com': {
-    name: 'Wall Street Journal',
-    selectors: [
-      '.wsj-article-body',
-      '.articleLead-container',
-      '.article-content',
-      '.story-body',
-    ],
-    cleanupSelectors: [
-      '.wsj-article-credit-tagline',
-      '.related-coverage-module',
-      '.social-share',
-      '.advertisement',
-      '.ad-container',
-    ],
-    confidence: 0.87
-  },
-  // Generic fallback for unknown sources
-  'generic': {
-    name: 'Generic',
-    selectors: [
-      'article',
-      '.article-content',
-      '.article-body',
-      '.story-content',
-      '.story-body',
-      '.post-content',
-      '.entry-content',
-      '.content',
-      'main',
-      '.main-content',
-      '#main-content',
-    ],
-    cleanupSelectors: [
-      'nav',
-      'header',
-      'footer',
-      'aside',
-      '.sidebar',
-      '.navigation',
-      '.social-share',
-      '.related-articles',
-      '.advertisement',
-      '.ad-container',
-      '.comments',
-      '.comment-section',
-    ],
-    confidence: 0.6
-  }
-}
-
 /**
  * Extract content from a URL with intelligent source detection
  */
@@ -186,14 +67,6 @@ export async function extractContentFromUrl(
   try {
     console.log(`🔍 Extracting content from: ${url.substring(0, 100)}...`)
 
-    
-
-    // Determine source and get appropriate extractor
-    const source = detectNewsSource(url)
-    const extractor = CONTENT_EXTRACTORS[source as keyof typeof CONTENT_EXTRACTORS] || CONTENT_EXTRACTORS.generic
-    
-    console.log(`📰 Detected source: ${extractor.name} (${source})`)
-
     // Fetch HTML with retries
     const html = await fetchHtmlWithRetries(url, { ...DEFAULT_CONFIG, timeout: options.timeout || DEFAULT_CONFIG.timeout })
     
@@ -201,20 +74,7 @@ export async function extractContentFromUrl(
       throw new Error('Empty HTML response')
     }
 
-    // Try source-specific extraction first
-    let extractionResult = await trySourceSpecificExtraction(html, extractor, source)
-    
-    // If source-specific extraction fails, try generic extraction
-    if (!extractionResult.success && source !== 'generic') {
-      console.log(`⚠️ Source-specific extraction failed, trying generic...`)
-      extractionResult = await trySourceSpecificExtraction(html, CONTENT_EXTRACTORS.generic, 'generic')
-    }
-
-    // If all else fails, try fallback patterns
-    if (!extractionResult.success) {
-      console.log(`⚠️ Generic extraction failed, trying fallback patterns...`)
-      extractionResult = await tryFallbackExtraction(html)
-    }
+    const extractionResult = await extractContentFromHtml(html, url)
 
     const totalTime = Date.now() - startTime
     console.log(`✅ Content extraction completed in ${totalTime}ms`)
@@ -250,6 +110,35 @@ export async function extractContentFromUrl(
 
 
 
+/**
+ * Run the registry against an already fetched page: the site's extractor, then the
+ * generic extractor, then loose fallback patterns
+ */
+export async function extractContentFromHtml(html: string, url: string): Promise<ContentExtractionResult> {
+  const extractor = findExtractor(url, html)
+  console.log(`📰 Detected source: ${extractor ? `${extractor.name} (${extractor.id})` : 'Generic'}`)
+
+  let extractionResult: ContentExtractionResult = { success: false, content: '' }
+
+  if (extractor) {
+    extractionResult = await trySourceSpecificExtraction(html, extractor)
+  }
+
+  // If source-specific extraction fails, try generic extraction
+  if (!extractionResult.success) {
+    if (extractor) console.log(`⚠️ Source-specific extraction failed, trying generic...`)
+    extractionResult = await trySourceSpecificExtraction(html, GENERIC_EXTRACTOR)
+  }
+
+  // If all else fails, try fallback patterns
+  if (!extractionResult.success) {
+    console.log(`⚠️ Generic extraction failed, trying fallback patterns...`)
+    extractionResult = await tryFallbackExtraction(html)
+  }
+
+  return extractionResult
+}
+
 /**
  * Extract source hint from URL
  */
@@ -312,29 +201,29 @@ async function fetchHtmlWithRetries(url: string, config: ExtractorConfig): Promi
     try {
       console.log(`📡 Fetching HTML (attempt ${attempt}/${config.retries})...`)
       
-      const response = await fetch(url, {
+      const response = await safeFetch(url, {
         headers: {
           'User-Agent': config.userAgent,
           ...config.headers,
         },
-        redirect: 'follow',
-        signal: AbortSignal.timeout(config.timeout),
+        timeout: config.timeout,
+        allowedContentTypes: HTML_CONTENT_TYPES,
       })
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
 
-      const contentType = response.headers.get('content-type') || ''
-      if (!contentType.includes('text/html')) {
-        throw new Error(`Expected HTML, got: ${contentType}`)
-      }
-
-      return await response.text()
+      return response.body
 
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown fetch error')
       console.warn(`⚠️ Fetch attempt ${attempt} failed:`, lastError.message)
+
+      // Policy refusals (private address, oversized body, wrong content type) won't change on retry
+      if (error instanceof SafeFetchError && error.code !== 'timeout') {
+        break
+      }
       
       // Wait before retry (exponential backoff)
       if (attempt < config.retries) {
@@ -353,10 +242,26 @@ async function fetchHtmlWithRetries(url: string, config: ExtractorConfig): Promi
  */
 async function trySourceSpecificExtraction(
   html: string, 
-  extractor: typeof CONTENT_EXTRACTORS.generic,
-  source: string
+  extractor: SiteExtractor
 ): Promise<ContentExtractionResult> {
   try {
+    // Sites with precise structural boundaries skip the selector search
+    const customContent = extractor.extract?.(html)
+    if (customContent && validateContentQuality(customContent)) {
+      const { sanitizedHTML, textContent, isValid } = processHTMLContent(customContent, true)
+
+      if (isValid && (sanitizedHTML || textContent)) {
+        return {
+          success: true,
+          content: sanitizedHTML || textContent,
+          htmlContent: sanitizedHTML,
+          textContent: textContent,
+          extractedBy: `${extractor.name} (article boundaries)`,
+          confidence: extractor.confidence
+        }
+      }
+    }
+
     // Clean up unwanted elements first
     let cleanedHtml = html
     for (const selector of extractor.cleanupSelectors) {
@@ -456,67 +361,80 @@ async function tryFallbackExtraction(html: string): Promise<ContentExtractionRes
   }
 }
 
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
 /**
- * Detect news source from URL
+ * Opening-tag pattern for a simple selector, capturing the tag name
+ * Supports .class (substring match), #id, [attr="value"] and tag selectors
  */
-function detectNewsSource(url: string): string {
-  try {
-    const hostname = new URL(url).hostname.toLowerCase()
-    
-    // Remove www. prefix
-    const cleanHostname = hostname.replace(/^www\./, '')
-    
-    // Check for exact matches first
-    if (cleanHostname in CONTENT_EXTRACTORS) {
-      return cleanHostname
-    }
-    
-    // Check for partial matches (e.g., subdomain.reuters.com)
-    for (const source in CONTENT_EXTRACTORS) {
-      if (source !== 'generic' && cleanHostname.includes(source)) {
-        return source
-      }
-    }
-    
-    return 'generic'
-  } catch {
-    return 'generic'
+function openingTagPattern(selector: string): RegExp | null {
+  if (selector.includes('[') && selector.includes('=')) {
+    // Attribute selector like [data-module="ArticleBody"], optionally prefixed by a tag
+    const attrMatch = selector.match(/\[([^=\]]+)="([^"]+)"\]/)
+    if (!attrMatch) return null
+    const [, attr, value] = attrMatch
+    return new RegExp(`<([a-z][a-z0-9]*)\\b[^>]*\\s${escapeRegExp(attr)}="[^"]*${escapeRegExp(value)}[^"]*"[^>]*>`, 'i')
+  }
+  if (selector.startsWith('.')) {
+    return new RegExp(`<([a-z][a-z0-9]*)\\b[^>]*\\sclass="[^"]*${escapeRegExp(selector.substring(1))}[^"]*"[^>]*>`, 'i')
   }
+  if (selector.startsWith('#')) {
+    return new RegExp(`<([a-z][a-z0-9]*)\\b[^>]*\\sid="${escapeRegExp(selector.substring(1))}"[^>]*>`, 'i')
+  }
+  return new RegExp(`<(${escapeRegExp(selector)})\\b[^>]*>`, 'i')
+}
+
+interface ElementRange {
+  start: number // Opening tag
+  innerStart: number
+  innerEnd: number
+  end: number // After the closing tag
 }
 
 /**
- * Extract content using CSS selector (regex-based for server-side)
+ * Find the first element matching a selector at or after `from`, pairing it with its
+ * own closing tag so nested markup of the same tag is kept inside
  */
-function extractContentBySelector(html: string, selector: string): string | null {
-  try {
-    let pattern: RegExp
-
-    if (selector.startsWith('[') && selector.includes('=')) {
-      // Attribute selector like [data-module="ArticleBody"]
-      const attrMatch = selector.match(/\[([^=]+)="([^"]+)"\]/)
-      if (attrMatch) {
-        const [, attr, value] = attrMatch
-        pattern = new RegExp(`<[^>]*${attr}="[^"]*${value}[^"]*"[^>]*>([\\s\\S]*?)<\\/[^>]+>`, 'gi')
-      } else {
-        return null
+function findElement(html: string, selector: string, from = 0): ElementRange | null {
+  const pattern = openingTagPattern(selector)
+  if (!pattern) return null
+
+  const match = pattern.exec(html.substring(from))
+  if (!match || match.index === undefined) return null
+
+  const start = from + match.index
+  const innerStart = start + match[0].length
+  if (match[0].endsWith('/>')) {
+    return { start, innerStart, innerEnd: innerStart, end: innerStart }
+  }
+
+  const tagPattern = new RegExp(`<(/?)${escapeRegExp(match[1])}\\b[^>]*>`, 'gi')
+  tagPattern.lastIndex = innerStart
+  let depth = 1
+  let tag: RegExpExecArray | null
+
+  while ((tag = tagPattern.exec(html))) {
+    if (tag[1]) {
+      depth--
+      if (depth === 0) {
+        return { start, innerStart, innerEnd: tag.index, end: tag.index + tag[0].length }
       }
-    } else if (selector.startsWith('.')) {
-      // Class selector
-      const className = selector.substring(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<[^>]*class="[^"]*${className}[^"]*"[^>]*>([\\s\\S]*?)<\\/[^>]+>`, 'gi')
-    } else if (selector.startsWith('#')) {
-      // ID selector
-      const id = selector.substring(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<[^>]*id="${id}"[^>]*>([\\s\\S]*?)<\\/[^>]+>`, 'gi')
-    } else {
-      // Tag selector
-      const tag = selector.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi')
+    } else if (!tag[0].endsWith('/>')) {
+      depth++
     }
+  }
 
-    const match = pattern.exec(html)
-    return match ? match[1].trim() : null
+  // Unclosed element runs to the end of the document
+  return { start, innerStart, innerEnd: html.length, end: html.length }
+}
 
+/**
+ * Extract the inner HTML of the first element matching a selector (regex-based for server-side)
+ */
+function extractContentBySelector(html: string, selector: string): string | null {
+  try {
+    const element = findElement(html, selector)
+    return element ? html.substring(element.innerStart, element.innerEnd).trim() : null
   } catch (error) {
     console.error(`Error extracting with selector ${selector}:`, error)
     return null
@@ -524,28 +442,20 @@ function extractContentBySelector(html: string, selector: string): string | null
 }
 
 /**
- * Remove elements by selector from HTML
+ * Remove every element matching a selector from HTML
  */
 function removeElementsBySelector(html: string, selector: string): string {
   try {
-    let pattern: RegExp
-
-    if (selector.startsWith('.')) {
-      // Class selector
-      const className = selector.substring(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<[^>]*class="[^"]*${className}[^"]*"[^>]*>[\\s\\S]*?<\\/[^>]+>`, 'gi')
-    } else if (selector.startsWith('#')) {
-      // ID selector
-      const id = selector.substring(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<[^>]*id="${id}"[^>]*>[\\s\\S]*?<\\/[^>]+>`, 'gi')
-    } else {
-      // Tag selector
-      const tag = selector.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-      pattern = new RegExp(`<${tag}[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi')
-    }
+    let result = html
+    let from = 0
+    let element: ElementRange | null
 
-    return html.replace(pattern, '')
+    while ((element = findElement(result, selector, from))) {
+      result = result.substring(0, element.start) + result.substring(element.end)
+      from = element.start
+    }
 
+    return result
   } catch (error) {
     console.error(`Error removing selector ${selector}:`, error)
     return html
@@ -597,13 +507,12 @@ function validateContentQuality(content: string): boolean {
  * Get supported news sources
  */
 export function getSupportedSources(): string[] {
-  return Object.keys(CONTENT_EXTRACTORS).filter(source => source !== 'generic')
+  return getRegisteredExtractors().map(extractor => extractor.name)
 }
 
 /**
  * Check if a URL is from a supported news source
  */
 export function isSupportedSource(url: string): boolean {
-  const source = detectNewsSource(url)
-  return source !== 'generic'
+  return findExtractor(url) !== null
 } 
\ No newline at end of file
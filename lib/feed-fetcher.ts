@@ -0,0 +1,212 @@
+import crypto from 'crypto'
+import { parseFeed, looksLikeFeed, FeedParseError, type ParsedFeed } from './feed-parser'
+import { isEdgarUrl, EDGAR_USER_AGENT } from './sec-edgar'
+import { safeFetch, SafeFetchError, FEED_CONTENT_TYPES } from './safe-fetch'
+import { validateRSSUrl, suggestFeedName, detectRSSFeedType } from './rss-validation'
+import type { RSSValidationResult } from './types'
+
+/**
+ * Feed Fetcher
+ * Server-side helper that downloads a feed URL and parses it with the shared feed parser.
+ * Supports conditional GET (ETag / Last-Modified) and body hashing so unchanged feeds
+ * are not parsed again. Feed URLs are user-supplied, so all requests go through safeFetch.
+ */
+
+interface FetchFeedOptions {
+  timeout?: number
+  userAgent?: string
+}
+
+/**
+ * Validators remembered from the previous fetch of a feed URL
+ */
+export interface FeedValidators {
+  etag?: string | null
+  lastModified?: string | null
+  contentHash?: string | null
+}
+
+interface FeedResponseInfo {
+  httpStatus: number
+  bytes: number
+}
+
+export type ConditionalFeedResult =
+  | (FeedResponseInfo & { notModified: true; reason: 'http-304' | 'unchanged-body'; validators: FeedValidators })
+  | (FeedResponseInfo & { notModified: false; feed: ParsedFeed; validators: FeedValidators })
+
+/**
+ * Non-2xx response from a feed server, keeping the status code for health tracking
+ */
+export class FeedHTTPError extends Error {
+  status: number
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'FeedHTTPError'
+    this.status = status
+  }
+}
+
+const DEFAULT_TIMEOUT = 15000 // 15 seconds per feed
+const DEFAULT_USER_AGENT = 'CIGNAL/1.0 (Competitive Intelligence Tool)'
+const MAX_CACHED_FEEDS = 500
+
+export const FEED_ACCEPT_HEADER = 'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml, text/xml'
+
+// Parsed feeds kept for the lifetime of the server process, so a 304 can still return items
+const feedCache = new Map<string, { validators: FeedValidators; feed: ParsedFeed }>()
+
+/**
+ * SHA-256 of the raw feed body, used to detect unchanged feeds from servers without validators
+ */
+export function hashFeedBody(body: string): string {
+  return crypto.createHash('sha256').update(body).digest('hex')
+}
+
+/**
+ * Fetch a feed, sending If-None-Match / If-Modified-Since from the previous validators.
+ * Parsing is skipped when the server answers 304 or the body hash is unchanged.
+ * @throws Error on HTTP failures, empty bodies, or documents that are not feeds
+ */
+export async function fetchFeedConditional(
+  url: string,
+  previous: FeedValidators = {},
+  options: FetchFeedOptions = {}
+): Promise<ConditionalFeedResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': options.userAgent || (isEdgarUrl(url) ? EDGAR_USER_AGENT : DEFAULT_USER_AGENT),
+    Accept: FEED_ACCEPT_HEADER,
+  }
+  if (previous.etag) headers['If-None-Match'] = previous.etag
+  if (previous.lastModified) headers['If-Modified-Since'] = previous.lastModified
+
+  const response = await safeFetch(url, {
+    headers,
+    timeout: options.timeout || DEFAULT_TIMEOUT,
+    allowedContentTypes: FEED_CONTENT_TYPES,
+  })
+
+  // Servers may omit validators on a 304, so keep the ones we sent
+  const validators: FeedValidators = {
+    etag: response.headers.get('etag') || previous.etag || null,
+    lastModified: response.headers.get('last-modified') || previous.lastModified || null,
+    contentHash: previous.contentHash || null,
+  }
+
+  if (response.status === 304) {
+    return { notModified: true, reason: 'http-304', validators, httpStatus: 304, bytes: 0 }
+  }
+
+  if (!response.ok) {
+    throw new FeedHTTPError(response.status, response.statusText)
+  }
+
+  const xmlText = response.body
+
+  if (!xmlText || xmlText.trim().length === 0) {
+    throw new Error('Empty RSS feed received')
+  }
+
+  const responseInfo = { httpStatus: response.status, bytes: response.bytes }
+  const contentHash = hashFeedBody(xmlText)
+  if (previous.contentHash && previous.contentHash === contentHash) {
+    return { notModified: true, reason: 'unchanged-body', validators: { ...validators, contentHash }, ...responseInfo }
+  }
+
+  if (!looksLikeFeed(xmlText)) {
+    throw new FeedParseError('Response is not a valid RSS/Atom feed')
+  }
+
+  return { notModified: false, feed: parseFeed(xmlText), validators: { ...validators, contentHash }, ...responseInfo }
+}
+
+/**
+ * Fetch and parse an RSS 2.0, Atom or RDF feed
+ * @throws Error on HTTP failures, empty bodies, or documents that are not feeds
+ */
+export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Promise<ParsedFeed> {
+  const result = await fetchFeedConditional(url, {}, options)
+  if (result.notModified) {
+    // Unreachable without validators, but keeps the types honest
+    throw new Error('Feed unexpectedly reported as not modified')
+  }
+  return result.feed
+}
+
+/**
+ * Fetch a feed using validators from the in-process cache. When the feed is unchanged
+ * the previously parsed copy is returned with notModified set.
+ */
+export async function fetchFeedCached(
+  url: string,
+  options: FetchFeedOptions = {}
+): Promise<{ feed: ParsedFeed; notModified: boolean }> {
+  const cached = feedCache.get(url)
+  const result = await fetchFeedConditional(url, cached?.validators, options)
+
+  if (result.notModified) {
+    if (cached) {
+      cached.validators = result.validators
+      return { feed: cached.feed, notModified: true }
+    }
+    // Validators only come from the cache, so the entry was evicted by a concurrent request
+    return { feed: await fetchFeed(url, options), notModified: false }
+  }
+
+  feedCache.delete(url)
+  feedCache.set(url, { validators: result.validators, feed: result.feed })
+  if (feedCache.size > MAX_CACHED_FEEDS) {
+    const oldest = feedCache.keys().next().value
+    if (oldest !== undefined) feedCache.delete(oldest)
+  }
+
+  return { feed: result.feed, notModified: false }
+}
+
+/**
+ * Fetch a feed URL once and summarize it for the RSS source form and "test feed" actions
+ */
+export async function testRSSConnectivity(url: string, timeout = 10000): Promise<RSSValidationResult> {
+  const urlValidation = validateRSSUrl(url)
+  if (!urlValidation.valid) {
+    return {
+      valid: false,
+      error: urlValidation.error
+    }
+  }
+
+  try {
+    const feed = await fetchFeed(url, { timeout })
+    const itemCount = feed.items.length
+
+    return {
+      valid: true,
+      title: suggestFeedName(url, feed.title || undefined),
+      description: `Found ${itemCount} items`,
+      itemCount,
+      detectedType: detectRSSFeedType(url),
+      feedFormat: feed.format
+    }
+  } catch (error) {
+    if (error instanceof SafeFetchError) {
+      if (error.code === 'timeout') {
+        return { valid: false, error: 'Request timeout - feed took too long to respond' }
+      }
+      if (error.code === 'blocked-address' || error.code === 'invalid-url') {
+        return { valid: false, error: 'This URL points to a private or unsupported address' }
+      }
+      return { valid: false, error: error.message }
+    }
+    if (error instanceof FeedParseError) {
+      return { valid: false, error: `Not a valid RSS/Atom feed: ${error.message}` }
+    }
+    if (error instanceof Error) {
+      if (error.message.includes('ENOTFOUND') || error.message.includes('ECONNREFUSED')) {
+        return { valid: false, error: 'Unable to connect to feed - please check the URL' }
+      }
+      return { valid: false, error: error.message }
+    }
+    return { valid: false, error: 'Unknown error testing feed' }
+  }
+}
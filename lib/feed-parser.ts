@@ -0,0 +1,435 @@
+/**
+ * Feed Parser
+ * Parses RSS 2.0, Atom 1.0 and RSS 1.0 (RDF) documents into a common shape.
+ * Uses a small lenient XML tokenizer so it runs on both server and client without extra dependencies.
+ */
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf'
+
+export interface ParsedFeedItem {
+  title: string
+  link: string
+  description: string
+  content?: string
+  pubDate: string
+  guid?: string
+  author?: string
+  categories: string[]
+}
+
+export interface ParsedFeed {
+  format: FeedFormat
+  title: string
+  description?: string
+  link?: string
+  updated?: string // lastBuildDate or the feed's own updated date, as published
+  items: ParsedFeedItem[]
+}
+
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FeedParseError'
+  }
+}
+
+interface XMLElement {
+  name: string
+  attributes: Record<string, string>
+  children: XMLNode[]
+}
+
+// CDATA is kept apart from text, which is entity-decoded once by the tokenizer, because its markup and entities are still encoded
+interface XMLCData {
+  cdata: string
+}
+
+type XMLNode = XMLElement | XMLCData | string
+
+// Named entities we decode; feeds frequently double-encode HTML so a few common HTML entities are included
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  bull: '•',
+  middot: '·',
+}
+
+/**
+ * Decode XML/HTML character entities (named, decimal and hex)
+ */
+export function decodeEntities(text: string): string {
+  if (!text || !text.includes('&')) return text
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+
+      if (!Number.isFinite(codePoint) || codePoint < 0 || codePoint > 0x10ffff) {
+        return match
+      }
+      return String.fromCodePoint(codePoint)
+    }
+
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()]
+    return decoded !== undefined ? decoded : match
+  })
+}
+
+/**
+ * Cheap check for whether a response body looks like a supported feed document
+ */
+export function looksLikeFeed(text: string): boolean {
+  const head = text.slice(0, 2000)
+  return /<(rss|feed|rdf:RDF)[\s>]/i.test(head)
+}
+
+/**
+ * Parse an XML string into an element tree.
+ * Lenient by design: unknown closing tags are ignored and unclosed elements are closed at EOF.
+ */
+function parseXML(xml: string): XMLElement {
+  const root: XMLElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XMLElement[] = [root]
+  let index = 0
+
+  const current = () => stack[stack.length - 1]
+
+  while (index < xml.length) {
+    const tagStart = xml.indexOf('<', index)
+
+    if (tagStart === -1) {
+      appendText(current(), decodeEntities(xml.slice(index)))
+      break
+    }
+
+    if (tagStart > index) {
+      appendText(current(), decodeEntities(xml.slice(index, tagStart)))
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart + 4)
+      index = end === -1 ? xml.length : end + 3
+      continue
+    }
+
+    if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart + 9)
+      const cdata = xml.slice(tagStart + 9, end === -1 ? xml.length : end)
+      if (cdata) current().children.push({ cdata })
+      index = end === -1 ? xml.length : end + 3
+      continue
+    }
+
+    if (xml.startsWith('<?', tagStart)) {
+      const end = xml.indexOf('?>', tagStart + 2)
+      index = end === -1 ? xml.length : end + 2
+      continue
+    }
+
+    if (xml.startsWith('<!', tagStart)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0
+      let cursor = tagStart + 2
+      while (cursor < xml.length) {
+        const char = xml[cursor]
+        if (char === '[') depth++
+        else if (char === ']') depth--
+        else if (char === '>' && depth <= 0) break
+        cursor++
+      }
+      index = cursor + 1
+      continue
+    }
+
+    const tagEnd = findTagEnd(xml, tagStart + 1)
+    if (tagEnd === -1) {
+      // Truncated document - treat the rest as text
+      appendText(current(), decodeEntities(xml.slice(tagStart)))
+      break
+    }
+
+    const rawTag = xml.slice(tagStart + 1, tagEnd)
+    index = tagEnd + 1
+
+    if (rawTag.startsWith('/')) {
+      const closingName = rawTag.slice(1).trim()
+      // Pop back to the matching element, ignoring stray closing tags
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === closingName) {
+          stack.length = i
+          break
+        }
+      }
+      continue
+    }
+
+    const selfClosing = rawTag.endsWith('/')
+    const tagBody = selfClosing ? rawTag.slice(0, -1) : rawTag
+    const nameMatch = tagBody.match(/^\s*([^\s/>]+)/)
+    if (!nameMatch) continue
+
+    const element: XMLElement = {
+      name: nameMatch[1],
+      attributes: parseAttributes(tagBody.slice(nameMatch[0].length)),
+      children: [],
+    }
+
+    current().children.push(element)
+    if (!selfClosing) {
+      stack.push(element)
+    }
+  }
+
+  return root
+}
+
+/**
+ * Find the closing '>' of a tag, skipping over quoted attribute values
+ */
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from; i < xml.length; i++) {
+    const char = xml[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '')
+  }
+
+  return attributes
+}
+
+function appendText(element: XMLElement, text: string) {
+  if (!text) return
+  const last = element.children[element.children.length - 1]
+  if (typeof last === 'string') {
+    element.children[element.children.length - 1] = last + text
+  } else {
+    element.children.push(text)
+  }
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':')
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+function isElement(node: XMLNode): node is XMLElement {
+  return typeof node !== 'string' && 'name' in node
+}
+
+function childElements(element: XMLElement): XMLElement[] {
+  return element.children.filter(isElement)
+}
+
+/**
+ * Find the first child matching any of the given qualified names (e.g. "dc:date", "pubDate")
+ */
+function findChild(element: XMLElement, ...names: string[]): XMLElement | undefined {
+  for (const name of names) {
+    const found = childElements(element).find((child) => child.name === name)
+    if (found) return found
+  }
+  return undefined
+}
+
+function findChildren(element: XMLElement, name: string): XMLElement[] {
+  return childElements(element).filter((child) => child.name === name)
+}
+
+/**
+ * Serialize an element's contents, keeping embedded markup (unescaped HTML in descriptions, Atom xhtml content)
+ */
+function innerMarkup(element: XMLElement): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return child
+      if (!isElement(child)) return child.cdata
+      const attrs = Object.entries(child.attributes)
+        .map(([key, value]) => ` ${key}="${value.replace(/"/g, '&quot;')}"`)
+        .join('')
+      const tagName = localName(child.name)
+      return child.children.length === 0
+        ? `<${tagName}${attrs}/>`
+        : `<${tagName}${attrs}>${innerMarkup(child)}</${tagName}>`
+    })
+    .join('')
+}
+
+function textOf(element: XMLElement | undefined): string {
+  return element ? innerMarkup(element).trim() : ''
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]*>/g, '')
+}
+
+function plainTextParts(element: XMLElement): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return stripTags(child)
+      // CDATA holds HTML as written, so its entities still need decoding; decoded text is never decoded twice
+      if (!isElement(child)) return decodeEntities(stripTags(child.cdata))
+      return plainTextParts(child)
+    })
+    .join('')
+}
+
+/**
+ * Plain-text value of a field, for titles and names where markup is never wanted
+ */
+function plainTextOf(element: XMLElement | undefined): string {
+  return element ? plainTextParts(element).replace(/\s+/g, ' ').trim() : ''
+}
+
+function uniqueCategories(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim()).filter(Boolean))]
+}
+
+function parseRSSItem(item: XMLElement): ParsedFeedItem {
+  const guidElement = findChild(item, 'guid')
+  const atomLink = findChild(item, 'atom:link')
+  const link = plainTextOf(findChild(item, 'link')) || atomLink?.attributes.href || ''
+  const guid = plainTextOf(guidElement) || item.attributes['rdf:about'] || undefined
+  const content = textOf(findChild(item, 'content:encoded'))
+
+  return {
+    title: plainTextOf(findChild(item, 'title')),
+    // Some feeds only provide a permalink guid
+    link: link || (guidElement?.attributes.isPermaLink !== 'false' && guid?.startsWith('http') ? guid : ''),
+    description: textOf(findChild(item, 'description', 'dc:description')),
+    content: content || undefined,
+    pubDate: plainTextOf(findChild(item, 'pubDate', 'dc:date', 'a10:updated')),
+    guid,
+    author: plainTextOf(findChild(item, 'author', 'dc:creator')) || undefined,
+    categories: uniqueCategories([
+      ...findChildren(item, 'category').map((category) => plainTextOf(category)),
+      ...findChildren(item, 'dc:subject').map((subject) => plainTextOf(subject)),
+    ]),
+  }
+}
+
+function atomLinkHref(entry: XMLElement, prefix: string = ''): string {
+  const links = findChildren(entry, `${prefix}link`)
+  const alternate = links.find((link) => !link.attributes.rel || link.attributes.rel === 'alternate')
+  return (alternate || links[0])?.attributes.href || ''
+}
+
+/**
+ * Parse an Atom entry; prefix is the feed's namespace prefix (e.g. "atom:") when its elements are qualified
+ */
+function parseAtomEntry(entry: XMLElement, prefix: string = ''): ParsedFeedItem {
+  const summary = textOf(findChild(entry, `${prefix}summary`))
+  const content = textOf(findChild(entry, `${prefix}content`))
+  const author = findChild(entry, `${prefix}author`)
+  const dateNames = ['published', 'updated', 'issued', 'modified'].map((name) => `${prefix}${name}`)
+
+  return {
+    title: plainTextOf(findChild(entry, `${prefix}title`)),
+    link: atomLinkHref(entry, prefix),
+    description: summary || content,
+    content: content || undefined,
+    pubDate: plainTextOf(findChild(entry, ...dateNames)),
+    guid: plainTextOf(findChild(entry, `${prefix}id`)) || undefined,
+    author: author ? plainTextOf(findChild(author, `${prefix}name`)) || plainTextOf(author) : undefined,
+    categories: uniqueCategories(
+      findChildren(entry, `${prefix}category`).map((category) => category.attributes.term || category.attributes.label || '')
+    ),
+  }
+}
+
+/**
+ * Parse an RSS 2.0, Atom or RSS 1.0 (RDF) document
+ * @throws FeedParseError when the document is not a recognizable feed
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  if (!xml || xml.trim().length === 0) {
+    throw new FeedParseError('Empty feed document')
+  }
+
+  const documentRoot = parseXML(xml.replace(/^\uFEFF/, ''))
+  const root = childElements(documentRoot)[0]
+
+  if (!root) {
+    throw new FeedParseError('No root element found in feed document')
+  }
+
+  switch (localName(root.name)) {
+    case 'rss': {
+      const channel = findChild(root, 'channel')
+      if (!channel) {
+        throw new FeedParseError('RSS document is missing <channel>')
+      }
+      return {
+        format: 'rss',
+        title: plainTextOf(findChild(channel, 'title')),
+        description: plainTextOf(findChild(channel, 'description')) || undefined,
+        link: plainTextOf(findChild(channel, 'link')) || undefined,
+        updated: plainTextOf(findChild(channel, 'lastBuildDate', 'pubDate', 'dc:date')) || undefined,
+        items: findChildren(channel, 'item').map(parseRSSItem),
+      }
+    }
+
+    case 'feed': {
+      // Atom published with a prefixed namespace, e.g. <atom:feed><atom:entry>
+      const prefix = root.name.includes(':') ? root.name.slice(0, root.name.indexOf(':') + 1) : ''
+      return {
+        format: 'atom',
+        title: plainTextOf(findChild(root, `${prefix}title`)),
+        description: plainTextOf(findChild(root, `${prefix}subtitle`, `${prefix}tagline`)) || undefined,
+        link: atomLinkHref(root, prefix) || undefined,
+        updated: plainTextOf(findChild(root, `${prefix}updated`, `${prefix}modified`)) || undefined,
+        items: findChildren(root, `${prefix}entry`).map((entry) => parseAtomEntry(entry, prefix)),
+      }
+    }
+
+    case 'RDF': {
+      // RSS 1.0 items are siblings of the channel rather than children
+      const channel = findChild(root, 'channel')
+      return {
+        format: 'rdf',
+        title: plainTextOf(channel && findChild(channel, 'title')),
+        description: plainTextOf(channel && findChild(channel, 'description')) || undefined,
+        link: plainTextOf(channel && findChild(channel, 'link')) || undefined,
+        updated: plainTextOf(channel && findChild(channel, 'dc:date')) || undefined,
+        items: findChildren(root, 'item').map(parseRSSItem),
+      }
+    }
+
+    default:
+      throw new FeedParseError(`Unrecognized feed format: <${root.name}>`)
+  }
+}
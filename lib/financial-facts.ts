@@ -0,0 +1,379 @@
+/**
+ * Financial Facts
+ * Deterministic extraction of typed facts from a press release: the deal it announces,
+ * money amounts normalized to currency and unit, counterparties and, for earnings, the
+ * fiscal period. AI analysis can refine the result (see mergeFinancialFacts).
+ * Pure JavaScript so it runs on both the server and in the browser.
+ */
+
+import type { DealType, FinancialAmount, FinancialFacts, FiscalPeriod } from './types'
+
+export const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  acquisition: 'Acquisition',
+  funding_round: 'Funding round',
+  debt_raise: 'Debt raise',
+  fund_close: 'Fund close',
+  partnership: 'Partnership',
+  earnings: 'Earnings',
+}
+
+export const DEAL_TYPES = Object.keys(DEAL_TYPE_LABELS) as DealType[]
+
+// Title matches count for more than body matches; body-only deals need this much evidence
+const TITLE_WEIGHT = 3
+const MIN_BODY_SCORE = 2
+
+const MAX_COUNTERPARTIES = 5
+
+// Checked in order, so on a tie the more specific deal wins (a fund close also "raises" money)
+const DEAL_TYPE_PATTERNS: Array<{ dealType: DealType; patterns: RegExp[] }> = [
+  {
+    dealType: 'acquisition',
+    patterns: [
+      /\b(acquires?|acquired|to acquire|acquisition of|completes? (the )?acquisition|takeover of)\b/i,
+      /\b(merger (agreement )?with|to merge with|agrees? to buy|buys)\b/i,
+    ],
+  },
+  {
+    dealType: 'fund_close',
+    patterns: [
+      /\b(final|first|second) close\b/i,
+      /\b(closes?|closed|closing of|announces close of)\b(?:[^.]|\.\d){0,60}\bfund\b/i,
+      /\bFund\s+(?:[IVX]+|\d+)\b/,
+      /\boversubscribed\b/i,
+    ],
+  },
+  {
+    dealType: 'debt_raise',
+    patterns: [
+      /\b(senior (secured |unsecured )?notes|convertible (senior )?notes|notes offering|debt offering)\b/i,
+      /\b(credit facility|term loan|revolving credit|debt financing|bond (offering|issuance))\b/i,
+    ],
+  },
+  {
+    dealType: 'funding_round',
+    patterns: [
+      /\b(series [a-h]|seed (round|funding)|pre-seed|funding round|growth (equity|funding)|venture (round|funding))\b/i,
+      /\b(raises?|raised|secures?|secured)\s+(US|C|A)?[$€£]/i,
+      /\b(in (new )?(funding|financing)|equity financing)\b/i,
+    ],
+  },
+  {
+    dealType: 'earnings',
+    patterns: [
+      /\b(reports?|announces?|posts?)\b(?:[^.]|\.\d){0,40}\b(results|earnings)\b/i,
+      /\b(first|second|third|fourth)[- ]quarter\b|\bQ[1-4]\b/i,
+      /\b(net income|earnings per (diluted )?share|diluted EPS|net revenue)\b/i,
+    ],
+  },
+  {
+    dealType: 'partnership',
+    patterns: [
+      /\b(partners? with|partnership with|strategic (partnership|alliance|collaboration))\b/i,
+      /\b(collaborat(es|ion) with|teams up with|joins forces with|alliance with)\b/i,
+    ],
+  },
+]
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'AU$': 'AUD',
+  'A$': 'AUD',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+}
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollars: 'USD',
+  euros: 'EUR',
+  pounds: 'GBP',
+}
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'INR', 'CNY', 'HKD', 'SGD', 'SEK', 'NOK', 'DKK']
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  mn: 1e6,
+  mm: 1e6,
+  mln: 1e6,
+  m: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  bln: 1e9,
+  b: 1e9,
+  trillion: 1e12,
+  tn: 1e12,
+  t: 1e12,
+}
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)'
+const UNIT = '(?:\\s?(trillion|billion|million|thousand|bn|mn|mm|mln|bln|tn|[kmbt])\\b)?'
+
+// "$1.2 billion", "€50m", "USD 300 million"
+const PREFIXED_AMOUNT = new RegExp(
+  `(US\\$|CA\\$|AU\\$|HK\\$|C\\$|A\\$|S\\$|\\$|€|£|¥|₹|\\b(?:${CURRENCY_CODES.join('|')})\\s?)${NUMBER}${UNIT}`,
+  'gi',
+)
+
+// "50 million euros", "300 million USD"
+const SUFFIXED_AMOUNT = new RegExp(
+  `\\b${NUMBER}\\s?(trillion|billion|million|thousand)?\\s(dollars|euros|pounds|${CURRENCY_CODES.join('|')})\\b`,
+  'gi',
+)
+
+// A run of capitalized words, e.g. "Bank of Montreal" or "Sequoia Capital"
+const NAME = "[A-Z][A-Za-z0-9&.'-]*(?:\\s+(?:&\\s+)?(?:[A-Z][A-Za-z0-9&.'-]*|of|de|du|la))*"
+const NAME_LIST = `${NAME}(?:(?:,\\s*|,?\\s+and\\s+)${NAME})*`
+
+const COUNTERPARTY_PATTERNS: RegExp[] = [
+  new RegExp(`\\b(?:acquires?|acquired|to acquire|acquisition of|takeover of|merger with|to merge with|to buy|buys)\\s+(?:the\\s+)?(${NAME})`, 'g'),
+  new RegExp(`\\b(?:led by|co-led by|participation (?:from|of|by)|backed by)\\s+(?:existing investors?\\s+)?(${NAME_LIST})`, 'g'),
+  new RegExp(`\\b(?:partners? with|partnership with|collaborat(?:es|ion) with|teams up with|joins forces with|alliance with)\\s+(${NAME})`, 'g'),
+]
+
+// Capitalized words that start sentences or phrases rather than naming a party
+const NOT_A_NAME = new Set(['The', 'This', 'These', 'Its', 'It', 'A', 'An', 'Our', 'Inc', 'Inc.', 'LLC', 'Ltd', 'Ltd.'])
+
+const ORDINAL_NUMBERS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 }
+
+function toFullYear(year: string): number {
+  const value = parseInt(year, 10)
+  return value < 100 ? 2000 + value : value
+}
+
+function amountFromMatch(text: string, currency: string, rawNumber: string, unit: string | undefined): FinancialAmount {
+  const multiplier = unit ? UNIT_MULTIPLIERS[unit.toLowerCase()] || 1 : 1
+  const value = parseFloat(rawNumber.replace(/,/g, '')) * multiplier
+  return {
+    value: Math.round(value * 100) / 100,
+    currency,
+    text: text.trim(),
+  }
+}
+
+/**
+ * Every money amount in the text, in order of appearance
+ */
+export function findAmounts(text: string): FinancialAmount[] {
+  const found: Array<{ index: number; amount: FinancialAmount }> = []
+
+  PREFIXED_AMOUNT.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = PREFIXED_AMOUNT.exec(text)) !== null) {
+    const marker = match[1].trim()
+    const currency = CURRENCY_SYMBOLS[marker] || CURRENCY_SYMBOLS[marker.toUpperCase()] || marker.toUpperCase()
+    found.push({ index: match.index, amount: amountFromMatch(match[0], currency, match[2], match[3]) })
+  }
+
+  SUFFIXED_AMOUNT.lastIndex = 0
+  while ((match = SUFFIXED_AMOUNT.exec(text)) !== null) {
+    const marker = match[3]
+    const currency = CURRENCY_WORDS[marker.toLowerCase()] || marker.toUpperCase()
+    found.push({ index: match.index, amount: amountFromMatch(match[0], currency, match[1], match[2]) })
+  }
+
+  // Drop repeats of the same figure (titles usually restate the lead paragraph)
+  const seen = new Set<string>()
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ amount }) => amount)
+    .filter((amount) => {
+      const key = `${amount.currency}:${amount.value}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Parse a single amount such as "$1.2 billion"
+ */
+export function parseAmount(text: string): FinancialAmount | undefined {
+  return findAmounts(text)[0]
+}
+
+/**
+ * Classify the deal a release announces
+ */
+export function detectDealType(title: string, content: string): DealType | undefined {
+  let best: { dealType: DealType; score: number } | undefined
+
+  for (const { dealType, patterns } of DEAL_TYPE_PATTERNS) {
+    let score = 0
+    for (const pattern of patterns) {
+      if (pattern.test(title)) score += TITLE_WEIGHT
+      if (pattern.test(content)) score += 1
+    }
+    if (score > 0 && (!best || score > best.score)) {
+      best = { dealType, score }
+    }
+  }
+
+  return best && best.score >= MIN_BODY_SCORE ? best.dealType : undefined
+}
+
+function cleanName(name: string): string | undefined {
+  const cleaned = name.replace(/[.,']+$/, '').trim()
+  return cleaned.length > 1 && !NOT_A_NAME.has(cleaned) ? cleaned : undefined
+}
+
+/**
+ * Other parties to the deal: acquisition targets, investors and partners
+ */
+export function findCounterparties(title: string, content: string): string[] {
+  const parties: string[] = []
+
+  for (const text of [title, content]) {
+    for (const pattern of COUNTERPARTY_PATTERNS) {
+      pattern.lastIndex = 0
+      let match: RegExpExecArray | null
+      while ((match = pattern.exec(text)) !== null) {
+        match[1]
+          .split(/,\s*|,?\s+and\s+/)
+          .map(cleanName)
+          .forEach((name) => {
+            if (name && !parties.includes(name)) parties.push(name)
+          })
+      }
+    }
+  }
+
+  return parties.slice(0, MAX_COUNTERPARTIES)
+}
+
+/**
+ * Fiscal period a text reports on, e.g. "third quarter 2025" or "Q3 FY25"
+ * @param publishedAt Used to infer the year when only the quarter is named
+ */
+export function parseFiscalPeriod(text: string, publishedAt?: string): FiscalPeriod | undefined {
+  const quarterYear = text.match(/\bQ([1-4])\s*(?:FY\s*)?'?(20\d\d|\d\d)\b/i)
+  const yearQuarter = text.match(/\b(?:FY\s*)?(20\d\d)\s*Q([1-4])\b/i)
+  if (quarterYear || yearQuarter) {
+    const quarter = parseInt(quarterYear ? quarterYear[1] : yearQuarter![2], 10)
+    const year = toFullYear(quarterYear ? quarterYear[2] : yearQuarter![1])
+    return { label: `Q${quarter} ${year}`, year, quarter }
+  }
+
+  const quarterWords = text.match(
+    /\b(first|second|third|fourth)[- ]quarter(?:\s+(?:of\s+)?(?:fiscal\s+)?(?:year\s+)?(20\d\d))?/i,
+  )
+  if (quarterWords) {
+    const quarter = ORDINAL_NUMBERS[quarterWords[1].toLowerCase()]
+    const year = quarterWords[2] ? parseInt(quarterWords[2], 10) : inferReportingYear(quarter, publishedAt)
+    if (year) return { label: `Q${quarter} ${year}`, year, quarter }
+  }
+
+  const half = text.match(/\b(first|second)[- ]half(?:\s+(?:of\s+)?(?:fiscal\s+)?(?:year\s+)?(20\d\d))?/i)
+  if (half) {
+    const halfNumber = ORDINAL_NUMBERS[half[1].toLowerCase()]
+    const year = half[2] ? parseInt(half[2], 10) : inferReportingYear(halfNumber * 2, publishedAt)
+    if (year) return { label: `H${halfNumber} ${year}`, year, half: halfNumber }
+  }
+
+  const fullYear = text.match(/\b(?:full[- ]year|fiscal(?:[- ]year)?|FY)\s*'?(20\d\d|\d\d)\b/i)
+  if (fullYear) {
+    const year = toFullYear(fullYear[1])
+    return { label: `FY ${year}`, year }
+  }
+
+  return undefined
+}
+
+/**
+ * Calendar year of a reported quarter: results for the last quarter come out early the next year
+ */
+function inferReportingYear(quarter: number, publishedAt?: string): number | undefined {
+  if (!publishedAt) return undefined
+  const published = new Date(publishedAt)
+  if (isNaN(published.getTime())) return undefined
+  const publishedQuarter = Math.floor(published.getUTCMonth() / 3) + 1
+  return quarter >= publishedQuarter ? published.getUTCFullYear() - 1 : published.getUTCFullYear()
+}
+
+/**
+ * Extract typed financial facts from a release
+ */
+export function extractFinancialFacts(title: string, content: string, publishedAt?: string): FinancialFacts {
+  const dealType = detectDealType(title, content)
+  const titleAmounts = findAmounts(title)
+  const amounts = findAmounts(`${title}\n${content}`)
+
+  return {
+    dealType,
+    // The title carries the headline figure; otherwise the lead paragraph does
+    amount: titleAmounts[0] || amounts[0],
+    amounts,
+    counterparties: dealType && dealType !== 'earnings' ? findCounterparties(title, content) : [],
+    fiscalPeriod:
+      dealType === 'earnings'
+        ? parseFiscalPeriod(title, publishedAt) || parseFiscalPeriod(content, publishedAt)
+        : undefined,
+    source: 'rules',
+  }
+}
+
+/**
+ * Overlay facts reported by AI analysis on the rule-based facts, keeping rule values the AI left out
+ */
+export function mergeFinancialFacts(
+  rules: FinancialFacts,
+  ai: Partial<Pick<FinancialFacts, 'dealType' | 'amount' | 'counterparties' | 'fiscalPeriod'>>,
+): FinancialFacts {
+  return {
+    dealType: ai.dealType || rules.dealType,
+    amount: ai.amount || rules.amount,
+    amounts: rules.amounts,
+    counterparties: ai.counterparties && ai.counterparties.length > 0 ? ai.counterparties : rules.counterparties,
+    fiscalPeriod: ai.fiscalPeriod || rules.fiscalPeriod,
+    source: 'ai',
+  }
+}
+
+/**
+ * Short display form of an amount, e.g. "$1.2B" or "EUR 50M"
+ */
+export function formatAmount(amount: FinancialAmount): string {
+  const symbols: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥', INR: '₹' }
+  const prefix = symbols[amount.currency] || `${amount.currency} `
+  const scales: Array<[number, string]> = [
+    [1e12, 'T'],
+    [1e9, 'B'],
+    [1e6, 'M'],
+    [1e3, 'K'],
+  ]
+
+  for (const [scale, suffix] of scales) {
+    if (amount.value >= scale) {
+      return `${prefix}${parseFloat((amount.value / scale).toFixed(1))}${suffix}`
+    }
+  }
+  return `${prefix}${amount.value.toLocaleString()}`
+}
+
+export interface FinancialFactsFilter {
+  dealType: DealType | 'any'
+  minAmount: number // Headline amount in its own currency, 0 for any
+}
+
+export const DEFAULT_FINANCIAL_FACTS_FILTER: FinancialFactsFilter = { dealType: 'any', minAmount: 0 }
+
+/**
+ * Whether a release's facts pass the activity feed filters
+ */
+export function matchesFinancialFactsFilter(
+  facts: FinancialFacts | undefined,
+  filter: FinancialFactsFilter,
+): boolean {
+  if (filter.dealType !== 'any' && facts?.dealType !== filter.dealType) return false
+  if (filter.minAmount > 0 && (facts?.amount?.value || 0) < filter.minAmount) return false
+  return true
+}
@@ -0,0 +1,173 @@
+/**
+ * Google News Monitor
+ * Tracks resolution and extraction outcomes for Google News links so the health
+ * endpoint can report success rates, timing and recurring errors
+ */
+
+export interface GoogleNewsEvent {
+  type: 'resolution' | 'extraction'
+  url: string
+  success: boolean
+  duration: number
+  fromCache?: boolean
+  error?: string
+  timestamp: number
+}
+
+export interface GoogleNewsMetrics {
+  windowHours: number
+  resolution: OperationMetrics
+  extraction: OperationMetrics
+  topErrors: Array<{ error: string; count: number }>
+}
+
+interface OperationMetrics {
+  total: number
+  successful: number
+  failed: number
+  successRate: number
+  averageTime: number
+  cacheHitRate: number
+}
+
+export type GoogleNewsHealthStatus = 'healthy' | 'degraded' | 'unhealthy'
+
+export interface GoogleNewsHealth {
+  status: GoogleNewsHealthStatus
+  successRate: number
+  averageTime: number
+  insights: string[]
+  metrics: GoogleNewsMetrics
+}
+
+const MAX_EVENTS = 1000
+
+// Thresholds from GOOGLE-NEWS-IMPLEMENTATION.md
+const HEALTHY_SUCCESS_RATE = 80
+const UNHEALTHY_SUCCESS_RATE = 50
+const HEALTHY_AVERAGE_TIME = 10000 // 10 seconds
+const UNHEALTHY_AVERAGE_TIME = 15000 // 15 seconds
+
+class GoogleNewsMonitor {
+  private events: GoogleNewsEvent[] = []
+
+  record(event: Omit<GoogleNewsEvent, 'timestamp'>): void {
+    this.events.push({ ...event, timestamp: Date.now() })
+
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS)
+    }
+  }
+
+  getMetrics(windowHours = 24): GoogleNewsMetrics {
+    const events = this.getEventsInWindow(windowHours)
+
+    const errorCounts = new Map<string, number>()
+    for (const event of events) {
+      if (!event.success && event.error) {
+        errorCounts.set(event.error, (errorCounts.get(event.error) || 0) + 1)
+      }
+    }
+
+    return {
+      windowHours,
+      resolution: summarize(events.filter(e => e.type === 'resolution')),
+      extraction: summarize(events.filter(e => e.type === 'extraction')),
+      topErrors: Array.from(errorCounts.entries())
+        .map(([error, count]) => ({ error, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+    }
+  }
+
+  /**
+   * Overall health of the pipeline. Healthy is >80% success and <10s average,
+   * unhealthy is <50% success or >15s average, anything between is degraded.
+   */
+  getHealth(windowHours = 24): GoogleNewsHealth {
+    const metrics = this.getMetrics(windowHours)
+    const events = this.getEventsInWindow(windowHours).filter(e => e.type === 'extraction')
+
+    // Extraction covers the full pipeline; fall back to resolution when nothing was extracted yet
+    const primary = events.length > 0 ? metrics.extraction : metrics.resolution
+    const { successRate, averageTime } = primary
+
+    let status: GoogleNewsHealthStatus = 'healthy'
+    if (primary.total > 0) {
+      if (successRate < UNHEALTHY_SUCCESS_RATE || averageTime > UNHEALTHY_AVERAGE_TIME) {
+        status = 'unhealthy'
+      } else if (successRate <= HEALTHY_SUCCESS_RATE || averageTime >= HEALTHY_AVERAGE_TIME) {
+        status = 'degraded'
+      }
+    }
+
+    return {
+      status,
+      successRate,
+      averageTime,
+      insights: buildInsights(metrics),
+      metrics,
+    }
+  }
+
+  getRecentEvents(limit = 50): GoogleNewsEvent[] {
+    return this.events.slice(-limit).reverse()
+  }
+
+  reset(): void {
+    this.events = []
+  }
+
+  private getEventsInWindow(windowHours: number): GoogleNewsEvent[] {
+    const since = Date.now() - windowHours * 60 * 60 * 1000
+    return this.events.filter(e => e.timestamp >= since)
+  }
+}
+
+function summarize(events: GoogleNewsEvent[]): OperationMetrics {
+  const successful = events.filter(e => e.success).length
+  const cached = events.filter(e => e.fromCache).length
+  const totalTime = events.reduce((sum, e) => sum + e.duration, 0)
+
+  return {
+    total: events.length,
+    successful,
+    failed: events.length - successful,
+    successRate: events.length > 0 ? Math.round((successful / events.length) * 10000) / 100 : 100,
+    averageTime: events.length > 0 ? Math.round(totalTime / events.length) : 0,
+    cacheHitRate: events.length > 0 ? Math.round((cached / events.length) * 10000) / 100 : 0,
+  }
+}
+
+function buildInsights(metrics: GoogleNewsMetrics): string[] {
+  const insights: string[] = []
+  const { resolution, extraction, topErrors } = metrics
+
+  if (resolution.total === 0 && extraction.total === 0) {
+    return ['No Google News activity in this window']
+  }
+
+  if (resolution.total > 0 && resolution.successRate < HEALTHY_SUCCESS_RATE) {
+    insights.push(`Only ${resolution.successRate}% of Google News links resolved - Google may have changed its redirect format`)
+  }
+
+  if (extraction.total > 0 && resolution.successRate >= HEALTHY_SUCCESS_RATE && extraction.successRate < HEALTHY_SUCCESS_RATE) {
+    insights.push(`Links resolve but only ${extraction.successRate}% of articles extracted - publisher pages may need dedicated extractors`)
+  }
+
+  if (resolution.averageTime > HEALTHY_AVERAGE_TIME) {
+    insights.push(`Resolution averages ${resolution.averageTime}ms - consider lowering batch concurrency`)
+  }
+
+  if (topErrors.some(e => e.error.includes('429'))) {
+    insights.push('Google News is rate limiting requests')
+  }
+
+  if (resolution.total >= 10 && resolution.cacheHitRate > 50) {
+    insights.push(`${resolution.cacheHitRate}% of resolutions served from cache`)
+  }
+
+  return insights
+}
+
+export const googleNewsMonitor = new GoogleNewsMonitor()
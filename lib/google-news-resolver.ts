@@ -0,0 +1,279 @@
+/**
+ * Google News Resolver
+ * Turns news.google.com redirect links from Google News RSS feeds into the
+ * publisher's article URL so the content extractor can fetch the real page
+ */
+
+import { safeFetch, HTML_CONTENT_TYPES } from './safe-fetch'
+import { isGoogleNewsUrl } from './rss-sources'
+
+export interface GoogleNewsResolution {
+  success: boolean
+  originalUrl: string
+  resolvedUrl: string
+  redirectChain: string[]
+  fromCache: boolean
+  method?: 'decoded' | 'redirect' | 'html'
+  error?: string
+  timing: {
+    total: number
+  }
+}
+
+interface ResolveOptions {
+  timeout?: number
+  maxRedirects?: number
+}
+
+interface BatchResolveOptions extends ResolveOptions {
+  concurrency?: number
+  batchDelay?: number
+}
+
+const RESOLVE_TIMEOUT = 15000 // 15 seconds per URL
+const MAX_REDIRECTS = 10
+const CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours
+const MAX_CACHE_ENTRIES = 1000
+const MIN_REQUEST_INTERVAL = 250 // Spacing between requests to Google
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+// Successful resolutions, shared by every request in this server process
+const resolutionCache = new Map<string, { resolvedUrl: string; redirectChain: string[]; expiresAt: number }>()
+
+let nextRequestAt = 0
+
+/**
+ * Resolve a Google News link to the publisher URL
+ * Never throws - on failure the original URL is returned with success=false
+ */
+export async function resolveGoogleNewsUrl(
+  url: string,
+  options: ResolveOptions = {}
+): Promise<GoogleNewsResolution> {
+  const startTime = Date.now()
+  const done = (result: Omit<GoogleNewsResolution, 'originalUrl' | 'timing'>): GoogleNewsResolution => ({
+    ...result,
+    originalUrl: url,
+    timing: { total: Date.now() - startTime },
+  })
+
+  if (!isGoogleNewsUrl(url)) {
+    return done({ success: true, resolvedUrl: url, redirectChain: [], fromCache: false })
+  }
+
+  const cached = getCachedResolution(url)
+  if (cached) {
+    return done({ success: true, resolvedUrl: cached.resolvedUrl, redirectChain: cached.redirectChain, fromCache: true })
+  }
+
+  // Older article IDs carry the publisher URL inside the base64 payload
+  const decoded = decodeArticleUrl(url)
+  if (decoded) {
+    cacheResolution(url, decoded, [])
+    return done({ success: true, resolvedUrl: decoded, redirectChain: [], fromCache: false, method: 'decoded' })
+  }
+
+  try {
+    const { resolvedUrl, redirectChain, method } = await followRedirects(url, options)
+    cacheResolution(url, resolvedUrl, redirectChain)
+    console.log(`🔗 Resolved Google News link in ${redirectChain.length} hops: ${resolvedUrl.substring(0, 100)}`)
+    return done({ success: true, resolvedUrl, redirectChain, fromCache: false, method })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown resolution error'
+    console.warn(`⚠️ Failed to resolve Google News link: ${message}`)
+    return done({ success: false, resolvedUrl: url, redirectChain: [], fromCache: false, error: message })
+  }
+}
+
+/**
+ * Resolve several links, a few at a time with a pause between batches
+ */
+export async function resolveGoogleNewsUrls(
+  urls: string[],
+  options: BatchResolveOptions = {}
+): Promise<GoogleNewsResolution[]> {
+  const concurrency = Math.max(1, options.concurrency || 3)
+  const batchDelay = options.batchDelay ?? 1000
+  const results: GoogleNewsResolution[] = []
+
+  for (let i = 0; i < urls.length; i += concurrency) {
+    const batch = urls.slice(i, i + concurrency)
+    results.push(...await Promise.all(batch.map(url => resolveGoogleNewsUrl(url, options))))
+
+    if (i + concurrency < urls.length && batchDelay > 0) {
+      await new Promise(resolve => setTimeout(resolve, batchDelay))
+    }
+  }
+
+  return results
+}
+
+/**
+ * Cache statistics for monitoring
+ */
+export function getResolutionCacheStats(): { size: number; maxSize: number; ttlMs: number } {
+  return { size: resolutionCache.size, maxSize: MAX_CACHE_ENTRIES, ttlMs: CACHE_TTL }
+}
+
+export function clearResolutionCache(): void {
+  resolutionCache.clear()
+}
+
+function getCachedResolution(url: string) {
+  const entry = resolutionCache.get(url)
+  if (!entry) return null
+
+  if (entry.expiresAt < Date.now()) {
+    resolutionCache.delete(url)
+    return null
+  }
+
+  return entry
+}
+
+function cacheResolution(url: string, resolvedUrl: string, redirectChain: string[]): void {
+  resolutionCache.set(url, { resolvedUrl, redirectChain, expiresAt: Date.now() + CACHE_TTL })
+
+  // Drop the oldest entries once the cache is full
+  while (resolutionCache.size > MAX_CACHE_ENTRIES) {
+    const oldest = resolutionCache.keys().next().value
+    if (oldest === undefined) break
+    resolutionCache.delete(oldest)
+  }
+}
+
+/**
+ * Space out requests to Google so batches don't trip its rate limiting
+ */
+async function waitForRequestSlot(): Promise<void> {
+  const now = Date.now()
+  const wait = Math.max(0, nextRequestAt - now)
+  nextRequestAt = Math.max(now, nextRequestAt) + MIN_REQUEST_INTERVAL
+
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait))
+  }
+}
+
+/**
+ * Try to read the publisher URL out of a /rss/articles/<id> link without a request
+ */
+function decodeArticleUrl(url: string): string | null {
+  try {
+    const urlObj = new URL(url)
+
+    // /url?q=... and /url?url=... style links carry the target as a parameter
+    const param = urlObj.searchParams.get('url') || urlObj.searchParams.get('q')
+    if (param && /^https?:\/\//.test(param)) return param
+
+    const articleId = urlObj.pathname.match(/\/articles\/([^/?]+)/)?.[1]
+    if (!articleId) return null
+
+    const base64 = articleId.replace(/-/g, '+').replace(/_/g, '/')
+    const decoded = Buffer.from(base64, 'base64').toString('latin1')
+    const match = decoded.match(/https?:\/\/[\x21-\x7e]+/)
+    if (!match) return null
+
+    // Strip trailing protobuf bytes that happen to be printable
+    const candidate = match[0].replace(/[\x00-\x1f\x7f-\xff].*$/, '')
+    return isGoogleNewsUrl(candidate) ? null : candidate
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Follow the redirect chain by hand so every hop can be recorded, falling back to
+ * reading the target out of Google's interstitial page
+ */
+async function followRedirects(
+  url: string,
+  options: ResolveOptions
+): Promise<{ resolvedUrl: string; redirectChain: string[]; method: 'redirect' | 'html' }> {
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS
+  const redirectChain: string[] = []
+  let currentUrl = url
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await waitForRequestSlot()
+
+    const response = await safeFetch(currentUrl, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+      },
+      followRedirects: false,
+      timeout: options.timeout || RESOLVE_TIMEOUT,
+      allowedContentTypes: HTML_CONTENT_TYPES,
+    })
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location')
+      if (!location) {
+        throw new Error(`Redirect ${response.status} without Location header`)
+      }
+
+      // Relative redirects are resolved against the current hop
+      currentUrl = new URL(location, currentUrl).toString()
+      redirectChain.push(currentUrl)
+
+      if (new URL(currentUrl).hostname === 'consent.google.com') {
+        throw new Error('Google consent page blocked the redirect')
+      }
+
+      if (!isGoogleNewsUrl(currentUrl)) {
+        return { resolvedUrl: currentUrl, redirectChain, method: 'redirect' }
+      }
+      continue
+    }
+
+    if (response.status === 429) {
+      throw new Error('Rate limited by Google News (HTTP 429)')
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    if (!isGoogleNewsUrl(currentUrl)) {
+      return { resolvedUrl: currentUrl, redirectChain, method: 'redirect' }
+    }
+
+    // Google serves an interstitial page that points at the article with JavaScript
+    const target = extractTargetFromHtml(response.body)
+    if (target) {
+      redirectChain.push(target)
+      return { resolvedUrl: target, redirectChain, method: 'html' }
+    }
+
+    throw new Error('Could not find article URL on Google News page')
+  }
+
+  throw new Error(`Too many redirects (>${maxRedirects})`)
+}
+
+/**
+ * Find the article link on a Google News interstitial page
+ */
+function extractTargetFromHtml(html: string): string | null {
+  const patterns = [
+    /data-n-au="([^"]+)"/i,
+    /<meta[^>]+http-equiv=["']refresh["'][^>]+content=["'][^"']*url=([^"'>]+)["']/i,
+    /window\.location(?:\.href)?\s*=\s*["']([^"']+)["']/i,
+    /window\.location\.replace\(\s*["']([^"']+)["']\s*\)/i,
+    /<a[^>]+href="(https?:\/\/(?!(?:[\w-]+\.)*google\.com)[^"]+)"[^>]*jsname=/i,
+  ]
+
+  for (const pattern of patterns) {
+    const match = html.match(pattern)
+    if (match?.[1]) {
+      const candidate = match[1].replace(/&amp;/g, '&')
+      if (/^https?:\/\//.test(candidate) && !isGoogleNewsUrl(candidate)) {
+        return candidate
+      }
+    }
+  }
+
+  return null
+}
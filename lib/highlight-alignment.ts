@@ -0,0 +1,153 @@
+/**
+ * Highlight Alignment
+ * Finds where a passage quoted by Claude sits in the analyzed content. Claude often trims,
+ * re-punctuates or lightly paraphrases its "exact" quotes, so after an exact match fails the
+ * quote is aligned word by word: a bag-of-words pass finds candidate windows and a word-level
+ * edit distance picks the best boundaries around them.
+ */
+
+// Word-level similarity (0-1) a fuzzy match needs to be accepted
+export const MIN_ALIGNMENT_SCORE = 0.6
+
+// Quotes shorter than this are only matched exactly; a fuzzy 1-2 word match is mostly noise
+const MIN_FUZZY_WORDS = 3
+
+// Candidate windows refined with edit distance, and how far their edges may move
+const MAX_CANDIDATES = 3
+const BOUNDARY_SLACK = 2
+
+export interface HighlightAlignment {
+  start: number
+  end: number
+  score: number // 1 for an exact match
+}
+
+interface Token {
+  word: string
+  start: number
+  end: number
+}
+
+// Words, numbers and amounts such as "$1.2", "2,000" or "company's"
+const TOKEN_PATTERN = /[A-Za-z0-9$%€£]+(?:[.,'’][A-Za-z0-9]+)*/g
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    tokens.push({
+      word: match[0].toLowerCase().replace(/’/g, "'"),
+      start: match.index,
+      end: match.index + match[0].length,
+    })
+  }
+  return tokens
+}
+
+function countWords(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const word of words) {
+    counts.set(word, (counts.get(word) || 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Edit distance between two word sequences
+ */
+function wordDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Start indexes of the content windows sharing the most words with the quote
+ */
+function candidateWindows(contentWords: string[], quoteWords: string[]): number[] {
+  const size = Math.min(quoteWords.length, contentWords.length)
+  const quoteCounts = countWords(quoteWords)
+  const windowCounts = new Map<string, number>()
+  let overlap = 0
+
+  const add = (word: string) => {
+    const count = windowCounts.get(word) || 0
+    if (count < (quoteCounts.get(word) || 0)) overlap++
+    windowCounts.set(word, count + 1)
+  }
+  const remove = (word: string) => {
+    const count = (windowCounts.get(word) || 0) - 1
+    windowCounts.set(word, count)
+    if (count < (quoteCounts.get(word) || 0)) overlap--
+  }
+
+  const scored: Array<{ start: number; overlap: number }> = []
+  for (let i = 0; i < contentWords.length; i++) {
+    add(contentWords[i])
+    if (i >= size) remove(contentWords[i - size])
+    if (i >= size - 1 && overlap > 0) {
+      scored.push({ start: i - size + 1, overlap })
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.overlap - a.overlap || a.start - b.start)
+    .slice(0, MAX_CANDIDATES)
+    .map((candidate) => candidate.start)
+}
+
+/**
+ * Locate a quoted passage in content
+ * @returns Character offsets of the best match, or null when nothing is similar enough
+ */
+export function alignHighlight(content: string, quote: string): HighlightAlignment | null {
+  const trimmed = quote.trim()
+  if (!trimmed || !content) return null
+
+  const exactIndex = content.toLowerCase().indexOf(trimmed.toLowerCase())
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + trimmed.length, score: 1 }
+  }
+
+  const quoteWords = tokenize(trimmed).map((token) => token.word)
+  if (quoteWords.length < MIN_FUZZY_WORDS) return null
+
+  const contentTokens = tokenize(content)
+  const contentWords = contentTokens.map((token) => token.word)
+  const size = quoteWords.length
+
+  let best: { start: number; end: number; score: number } | null = null
+  for (const candidate of candidateWindows(contentWords, quoteWords)) {
+    const firstStart = Math.max(candidate - BOUNDARY_SLACK, 0)
+    const lastStart = Math.min(candidate + BOUNDARY_SLACK, contentWords.length - 1)
+
+    for (let start = firstStart; start <= lastStart; start++) {
+      const firstEnd = Math.max(start + size - BOUNDARY_SLACK, start + 1)
+      const lastEnd = Math.min(start + size + BOUNDARY_SLACK, contentWords.length)
+
+      for (let end = firstEnd; end <= lastEnd; end++) {
+        const window = contentWords.slice(start, end)
+        const score = 1 - wordDistance(quoteWords, window) / Math.max(size, window.length)
+        if (!best || score > best.score) {
+          best = { start, end, score }
+        }
+      }
+    }
+  }
+
+  if (!best || best.score < MIN_ALIGNMENT_SCORE) return null
+
+  return {
+    start: contentTokens[best.start].start,
+    end: contentTokens[best.end - 1].end,
+    score: Math.round(best.score * 100) / 100,
+  }
+}
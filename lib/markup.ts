@@ -0,0 +1,30 @@
+/**
+ * Markup
+ * Escaping and link checks for feed and AI text that ends up in HTML: exports, alert and
+ * digest emails, and app pages. Feed links are untrusted, so only http(s) URLs become links.
+ * Pure JavaScript so it runs on both the server and in the browser.
+ */
+
+/**
+ * Whether a URL is safe to link to, i.e. http(s) rather than javascript:, data: and the like
+ */
+export function isWebURL(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === "http:" || protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+export function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Link to a feed-supplied URL, or just the text when the URL isn't http(s)
+ */
+export function htmlLink(url: string, text: string, style?: string): string {
+  if (!isWebURL(url)) return escapeHTML(text)
+  return `<a href="${escapeHTML(url)}"${style ? ` style="${style}"` : ""}>${escapeHTML(text)}</a>`
+}
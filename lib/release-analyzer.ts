@@ -0,0 +1,391 @@
+import { z } from "zod"
+import { processPromptTemplate, type AIPrompts } from "./ai-prompts"
+import { alignHighlight } from "./highlight-alignment"
+import { DEAL_TYPES, extractFinancialFacts, mergeFinancialFacts, parseAmount, parseFiscalPeriod } from "./financial-facts"
+import type { FinancialFacts } from "./types"
+
+/**
+ * Release Analyzer
+ * Sends a press release to Claude, validates the JSON reply and turns it into a summary, key
+ * points and highlights positioned in the analyzed content. Shared by /api/analyze-release and the
+ * background analysis queue; also writes the per-company roll-ups of scheduled digests.
+ * Server-only: the caller supplies the decrypted API key.
+ */
+
+export const CLAUDE_MODEL = "claude-3-5-sonnet-20241022"
+
+const CLAUDE_API_URL = "https://api.anthropic.com/v1/messages"
+
+const HIGHLIGHT_TYPES = ["financial", "opportunity", "risk", "strategic"] as const
+
+// Shape Claude is asked to reply with; highlight types are matched case-insensitively
+const analysisReplySchema = z.object({
+  summary: z.string().trim().min(1),
+  keyPoints: z.array(z.string()).default([]),
+  highlights: z
+    .array(
+      z.object({
+        type: z.preprocess(
+          (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+          z.enum(HIGHLIGHT_TYPES),
+        ),
+        text: z.string().trim().min(1),
+        reasoning: z.string().optional(),
+      }),
+    )
+    .default([]),
+  // Requested by the default prompts; custom prompts may leave it out
+  financialFacts: z
+    .object({
+      dealType: z
+        .preprocess(
+          (value) => (typeof value === "string" ? value.trim().toLowerCase().replace(/[\s-]+/g, "_") : value),
+          z.enum(["none", ...DEAL_TYPES] as [string, ...string[]]),
+        )
+        .nullish(),
+      amount: z.string().nullish(),
+      counterparties: z.array(z.string()).default([]),
+      fiscalPeriod: z.string().nullish(),
+    })
+    .optional(),
+})
+
+export interface UnalignedHighlight {
+  type: (typeof HIGHLIGHT_TYPES)[number]
+  text: string
+  reasoning?: string
+}
+
+export interface AnalysisHighlight extends UnalignedHighlight {
+  start: number
+  end: number
+  matchScore?: number // 1 for an exact match, lower when the quote was aligned fuzzily
+}
+
+export interface ReleaseAnalysis {
+  summary: string
+  keyPoints: string[]
+  highlights: AnalysisHighlight[]
+  unalignedHighlights: UnalignedHighlight[] // Quoted text that couldn't be found in the content
+  financialFacts?: FinancialFacts // Rule-based facts refined by Claude, when it reported any
+  usage: {
+    inputTokens: number
+    outputTokens: number
+  }
+  formatError?: boolean // Reply failed validation even after a repair request; summary is a best-effort fallback
+}
+
+export interface ReleaseAnalysisInput {
+  title: string
+  content: string
+  companyName?: string
+  date?: string
+}
+
+/**
+ * Claude API request that failed, or never got a response (status 0)
+ */
+export class ClaudeAPIError extends Error {
+  status: number
+  retryAfter?: number // Seconds, from the Retry-After header
+
+  constructor(status: number, message: string, retryAfter?: number) {
+    super(message)
+    this.name = "ClaudeAPIError"
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+
+  /**
+   * Rate limits (429), overload (529), server errors and network failures clear up on their own
+   */
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500
+  }
+}
+
+/**
+ * User-facing message for a failed Claude request
+ */
+export function describeClaudeError(error: ClaudeAPIError): string {
+  if (error.status === 0) return "Network error: Unable to reach Claude API. Please check your connection."
+  if (error.status === 401) return "Invalid API key. Please check your Claude API key in settings."
+  if (error.status === 429) return "Rate limit exceeded. Please try again in a moment."
+  if (error.status === 400) return "Invalid request format. Please try again."
+  if (error.status === 529) return "Claude API is overloaded. Please try again later."
+  if (error.status >= 500) return "Claude API temporarily unavailable. Please try again later."
+  return "Analysis failed"
+}
+
+/**
+ * Analyze a press release with Claude
+ * The reply is validated against the analysis schema; an invalid reply gets one repair request
+ * before falling back to a best-effort summary. Highlights are aligned to the content to get
+ * their offsets, and the ones that can't be found are returned separately.
+ * @throws ClaudeAPIError when a request fails, Error when the prompt template can't be filled
+ */
+export async function analyzeRelease(
+  apiKey: string,
+  prompts: AIPrompts,
+  input: ReleaseAnalysisInput,
+): Promise<ReleaseAnalysis> {
+  let processedUserPrompt: string
+  try {
+    processedUserPrompt = processPromptTemplate(prompts.userPromptTemplate, input)
+  } catch (templateError) {
+    throw new Error(
+      `Template processing failed: ${templateError instanceof Error ? templateError.message : "Unknown error"}`,
+    )
+  }
+
+  const messages: ClaudeMessage[] = [{ role: "user", content: processedUserPrompt }]
+  const reply = await requestClaude(apiKey, prompts.systemPrompt, messages)
+  const usage = { ...reply.usage }
+
+  console.log("🔍 Raw Claude response:", reply.text.substring(0, 200) + "...")
+
+  let parsed = parseAnalysisReply(reply.text)
+
+  if (!parsed.success) {
+    console.warn(`⚠️ Claude reply failed validation, requesting a repair: ${parsed.issues.join("; ")}`)
+
+    const repair = await requestClaude(apiKey, prompts.systemPrompt, [
+      ...messages,
+      { role: "assistant", content: reply.text },
+      { role: "user", content: repairPrompt(parsed.issues) },
+    ])
+    usage.inputTokens += repair.usage.inputTokens
+    usage.outputTokens += repair.usage.outputTokens
+    parsed = parseAnalysisReply(repair.text)
+  }
+
+  if (!parsed.success) {
+    console.error("❌ Claude reply still invalid after repair:", parsed.issues.join("; "))
+
+    // Fallback: try to extract summary manually
+    const summaryMatch = reply.text.match(/summary['"]\s*:\s*['"]([^'"]+)['"]/i)
+    return {
+      summary: summaryMatch ? summaryMatch[1] : "Analysis completed but response formatting error occurred",
+      keyPoints: ["Analysis completed with formatting issues. Please try again."],
+      highlights: [],
+      unalignedHighlights: [],
+      usage,
+      formatError: true,
+    }
+  }
+
+  console.log("✅ Claude reply passed schema validation")
+
+  return {
+    summary: parsed.data.summary,
+    keyPoints: parsed.data.keyPoints,
+    ...alignHighlights(input.content, parsed.data.highlights),
+    financialFacts: refineFinancialFacts(input, parsed.data.financialFacts),
+    usage,
+  }
+}
+
+const ROLLUP_SYSTEM_PROMPT =
+  "You write briefings for investment professionals tracking companies. Given a company's recent press " +
+  "releases, write 2 to 4 sentences on what they add up to: the main developments, how they relate, and " +
+  "anything an analyst should follow up on. Only use facts from the releases. Reply with the plain text " +
+  "of the briefing, without a heading, bullet points or markdown."
+
+const MAX_ROLLUP_RELEASES = 20
+const ROLLUP_EXCERPT_LENGTH = 600
+const MAX_ROLLUP_LENGTH = 1200
+
+export interface CompanyRollupInput {
+  companyName: string
+  releases: Array<{ title: string; publishedAt: string; summary: string }>
+}
+
+/**
+ * Short roll-up across a company's releases for a digest
+ * @throws ClaudeAPIError when the request fails
+ */
+export async function summarizeCompanyReleases(
+  apiKey: string,
+  input: CompanyRollupInput,
+): Promise<{ text: string; usage: ReleaseAnalysis["usage"] }> {
+  const releases = input.releases
+    .slice(0, MAX_ROLLUP_RELEASES)
+    .map((release, index) => {
+      const excerpt = release.summary.replace(/\s+/g, " ").trim().substring(0, ROLLUP_EXCERPT_LENGTH)
+      return `${index + 1}. ${release.title} (${release.publishedAt.substring(0, 10)})${excerpt ? `\n${excerpt}` : ""}`
+    })
+    .join("\n\n")
+
+  const reply = await requestClaude(
+    apiKey,
+    ROLLUP_SYSTEM_PROMPT,
+    [{ role: "user", content: `Company: ${input.companyName}\n\nReleases:\n\n${releases}` }],
+    400,
+  )
+
+  const text = reply.text.replace(/^#+\s.*$/gm, "").replace(/\s+/g, " ").trim()
+  return {
+    text: text.length > MAX_ROLLUP_LENGTH ? `${text.substring(0, MAX_ROLLUP_LENGTH - 1)}…` : text,
+    usage: reply.usage,
+  }
+}
+
+interface ClaudeMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+interface ClaudeReply {
+  text: string
+  usage: ReleaseAnalysis["usage"]
+}
+
+async function requestClaude(
+  apiKey: string,
+  systemPrompt: string,
+  messages: ClaudeMessage[],
+  maxTokens: number = 2000,
+): Promise<ClaudeReply> {
+  let claudeResponse: Response
+  try {
+    claudeResponse = await fetch(CLAUDE_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: CLAUDE_MODEL,
+        max_tokens: maxTokens,
+        temperature: 0.3,
+        system: systemPrompt,
+        messages,
+      }),
+    })
+  } catch (fetchError) {
+    throw new ClaudeAPIError(0, fetchError instanceof Error ? fetchError.message : "Network error")
+  }
+
+  if (!claudeResponse.ok) {
+    const errorData = await claudeResponse.json().catch(() => ({}))
+    const retryAfter = Number(claudeResponse.headers.get("retry-after")) || undefined
+    console.error("❌ Claude API error:", claudeResponse.status, errorData)
+    throw new ClaudeAPIError(
+      claudeResponse.status,
+      errorData.error?.message || `Claude API returned ${claudeResponse.status}`,
+      retryAfter,
+    )
+  }
+
+  const claudeResult = await claudeResponse.json()
+  const text: string | undefined = claudeResult.content?.[0]?.text
+
+  if (!text) {
+    throw new Error("No analysis content received from Claude API")
+  }
+
+  return {
+    text,
+    usage: {
+      inputTokens: claudeResult.usage?.input_tokens || 0,
+      outputTokens: claudeResult.usage?.output_tokens || 0,
+    },
+  }
+}
+
+type ParsedReply =
+  | { success: true; data: z.infer<typeof analysisReplySchema> }
+  | { success: false; issues: string[] }
+
+/**
+ * Pull the JSON object out of a reply (Claude might wrap it in markdown) and validate it
+ */
+function parseAnalysisReply(text: string): ParsedReply {
+  const jsonMatch = text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    return { success: false, issues: ["no JSON object found"] }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(jsonMatch[0])
+  } catch (parseError) {
+    return { success: false, issues: [`invalid JSON: ${parseError instanceof Error ? parseError.message : "parse error"}`] }
+  }
+
+  const result = analysisReplySchema.safeParse(json)
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "reply"}: ${issue.message}`),
+    }
+  }
+
+  return { success: true, data: result.data }
+}
+
+function repairPrompt(issues: string[]): string {
+  return `Your reply could not be used because it does not match the required JSON format:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Reply again with only the corrected JSON object, in this format:
+{
+  "summary": "string",
+  "keyPoints": ["string"],
+  "highlights": [{ "type": "financial|opportunity|risk|strategic", "text": "exact text from press release", "reasoning": "string" }],
+  "financialFacts": { "dealType": "string or null", "amount": "string or null", "counterparties": ["string"], "fiscalPeriod": "string or null" }
+}`
+}
+
+/**
+ * Overlay the facts Claude reported on the rule-based extraction, reusing the rule parsers for its amount and period
+ */
+function refineFinancialFacts(
+  input: ReleaseAnalysisInput,
+  reported: z.infer<typeof analysisReplySchema>["financialFacts"],
+): FinancialFacts | undefined {
+  if (!reported) return undefined
+
+  const rules = extractFinancialFacts(input.title, input.content, input.date)
+  return mergeFinancialFacts(rules, {
+    dealType: reported.dealType && reported.dealType !== "none" ? (reported.dealType as FinancialFacts["dealType"]) : undefined,
+    amount: reported.amount ? parseAmount(reported.amount) : undefined,
+    counterparties: reported.counterparties.map((name) => name.trim()).filter(Boolean),
+    fiscalPeriod: reported.fiscalPeriod ? parseFiscalPeriod(reported.fiscalPeriod, input.date) : undefined,
+  })
+}
+
+/**
+ * Position each highlight in the content, keeping those that can't be located apart
+ */
+function alignHighlights(
+  content: string,
+  highlights: z.infer<typeof analysisReplySchema>["highlights"],
+): Pick<ReleaseAnalysis, "highlights" | "unalignedHighlights"> {
+  console.log(`🔍 Aligning ${highlights.length} highlights...`)
+  const aligned: AnalysisHighlight[] = []
+  const unaligned: UnalignedHighlight[] = []
+
+  for (const highlight of highlights) {
+    const alignment = alignHighlight(content, highlight.text)
+
+    if (!alignment) {
+      console.warn(`⚠️ Could not align highlight text to content: "${highlight.text.substring(0, 50)}..."`)
+      unaligned.push(highlight)
+      continue
+    }
+
+    // Use the original text from content, so offsets and text always agree
+    aligned.push({
+      type: highlight.type,
+      text: content.substring(alignment.start, alignment.end),
+      reasoning: highlight.reasoning,
+      start: alignment.start,
+      end: alignment.end,
+      matchScore: alignment.score,
+    })
+  }
+
+  return { highlights: aligned, unalignedHighlights: unaligned }
+}
@@ -0,0 +1,184 @@
+import type { CreateReleaseAnnotation } from "./types"
+
+/**
+ * Release Annotations
+ * Tag normalization and validation for notes and highlights, and placing highlighted passages
+ * back into the article when it's rendered. A highlight stores the selected text rather than
+ * offsets, since the extracted article can be re-extracted or shown as HTML or plain text; the
+ * passage is found again by its words, so differences in whitespace don't matter.
+ */
+
+export const MAX_TAG_LENGTH = 40
+export const MAX_NOTE_LENGTH = 5000
+export const MAX_QUOTE_LENGTH = 1000
+
+export interface PlaceableHighlight {
+  id: string
+  quote: string
+  comment?: string
+}
+
+export interface HighlightSegment {
+  text: string
+  highlight?: PlaceableHighlight
+}
+
+/**
+ * Tags are kept as typed, minus a leading "#" and extra whitespace; they compare case-insensitively
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").trim()
+}
+
+export function sameTag(a: string, b: string): boolean {
+  return normalizeTag(a).toLowerCase() === normalizeTag(b).toLowerCase()
+}
+
+/**
+ * @returns Error messages, empty when the tag is usable
+ */
+export function validateTag(tag: string): string[] {
+  const normalized = normalizeTag(tag)
+  if (!normalized) return ["Tag is required"]
+  if (normalized.length > MAX_TAG_LENGTH) return [`Tags must be ${MAX_TAG_LENGTH} characters or fewer`]
+  return []
+}
+
+export function normalizeQuote(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * @returns Error messages, empty when the annotation can be saved
+ */
+export function validateAnnotation(annotation: Partial<CreateReleaseAnnotation>): string[] {
+  const errors: string[] = []
+  const body = annotation.body?.trim() || ""
+
+  if (annotation.kind === "note" && !body) errors.push("Note text is required")
+  if (body.length > MAX_NOTE_LENGTH) errors.push(`Notes must be ${MAX_NOTE_LENGTH} characters or fewer`)
+
+  if (annotation.kind === "highlight") {
+    const quote = normalizeQuote(annotation.quote || "")
+    if (!quote) errors.push("Select text in the article to highlight")
+    else if (quote.length > MAX_QUOTE_LENGTH) {
+      errors.push(`Highlights must be ${MAX_QUOTE_LENGTH} characters or fewer; select a shorter passage`)
+    }
+  }
+
+  return errors
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// Characters that sanitized article HTML may leave as entities
+const HTML_ENTITY_ALTERNATIVES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "(?:\"|&quot;|&#34;)",
+  "'": "(?:'|&#39;|&#x27;|&apos;)",
+}
+
+/**
+ * Pattern matching the quote's words separated by any whitespace; in HTML text, words are matched
+ * in their escaped form and non-breaking spaces count as whitespace
+ */
+function quotePattern(quote: string, html: boolean): RegExp | null {
+  const words = normalizeQuote(quote).split(" ").filter(Boolean)
+  if (words.length === 0) return null
+
+  const wordPattern = (word: string) =>
+    html
+      ? Array.from(word)
+          .map((char) => HTML_ENTITY_ALTERNATIVES[char] || escapeRegExp(char))
+          .join("")
+      : escapeRegExp(word)
+  const separator = html ? "(?:\\s|&nbsp;|&#160;)+" : "\\s+"
+  return new RegExp(words.map(wordPattern).join(separator))
+}
+
+/**
+ * First match of each highlight, earliest saved first; a highlight overlapping one already placed is skipped
+ */
+function placeHighlights(text: string, highlights: PlaceableHighlight[], html: boolean) {
+  const ranges: Array<{ start: number; end: number; highlight: PlaceableHighlight }> = []
+
+  for (const highlight of highlights) {
+    const pattern = quotePattern(highlight.quote, html)
+    const match = pattern ? pattern.exec(text) : null
+    if (!match) continue
+
+    const start = match.index
+    const end = start + match[0].length
+    if (ranges.some((range) => start < range.end && end > range.start)) continue
+    ranges.push({ start, end, highlight })
+  }
+
+  return ranges.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Split plain text into runs, marking the runs that are highlighted
+ * @returns The runs and the ids of the highlights that were found
+ */
+export function segmentHighlights(
+  text: string,
+  highlights: PlaceableHighlight[]
+): { segments: HighlightSegment[]; placed: Set<string> } {
+  const segments: HighlightSegment[] = []
+  const placed = new Set<string>()
+  let position = 0
+
+  for (const range of placeHighlights(text, highlights, false)) {
+    if (range.start > position) segments.push({ text: text.slice(position, range.start) })
+    segments.push({ text: text.slice(range.start, range.end), highlight: range.highlight })
+    placed.add(range.highlight.id)
+    position = range.end
+  }
+
+  if (position < text.length || segments.length === 0) segments.push({ text: text.slice(position) })
+  return { segments, placed }
+}
+
+/**
+ * Wrap highlighted passages in sanitized article HTML with <mark> elements. Passages are matched
+ * within one run of text between tags, so a selection across a link or bold text isn't marked
+ * inline and is only listed with the annotations.
+ * @returns The HTML and the ids of the highlights that were marked
+ */
+export function markHighlightsInHTML(
+  html: string,
+  highlights: PlaceableHighlight[]
+): { html: string; placed: Set<string> } {
+  const placed = new Set<string>()
+  const parts = html.split(/(<[^>]*>)/)
+
+  const marked = parts.map((part) => {
+    if (part.startsWith("<") || !part.trim()) return part
+
+    const remaining = highlights.filter((highlight) => !placed.has(highlight.id))
+    if (remaining.length === 0) return part
+
+    let result = ""
+    let position = 0
+    for (const range of placeHighlights(part, remaining, true)) {
+      const { id, comment } = range.highlight
+      result += part.slice(position, range.start)
+      result += `<mark class="highlight-user" data-annotation-id="${escapeHTML(id)}"${
+        comment ? ` title="${escapeHTML(comment)}"` : ""
+      }>${part.slice(range.start, range.end)}</mark>`
+      placed.add(id)
+      position = range.end
+    }
+    return result + part.slice(position)
+  })
+
+  return { html: marked.join(""), placed }
+}
@@ -0,0 +1,275 @@
+import type { DealType, ReleaseExportFilters, ReleaseExportFormat } from "./types"
+import { DEAL_TYPE_LABELS, DEAL_TYPES } from "./financial-facts"
+import { describeSearchFilters, fromSearchParams, toSearchParams } from "./release-search"
+import { escapeHTML, htmlLink, isWebURL } from "./markup"
+
+/**
+ * Release Export
+ * Encoding of the activity feed view for /api/export-releases and the files it produces:
+ * CSV and JSON for spreadsheets and scripts, and a digest grouped by company as Markdown or
+ * as HTML that prints cleanly and keeps its formatting when pasted into an email.
+ */
+
+export const MAX_EXPORT_RELEASES = 500
+
+export const EXPORT_FORMATS: Record<ReleaseExportFormat, { label: string; extension: string; contentType: string }> = {
+  csv: { label: "CSV", extension: "csv", contentType: "text/csv; charset=utf-8" },
+  json: { label: "JSON", extension: "json", contentType: "application/json; charset=utf-8" },
+  markdown: { label: "Markdown digest", extension: "md", contentType: "text/markdown; charset=utf-8" },
+  html: { label: "Printable digest", extension: "html", contentType: "text/html; charset=utf-8" },
+}
+
+export const EMPTY_EXPORT_FILTERS: ReleaseExportFilters = {
+  query: "",
+  companyIds: [],
+  bookmarkedOnly: false,
+  dealType: "any",
+  minAmount: 0,
+}
+
+// One release as exported
+export interface ExportedRelease {
+  id: string
+  title: string
+  company: string
+  publishedAt: string
+  sourceUrl: string
+  categories: string[] // Topic categories the release matched
+  tags: string[]
+  summary: string // Excerpt from the feed
+  aiSummary?: string
+  keyPoints: string[]
+}
+
+export interface ExportMeta {
+  view: string // Description of the filters, e.g. "Acme · Past week · Bookmarked"
+  generatedAt: Date
+}
+
+const CSV_COLUMNS = ["Title", "Company", "Published", "Source URL", "Categories", "Tags", "AI Summary", "Key Points"]
+
+export function isExportFormat(value: unknown): value is ReleaseExportFormat {
+  return typeof value === "string" && value in EXPORT_FORMATS
+}
+
+/**
+ * Encode the view and format for /api/export-releases
+ */
+export function toExportParams(filters: ReleaseExportFilters, format: ReleaseExportFormat): URLSearchParams {
+  const params = toSearchParams({ ...filters, feedTypes: [] })
+  params.set("format", format)
+  if (filters.companyIds.length > 0) params.set("companyIds", filters.companyIds.join(","))
+  if (filters.topicTaxonomyId) params.set("topic", filters.topicTaxonomyId)
+  if (filters.bookmarkedOnly) params.set("bookmarked", "1")
+  if (filters.tag) params.set("tag", filters.tag)
+  if (filters.dealType !== "any") params.set("dealType", filters.dealType)
+  if (filters.minAmount > 0) params.set("minAmount", String(filters.minAmount))
+  return params
+}
+
+/**
+ * Decode a view sent by toExportParams, dropping values that aren't valid
+ */
+export function fromExportParams(params: URLSearchParams): ReleaseExportFilters {
+  const { query, sinceDays, from, to } = fromSearchParams(params)
+  const dealType = params.get("dealType")
+  const minAmount = Number(params.get("minAmount"))
+
+  return {
+    query,
+    sinceDays,
+    from,
+    to,
+    companyIds: (params.get("companyIds") || "").split(",").filter(Boolean),
+    topicTaxonomyId: params.get("topic") || undefined,
+    bookmarkedOnly: params.get("bookmarked") === "1",
+    tag: params.get("tag")?.trim() || undefined,
+    dealType: DEAL_TYPES.includes(dealType as DealType) ? (dealType as DealType) : "any",
+    minAmount: Number.isFinite(minAmount) && minAmount > 0 ? minAmount : 0,
+  }
+}
+
+/**
+ * Description of the view for the digest heading, e.g. "Acme · Past week · Bookmarked"
+ */
+export function describeExportView(
+  filters: ReleaseExportFilters,
+  names: { companies?: string[]; topic?: string } = {}
+): string {
+  const parts: string[] = []
+  if (names.companies && names.companies.length > 0) parts.push(names.companies.join(", "))
+  if (names.topic) parts.push(names.topic)
+  if (filters.query.trim()) parts.push(`"${filters.query.trim()}"`)
+  const dates = describeSearchFilters({ ...filters, feedTypes: [] })
+  if (dates) parts.push(dates)
+  if (filters.dealType !== "any") parts.push(DEAL_TYPE_LABELS[filters.dealType])
+  if (filters.minAmount > 0) parts.push(`${formatCompactAmount(filters.minAmount)}+`)
+  if (filters.bookmarkedOnly) parts.push("Bookmarked")
+  if (filters.tag) parts.push(`Tagged "${filters.tag}"`)
+  return parts.join(" · ") || "All releases"
+}
+
+export function exportFilename(format: ReleaseExportFormat, date: Date = new Date()): string {
+  return `cignal-releases-${date.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`
+}
+
+export function renderExport(format: ReleaseExportFormat, releases: ExportedRelease[], meta: ExportMeta): string {
+  switch (format) {
+    case "csv":
+      return toCSV(releases)
+    case "json":
+      return toJSONExport(releases, meta)
+    case "markdown":
+      return toMarkdownDigest(releases, meta)
+    case "html":
+      return toHTMLDigest(releases, meta)
+  }
+}
+
+/**
+ * One row per release. Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export function toCSV(releases: ExportedRelease[]): string {
+  const rows = releases.map((release) => [
+    release.title,
+    release.company,
+    release.publishedAt,
+    release.sourceUrl,
+    release.categories.join("; "),
+    release.tags.join("; "),
+    release.aiSummary || "",
+    release.keyPoints.join("; "),
+  ])
+  return "\uFEFF" + [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
+
+export function toJSONExport(releases: ExportedRelease[], meta: ExportMeta): string {
+  return JSON.stringify(
+    { view: meta.view, exportedAt: meta.generatedAt.toISOString(), count: releases.length, releases },
+    null,
+    2
+  )
+}
+
+export function toMarkdownDigest(releases: ExportedRelease[], meta: ExportMeta): string {
+  const lines = [
+    "# Cignal digest",
+    "",
+    `_${escapeMarkdownText(meta.view)} · ${countLabel(releases.length)} · ${formatDate(meta.generatedAt.toISOString())}_`,
+  ]
+
+  for (const [company, companyReleases] of groupByCompany(releases)) {
+    lines.push("", `## ${escapeMarkdownText(company)} (${companyReleases.length})`)
+    for (const release of companyReleases) {
+      const details = [formatDate(release.publishedAt), ...release.categories]
+      if (release.tags.length > 0) details.push(`Tags: ${release.tags.join(", ")}`)
+
+      const title = escapeMarkdownText(release.title)
+      lines.push("", `### ${isWebURL(release.sourceUrl) ? `[${title}](${escapeMarkdownLinkURL(release.sourceUrl)})` : title}`)
+      lines.push(escapeMarkdownText(details.join(" · ")))
+      const summary = release.aiSummary || release.summary
+      if (summary) lines.push("", escapeMarkdownText(summary))
+      if (release.keyPoints.length > 0) {
+        lines.push("", ...release.keyPoints.map((point) => `- ${escapeMarkdownText(point)}`))
+      }
+    }
+  }
+
+  if (releases.length === 0) lines.push("", "No releases match this view.")
+  return lines.join("\n") + "\n"
+}
+
+/**
+ * Standalone page with inline styles, since email clients drop stylesheets when it's pasted
+ */
+export function toHTMLDigest(releases: ExportedRelease[], meta: ExportMeta): string {
+  const body: string[] = [
+    `<h1 style="font-size:22px;margin:0 0 4px">Cignal digest</h1>`,
+    `<p style="color:#666;font-size:13px;margin:0 0 24px">${escapeHTML(meta.view)} · ${countLabel(releases.length)} · ${formatDate(meta.generatedAt.toISOString())}</p>`,
+  ]
+
+  for (const [company, companyReleases] of groupByCompany(releases)) {
+    body.push(
+      `<h2 style="font-size:18px;border-bottom:1px solid #ddd;padding-bottom:4px;margin:24px 0 12px">${escapeHTML(company)} (${companyReleases.length})</h2>`
+    )
+    for (const release of companyReleases) {
+      const details = [formatDate(release.publishedAt), ...release.categories]
+      if (release.tags.length > 0) details.push(`Tags: ${release.tags.join(", ")}`)
+      const summary = release.aiSummary || release.summary
+
+      body.push(
+        `<div style="margin:0 0 16px;page-break-inside:avoid">`,
+        `<h3 style="font-size:15px;margin:0 0 2px">${htmlLink(release.sourceUrl, release.title, "color:#1a56db")}</h3>`,
+        `<p style="color:#666;font-size:12px;margin:0 0 6px">${escapeHTML(details.join(" · "))}</p>`,
+        summary ? `<p style="font-size:14px;margin:0 0 6px">${escapeHTML(summary)}</p>` : "",
+        release.keyPoints.length > 0
+          ? `<ul style="font-size:14px;margin:0;padding-left:20px">${release.keyPoints.map((point) => `<li>${escapeHTML(point)}</li>`).join("")}</ul>`
+          : "",
+        `</div>`
+      )
+    }
+  }
+
+  if (releases.length === 0) body.push(`<p style="font-size:14px">No releases match this view.</p>`)
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>Cignal digest · ${escapeHTML(meta.view)}</title>`,
+    "</head>",
+    '<body style="font-family:-apple-system,BlinkMacSystemFont,Segoe UI,Helvetica,Arial,sans-serif;color:#111;max-width:760px;margin:32px auto;padding:0 16px">',
+    ...body.filter(Boolean),
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Companies in alphabetical order, each with its releases in the order given
+ */
+function groupByCompany(releases: ExportedRelease[]): Array<[string, ExportedRelease[]]> {
+  const groups = new Map<string, ExportedRelease[]>()
+  for (const release of releases) {
+    groups.set(release.company, [...(groups.get(release.company) || []), release])
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b))
+}
+
+// Quote every cell, and keep spreadsheets from running cells that look like formulas
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return `"${safe.replace(/"/g, '""')}"`
+}
+
+// Feed and AI text stays plain text on one line: no links, images, inline HTML or headings of its own
+function escapeMarkdownText(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/([\\`*_[\]<>])/g, "\\$1")
+    .replace(/^([#>+=-]|\d+[.)])/, "\\$1")
+}
+
+function escapeMarkdownLinkURL(url: string): string {
+  return url.replace(/\(/g, "%28").replace(/\)/g, "%29").replace(/\s/g, "%20")
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return iso
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+function formatCompactAmount(value: number): string {
+  if (value >= 1e9) return `${value / 1e9}B`
+  if (value >= 1e6) return `${value / 1e6}M`
+  if (value >= 1e3) return `${value / 1e3}K`
+  return String(value)
+}
+
+function countLabel(count: number): string {
+  return `${count} ${count === 1 ? "release" : "releases"}`
+}
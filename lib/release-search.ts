@@ -0,0 +1,124 @@
+import type { ReleaseSearchFilters, SearchFeedType } from "./types"
+
+/**
+ * Release Search
+ * Query syntax, date ranges and URL encoding for full-text search over stored releases.
+ * The search itself runs in Postgres (search_press_releases, see scripts/add-release-search.sql),
+ * which understands web search syntax: words are ANDed, "quoted phrases", OR and -excluded terms.
+ */
+
+export const EMPTY_SEARCH_FILTERS: ReleaseSearchFilters = { query: "", feedTypes: [] }
+
+export const SEARCH_FEED_TYPE_LABELS: Record<SearchFeedType, string> = {
+  "ir-news": "IR News",
+  "sec-filings": "SEC Filings",
+  "general-news": "General News",
+  "google-news": "Google News",
+  industry: "Industry",
+  custom: "Custom",
+  general: "Built-in Feeds",
+}
+
+export const SEARCH_FEED_TYPES = Object.keys(SEARCH_FEED_TYPE_LABELS) as SearchFeedType[]
+
+// Relative ranges offered by the date filter
+export const SEARCH_DATE_PRESETS = [
+  { days: 1, label: "Past day" },
+  { days: 7, label: "Past week" },
+  { days: 30, label: "Past month" },
+  { days: 90, label: "Past 3 months" },
+]
+
+export const MAX_SEARCH_RESULTS = 100
+
+/**
+ * Rewrite AND / NOT operators into the web search syntax Postgres expects
+ * ("a AND b" is already "a b", "NOT b" becomes "-b"); quoted phrases are left alone.
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .split(/("[^"]*"?)/)
+    .map((part) => {
+      if (part.startsWith('"')) return part.endsWith('"') && part.length > 1 ? part : `${part}"`
+      return part
+        .replace(/\bAND\b/g, " ")
+        .replace(/\bNOT\s+(?=\S)/g, "-")
+        .replace(/&&/g, " ")
+        .replace(/\|\|/g, " OR ")
+    })
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/**
+ * Whether any filter is set, i.e. the feed should show search results
+ */
+export function isSearchActive(filters: ReleaseSearchFilters): boolean {
+  return Boolean(filters.query.trim() || filters.sinceDays || filters.from || filters.to || filters.feedTypes.length)
+}
+
+/**
+ * Timestamps bounding the search; custom dates cover whole days in UTC
+ */
+export function searchDateRange(filters: ReleaseSearchFilters, now: Date = new Date()): { from?: string; to?: string } {
+  if (filters.sinceDays) {
+    return { from: new Date(now.getTime() - filters.sinceDays * 24 * 60 * 60 * 1000).toISOString() }
+  }
+  return {
+    from: filters.from ? `${filters.from}T00:00:00.000Z` : undefined,
+    to: filters.to ? `${filters.to}T23:59:59.999Z` : undefined,
+  }
+}
+
+/**
+ * Encode filters for /api/search-releases
+ */
+export function toSearchParams(filters: ReleaseSearchFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.query.trim()) params.set("q", filters.query.trim())
+  if (filters.sinceDays) params.set("sinceDays", String(filters.sinceDays))
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  if (filters.feedTypes.length > 0) params.set("feedTypes", filters.feedTypes.join(","))
+  return params
+}
+
+/**
+ * Decode filters sent by toSearchParams, dropping values that aren't valid
+ */
+export function fromSearchParams(params: URLSearchParams): ReleaseSearchFilters {
+  const isDate = (value: string | null): value is string => Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value))
+  const sinceDays = Number(params.get("sinceDays"))
+  const from = params.get("from")
+  const to = params.get("to")
+
+  return {
+    query: (params.get("q") || "").slice(0, 500),
+    sinceDays: Number.isInteger(sinceDays) && sinceDays > 0 ? sinceDays : undefined,
+    from: isDate(from) ? from : undefined,
+    to: isDate(to) ? to : undefined,
+    feedTypes: (params.get("feedTypes") || "")
+      .split(",")
+      .filter((type): type is SearchFeedType => SEARCH_FEED_TYPES.includes(type as SearchFeedType)),
+  }
+}
+
+/**
+ * Short description of the filters besides the query, e.g. "Past week · SEC Filings"
+ */
+export function describeSearchFilters(filters: ReleaseSearchFilters): string {
+  const parts: string[] = []
+  const preset = SEARCH_DATE_PRESETS.find((option) => option.days === filters.sinceDays)
+  if (preset) {
+    parts.push(preset.label)
+  } else if (filters.sinceDays) {
+    parts.push(`Past ${filters.sinceDays} days`)
+  } else if (filters.from || filters.to) {
+    parts.push(`${filters.from || "…"} to ${filters.to || "today"}`)
+  }
+  if (filters.feedTypes.length > 0) {
+    parts.push(filters.feedTypes.map((type) => SEARCH_FEED_TYPE_LABELS[type]).join(", "))
+  }
+  return parts.join(" · ")
+}
@@ -40,6 +40,35 @@ export function getFeedsForCompanies(companyNames: string[]): Array<RSSFeed & {
   return feeds
 }
 
+// Build a Google News RSS search URL that matches a company's name or any of its variations
+export function buildGoogleNewsSearchUrl(company: { name: string; variations?: string[] }): string {
+  const terms = Array.from(
+    new Set([company.name, ...(company.variations || [])].map((term) => term.trim()).filter(Boolean)),
+  )
+  const query = terms.map((term) => `"${term.replace(/"/g, "")}"`).join(" OR ")
+
+  const params = new URLSearchParams({
+    q: terms.length > 1 ? `(${query})` : query,
+    hl: "en-US",
+    gl: "US",
+    ceid: "US:en",
+  })
+
+  return `https://news.google.com/rss/search?${params.toString()}`
+}
+
+const GOOGLE_NEWS_HOSTS = ["news.google.com", "news.url.google.com"]
+
+// Check whether a URL is a Google News redirect link
+export function isGoogleNewsUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url)
+    return GOOGLE_NEWS_HOSTS.includes(hostname) || (hostname === "www.google.com" && url.includes("/url?"))
+  } catch {
+    return false
+  }
+}
+
 // Helper function to get display name for a feed source
 export function getFeedDisplayName(sourceName: string, feedType: string): string {
   const source = RSS_SOURCES[sourceName]
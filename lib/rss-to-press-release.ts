@@ -9,6 +9,19 @@ interface RSSItem {
   matchedCompany?: string
 }
 
+/**
+ * Derive an id for a live RSS item from its link (32-bit FNV-1a). Bookmarks, read status and tags
+ * made on the live copy of a stored release are kept under this id.
+ */
+export function stableRSSItemId(link: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < link.length; i++) {
+    hash ^= link.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return `rss-${(hash >>> 0).toString(36)}`
+}
+
 export function convertRSSItemToPressRelease(item: RSSItem, companyId: string, index: number): PressRelease {
   // Generate a unique ID based on the link
   const id = `rss-${btoa(item.link)
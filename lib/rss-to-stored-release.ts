@@ -1,13 +1,20 @@
-import type { CreateStoredPressRelease } from './types'
+import type { CreateStoredPressRelease, SECFiling } from './types'
 import { generateContentHash } from './content-hash'
+import type { ParsedFeed } from './feed-parser'
+import { isEdgarUrl, feedToFilingItems } from './sec-edgar'
+import { generateSimHash } from './story-clusters'
+import { extractFinancialFacts } from './financial-facts'
+import { isWebURL } from './markup'
 
-interface RSSItem {
+export interface RSSItem {
   title: string
   description: string
   pubDate: string
   link: string
   companyMentions: string[]
   matchedCompany?: string
+  filing?: SECFiling
+  undated?: boolean // The feed gave no date for the item, so pubDate is a fallback
 }
 
 /**
@@ -30,8 +37,13 @@ export function convertRSSItemToStoredRelease(
     ? cleanContent.substring(0, 197) + '...'
     : cleanContent
   
-  // Generate content hash for deduplication
-  const contentHash = generateContentHash(cleanTitle, cleanContent, item.pubDate)
+  // Generate content hash for deduplication; a fallback date would change between polls, so it's left out
+  const contentHash = generateContentHash(
+    cleanTitle,
+    cleanContent,
+    item.pubDate,
+    item.undated ? { includeTitle: true, includeContent: true, includePublishedAt: false } : undefined
+  )
   
   // Normalize the published date
   const publishedAt = new Date(item.pubDate).toISOString()
@@ -45,6 +57,9 @@ export function convertRSSItemToStoredRelease(
     publishedAt,
     contentHash,
     rssSourceUrl,
+    filing: item.filing,
+    simhash: generateSimHash(cleanTitle, cleanContent) || undefined,
+    financialFacts: extractFinancialFacts(cleanTitle, cleanContent, publishedAt),
   }
 }
 
@@ -59,6 +74,56 @@ export function convertRSSItemsToStoredReleases(
   return items.map(item => convertRSSItemToStoredRelease(item, companyId, rssSourceUrl))
 }
 
+function isValidDate(date: string | undefined): date is string {
+  return !!date && !isNaN(Date.parse(date))
+}
+
+/**
+ * Absolute http(s) URL of an item link, resolved against the feed URL
+ * @returns null for links that don't resolve or use another scheme, like javascript:
+ */
+function resolveItemLink(link: string, baseUrl?: string): string | null {
+  try {
+    const url = new URL(link, baseUrl).toString()
+    return isWebURL(url) ? url : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Flatten a parsed feed into RSS items, stripping HTML and resolving relative links. Items
+ * without a date fall back to the feed's updated date, or now, and are marked undated.
+ */
+export function feedToRSSItems(feed: ParsedFeed, feedUrl?: string): RSSItem[] {
+  const fallbackDate = isValidDate(feed.updated) ? feed.updated : new Date().toISOString()
+  const items: RSSItem[] = []
+
+  for (const item of feed.items) {
+    const link = item.link && resolveItemLink(item.link, feedUrl || feed.link)
+    if (!item.title || !link) continue
+
+    const dated = isValidDate(item.pubDate)
+    items.push({
+      title: item.title,
+      description: (item.description || item.content || item.title).replace(/<[^>]*>/g, '').trim(),
+      pubDate: dated ? item.pubDate : fallbackDate,
+      link,
+      companyMentions: [],
+      ...(!dated && { undated: true }),
+    })
+  }
+
+  return items
+}
+
+/**
+ * Items for a fetched feed, parsing EDGAR feeds into filings and dropping untracked form types
+ */
+export function feedItemsForUrl(feed: ParsedFeed, feedUrl: string): RSSItem[] {
+  return isEdgarUrl(feedUrl) ? feedToFilingItems(feed) : feedToRSSItems(feed, feedUrl)
+}
+
 /**
  * Validate RSS item has required fields
  */
@@ -1,12 +1,17 @@
-import type { RSSValidationResult, RSSSource } from './types'
+import type { RSSSource } from './types'
 
 /**
  * RSS Feed Validation Utilities
- * Provides validation, testing, and type detection for RSS feeds
+ * Provides validation and type detection for RSS feeds. Safe to use in the browser;
+ * connectivity testing fetches the feed and lives in feed-fetcher (server-only).
  */
 
 // Common RSS feed URL patterns for auto-detection
+// Google News comes first because its host would otherwise match the ir-news "news." pattern
 const RSS_PATTERNS = {
+  'google-news': [
+    /news\.google\.com\/rss/i,
+  ],
   'ir-news': [
     /investor[s]?\..*\/rss/i,
     /ir\..*\/rss/i,
@@ -110,103 +115,6 @@ function extractDomainName(url: string): string {
   }
 }
 
-/**
- * Tests RSS feed connectivity and parses basic info
- * This is a client-side validation - for full testing, use the API endpoint
- */
-export async function testRSSConnectivity(
-  url: string,
-  timeout = 10000
-): Promise<RSSValidationResult> {
-  // First validate the URL format
-  const urlValidation = validateRSSUrl(url)
-  if (!urlValidation.valid) {
-    return {
-      valid: false,
-      error: urlValidation.error
-    }
-  }
-  
-  try {
-    // Check if we're running in browser or server
-    const isServer = typeof window === 'undefined'
-    
-    // Use fetch with timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
-    
-    const fetchOptions: RequestInit = {
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/rss+xml, application/xml, text/xml, */*',
-        'User-Agent': 'Mozilla/5.0 (compatible; RSS-Validator/1.0)',
-      },
-    }
-    
-    // Only add no-cors mode in browser environment
-    if (!isServer) {
-      fetchOptions.mode = 'no-cors'
-    }
-    
-    const response = await fetch(url, fetchOptions)
-    
-    clearTimeout(timeoutId)
-    
-    // For no-cors mode in browser, we can't read the response but can check if it loaded
-    if (!isServer && response.type === 'opaque') {
-      // Request succeeded but we can't read content due to CORS
-      return {
-        valid: true,
-        title: suggestFeedName(url),
-        detectedType: detectRSSFeedType(url),
-        error: 'Feed accessible but content validation requires server-side testing'
-      }
-    }
-    
-    if (!response.ok) {
-      return {
-        valid: false,
-        error: `HTTP ${response.status}: ${response.statusText}`
-      }
-    }
-    
-    // Try to parse the response if we can read it
-    const contentType = response.headers.get('content-type') || ''
-    if (!contentType.includes('xml') && !contentType.includes('rss') && !contentType.includes('atom')) {
-      console.warn('Response may not be XML/RSS format:', contentType)
-    }
-    
-    const text = await response.text()
-    const itemCount = (text.match(/<item[\s>]/g) || []).length +
-                     (text.match(/<entry[\s>]/g) || []).length
-    
-    // Extract title if possible (handle both RSS and Atom feeds)
-    const titleMatch = text.match(/<title[^>]*>([^<]+)<\/title>/i) ||
-                      text.match(/<title[^>]*>(.*?)<\/title>/is)
-    const title = titleMatch ? titleMatch[1].trim() : undefined
-    
-    return {
-      valid: true,
-      title: suggestFeedName(url, title),
-      description: `Found ${itemCount} items`,
-      itemCount,
-      detectedType: detectRSSFeedType(url)
-    }
-    
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return { valid: false, error: 'Request timeout - feed took too long to respond' }
-      }
-      if (error.message.includes('fetch')) {
-        return { valid: false, error: 'Unable to connect to feed - please check the URL' }
-      }
-      return { valid: false, error: error.message }
-    }
-    return { valid: false, error: 'Unknown error testing feed' }
-  }
-}
-
 /**
  * Validates RSS source data before saving
  */
@@ -231,7 +139,7 @@ export function validateRSSSourceData(data: {
   }
   
   // Validate type
-  const validTypes = ['ir-news', 'sec-filings', 'general-news', 'industry', 'custom']
+  const validTypes = ['ir-news', 'sec-filings', 'general-news', 'google-news', 'industry', 'custom']
   if (!validTypes.includes(data.feedType)) {
     errors.push('Invalid feed type')
   }
@@ -0,0 +1,317 @@
+import http from 'http'
+import https from 'https'
+import dns from 'dns'
+import net from 'net'
+import zlib from 'zlib'
+
+/**
+ * Safe Fetch
+ * Outbound HTTP client for user-supplied URLs (feeds, article pages). Every connection,
+ * including each redirect hop, is checked against private, loopback, link-local and other
+ * non-public address ranges at DNS lookup time, so rebinding a hostname between check and
+ * connect does not help. Responses are capped in size and can be restricted by content type.
+ * Server-only: never import this from client components.
+ */
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD' | 'POST'
+  headers?: Record<string, string>
+  body?: string // Sent with POST; dropped when a redirect turns the request into a GET
+  timeout?: number // Whole request including redirects, in ms
+  maxRedirects?: number
+  followRedirects?: boolean // When false, 3xx responses are returned to the caller
+  maxBytes?: number // Decompressed body size limit
+  allowedContentTypes?: readonly string[] // Substrings of the media type; responses without a Content-Type pass
+  allowPrivateNetwork?: boolean // Skip the address checks, only for operator-configured local endpoints
+}
+
+export interface SafeResponse {
+  url: string // Final URL after redirects
+  status: number
+  statusText: string
+  ok: boolean
+  headers: Headers
+  body: string
+  bytes: number
+  redirectChain: string[]
+}
+
+export type SafeFetchErrorCode =
+  | 'invalid-url'
+  | 'blocked-address'
+  | 'too-many-redirects'
+  | 'response-too-large'
+  | 'content-type'
+  | 'timeout'
+
+/**
+ * Request refused or aborted by the safe fetch policy
+ */
+export class SafeFetchError extends Error {
+  code: SafeFetchErrorCode
+
+  constructor(code: SafeFetchErrorCode, message: string) {
+    super(message)
+    this.name = 'SafeFetchError'
+    this.code = code
+  }
+}
+
+const DEFAULT_TIMEOUT = 15000
+const DEFAULT_MAX_REDIRECTS = 5
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024 // 5 MB
+
+export const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'] as const
+export const FEED_CONTENT_TYPES = ['xml', 'rss', 'atom', 'text/'] as const
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+// Ranges that must never be reachable from user-supplied URLs
+const BLOCKED_RANGES = new net.BlockList()
+;([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+] as Array<[string, number]>).forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4'))
+;([
+  ['::', 96], // Unspecified and the deprecated IPv4-compatible form (::a.b.c.d)
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 can reach IPv4 private ranges
+  ['2001:db8::', 32],
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as Array<[string, number]>).forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6'))
+
+/**
+ * Whether an IP address is outside the public internet (IPv4-mapped IPv6 is checked as IPv4)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 0) return true
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * DNS lookup that fails when any resolved address is private, used for every socket we open
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0)
+
+    const list = addresses as dns.LookupAddress[]
+    const blocked = list.find((entry) => isPrivateAddress(entry.address))
+    if (blocked || list.length === 0) {
+      const reason = blocked ? `resolves to non-public address ${blocked.address}` : 'has no addresses'
+      return callback(new SafeFetchError('blocked-address', `Host ${hostname} ${reason}`), '', 0)
+    }
+
+    if (options.all) {
+      ;(callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list)
+    } else {
+      callback(null, list[0].address, list[0].family)
+    }
+  })
+}
+
+/**
+ * Parse a URL and reject anything that is not http(s) to a public host
+ * @throws SafeFetchError
+ */
+export function assertPublicUrl(url: string, allowPrivateNetwork: boolean = false): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new SafeFetchError('invalid-url', `Invalid URL: ${url}`)
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new SafeFetchError('invalid-url', `Unsupported protocol: ${parsed.protocol}`)
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new SafeFetchError('invalid-url', 'URLs with credentials are not allowed')
+  }
+
+  // Literal IPs never go through DNS lookup, so check them here
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (!allowPrivateNetwork && net.isIP(host) && isPrivateAddress(host)) {
+    throw new SafeFetchError('blocked-address', `Address ${host} is not publicly routable`)
+  }
+
+  return parsed
+}
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === undefined) continue
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v)
+  }
+  return headers
+}
+
+function decodedStream(response: http.IncomingMessage): NodeJS.ReadableStream {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip())
+    case 'deflate':
+      return response.pipe(zlib.createInflate())
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress())
+    default:
+      return response
+  }
+}
+
+function isAllowedContentType(contentType: string | undefined, allowed?: readonly string[]): boolean {
+  if (!allowed || !contentType) return true
+  const mediaType = contentType.split(';')[0].trim().toLowerCase()
+  return allowed.some((type) => mediaType.includes(type))
+}
+
+interface HopResult {
+  response: http.IncomingMessage
+  request: http.ClientRequest
+}
+
+function requestOnce(url: URL, options: SafeFetchOptions, signal: AbortSignal): Promise<HopResult> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const request = client.request(url, {
+      method: options.method || 'GET',
+      headers: {
+        'Accept-Encoding': 'gzip, deflate, br',
+        ...options.headers,
+      },
+      lookup: options.allowPrivateNetwork ? undefined : safeLookup,
+      agent: false,
+      signal,
+    })
+
+    request.on('response', (response) => resolve({ response, request }))
+    request.on('error', reject)
+    request.end(options.method === 'POST' ? options.body : undefined)
+  })
+}
+
+function readBody(hop: HopResult, maxBytes: number): Promise<{ body: string; bytes: number }> {
+  const declared = Number(hop.response.headers['content-length'])
+  if (!hop.response.headers['content-encoding'] && declared > maxBytes) {
+    hop.request.destroy()
+    return Promise.reject(new SafeFetchError('response-too-large', `Response is ${declared} bytes, limit is ${maxBytes}`))
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let bytes = 0
+    const stream = decodedStream(hop.response)
+
+    stream.on('data', (chunk: Buffer) => {
+      bytes += chunk.length
+      if (bytes > maxBytes) {
+        hop.request.destroy()
+        reject(new SafeFetchError('response-too-large', `Response exceeded ${maxBytes} bytes`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('end', () => resolve({ body: Buffer.concat(chunks).toString('utf8'), bytes }))
+    stream.on('error', reject)
+    hop.response.on('error', reject)
+  })
+}
+
+/**
+ * Fetch a user-supplied URL with SSRF protection, following redirects by hand so each
+ * hop is re-validated
+ * @throws SafeFetchError when the policy refuses the request, or network errors
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const timeout = options.timeout || DEFAULT_TIMEOUT
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+  const maxBytes = options.maxBytes || DEFAULT_MAX_BYTES
+  const followRedirects = options.followRedirects ?? true
+
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new SafeFetchError('timeout', `Request timed out after ${timeout}ms`)),
+    timeout
+  )
+
+  const redirectChain: string[] = []
+  let currentUrl = assertPublicUrl(url, options.allowPrivateNetwork)
+  let method = options.method || 'GET'
+
+  try {
+    for (let hop = 0; ; hop++) {
+      let result: HopResult
+      try {
+        result = await requestOnce(currentUrl, { ...options, method }, controller.signal)
+      } catch (error) {
+        // Aborts surface as AbortError, report the reason instead
+        if (controller.signal.aborted && controller.signal.reason instanceof SafeFetchError) {
+          throw controller.signal.reason
+        }
+        throw error
+      }
+
+      const { response } = result
+      const status = response.statusCode || 0
+      const location = response.headers.location
+
+      if (followRedirects && REDIRECT_STATUSES.has(status) && location) {
+        result.request.destroy()
+
+        if (hop >= maxRedirects) {
+          throw new SafeFetchError('too-many-redirects', `Too many redirects (>${maxRedirects})`)
+        }
+
+        currentUrl = assertPublicUrl(new URL(location, currentUrl).toString(), options.allowPrivateNetwork)
+        redirectChain.push(currentUrl.toString())
+        // Like browsers, only 307 and 308 repeat a POST
+        if (status === 303 || (method === 'POST' && status !== 307 && status !== 308)) method = 'GET'
+        continue
+      }
+
+      const ok = status >= 200 && status < 300
+      if (ok && !isAllowedContentType(response.headers['content-type'], options.allowedContentTypes)) {
+        result.request.destroy()
+        throw new SafeFetchError('content-type', `Unexpected content type: ${response.headers['content-type']}`)
+      }
+
+      const { body, bytes } = method === 'HEAD' ? { body: '', bytes: 0 } : await readBody(result, maxBytes)
+
+      return {
+        url: currentUrl.toString(),
+        status,
+        statusText: response.statusMessage || '',
+        ok,
+        headers: toHeaders(response.headers),
+        body,
+        bytes,
+        redirectChain,
+      }
+    }
+  } catch (error) {
+    if (controller.signal.aborted && controller.signal.reason instanceof SafeFetchError) {
+      throw controller.signal.reason
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,234 @@
+import type { SECFiling, SECFilingItem } from './types'
+import type { ParsedFeed, ParsedFeedItem } from './feed-parser'
+import { decodeEntities } from './feed-parser'
+import type { RSSItem } from './rss-to-stored-release'
+
+/**
+ * SEC EDGAR
+ * Turns EDGAR Atom feed entries into structured filings (form type, CIK, accession
+ * number, 8-K items) and builds per-company filing feed URLs from a CIK.
+ * Parsing works on feed-parser output only, so recorded Atom fixtures can be fed straight in.
+ */
+
+// Form types surfaced in the activity feed; amendments (e.g. 8-K/A) are kept too
+export const TRACKED_FORM_TYPES = ['8-K', '10-Q', '10-K', 'S-1', '4'] as const
+
+const FORM_NAMES: Record<string, string> = {
+  '8-K': 'Current report',
+  '10-Q': 'Quarterly report',
+  '10-K': 'Annual report',
+  'S-1': 'Registration statement',
+  '4': 'Statement of changes in beneficial ownership',
+}
+
+// 8-K item numbers, with a short label for badges
+export const EIGHT_K_ITEMS: Record<string, { label: string; description: string }> = {
+  '1.01': { label: 'Material agreement', description: 'Entry into a Material Definitive Agreement' },
+  '1.02': { label: 'Agreement terminated', description: 'Termination of a Material Definitive Agreement' },
+  '1.03': { label: 'Bankruptcy', description: 'Bankruptcy or Receivership' },
+  '1.04': { label: 'Mine safety', description: 'Mine Safety - Reporting of Shutdowns and Patterns of Violations' },
+  '1.05': { label: 'Cybersecurity incident', description: 'Material Cybersecurity Incidents' },
+  '2.01': { label: 'Acquisition/disposition', description: 'Completion of Acquisition or Disposition of Assets' },
+  '2.02': { label: 'Results', description: 'Results of Operations and Financial Condition' },
+  '2.03': { label: 'New obligation', description: 'Creation of a Direct Financial Obligation or an Obligation under an Off-Balance Sheet Arrangement' },
+  '2.04': { label: 'Accelerated obligation', description: 'Triggering Events That Accelerate or Increase a Direct Financial Obligation' },
+  '2.05': { label: 'Exit costs', description: 'Costs Associated with Exit or Disposal Activities' },
+  '2.06': { label: 'Impairment', description: 'Material Impairments' },
+  '3.01': { label: 'Delisting notice', description: 'Notice of Delisting or Failure to Satisfy a Continued Listing Rule or Standard' },
+  '3.02': { label: 'Unregistered sale', description: 'Unregistered Sales of Equity Securities' },
+  '3.03': { label: 'Holder rights changed', description: 'Material Modification to Rights of Security Holders' },
+  '4.01': { label: 'Auditor change', description: "Changes in Registrant's Certifying Accountant" },
+  '4.02': { label: 'Non-reliance', description: 'Non-Reliance on Previously Issued Financial Statements' },
+  '5.01': { label: 'Change in control', description: 'Changes in Control of Registrant' },
+  '5.02': { label: 'Officer/director change', description: 'Departure of Directors or Certain Officers; Election of Directors; Appointment of Certain Officers' },
+  '5.03': { label: 'Bylaws amended', description: 'Amendments to Articles of Incorporation or Bylaws; Change in Fiscal Year' },
+  '5.04': { label: 'Trading suspension', description: "Temporary Suspension of Trading Under Registrant's Employee Benefit Plans" },
+  '5.05': { label: 'Code of ethics', description: "Amendments to the Registrant's Code of Ethics, or Waiver of a Provision of the Code of Ethics" },
+  '5.06': { label: 'Shell status', description: 'Change in Shell Company Status' },
+  '5.07': { label: 'Shareholder vote', description: 'Submission of Matters to a Vote of Security Holders' },
+  '5.08': { label: 'Director nominations', description: 'Shareholder Director Nominations' },
+  '7.01': { label: 'Reg FD', description: 'Regulation FD Disclosure' },
+  '8.01': { label: 'Other events', description: 'Other Events' },
+  '9.01': { label: 'Exhibits', description: 'Financial Statements and Exhibits' },
+}
+
+// EDGAR asks automated clients to identify themselves with a contact address
+export const EDGAR_USER_AGENT = process.env.SEC_EDGAR_USER_AGENT || 'CIGNAL/1.0 (Competitive Intelligence Tool)'
+
+/**
+ * Check whether a URL points at an EDGAR feed
+ */
+export function isEdgarUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith('sec.gov')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Normalize a CIK to EDGAR's 10-digit zero-padded form
+ * @returns null when the value is not a CIK
+ */
+export function normalizeCik(cik: string): string | null {
+  const digits = cik.trim().replace(/^CIK/i, '').trim()
+  if (!/^\d{1,10}$/.test(digits)) return null
+  return digits.padStart(10, '0')
+}
+
+/**
+ * Atom feed of a company's filings. Form types are filtered after parsing because
+ * EDGAR only accepts one type per request; owner=include keeps insider Form 4s.
+ */
+export function buildEdgarFilingsUrl(cik: string): string {
+  const normalized = normalizeCik(cik)
+  if (!normalized) {
+    throw new Error(`Invalid CIK: ${cik}`)
+  }
+
+  const params = new URLSearchParams({
+    action: 'getcompany',
+    CIK: normalized,
+    type: '',
+    dateb: '',
+    owner: 'include',
+    count: '100',
+    output: 'atom',
+  })
+
+  return `https://www.sec.gov/cgi-bin/browse-edgar?${params.toString()}`
+}
+
+/**
+ * Form type without the amendment suffix, e.g. "8-K/A" -> "8-K"
+ */
+export function baseFormType(formType: string): string {
+  return formType.trim().toUpperCase().replace(/\/A$/, '')
+}
+
+export function isTrackedFormType(formType: string): boolean {
+  return (TRACKED_FORM_TYPES as readonly string[]).includes(baseFormType(formType))
+}
+
+/**
+ * Parse 8-K item numbers out of text such as "items 2.02 and 9.01" or
+ * "Item 5.02: Departure of Directors..."
+ */
+export function parse8KItems(text: string): SECFilingItem[] {
+  const codes = new Set<string>()
+  for (const match of Array.from(text.matchAll(/\b(\d)\.(\d{2})\b/g))) {
+    const code = `${match[1]}.${match[2]}`
+    if (EIGHT_K_ITEMS[code]) codes.add(code)
+  }
+
+  return Array.from(codes)
+    .sort()
+    .map((code) => ({ code, description: EIGHT_K_ITEMS[code].description }))
+}
+
+function xmlField(markup: string, tag: string): string | undefined {
+  const match = markup.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'))
+  return match ? decodeEntities(match[1]).trim() : undefined
+}
+
+/**
+ * YYYY-MM-DD of a feed date, or undefined when the entry has none or it doesn't parse
+ */
+function isoDay(date: string): string | undefined {
+  const time = Date.parse(date)
+  return isNaN(time) ? undefined : new Date(time).toISOString().slice(0, 10)
+}
+
+function plainText(markup: string): string {
+  return decodeEntities(markup.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Build a filing from one EDGAR Atom entry. Handles both the company feed
+ * (structured <content> with accession-number, filing-date, items-desc) and the
+ * "latest filings" feed (HTML summary with Filed / AccNo and Item lines).
+ * @returns null when the entry is not a filing
+ */
+export function parseEdgarEntry(item: ParsedFeedItem): SECFiling | null {
+  const content = item.content || ''
+  const summaryText = plainText(item.description || '')
+
+  // Title looks like "8-K - Current report" or "8-K - APPLE INC (0000320193) (Filer)"
+  const titleMatch = item.title.match(/^\s*([A-Z0-9][A-Z0-9-]*(?:\/A)?)\s+-\s+(.*)$/i)
+
+  const formType = (xmlField(content, 'filing-type') || item.categories[0] || titleMatch?.[1] || '').toUpperCase()
+  const accessionNumber =
+    xmlField(content, 'accession-number') ||
+    item.guid?.match(/accession-number=([\d-]+)/)?.[1] ||
+    summaryText.match(/AccNo:\s*([\d-]+)/i)?.[1] ||
+    item.link.match(/(\d{10}-\d{2}-\d{6})/)?.[1]
+
+  if (!formType || !accessionNumber) return null
+
+  const filedAt =
+    xmlField(content, 'filing-date') ||
+    summaryText.match(/Filed:\s*(\d{4}-\d{2}-\d{2})/i)?.[1] ||
+    isoDay(item.pubDate) ||
+    ''
+
+  // Latest-filings titles carry the filer name and CIK, company feeds carry the form name
+  const filerMatch = titleMatch?.[2].match(/^(.*?)\s*\((\d{10})\)/)
+  const cik = filerMatch?.[2] || item.link.match(/\/data\/(\d+)\//)?.[1]
+
+  const itemsText = xmlField(content, 'items-desc') || summaryText
+  const items = baseFormType(formType) === '8-K' ? parse8KItems(itemsText) : []
+
+  return {
+    formType,
+    formName: xmlField(content, 'form-name') || (filerMatch ? undefined : titleMatch?.[2]) || FORM_NAMES[baseFormType(formType)],
+    cik: cik ? normalizeCik(cik) || undefined : undefined,
+    filerName: filerMatch?.[1] || undefined,
+    accessionNumber,
+    filedAt,
+    items,
+  }
+}
+
+/**
+ * Headline for a filing, e.g. "Form 8-K: Results of Operations and Financial Condition"
+ */
+export function describeFiling(filing: SECFiling): string {
+  const base = baseFormType(filing.formType)
+  const detail = filing.items.filter((i) => i.code !== '9.01').map((i) => i.description)
+  const subject = detail.length > 0 ? detail.join('; ') : filing.formName || FORM_NAMES[base] || 'Filing'
+  return `${filing.filerName ? `${filing.filerName} ` : ''}Form ${filing.formType}: ${subject}`
+}
+
+/**
+ * Convert an EDGAR feed into RSS items carrying structured filings, keeping only tracked form types
+ */
+export function feedToFilingItems(feed: ParsedFeed): RSSItem[] {
+  const items: RSSItem[] = []
+
+  for (const entry of feed.items) {
+    const filing = parseEdgarEntry(entry)
+    if (!filing || !isTrackedFormType(filing.formType) || !entry.link) continue
+
+    const itemLines = filing.items.map((i) => `Item ${i.code}: ${i.description}`)
+    const description = [
+      ...(filing.filedAt ? [`Filed ${filing.filedAt}`] : []),
+      `Accession number ${filing.accessionNumber}`,
+      ...itemLines,
+    ].join('. ')
+
+    // An entry without any date must not take the rest of the feed down with it
+    const pubDate = [entry.pubDate, filing.filedAt].find((date) => date && !isNaN(Date.parse(date)))
+
+    items.push({
+      title: describeFiling(filing),
+      description,
+      pubDate: pubDate ? new Date(pubDate).toISOString() : new Date().toISOString(),
+      link: entry.link,
+      companyMentions: [],
+      filing,
+      ...(!pubDate && { undated: true }),
+    })
+  }
+
+  return items
+}
@@ -0,0 +1,237 @@
+/**
+ * Story Clusters
+ * SimHash fingerprints over word shingles, used to group the same release syndicated
+ * through several wires (PR Newswire, Business Wire, the company IR feed) into one story.
+ * Pure JavaScript so it runs on both the server and in the browser.
+ */
+
+// Fingerprints within this many differing bits (of 64) are the same story.
+// RSS summaries are short and carry wire-specific boilerplate, so this is looser
+// than the usual 3 bits used for full web pages.
+export const MAX_NEAR_DUPLICATE_DISTANCE = 10
+
+// Syndicated copies of a release appear within a few days of each other
+export const CLUSTER_WINDOW_HOURS = 72
+
+const SHINGLE_SIZE = 3
+const TITLE_WEIGHT = 2
+
+export interface RelatedRelease {
+  id: string
+  title: string
+  sourceUrl: string
+  publishedAt: string
+}
+
+export interface ClusterableRelease {
+  id: string
+  title: string
+  content: string
+  sourceUrl: string
+  publishedAt: string
+  companyId?: string
+  simhash?: string
+  clusterId?: string // Canonical release id, unset on the canonical release itself
+}
+
+// Wire datelines like "NEW YORK, May 2, 2024 /PRNewswire/ --" or Business Wire's "NEW YORK--(BUSINESS WIRE)--"
+const DATELINE_PATTERN = /^(?:[A-Z][A-Za-z .,'()-]{0,80},\s+[A-Z][a-z]{2,8}\.?\s+\d{1,2},\s+\d{4}\s*(?:\/[^/]{1,40}\/)?\s*[-–—]{1,2}|[A-Z][A-Za-z .,'&-]{0,80}?\s*[-–—]{2}\s*\([A-Za-z ]{3,30}\)\s*[-–—]{2})\s*/
+
+// Trailing wire boilerplate that differs between copies of the same release
+const TRAILER_PATTERN = /\b(?:view original content|to view the original version|source:?\s+[A-Z][\w .,&-]*$|read more\b|click here\b)[\s\S]*$/i
+
+const WIRE_TAG_PATTERN = /\/\s*(?:pr\s*newswire|business\s*wire|globe\s*newswire|accesswire|newsfile)[^/]{0,20}\//gi
+
+function normalizeForFingerprint(text: string): string[] {
+  const cleaned = text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .trim()
+    .replace(DATELINE_PATTERN, '')
+    .replace(TRAILER_PATTERN, '')
+    .replace(WIRE_TAG_PATTERN, ' ')
+    .toLowerCase()
+
+  return cleaned.split(/[^\p{L}\p{N}$%.]+/u).map((t) => t.replace(/^\.+|\.+$/g, '')).filter((t) => t.length > 1)
+}
+
+function shingles(tokens: string[]): string[] {
+  if (tokens.length < SHINGLE_SIZE) return tokens
+  const result: string[] = []
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    result.push(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return result
+}
+
+/**
+ * 32-bit FNV-1a with a murmur finalizer for better bit spread
+ */
+function hash32(text: string, seed: number): number {
+  let h = seed >>> 0
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+/**
+ * 64-bit SimHash of a release, as 16 hex characters
+ * @returns null when there is not enough text to fingerprint
+ */
+export function generateSimHash(title: string, content: string): string | null {
+  const weighted: Array<[string, number]> = [
+    ...shingles(normalizeForFingerprint(title)).map((s): [string, number] => [s, TITLE_WEIGHT]),
+    ...shingles(normalizeForFingerprint(content)).map((s): [string, number] => [s, 1]),
+  ]
+
+  if (weighted.length === 0) return null
+
+  const vector = new Array<number>(64).fill(0)
+  for (const [shingle, weight] of weighted) {
+    const halves = [hash32(shingle, 0x811c9dc5), hash32(shingle, 0x5bd1e995)]
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1
+      vector[bit] += set ? weight : -weight
+    }
+  }
+
+  let hex = ''
+  for (let half = 0; half < 2; half++) {
+    let value = 0
+    for (let bit = 0; bit < 32; bit++) {
+      if (vector[half * 32 + bit] > 0) value |= 1 << bit
+    }
+    hex += (value >>> 0).toString(16).padStart(8, '0')
+  }
+  return hex
+}
+
+/**
+ * Number of differing bits between two fingerprints
+ */
+export function simHashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0
+    while (x) {
+      x &= x - 1
+      distance++
+    }
+  }
+  return distance
+}
+
+function withinWindow(a: string, b: string): boolean {
+  const diff = Math.abs(new Date(a).getTime() - new Date(b).getTime())
+  // Unparseable dates fall back to fingerprint-only matching
+  return isNaN(diff) || diff <= CLUSTER_WINDOW_HOURS * 60 * 60 * 1000
+}
+
+/**
+ * Closest earlier release that is the same story, for assigning a new release to a cluster
+ */
+export function findNearDuplicate<T extends { simhash: string | null; published_at: string }>(
+  simhash: string,
+  publishedAt: string,
+  candidates: T[]
+): T | null {
+  let best: T | null = null
+  let bestDistance = MAX_NEAR_DUPLICATE_DISTANCE + 1
+
+  for (const candidate of candidates) {
+    if (!candidate.simhash || !withinWindow(publishedAt, candidate.published_at)) continue
+    const distance = simHashDistance(simhash, candidate.simhash)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  return best
+}
+
+/**
+ * Collapse releases into one canonical release per story. Stored cluster ids are
+ * honoured first; anything else (e.g. live RSS items) is grouped by fingerprint.
+ * The stored canonical release wins, otherwise the earliest published copy does.
+ */
+export function groupStoryClusters<T extends ClusterableRelease>(
+  releases: T[],
+  // Only releases for the same company are compared; override when ids differ by source
+  companyKey: (release: T) => string | undefined = (release) => release.companyId
+): Array<T & { relatedReleases: RelatedRelease[] }> {
+  const parent = releases.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  const union = (a: number, b: number) => {
+    const ra = find(a)
+    const rb = find(b)
+    if (ra !== rb) parent[rb] = ra
+  }
+
+  const indexById = new Map(releases.map((r, i): [string, number] => [r.id, i]))
+  const fingerprints = releases.map((r) => r.simhash || generateSimHash(r.title, r.content))
+
+  releases.forEach((release, i) => {
+    const canonicalIndex = release.clusterId ? indexById.get(release.clusterId) : undefined
+    if (canonicalIndex !== undefined) union(canonicalIndex, i)
+  })
+
+  for (let i = 0; i < releases.length; i++) {
+    const a = fingerprints[i]
+    if (!a) continue
+    for (let j = i + 1; j < releases.length; j++) {
+      const b = fingerprints[j]
+      if (!b || companyKey(releases[i]) !== companyKey(releases[j])) continue
+      if (find(i) === find(j)) continue
+      if (withinWindow(releases[i].publishedAt, releases[j].publishedAt) && simHashDistance(a, b) <= MAX_NEAR_DUPLICATE_DISTANCE) {
+        union(i, j)
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>()
+  releases.forEach((release, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) || []), release])
+  })
+
+  const referenced = new Set(releases.map((r) => r.clusterId).filter(Boolean))
+  const result: Array<T & { relatedReleases: RelatedRelease[] }> = []
+
+  groups.forEach((members) => {
+    const canonical =
+      members.find((m) => referenced.has(m.id)) ||
+      [...members].sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())[0]
+
+    result.push({
+      ...canonical,
+      relatedReleases: members
+        .filter((m) => m !== canonical)
+        .map((m) => ({ id: m.id, title: m.title, sourceUrl: m.sourceUrl, publishedAt: m.publishedAt })),
+    })
+  })
+
+  return result
+}
+
+/**
+ * Distinct source sites of the other copies of a story, for "also reported by" labels
+ */
+export function relatedSourceNames(related: RelatedRelease[]): string[] {
+  const names = related.map((r) => {
+    try {
+      return new URL(r.sourceUrl).hostname.replace(/^www\./, '')
+    } catch {
+      return r.sourceUrl
+    }
+  })
+  return Array.from(new Set(names))
+}
@@ -0,0 +1,433 @@
+import { createClient } from '@supabase/supabase-js'
+import { AI_PROMPT_VERSION, DEFAULT_AI_PROMPTS } from '../ai-prompts'
+import { analyzeRelease, ClaudeAPIError, describeClaudeError } from '../release-analyzer'
+import { extractContentFromUrl } from '../enhanced-content-extractor'
+import { isGoogleNewsUrl } from '../rss-sources'
+import { apiKeyService } from './api-key-service'
+import { aiAnalysisService } from './ai-analysis-service'
+import { extractedContentService } from './extracted-content-service'
+import type { AIAnalysisJob, AIAnalysisJobStatus, AIAnalysisQueueSummary } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Tokens (input + output) background analysis may spend per user per UTC day
+export const DAILY_TOKEN_BUDGET = Number(process.env.AI_DAILY_TOKEN_BUDGET) || 200000
+
+// Jobs analyzed at the same time across all users
+export const ANALYSIS_CONCURRENCY = Number(process.env.AI_ANALYSIS_CONCURRENCY) || 2
+
+const MAX_JOBS_PER_RUN = 20
+const ENQUEUE_WINDOW_DAYS = 3 // Only recent releases are worth analyzing before anyone opens them
+const BASE_RETRY_DELAY = 60 // Seconds, doubled on every attempt
+const MAX_RETRY_DELAY = 60 * 60
+const STALE_RUNNING_MINUTES = 15 // Running jobs older than this were orphaned by a crashed run
+
+type JobOutcome = 'succeeded' | 'retried' | 'failed' | 'deferred' | 'skipped'
+
+export type QueueRunResult = Record<JobOutcome, number> & { processed: number }
+
+interface AIAnalysisJobRow {
+  id: string
+  user_id: string
+  release_id: string
+  prompt_version: string
+  status: AIAnalysisJobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  input_tokens: number
+  output_tokens: number
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+}
+
+interface QueuedRelease {
+  id: string
+  title: string
+  content: string
+  workspace_id: string
+  source_url: string
+  published_at: string
+  extracted_text: string | null
+  ai_prompt_version: string | null
+  companies: { name: string } | null
+}
+
+/**
+ * Whether polling should queue newly stored releases for background AI analysis
+ */
+export function isPollAnalysisEnabled(): boolean {
+  return process.env.ANALYZE_ON_POLL === 'true'
+}
+
+function startOfUTCDay(offsetDays: number = 0): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + offsetDays))
+}
+
+/**
+ * Seconds to wait before the next attempt: Retry-After when Claude sends one, otherwise
+ * exponential backoff with jitter so retried jobs don't all hit the API at once
+ */
+function retryDelay(attempts: number, error: unknown): number {
+  if (error instanceof ClaudeAPIError && error.retryAfter) {
+    return Math.min(error.retryAfter, MAX_RETRY_DELAY)
+  }
+  const backoff = Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY)
+  return Math.round(backoff * (0.75 + Math.random() * 0.5))
+}
+
+/**
+ * Job failure that retrying can't fix, e.g. the user has no stored API key
+ */
+class PermanentJobError extends Error {}
+
+/**
+ * Background AI analysis queue: polling enqueues newly stored releases, and the
+ * process-analysis-queue cron works through due jobs with the user's stored API key,
+ * a per-user daily token budget, a concurrency limit and backoff on rate limits and overload
+ */
+class AIAnalysisQueueService {
+  /**
+   * Queue a company's recent releases that have no analysis for the current prompt version,
+   * analyzed with this user's key; releases another member already queued are left to their job
+   * @returns Number of jobs added
+   */
+  async enqueuePendingReleases(userId: string, companyId: string): Promise<number> {
+    try {
+      const { hasKey } = await apiKeyService.getClaudeAPIKeyStatus(userId)
+      if (!hasKey) return 0
+
+      const since = startOfUTCDay(-ENQUEUE_WINDOW_DAYS)
+      const { data: releases, error } = await supabaseAdmin
+        .from('press_releases')
+        .select('id')
+        .eq('company_id', companyId)
+        .eq('is_deleted', false)
+        .gte('published_at', since.toISOString())
+        .or(`ai_prompt_version.is.null,ai_prompt_version.neq.${AI_PROMPT_VERSION}`)
+
+      if (error) throw new Error(error.message)
+      if (!releases || releases.length === 0) return 0
+
+      // Releases that already have a job for this prompt version (including failed ones) are left alone
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('ai_analysis_jobs')
+        .upsert(
+          releases.map((release: { id: string }) => ({
+            user_id: userId,
+            release_id: release.id,
+            prompt_version: AI_PROMPT_VERSION,
+          })),
+          { onConflict: 'release_id,prompt_version', ignoreDuplicates: true }
+        )
+        .select('id')
+
+      if (insertError) throw new Error(insertError.message)
+
+      const queued = inserted?.length || 0
+      if (queued > 0) console.log(`🧠 Queued ${queued} releases for AI analysis (company ${companyId})`)
+      return queued
+    } catch (error) {
+      // Queueing never fails a poll
+      console.warn(`⚠️ Failed to queue AI analysis for company ${companyId}:`, error instanceof Error ? error.message : error)
+      return 0
+    }
+  }
+
+  /**
+   * Run due jobs with at most ANALYSIS_CONCURRENCY in flight
+   */
+  async processQueue(limit: number = MAX_JOBS_PER_RUN): Promise<QueueRunResult> {
+    await this.requeueStaleJobs()
+
+    const { data, error } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load AI analysis jobs: ${error.message}`)
+    }
+
+    const result: QueueRunResult = { processed: 0, succeeded: 0, retried: 0, failed: 0, deferred: 0, skipped: 0 }
+    const queue = (data || []).map((row: AIAnalysisJobRow) => this.mapDbToJob(row))
+    const tokensUsed = new Map<string, number>()
+
+    const worker = async () => {
+      let job = queue.shift()
+      while (job) {
+        const outcome = await this.runJob(job, tokensUsed)
+        result[outcome]++
+        if (outcome !== 'skipped') result.processed++
+        job = queue.shift()
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(ANALYSIS_CONCURRENCY, queue.length) }, worker))
+
+    console.log(`🧠 AI analysis queue: ${result.succeeded} succeeded, ${result.retried} retried, ${result.failed} failed, ${result.deferred} deferred`)
+    return result
+  }
+
+  /**
+   * Job counts, today's token usage and the latest jobs for one user
+   */
+  async getQueueSummary(userId: string): Promise<AIAnalysisQueueSummary> {
+    const statuses: AIAnalysisJobStatus[] = ['pending', 'running', 'succeeded', 'failed']
+    const counts = { pending: 0, running: 0, succeeded: 0, failed: 0 }
+
+    await Promise.all(
+      statuses.map(async (status) => {
+        const { count } = await supabaseAdmin
+          .from('ai_analysis_jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('status', status)
+        counts[status] = count || 0
+      })
+    )
+
+    const { data, error } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .select('*, press_releases(title)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      throw new Error(`Failed to load AI analysis jobs: ${error.message}`)
+    }
+
+    return {
+      counts,
+      tokensUsedToday: await this.loadTokensUsedToday(userId),
+      dailyTokenBudget: DAILY_TOKEN_BUDGET,
+      recentJobs: (data || []).map((row: AIAnalysisJobRow & { press_releases: { title: string } | null }) => ({
+        ...this.mapDbToJob(row),
+        releaseTitle: row.press_releases?.title,
+      })),
+    }
+  }
+
+  private async runJob(job: AIAnalysisJob, tokensUsed: Map<string, number>): Promise<JobOutcome> {
+    // Check the budget before claiming so a deferral doesn't use up an attempt
+    if (!tokensUsed.has(job.userId)) {
+      tokensUsed.set(job.userId, await this.loadTokensUsedToday(job.userId))
+    }
+    if ((tokensUsed.get(job.userId) || 0) >= DAILY_TOKEN_BUDGET) {
+      await supabaseAdmin
+        .from('ai_analysis_jobs')
+        .update({ next_attempt_at: startOfUTCDay(1).toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'pending')
+      return 'deferred'
+    }
+
+    // Claiming is a conditional update, so concurrent runs never pick up the same job
+    const attempts = job.attempts + 1
+    const { data: claimed } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .update({ status: 'running', attempts, started_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (!claimed || claimed.length === 0) return 'skipped'
+
+    let spent = { inputTokens: 0, outputTokens: 0 }
+
+    try {
+      const release = await this.loadRelease(job.releaseId)
+
+      // Opened and analyzed interactively since it was queued
+      if (release.ai_prompt_version === job.promptVersion) {
+        await this.finishJob(job, 'succeeded', spent)
+        return 'succeeded'
+      }
+
+      const apiKey = await apiKeyService.getClaudeAPIKey(job.userId)
+      if (!apiKey) {
+        throw new PermanentJobError('No Claude API key stored')
+      }
+
+      const analysis = await analyzeRelease(apiKey, DEFAULT_AI_PROMPTS, {
+        title: release.title,
+        content: await this.contentFor(release),
+        companyName: release.companies?.name,
+        date: release.published_at,
+      })
+
+      spent = analysis.usage
+      tokensUsed.set(job.userId, (tokensUsed.get(job.userId) || 0) + spent.inputTokens + spent.outputTokens)
+
+      if (analysis.formatError) {
+        throw new Error('Claude reply could not be parsed')
+      }
+
+      await aiAnalysisService.saveAnalysis(release.workspace_id, release.source_url, {
+        aiAnalysis: {
+          summary: analysis.summary,
+          keyPoints: analysis.keyPoints,
+          usage: analysis.usage,
+          unalignedHighlights: analysis.unalignedHighlights,
+          promptVersion: job.promptVersion,
+          analyzedAt: new Date().toISOString(),
+        },
+        highlights: analysis.highlights,
+        financialFacts: analysis.financialFacts,
+      })
+
+      await this.finishJob(job, 'succeeded', spent)
+      console.log(`✅ Analyzed "${release.title.substring(0, 50)}" in the background`)
+      return 'succeeded'
+    } catch (error) {
+      const message = error instanceof ClaudeAPIError
+        ? describeClaudeError(error)
+        : error instanceof Error ? error.message : 'Unknown error'
+      const retryable = error instanceof ClaudeAPIError ? error.retryable : !(error instanceof PermanentJobError)
+
+      if (retryable && attempts < job.maxAttempts) {
+        const delay = retryDelay(attempts, error)
+        await this.updateJob(job, {
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+          last_error: message,
+        }, spent)
+        console.warn(`⚠️ AI analysis job ${job.id} failed (attempt ${attempts}), retrying in ${delay}s: ${message}`)
+        return 'retried'
+      }
+
+      await this.finishJob(job, 'failed', spent, message)
+      console.error(`❌ AI analysis job ${job.id} failed after ${attempts} attempt(s): ${message}`)
+      return 'failed'
+    }
+  }
+
+  private async loadRelease(releaseId: string): Promise<QueuedRelease> {
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .select('id, title, content, workspace_id, source_url, published_at, extracted_text, ai_prompt_version, companies(name)')
+      .eq('id', releaseId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load release: ${error.message}`)
+    if (!data) throw new PermanentJobError('Release no longer exists')
+    return data as unknown as QueuedRelease
+  }
+
+  /**
+   * Full article text when it can be had, so highlights come from the article rather than the feed summary
+   */
+  private async contentFor(release: QueuedRelease): Promise<string> {
+    if (release.extracted_text) return release.extracted_text
+
+    if (!isGoogleNewsUrl(release.source_url)) {
+      const extraction = await extractContentFromUrl(release.source_url)
+      if (extraction.success && extraction.textContent) {
+        await extractedContentService.saveExtractedContent(release.workspace_id, release.source_url, extraction)
+        return extraction.textContent
+      }
+    }
+
+    return release.content
+  }
+
+  /**
+   * Tokens spent by jobs started today; jobs started earlier and retried today count towards the day they started
+   */
+  private async loadTokensUsedToday(userId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .select('input_tokens, output_tokens')
+      .eq('user_id', userId)
+      .gte('started_at', startOfUTCDay().toISOString())
+
+    if (error) {
+      throw new Error(`Failed to load AI token usage: ${error.message}`)
+    }
+
+    return (data || []).reduce(
+      (total: number, row: { input_tokens: number; output_tokens: number }) => total + row.input_tokens + row.output_tokens,
+      0
+    )
+  }
+
+  /**
+   * Return running jobs orphaned by a crashed or timed-out run to the queue
+   */
+  private async requeueStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_RUNNING_MINUTES * 60 * 1000)
+    const { error } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .update({ status: 'pending', last_error: 'Interrupted while running' })
+      .eq('status', 'running')
+      .lt('started_at', staleBefore.toISOString())
+
+    if (error) {
+      console.warn('⚠️ Failed to requeue stale AI analysis jobs:', error.message)
+    }
+  }
+
+  private async finishJob(
+    job: AIAnalysisJob,
+    status: 'succeeded' | 'failed',
+    spent: { inputTokens: number; outputTokens: number },
+    lastError?: string
+  ): Promise<void> {
+    await this.updateJob(job, {
+      status,
+      completed_at: new Date().toISOString(),
+      last_error: lastError ?? null,
+    }, spent)
+  }
+
+  private async updateJob(
+    job: AIAnalysisJob,
+    updates: Partial<AIAnalysisJobRow>,
+    spent: { inputTokens: number; outputTokens: number }
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('ai_analysis_jobs')
+      .update({
+        ...updates,
+        input_tokens: job.inputTokens + spent.inputTokens,
+        output_tokens: job.outputTokens + spent.outputTokens,
+      })
+      .eq('id', job.id)
+
+    if (error) {
+      console.error(`❌ Failed to update AI analysis job ${job.id}:`, error.message)
+    }
+  }
+
+  private mapDbToJob(row: AIAnalysisJobRow): AIAnalysisJob {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      releaseId: row.release_id,
+      promptVersion: row.prompt_version,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error || undefined,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+      createdAt: row.created_at,
+    }
+  }
+}
+
+export const aiAnalysisQueueService = new AIAnalysisQueueService()
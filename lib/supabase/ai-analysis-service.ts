@@ -0,0 +1,144 @@
+import { createClient } from '@supabase/supabase-js'
+import type { FinancialFacts, ReleaseAIAnalysis, StoredPressRelease } from '../types'
+import type { ReleaseAnalysisInput } from '../release-analyzer'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export interface StoredAnalysis {
+  aiAnalysis: ReleaseAIAnalysis
+  highlights: NonNullable<StoredPressRelease['highlights']>
+  financialFacts?: FinancialFacts // Replaces the rule-based facts when the analysis refined them
+}
+
+interface AnalysisRow {
+  ai_analysis: Pick<Partial<ReleaseAIAnalysis>, 'summary' | 'keyPoints' | 'usage' | 'unalignedHighlights'> | null
+  highlights: StoredAnalysis['highlights'] | null
+  ai_prompt_version: string | null
+  ai_analyzed_at: string | null
+}
+
+/**
+ * Map the ai_analysis column and its version columns to a ReleaseAIAnalysis
+ */
+export function mapDbToAIAnalysis(row: AnalysisRow): ReleaseAIAnalysis | undefined {
+  if (!row.ai_analysis) return undefined
+
+  return {
+    summary: row.ai_analysis.summary || '',
+    keyPoints: row.ai_analysis.keyPoints || [],
+    usage: row.ai_analysis.usage,
+    unalignedHighlights: row.ai_analysis.unalignedHighlights,
+    promptVersion: row.ai_prompt_version || undefined,
+    analyzedAt: row.ai_analyzed_at || undefined,
+  }
+}
+
+/**
+ * Stores AI analyses on the workspace's releases, keyed by source URL and prompt version,
+ * so a release is analyzed once per prompt version rather than once per member, device and day
+ */
+class AIAnalysisService {
+  /**
+   * Stored analysis for a source URL made with the given prompt version
+   */
+  async getAnalysis(workspaceId: string, sourceUrl: string, promptVersion: string): Promise<StoredAnalysis | null> {
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .select('ai_analysis, highlights, ai_prompt_version, ai_analyzed_at')
+      .eq('workspace_id', workspaceId)
+      .eq('source_url', sourceUrl)
+      .eq('ai_prompt_version', promptVersion)
+      .not('ai_analysis', 'is', null)
+      .order('ai_analyzed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`⚠️ Failed to load stored analysis for ${sourceUrl}:`, error.message)
+      return null
+    }
+
+    const aiAnalysis = data ? mapDbToAIAnalysis(data) : undefined
+    return aiAnalysis ? { aiAnalysis, highlights: data?.highlights || [] } : null
+  }
+
+  /**
+   * The workspace's stored copy of a release as analysis input, preferring the extracted article
+   * text over the feed content. Analyses that get saved are made from this, never from client input.
+   * @returns null when the URL is not stored (e.g. a live RSS item)
+   */
+  async getStoredRelease(workspaceId: string, sourceUrl: string): Promise<ReleaseAnalysisInput | null> {
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .select('title, content, extracted_text, published_at, companies(name)')
+      .eq('workspace_id', workspaceId)
+      .eq('source_url', sourceUrl)
+      .eq('is_deleted', false)
+      .order('published_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`⚠️ Failed to load stored release for ${sourceUrl}:`, error.message)
+      return null
+    }
+    if (!data) return null
+
+    const release = data as unknown as {
+      title: string
+      content: string
+      extracted_text: string | null
+      published_at: string
+      companies: { name: string } | null
+    }
+    return {
+      title: release.title,
+      content: release.extracted_text || release.content,
+      companyName: release.companies?.name,
+      date: release.published_at,
+    }
+  }
+
+  /**
+   * Store an analysis on every release the workspace has for this source URL
+   * @returns Number of releases updated, 0 when the URL is not stored (e.g. a live RSS item)
+   */
+  async saveAnalysis(workspaceId: string, sourceUrl: string, analysis: StoredAnalysis): Promise<number> {
+    const { summary, keyPoints, usage, unalignedHighlights, promptVersion, analyzedAt } = analysis.aiAnalysis
+
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .update({
+        ai_analysis: { summary, keyPoints, usage, unalignedHighlights },
+        highlights: analysis.highlights,
+        ai_prompt_version: promptVersion,
+        ai_analyzed_at: analyzedAt || new Date().toISOString(),
+        ...(analysis.financialFacts && {
+          financial_facts: analysis.financialFacts,
+          deal_type: analysis.financialFacts.dealType ?? null,
+          deal_amount: analysis.financialFacts.amount?.value ?? null,
+        }),
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('source_url', sourceUrl)
+      .eq('is_deleted', false)
+      .select('id')
+
+    if (error) {
+      console.warn(`⚠️ Failed to save analysis for ${sourceUrl}:`, error.message)
+      return 0
+    }
+
+    const updated = data?.length || 0
+    if (updated > 0) {
+      console.log(`💾 Saved AI analysis (${promptVersion}) for ${updated} release(s)`)
+    }
+    return updated
+  }
+}
+
+export const aiAnalysisService = new AIAnalysisService()
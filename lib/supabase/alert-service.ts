@@ -0,0 +1,439 @@
+import { createClient } from '@supabase/supabase-js'
+import { alertChannels, matchesAlertRule, quietHoursEnd } from '../alert-rules'
+import { AlertDeliveryError, sendEmailAlert, sendWebhookAlert, type AlertContent } from '../alert-delivery'
+import { compileTaxonomy, detectTopic, type CompiledTaxonomy } from '../topic-detector'
+import { workspaceService } from './workspace-service'
+import type { AlertChannel, AlertDelivery, AlertDeliveryStatus, AlertRule, SearchFeedType, TopicCategory } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export const MAX_DELIVERY_ATTEMPTS = 5
+
+const MAX_DELIVERIES_PER_RUN = 50
+const BASE_RETRY_DELAY = 60 // Seconds, doubled on every attempt
+const MAX_RETRY_DELAY = 60 * 60
+const SEND_LEASE_MINUTES = 5 // A claimed delivery is retried after this if its run crashed mid-send
+
+type DeliveryOutcome = 'sent' | 'retried' | 'failed' | 'deferred' | 'skipped'
+
+export type AlertRunResult = Record<DeliveryOutcome, number> & { processed: number }
+
+interface AlertRuleRow {
+  id: string
+  user_id: string
+  name: string
+  enabled: boolean
+  company_id: string | null
+  query: string | null
+  topic_taxonomy_id: string | null
+  topic_category: string | null
+  min_relevance_score: number | null
+  feed_types: SearchFeedType[] | null
+  webhook_url: string | null
+  email: string | null
+  quiet_hours_start: number | null
+  quiet_hours_end: number | null
+  timezone: string
+  created_at: string
+  updated_at: string
+}
+
+interface AlertDeliveryRow {
+  id: string
+  user_id: string
+  rule_id: string
+  release_id: string
+  cluster_key: string
+  channel: AlertChannel
+  status: AlertDeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  sent_at: string | null
+  created_at: string
+}
+
+interface AlertRelease {
+  id: string
+  company_id: string
+  title: string
+  content: string | null
+  summary: string | null
+  source_url: string
+  published_at: string
+  rss_source_url: string | null
+  cluster_id: string | null
+  companies: { name: string } | null
+}
+
+const RELEASE_COLUMNS = 'id, company_id, title, content, summary, source_url, published_at, rss_source_url, cluster_id, companies(name)'
+
+/**
+ * Seconds to wait before the next attempt, exponential backoff with jitter
+ */
+function retryDelay(attempts: number): number {
+  const backoff = Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY)
+  return Math.round(backoff * (0.75 + Math.random() * 0.5))
+}
+
+function mapDbToAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    enabled: row.enabled,
+    companyId: row.company_id || undefined,
+    query: row.query || undefined,
+    topicTaxonomyId: row.topic_taxonomy_id || undefined,
+    topicCategory: row.topic_category || undefined,
+    minRelevanceScore: row.min_relevance_score ?? undefined,
+    feedTypes: row.feed_types || [],
+    webhookUrl: row.webhook_url || undefined,
+    email: row.email || undefined,
+    quietHoursStart: row.quiet_hours_start ?? undefined,
+    quietHoursEnd: row.quiet_hours_end ?? undefined,
+    timezone: row.timezone,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Alert rules: polling hands over newly stored releases, matching rules get one delivery per
+ * story and channel (copies of a story in the same cluster alert once), quiet hours defer
+ * deliveries, and the deliver-alerts cron sends deferred ones and retries failures with backoff
+ */
+class AlertService {
+  /**
+   * Match releases a poll stored for a company against the enabled rules of every member of its
+   * workspace and send the alerts
+   * @param since When the poll started; releases created from then on are new
+   * @returns Number of alerts triggered, including ones held for quiet hours
+   */
+  async evaluateNewReleases(workspaceId: string, companyId: string, since: string): Promise<number> {
+    try {
+      const memberIds = await workspaceService.getMemberIds(workspaceId)
+      if (memberIds.length === 0) return 0
+
+      const { data: ruleRows, error: rulesError } = await supabaseAdmin
+        .from('alert_rules')
+        .select('*')
+        .in('user_id', memberIds)
+        .eq('enabled', true)
+        .or(`company_id.is.null,company_id.eq.${companyId}`)
+
+      if (rulesError) throw new Error(rulesError.message)
+      if (!ruleRows || ruleRows.length === 0) return 0
+
+      const rules = (ruleRows as AlertRuleRow[]).map(mapDbToAlertRule)
+
+      const { data: releaseRows, error: releasesError } = await supabaseAdmin
+        .from('press_releases')
+        .select(RELEASE_COLUMNS)
+        .eq('company_id', companyId)
+        .eq('is_deleted', false)
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+
+      if (releasesError) throw new Error(releasesError.message)
+      if (!releaseRows || releaseRows.length === 0) return 0
+
+      const releases = releaseRows as unknown as AlertRelease[]
+      const feedTypes = await this.loadFeedTypes(companyId)
+      const taxonomies = await this.loadTaxonomies(rules)
+      const now = new Date()
+
+      // Keyed by rule, story and channel, so a batch with several copies of a story queues one delivery
+      const pending = new Map<string, Omit<AlertDeliveryRow, 'id' | 'attempts' | 'last_error' | 'sent_at' | 'created_at'>>()
+
+      for (const release of releases) {
+        const content = release.content || release.summary || ''
+        const feedType: SearchFeedType = (release.rss_source_url && feedTypes.get(release.rss_source_url)) || 'general'
+        const clusterKey = release.cluster_id || release.id
+
+        for (const rule of rules) {
+          const taxonomy = rule.topicTaxonomyId ? taxonomies.get(rule.topicTaxonomyId) : undefined
+          const candidate = {
+            companyId: release.company_id,
+            title: release.title,
+            content,
+            feedType,
+            topicMatch: taxonomy ? detectTopic(taxonomy, release.title, content) : null,
+          }
+          if (!matchesAlertRule(rule, candidate)) continue
+
+          const heldUntil = quietHoursEnd(rule, now)
+          for (const channel of alertChannels(rule)) {
+            const key = `${rule.id}:${clusterKey}:${channel}`
+            if (pending.has(key)) continue
+            pending.set(key, {
+              user_id: rule.userId,
+              rule_id: rule.id,
+              release_id: release.id,
+              cluster_key: clusterKey,
+              channel,
+              status: heldUntil ? 'deferred' : 'pending',
+              next_attempt_at: (heldUntil || now).toISOString(),
+            })
+          }
+        }
+      }
+
+      if (pending.size === 0) return 0
+
+      // Stories already alerted on by an earlier poll are left alone
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('alert_deliveries')
+        .upsert(Array.from(pending.values()), { onConflict: 'rule_id,cluster_key,channel', ignoreDuplicates: true })
+        .select('*')
+
+      if (insertError) throw new Error(insertError.message)
+
+      const deliveries = (inserted || []).map((row: AlertDeliveryRow) => this.mapDbToDelivery(row))
+      if (deliveries.length === 0) return 0
+
+      console.log(`🔔 ${deliveries.length} alerts triggered for company ${companyId}`)
+
+      const rulesById = new Map(rules.map((rule) => [rule.id, rule]))
+      const releasesById = new Map(releases.map((release) => [release.id, release]))
+      for (const delivery of deliveries) {
+        if (delivery.status !== 'pending') continue
+        await this.attemptDelivery(delivery, rulesById.get(delivery.ruleId), releasesById.get(delivery.releaseId))
+      }
+
+      return deliveries.length
+    } catch (error) {
+      // Alerts never fail a poll
+      console.warn(`⚠️ Failed to evaluate alert rules for company ${companyId}:`, error instanceof Error ? error.message : error)
+      return 0
+    }
+  }
+
+  /**
+   * Send deliveries that are due: held for quiet hours that have ended, or waiting to retry
+   */
+  async deliverDue(limit: number = MAX_DELIVERIES_PER_RUN): Promise<AlertRunResult> {
+    const { data, error } = await supabaseAdmin
+      .from('alert_deliveries')
+      .select(`*, alert_rules(*), press_releases(${RELEASE_COLUMNS})`)
+      .in('status', ['pending', 'deferred'])
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load alert deliveries: ${error.message}`)
+    }
+
+    const result: AlertRunResult = { processed: 0, sent: 0, retried: 0, failed: 0, deferred: 0, skipped: 0 }
+
+    for (const row of (data || []) as Array<AlertDeliveryRow & { alert_rules: AlertRuleRow | null; press_releases: AlertRelease | null }>) {
+      const outcome = await this.attemptDelivery(
+        this.mapDbToDelivery(row),
+        row.alert_rules ? mapDbToAlertRule(row.alert_rules) : undefined,
+        row.press_releases || undefined
+      )
+      result[outcome]++
+      if (outcome !== 'skipped') result.processed++
+    }
+
+    console.log(`🔔 Alert deliveries: ${result.sent} sent, ${result.retried} retried, ${result.failed} failed, ${result.deferred} deferred`)
+    return result
+  }
+
+  /**
+   * Send a sample alert to each of a rule's channels right away, ignoring quiet hours
+   * @returns Error message per channel, null for channels that worked
+   */
+  async sendTestAlert(userId: string, ruleId: string): Promise<Partial<Record<AlertChannel, string | null>>> {
+    const { data, error } = await supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load alert rule: ${error.message}`)
+    if (!data) throw new Error('Alert rule not found')
+
+    const rule = mapDbToAlertRule(data as AlertRuleRow)
+    const alert: AlertContent = {
+      ruleName: rule.name,
+      title: 'Test alert from Cignal',
+      companyName: 'Example Corp',
+      sourceUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+      publishedAt: new Date().toISOString(),
+      summary: 'This is a test of your alert rule. Releases matching the rule will be delivered here.',
+      categories: rule.topicCategory ? [rule.topicCategory] : [],
+    }
+
+    const results: Partial<Record<AlertChannel, string | null>> = {}
+    for (const channel of alertChannels(rule)) {
+      try {
+        await this.send(channel, rule, alert)
+        results[channel] = null
+      } catch (error) {
+        results[channel] = error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+    return results
+  }
+
+  private async attemptDelivery(
+    delivery: AlertDelivery,
+    rule: AlertRule | undefined,
+    release: AlertRelease | undefined
+  ): Promise<DeliveryOutcome> {
+    if (!rule || !release) {
+      await this.updateDelivery(delivery.id, { status: 'failed', last_error: 'Alert rule or release no longer exists' })
+      return 'failed'
+    }
+    if (!rule.enabled || !alertChannels(rule).includes(delivery.channel)) {
+      await this.updateDelivery(delivery.id, { status: 'failed', last_error: 'Alert rule was disabled or its channel removed' })
+      return 'failed'
+    }
+
+    // Quiet hours may have changed since the delivery was queued; checked before claiming so waiting doesn't use an attempt
+    const heldUntil = quietHoursEnd(rule)
+    if (heldUntil) {
+      await this.updateDelivery(delivery.id, { status: 'deferred', next_attempt_at: heldUntil.toISOString() })
+      return 'deferred'
+    }
+
+    // Claiming is a conditional update, so concurrent runs never send the same delivery twice
+    const attempts = delivery.attempts + 1
+    const { data: claimed } = await supabaseAdmin
+      .from('alert_deliveries')
+      .update({
+        status: 'pending',
+        attempts,
+        next_attempt_at: new Date(Date.now() + SEND_LEASE_MINUTES * 60 * 1000).toISOString(),
+      })
+      .eq('id', delivery.id)
+      .eq('attempts', delivery.attempts)
+      .in('status', ['pending', 'deferred'])
+      .select('id')
+
+    if (!claimed || claimed.length === 0) return 'skipped'
+
+    try {
+      await this.send(delivery.channel, rule, {
+        ruleName: rule.name,
+        title: release.title,
+        companyName: release.companies?.name || 'Unknown Company',
+        sourceUrl: release.source_url,
+        publishedAt: release.published_at,
+        summary: release.summary || release.content || '',
+        categories: rule.topicCategory ? [rule.topicCategory] : [],
+      })
+
+      await this.updateDelivery(delivery.id, { status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+      console.log(`✅ Sent ${delivery.channel} alert "${release.title.substring(0, 50)}" for rule ${rule.name}`)
+      return 'sent'
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const permanent = error instanceof AlertDeliveryError && error.permanent
+
+      if (!permanent && attempts < MAX_DELIVERY_ATTEMPTS) {
+        const delay = retryDelay(attempts)
+        await this.updateDelivery(delivery.id, {
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+          last_error: message,
+        })
+        console.warn(`⚠️ Alert delivery ${delivery.id} failed (attempt ${attempts}), retrying in ${delay}s: ${message}`)
+        return 'retried'
+      }
+
+      await this.updateDelivery(delivery.id, { status: 'failed', last_error: message })
+      console.error(`❌ Alert delivery ${delivery.id} failed after ${attempts} attempt(s): ${message}`)
+      return 'failed'
+    }
+  }
+
+  private async send(channel: AlertChannel, rule: AlertRule, alert: AlertContent): Promise<void> {
+    if (channel === 'webhook' && rule.webhookUrl) {
+      await sendWebhookAlert(rule.webhookUrl, alert)
+    } else if (channel === 'email' && rule.email) {
+      await sendEmailAlert(rule.email, alert)
+    } else {
+      throw new AlertDeliveryError(`Rule has no ${channel} configured`, true)
+    }
+  }
+
+  /**
+   * Feed type of each of the company's RSS sources; releases from other feeds are "general"
+   */
+  private async loadFeedTypes(companyId: string): Promise<Map<string, SearchFeedType>> {
+    const { data } = await supabaseAdmin
+      .from('rss_sources')
+      .select('feed_url, feed_type')
+      .eq('company_id', companyId)
+
+    return new Map((data || []).map((source: { feed_url: string; feed_type: SearchFeedType }) => [source.feed_url, source.feed_type]))
+  }
+
+  private async loadTaxonomies(rules: AlertRule[]): Promise<Map<string, CompiledTaxonomy>> {
+    const ids = Array.from(new Set(rules.map((rule) => rule.topicTaxonomyId).filter((id): id is string => Boolean(id))))
+    if (ids.length === 0) return new Map()
+
+    const { data, error } = await supabaseAdmin
+      .from('topic_taxonomies')
+      .select('id, name, categories, min_score')
+      .in('id', ids)
+
+    if (error) throw new Error(`Failed to load topic taxonomies: ${error.message}`)
+
+    return new Map(
+      (data || []).map((row: { id: string; name: string; categories: Partial<TopicCategory>[] | null; min_score: number }) => [
+        row.id,
+        compileTaxonomy({
+          id: row.id,
+          name: row.name,
+          minScore: row.min_score,
+          categories: (row.categories || []).map((category) => ({
+            name: category.name || '',
+            keywords: category.keywords || [],
+            patterns: category.patterns || [],
+            negativeTerms: category.negativeTerms || [],
+            weight: typeof category.weight === 'number' ? category.weight : 1,
+          })),
+        }),
+      ])
+    )
+  }
+
+  private async updateDelivery(id: string, updates: Partial<AlertDeliveryRow>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('alert_deliveries')
+      .update(updates)
+      .eq('id', id)
+
+    if (error) {
+      console.error(`❌ Failed to update alert delivery ${id}:`, error.message)
+    }
+  }
+
+  private mapDbToDelivery(row: AlertDeliveryRow): AlertDelivery {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      ruleId: row.rule_id,
+      releaseId: row.release_id,
+      clusterKey: row.cluster_key,
+      channel: row.channel,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error || undefined,
+      sentAt: row.sent_at || undefined,
+      createdAt: row.created_at,
+    }
+  }
+}
+
+export const alertService = new AlertService()
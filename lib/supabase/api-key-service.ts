@@ -0,0 +1,83 @@
+import { createClient } from '@supabase/supabase-js'
+import { encryption } from '../encryption'
+import { maskAPIKey } from '../claude-api-key'
+import type { APIKeyStatus } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * Stores users' Claude API keys in user_profiles, encrypted with server-side envelope encryption
+ * Plaintext keys only exist in API routes; the browser only ever sees a masked key
+ */
+class APIKeyService {
+  /**
+   * Decrypt the user's stored key, upgrading values in an older format as a side effect
+   */
+  async getClaudeAPIKey(userId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('user_profiles')
+      .select('claude_api_key')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load API key: ${error.message}`)
+    }
+    if (!data?.claude_api_key) return null
+
+    const { plaintext, needsReencryption } = encryption.decrypt(data.claude_api_key)
+
+    if (needsReencryption) {
+      try {
+        await this.writeEncryptedKey(userId, encryption.encrypt(plaintext))
+        console.log(`🔐 Re-encrypted legacy API key for user ${userId}`)
+      } catch (reencryptError) {
+        // The key is still usable, the upgrade is retried on the next read
+        console.warn(`⚠️ Failed to re-encrypt legacy API key for user ${userId}:`, reencryptError)
+      }
+    }
+
+    return plaintext || null
+  }
+
+  async getClaudeAPIKeyStatus(userId: string): Promise<APIKeyStatus> {
+    const apiKey = await this.getClaudeAPIKey(userId)
+    return {
+      hasKey: !!apiKey,
+      maskedKey: apiKey ? maskAPIKey(apiKey) : null,
+    }
+  }
+
+  async setClaudeAPIKey(userId: string, email: string, apiKey: string): Promise<void> {
+    const encryptedKey = encryption.encrypt(apiKey)
+
+    const { error } = await supabaseAdmin
+      .from('user_profiles')
+      .upsert({ id: userId, email, claude_api_key: encryptedKey }, { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to store API key: ${error.message}`)
+    }
+  }
+
+  async clearClaudeAPIKey(userId: string): Promise<void> {
+    await this.writeEncryptedKey(userId, null)
+  }
+
+  private async writeEncryptedKey(userId: string, encryptedKey: string | null): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ claude_api_key: encryptedKey })
+      .eq('id', userId)
+
+    if (error) {
+      throw new Error(`Failed to update API key: ${error.message}`)
+    }
+  }
+}
+
+export const apiKeyService = new APIKeyService()
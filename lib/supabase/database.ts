@@ -1,15 +1,58 @@
 import { createClientComponentClient } from "@/lib/supabase/client"
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { encryption } from "../encryption"
-import type { Company, RSSSource, CreateRSSSource, UpdateRSSSource, RSSValidationResult } from "../types"
-import { validateRSSSourceData, testRSSConnectivity } from "../rss-validation"
+import type {
+  Company,
+  RSSSource,
+  CreateRSSSource,
+  UpdateRSSSource,
+  RSSFetchAttempt,
+  TopicTaxonomy,
+  TopicCategory,
+  CreateTopicTaxonomy,
+  UpdateTopicTaxonomy,
+  SavedSearch,
+  CreateSavedSearch,
+  SearchFeedType,
+  AlertRule,
+  CreateAlertRule,
+  UpdateAlertRule,
+  AlertDelivery,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WatchlistGroup,
+  CreateWatchlistGroup,
+  UpdateWatchlistGroup,
+  ReleaseAnnotation,
+  CreateReleaseAnnotation,
+  UpdateReleaseAnnotation,
+  AnnotationVisibility,
+  Digest,
+  DigestSettings,
+  SaveDigestSettings,
+} from "../types"
+import { validateRSSSourceData } from "../rss-validation"
+import { DEFAULT_MIN_TOPIC_SCORE, normalizeTopicCategories, validateTopicCategories } from "../topic-detector"
+import { FINTECH_TAXONOMY_TEMPLATE } from "../topic-templates"
+import { isSearchActive } from "../release-search"
+import { validateAlertRule } from "../alert-rules"
+import { validateWorkspaceName } from "../workspaces"
+import { validateWatchlistGroup } from "../watchlist-groups"
+import { normalizeQuote, normalizeTag, validateAnnotation, validateTag } from "../release-annotations"
+import { validateDigestSettings } from "../digests"
+import { bookmarkManager as localBookmarkManager } from "../bookmark-manager"
+import { readStatusManager as localReadStatusManager } from "../read-status"
 
 // Database types
 export interface DatabaseCompany {
   id: string
   user_id: string
+  workspace_id?: string
   name: string
   variations: string[]
+  negative_keywords: string[] | null
+  cik: string | null
   website: string | null
   industry: string | null
   created_at: string
@@ -22,6 +65,7 @@ export interface DatabaseUserProfile {
   full_name: string | null
   avatar_url: string | null
   claude_api_key: string | null
+  topic_taxonomies_seeded?: boolean | null
   created_at: string
   updated_at: string
 }
@@ -44,6 +88,7 @@ export interface DatabaseRSSSource {
   id: string
   company_id: string
   user_id: string
+  workspace_id?: string
   feed_url: string
   feed_name: string
   feed_type: string
@@ -54,6 +99,191 @@ export interface DatabaseRSSSource {
   last_error: string | null
   article_count: number
   success_rate: number
+  etag: string | null
+  last_modified: string | null
+  content_hash: string | null
+  last_changed_at: string | null
+  consecutive_failures: number | null
+  disabled_reason: string | null
+  disabled_at: string | null
+}
+
+export interface DatabaseRSSFetchAttempt {
+  id: string
+  rss_source_id: string
+  user_id: string
+  status: RSSFetchAttempt['status']
+  http_status: number | null
+  latency_ms: number
+  item_count: number
+  bytes: number
+  error_message: string | null
+  attempted_at: string
+}
+
+export interface DatabaseTopicTaxonomy {
+  id: string
+  user_id: string
+  name: string
+  categories: TopicCategory[]
+  min_score: number
+  created_at: string
+  updated_at: string
+}
+
+export interface DatabaseSavedSearch {
+  id: string
+  user_id: string
+  name: string
+  query: string
+  since_days: number | null
+  from_date: string | null
+  to_date: string | null
+  feed_types: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface DatabaseAlertRule {
+  id: string
+  user_id: string
+  name: string
+  enabled: boolean
+  company_id: string | null
+  query: string | null
+  topic_taxonomy_id: string | null
+  topic_category: string | null
+  min_relevance_score: number | null
+  feed_types: string[]
+  webhook_url: string | null
+  email: string | null
+  quiet_hours_start: number | null
+  quiet_hours_end: number | null
+  timezone: string
+  created_at: string
+  updated_at: string
+}
+
+export interface DatabaseAlertDelivery {
+  id: string
+  user_id: string
+  rule_id: string
+  release_id: string
+  cluster_key: string
+  channel: AlertDelivery["channel"]
+  status: AlertDelivery["status"]
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  sent_at: string | null
+  created_at: string
+  alert_rules?: { name: string } | null
+  press_releases?: { title: string } | null
+}
+
+export interface DatabaseDigestSettings {
+  id: string
+  user_id: string
+  workspace_id: string
+  enabled: boolean
+  frequency: DigestSettings["frequency"]
+  send_hour: number
+  weekday: number
+  timezone: string
+  company_ids: string[] | null
+  email: string | null
+  webhook_url: string | null
+  last_sent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface DatabaseDigest {
+  id: string
+  user_id: string
+  workspace_id: string
+  period_start: string
+  period_end: string
+  release_count: number
+  sections: Digest["sections"] | null
+  deliveries: Digest["deliveries"] | null
+  created_at: string
+}
+
+export interface DatabaseWatchlistGroup {
+  id: string
+  workspace_id: string
+  user_id: string | null
+  name: string
+  position: number
+  created_at: string
+  updated_at: string
+  watchlist_group_companies?: Array<{ company_id: string }>
+}
+
+export interface DatabaseReleaseAnnotation {
+  id: string
+  workspace_id: string
+  user_id: string
+  release_id: string
+  kind: ReleaseAnnotation["kind"]
+  body: string
+  quote: string | null
+  visibility: AnnotationVisibility
+  created_at: string
+  updated_at: string
+}
+
+export interface DatabaseReleaseTag {
+  release_id: string
+  tag: string
+}
+
+export interface DatabaseWorkspaceMembership {
+  role: WorkspaceRole
+  created_at: string
+  workspaces: { id: string; name: string; personal: boolean; created_at: string } | null
+}
+
+export interface DatabaseWorkspaceMember {
+  user_id: string
+  email: string
+  full_name: string | null
+  role: WorkspaceRole
+  joined_at: string
+}
+
+export interface DatabaseWorkspaceInvitation {
+  id: string
+  workspace_id: string
+  email: string
+  role: WorkspaceInvitation["role"]
+  expires_at: string
+  accepted_at: string | null
+  created_at: string
+}
+
+/**
+ * Workspace the signed-in user works in: the one saved on their profile while they're still a
+ * member of it, otherwise their oldest membership. Users without any get a personal workspace.
+ */
+async function getActiveWorkspaceId(supabase: SupabaseClient, userId: string): Promise<string> {
+  const [{ data: profile }, { data: memberships, error }] = await Promise.all([
+    supabase.from("user_profiles").select("active_workspace_id").eq("id", userId).maybeSingle(),
+    supabase.from("workspace_members").select("workspace_id").eq("user_id", userId).order("created_at", { ascending: true }),
+  ])
+
+  if (error) throw error
+
+  const workspaceIds = (memberships || []).map((row: { workspace_id: string }) => row.workspace_id)
+  if (profile?.active_workspace_id && workspaceIds.includes(profile.active_workspace_id)) {
+    return profile.active_workspace_id
+  }
+  if (workspaceIds.length > 0) return workspaceIds[0]
+
+  const { data, error: createError } = await supabase.rpc("ensure_personal_workspace")
+  if (createError) throw createError
+  return data as string
 }
 
 // Company Management
@@ -66,10 +296,12 @@ export class CompanyManager {
     } = await this.supabase.auth.getUser()
     if (!user) throw new Error("User not authenticated")
 
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
     const { data, error } = await this.supabase
       .from("companies")
       .select("*")
-      .eq("user_id", user.id)
+      .eq("workspace_id", workspaceId)
       .order("created_at", { ascending: true })
 
     if (error) throw error
@@ -83,12 +315,17 @@ export class CompanyManager {
     } = await this.supabase.auth.getUser()
     if (!user) throw new Error("User not authenticated")
 
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
     const { data, error } = await this.supabase
       .from("companies")
       .insert({
         user_id: user.id,
+        workspace_id: workspaceId,
         name: company.name,
         variations: company.variations,
+        negative_keywords: company.negativeKeywords || [],
+        cik: company.cik || null,
         website: company.website || null,
         industry: company.industry || null,
       })
@@ -111,11 +348,12 @@ export class CompanyManager {
       .update({
         name: updates.name,
         variations: updates.variations,
+        negative_keywords: updates.negativeKeywords,
+        cik: updates.cik === undefined ? undefined : updates.cik || null,
         website: updates.website || null,
         industry: updates.industry || null,
       })
       .eq("id", id)
-      .eq("user_id", user.id)
       .select()
       .single()
 
@@ -130,7 +368,8 @@ export class CompanyManager {
     } = await this.supabase.auth.getUser()
     if (!user) throw new Error("User not authenticated")
 
-    const { error } = await this.supabase.from("companies").delete().eq("id", id).eq("user_id", user.id)
+    // Any owner or editor of the company's workspace may delete it; RLS checks the role
+    const { error } = await this.supabase.from("companies").delete().eq("id", id)
 
     if (error) throw error
   }
@@ -139,8 +378,11 @@ export class CompanyManager {
     return {
       id: dbCompany.id,
       userId: dbCompany.user_id,
+      workspaceId: dbCompany.workspace_id,
       name: dbCompany.name,
       variations: dbCompany.variations,
+      negativeKeywords: dbCompany.negative_keywords || [],
+      cik: dbCompany.cik || undefined,
       website: dbCompany.website || "",
       industry: dbCompany.industry || "",
       createdAt: dbCompany.created_at,
@@ -226,10 +468,6 @@ export class UserProfileManager {
         profileData.avatar_url = profile.avatar_url || user.user_metadata?.avatar_url || null
       }
       
-      if (profile.claude_api_key !== undefined) {
-        profileData.claude_api_key = profile.claude_api_key || null
-      }
-      
       console.log("UserProfileManager: Upserting profile data...", profileData)
       const { data, error } = await this.supabase
         .from("user_profiles")
@@ -253,83 +491,6 @@ export class UserProfileManager {
       throw error
     }
   }
-
-  async setClaudeAPIKey(apiKey: string): Promise<void> {
-    try {
-      await this.ensureProfileTableExists()
-      
-      console.log("UserProfileManager: Starting API key encryption...")
-      const encryptedKey = encryption.encrypt(apiKey)
-      
-      if (!encryptedKey) {
-        throw new Error("Failed to encrypt API key")
-      }
-      
-      console.log("UserProfileManager: Getting current user...")
-      const {
-        data: { user },
-      } = await this.supabase.auth.getUser()
-      
-      if (!user) {
-        throw new Error("User not authenticated")
-      }
-      
-      console.log("UserProfileManager: Updating API key directly...")
-      
-      // Try to update existing profile first
-      const { data: updateData, error: updateError } = await this.supabase
-        .from("user_profiles")
-        .update({ claude_api_key: encryptedKey })
-        .eq("id", user.id)
-        .select()
-        .single()
-      
-      if (updateError && updateError.code === "PGRST116") {
-        // Profile doesn't exist, create minimal profile
-        console.log("UserProfileManager: Creating new profile...")
-        const { data: insertData, error: insertError } = await this.supabase
-          .from("user_profiles")
-          .insert({
-            id: user.id,
-            email: user.email!,
-            claude_api_key: encryptedKey,
-          })
-          .select()
-          .single()
-        
-        if (insertError) {
-          console.error("UserProfileManager: Insert error:", insertError)
-          throw new Error(`Failed to create profile: ${insertError.message}`)
-        }
-        
-        console.log("UserProfileManager: Profile created successfully")
-      } else if (updateError) {
-        console.error("UserProfileManager: Update error:", updateError)
-        throw new Error(`Failed to update profile: ${updateError.message}`)
-      } else {
-        console.log("UserProfileManager: Profile updated successfully")
-      }
-    } catch (error) {
-      console.error("UserProfileManager: Error in setClaudeAPIKey:", error)
-      throw error
-    }
-  }
-
-  async getClaudeAPIKey(): Promise<string | null> {
-    const profile = await this.getProfile()
-    if (!profile?.claude_api_key) return null
-
-    try {
-      return encryption.decrypt(profile.claude_api_key)
-    } catch (error) {
-      console.error("Failed to decrypt API key:", error)
-      return null
-    }
-  }
-
-  async clearClaudeAPIKey(): Promise<void> {
-    await this.createOrUpdateProfile({ claude_api_key: null })
-  }
 }
 
 // Bookmark Management
@@ -411,6 +572,32 @@ export class BookmarkManager {
 
     if (error) throw error
   }
+
+  /**
+   * One-time move of bookmarks saved in localStorage by older versions into the database.
+   * The local copy is only cleared once the insert succeeds, so a failed run retries next load.
+   * @returns Number of bookmarks migrated
+   */
+  async migrateFromLocalStorage(): Promise<number> {
+    const localIds = Array.from(localBookmarkManager.getBookmarkedReleases())
+    if (localIds.length === 0) return 0
+
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) return 0
+
+    const { error } = await this.supabase.from("bookmarks").upsert(
+      localIds.map((pressReleaseId) => ({ user_id: user.id, press_release_id: pressReleaseId })),
+      { onConflict: "user_id,press_release_id", ignoreDuplicates: true },
+    )
+
+    if (error) throw error
+
+    localBookmarkManager.clearAll()
+    console.log(`📦 Migrated ${localIds.length} bookmarks from localStorage`)
+    return localIds.length
+  }
 }
 
 // Read Status Management
@@ -479,6 +666,32 @@ export class ReadStatusManager {
 
     if (error) throw error
   }
+
+  /**
+   * One-time move of read status saved in localStorage by older versions into the database.
+   * The local copy is only cleared once the insert succeeds, so a failed run retries next load.
+   * @returns Number of read releases migrated
+   */
+  async migrateFromLocalStorage(): Promise<number> {
+    const localIds = Array.from(localReadStatusManager.getReadReleases())
+    if (localIds.length === 0) return 0
+
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) return 0
+
+    const { error } = await this.supabase.from("read_status").upsert(
+      localIds.map((pressReleaseId) => ({ user_id: user.id, press_release_id: pressReleaseId })),
+      { onConflict: "user_id,press_release_id", ignoreDuplicates: true },
+    )
+
+    if (error) throw error
+
+    localReadStatusManager.clearAll()
+    console.log(`📦 Migrated ${localIds.length} read releases from localStorage`)
+    return localIds.length
+  }
 }
 
 // RSS Source Management
@@ -510,7 +723,6 @@ export class RSSSourceManager {
         .from("rss_sources")
         .select("*")
         .eq("company_id", companyId)
-        .eq("user_id", user.id)
         .order("created_at", { ascending: true })
 
       if (error) {
@@ -527,16 +739,18 @@ export class RSSSourceManager {
     }
   }
 
-  async getAllRSSSourcesByUser(): Promise<RSSSource[]> {
+  async getAllRSSSourcesByWorkspace(): Promise<RSSSource[]> {
     const {
       data: { user },
     } = await this.supabase.auth.getUser()
     if (!user) throw new Error("User not authenticated")
 
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
     const { data, error } = await this.supabase
       .from("rss_sources")
       .select("*")
-      .eq("user_id", user.id)
+      .eq("workspace_id", workspaceId)
       .eq("enabled", true)
       .order("company_id", { ascending: true })
 
@@ -593,7 +807,6 @@ export class RSSSourceManager {
         .from("rss_sources")
         .select("feed_url, feed_name, feed_type")
         .eq("id", id)
-        .eq("user_id", user.id)
         .single()
 
       if (currentData) {
@@ -609,6 +822,15 @@ export class RSSSourceManager {
       }
     }
 
+    // A new URL invalidates the stored conditional GET validators
+    const fetchStateReset = updates.feedUrl
+      ? { etag: null, last_modified: null, content_hash: null }
+      : {}
+    // Re-enabling gives an auto-disabled source a fresh start
+    const healthReset = updates.enabled === true
+      ? { consecutive_failures: 0, disabled_reason: null, disabled_at: null }
+      : {}
+
     const { data, error } = await this.supabase
       .from("rss_sources")
       .update({
@@ -620,9 +842,10 @@ export class RSSSourceManager {
         last_error: updates.lastError,
         article_count: updates.articleCount,
         success_rate: updates.successRate,
+        ...fetchStateReset,
+        ...healthReset,
       })
       .eq("id", id)
-      .eq("user_id", user.id)
       .select()
       .single()
 
@@ -641,15 +864,34 @@ export class RSSSourceManager {
       .from("rss_sources")
       .delete()
       .eq("id", id)
-      .eq("user_id", user.id)
 
     if (error) throw error
   }
 
-  async testRSSFeed(feedUrl: string): Promise<RSSValidationResult> {
-    // Use client-side validation for basic testing
-    // For production, this should hit a server-side API endpoint
-    return await testRSSConnectivity(feedUrl)
+  /**
+   * Most recent fetch attempts for each source, newest first
+   */
+  async getRecentFetchAttempts(sourceIds: string[], limit: number = 20): Promise<Record<string, RSSFetchAttempt[]>> {
+    const attempts: Record<string, RSSFetchAttempt[]> = {}
+    if (sourceIds.length === 0) return attempts
+
+    // One query per source, so a frequently polled source can't crowd the others out of a shared limit
+    await Promise.all(
+      sourceIds.map(async (sourceId) => {
+        const { data, error } = await this.supabase
+          .from("rss_fetch_attempts")
+          .select("*")
+          .eq("rss_source_id", sourceId)
+          .order("attempted_at", { ascending: false })
+          .limit(limit)
+
+        if (error) throw error
+
+        attempts[sourceId] = ((data || []) as DatabaseRSSFetchAttempt[]).map((row) => this.mapDatabaseToFetchAttempt(row))
+      })
+    )
+
+    return attempts
   }
 
   async updateFeedMetrics(id: string, metrics: {
@@ -672,7 +914,6 @@ export class RSSSourceManager {
         success_rate: metrics.successRate,
       })
       .eq("id", id)
-      .eq("user_id", user.id)
 
     if (error) throw error
   }
@@ -682,6 +923,7 @@ export class RSSSourceManager {
       id: dbSource.id,
       companyId: dbSource.company_id,
       userId: dbSource.user_id,
+      workspaceId: dbSource.workspace_id,
       feedUrl: dbSource.feed_url,
       feedName: dbSource.feed_name,
       feedType: dbSource.feed_type as RSSSource['feedType'],
@@ -692,7 +934,1098 @@ export class RSSSourceManager {
       lastError: dbSource.last_error || undefined,
       articleCount: dbSource.article_count,
       successRate: dbSource.success_rate,
+      lastChangedAt: dbSource.last_changed_at || undefined,
+      consecutiveFailures: dbSource.consecutive_failures || 0,
+      disabledReason: dbSource.disabled_reason || undefined,
+      disabledAt: dbSource.disabled_at || undefined,
+    }
+  }
+
+  private mapDatabaseToFetchAttempt(dbAttempt: DatabaseRSSFetchAttempt): RSSFetchAttempt {
+    return {
+      id: dbAttempt.id,
+      rssSourceId: dbAttempt.rss_source_id,
+      status: dbAttempt.status,
+      httpStatus: dbAttempt.http_status ?? undefined,
+      latencyMs: dbAttempt.latency_ms,
+      itemCount: dbAttempt.item_count,
+      bytes: dbAttempt.bytes,
+      errorMessage: dbAttempt.error_message || undefined,
+      attemptedAt: dbAttempt.attempted_at,
+    }
+  }
+}
+
+// Topic Taxonomy Management
+export class TopicTaxonomyManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * The user's taxonomies; a user who has never had any is given the default fintech taxonomy
+   */
+  async getTaxonomies(): Promise<TopicTaxonomy[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { data, error } = await this.supabase
+      .from("topic_taxonomies")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    if (data.length > 0) {
+      return data.map(this.mapDatabaseToTopicTaxonomy)
+    }
+
+    const { data: profile } = await this.supabase
+      .from("user_profiles")
+      .select("topic_taxonomies_seeded")
+      .eq("id", user.id)
+      .single()
+
+    if (profile?.topic_taxonomies_seeded) {
+      return []
+    }
+
+    console.log("[TopicTaxonomyManager] Seeding default fintech taxonomy")
+    const seeded = await this.createTaxonomy(FINTECH_TAXONOMY_TEMPLATE)
+    await this.supabase.from("user_profiles").update({ topic_taxonomies_seeded: true }).eq("id", user.id)
+
+    return [seeded]
+  }
+
+  async createTaxonomy(taxonomy: CreateTopicTaxonomy): Promise<TopicTaxonomy> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const categories = normalizeTopicCategories(taxonomy.categories)
+    this.validate(taxonomy.name, categories, taxonomy.minScore)
+
+    const { data, error } = await this.supabase
+      .from("topic_taxonomies")
+      .insert({
+        user_id: user.id,
+        name: taxonomy.name.trim(),
+        categories,
+        min_score: taxonomy.minScore ?? DEFAULT_MIN_TOPIC_SCORE,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.mapDatabaseToTopicTaxonomy(data)
+  }
+
+  async updateTaxonomy(id: string, updates: UpdateTopicTaxonomy): Promise<TopicTaxonomy> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const categories = updates.categories ? normalizeTopicCategories(updates.categories) : undefined
+    this.validate(updates.name, categories, updates.minScore)
+
+    const { data, error } = await this.supabase
+      .from("topic_taxonomies")
+      .update({
+        name: updates.name?.trim(),
+        categories,
+        min_score: updates.minScore,
+      })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.mapDatabaseToTopicTaxonomy(data)
+  }
+
+  async deleteTaxonomy(id: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { error } = await this.supabase.from("topic_taxonomies").delete().eq("id", id).eq("user_id", user.id)
+
+    if (error) throw error
+  }
+
+  private validate(name?: string, categories?: TopicCategory[], minScore?: number): void {
+    const errors: string[] = []
+    if (name !== undefined && !name.trim()) {
+      errors.push("Topic name is required")
     }
+    if (categories) {
+      errors.push(...validateTopicCategories(categories))
+    }
+    if (minScore !== undefined && (!Number.isFinite(minScore) || minScore < 0 || minScore > 100)) {
+      errors.push("Minimum relevance must be between 0 and 100")
+    }
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+  }
+
+  private mapDatabaseToTopicTaxonomy(dbTaxonomy: DatabaseTopicTaxonomy): TopicTaxonomy {
+    return {
+      id: dbTaxonomy.id,
+      userId: dbTaxonomy.user_id,
+      name: dbTaxonomy.name,
+      // Categories are JSON, so fill in anything a hand-edited row left out
+      categories: (Array.isArray(dbTaxonomy.categories) ? dbTaxonomy.categories : []).map((category) => ({
+        name: category.name || "",
+        keywords: category.keywords || [],
+        patterns: category.patterns || [],
+        negativeTerms: category.negativeTerms || [],
+        weight: typeof category.weight === "number" ? category.weight : 1,
+      })),
+      minScore: dbTaxonomy.min_score,
+      createdAt: dbTaxonomy.created_at,
+      updatedAt: dbTaxonomy.updated_at,
+    }
+  }
+}
+
+// Saved Search Management
+export class SavedSearchManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return data.map(this.mapDatabaseToSavedSearch)
+  }
+
+  async createSavedSearch(search: CreateSavedSearch): Promise<SavedSearch> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    if (!search.name.trim()) throw new Error("Saved search name is required")
+    if (!isSearchActive(search)) throw new Error("Enter a search query or choose a filter before saving")
+
+    const { data, error } = await this.supabase
+      .from("saved_searches")
+      .insert({
+        user_id: user.id,
+        name: search.name.trim(),
+        query: search.query.trim(),
+        since_days: search.sinceDays || null,
+        from_date: search.sinceDays ? null : search.from || null,
+        to_date: search.sinceDays ? null : search.to || null,
+        feed_types: search.feedTypes,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === "23505") throw new Error(`A saved search named "${search.name.trim()}" already exists`)
+      throw error
+    }
+
+    return this.mapDatabaseToSavedSearch(data)
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { error } = await this.supabase.from("saved_searches").delete().eq("id", id).eq("user_id", user.id)
+
+    if (error) throw error
+  }
+
+  private mapDatabaseToSavedSearch(dbSearch: DatabaseSavedSearch): SavedSearch {
+    return {
+      id: dbSearch.id,
+      userId: dbSearch.user_id,
+      name: dbSearch.name,
+      query: dbSearch.query,
+      sinceDays: dbSearch.since_days || undefined,
+      from: dbSearch.from_date || undefined,
+      to: dbSearch.to_date || undefined,
+      feedTypes: (dbSearch.feed_types || []) as SearchFeedType[],
+      createdAt: dbSearch.created_at,
+      updatedAt: dbSearch.updated_at,
+    }
+  }
+}
+
+// Watchlist Group Management
+export class WatchlistGroupManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * The active workspace's groups with their companies, in tab order
+   */
+  async getGroups(): Promise<WatchlistGroup[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("watchlist_groups")
+      .select("*, watchlist_group_companies(company_id)")
+      .eq("workspace_id", workspaceId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return (data as DatabaseWatchlistGroup[]).map(this.mapDatabaseToWatchlistGroup)
+  }
+
+  async createGroup(group: CreateWatchlistGroup): Promise<WatchlistGroup> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    this.validate(group)
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    // New groups go after the existing tabs
+    const { count } = await this.supabase
+      .from("watchlist_groups")
+      .select("id", { count: "exact", head: true })
+      .eq("workspace_id", workspaceId)
+
+    const { data, error } = await this.supabase
+      .from("watchlist_groups")
+      .insert({
+        workspace_id: workspaceId,
+        user_id: user.id,
+        name: group.name.trim(),
+        position: count || 0,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === "23505") throw new Error(`A group named "${group.name.trim()}" already exists`)
+      throw error
+    }
+
+    const companyIds = await this.replaceCompanies(data.id, [], group.companyIds)
+    return this.mapDatabaseToWatchlistGroup({ ...data, watchlist_group_companies: companyIds.map((id) => ({ company_id: id })) })
+  }
+
+  async updateGroup(existing: WatchlistGroup, updates: UpdateWatchlistGroup): Promise<WatchlistGroup> {
+    this.validate(updates)
+
+    let updated = existing
+    if (updates.name !== undefined && updates.name.trim() !== existing.name) {
+      const { data, error } = await this.supabase
+        .from("watchlist_groups")
+        .update({ name: updates.name.trim() })
+        .eq("id", existing.id)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`A group named "${updates.name.trim()}" already exists`)
+        throw error
+      }
+      updated = { ...updated, name: data.name, updatedAt: data.updated_at }
+    }
+
+    if (updates.companyIds) {
+      updated = { ...updated, companyIds: await this.replaceCompanies(existing.id, existing.companyIds, updates.companyIds) }
+    }
+
+    return updated
+  }
+
+  /**
+   * Save a new tab order; positions follow the order of the ids given
+   */
+  async reorderGroups(ids: string[]): Promise<void> {
+    const results = await Promise.all(
+      ids.map((id, position) => this.supabase.from("watchlist_groups").update({ position }).eq("id", id))
+    )
+
+    const failed = results.find((result) => result.error)
+    if (failed?.error) throw failed.error
+  }
+
+  async deleteGroup(id: string): Promise<void> {
+    const { error } = await this.supabase.from("watchlist_groups").delete().eq("id", id)
+
+    if (error) throw error
+  }
+
+  /**
+   * Add and remove membership rows so the group holds exactly the given companies
+   * @returns The group's company ids
+   */
+  private async replaceCompanies(groupId: string, currentIds: string[], companyIds: string[]): Promise<string[]> {
+    const wanted = Array.from(new Set(companyIds))
+    const removed = currentIds.filter((id) => !wanted.includes(id))
+    const added = wanted.filter((id) => !currentIds.includes(id))
+
+    if (removed.length > 0) {
+      const { error } = await this.supabase
+        .from("watchlist_group_companies")
+        .delete()
+        .eq("group_id", groupId)
+        .in("company_id", removed)
+
+      if (error) throw error
+    }
+
+    if (added.length > 0) {
+      const { error } = await this.supabase
+        .from("watchlist_group_companies")
+        .insert(added.map((companyId) => ({ group_id: groupId, company_id: companyId })))
+
+      if (error) throw error
+    }
+
+    return wanted
+  }
+
+  private validate(group: Partial<CreateWatchlistGroup>): void {
+    const errors = validateWatchlistGroup(group)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+  }
+
+  private mapDatabaseToWatchlistGroup(dbGroup: DatabaseWatchlistGroup): WatchlistGroup {
+    return {
+      id: dbGroup.id,
+      workspaceId: dbGroup.workspace_id,
+      name: dbGroup.name,
+      companyIds: (dbGroup.watchlist_group_companies || []).map((row) => row.company_id),
+      position: dbGroup.position,
+      createdAt: dbGroup.created_at,
+      updatedAt: dbGroup.updated_at,
+    }
+  }
+}
+
+// Release Annotation Management (notes and highlights)
+export class ReleaseAnnotationManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * The user's own annotations on a release and the ones teammates shared, oldest first
+   */
+  async getAnnotations(releaseId: string): Promise<ReleaseAnnotation[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("release_annotations")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .eq("release_id", releaseId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    const rows = data as DatabaseReleaseAnnotation[]
+    const authorNames = new Map<string, string>()
+    if (rows.some((row) => row.user_id !== user.id)) {
+      const { data: members } = await this.supabase.rpc("get_workspace_members", { p_workspace_id: workspaceId })
+      for (const member of (members || []) as DatabaseWorkspaceMember[]) {
+        authorNames.set(member.user_id, member.full_name || member.email)
+      }
+    }
+
+    return rows.map((row) => this.mapDatabaseToReleaseAnnotation(row, user.id, authorNames.get(row.user_id)))
+  }
+
+  async createAnnotation(annotation: CreateReleaseAnnotation): Promise<ReleaseAnnotation> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const errors = validateAnnotation(annotation)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("release_annotations")
+      .insert({
+        workspace_id: workspaceId,
+        user_id: user.id,
+        release_id: annotation.releaseId,
+        kind: annotation.kind,
+        body: annotation.body.trim(),
+        quote: annotation.kind === "highlight" ? normalizeQuote(annotation.quote || "") : null,
+        visibility: annotation.visibility,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.mapDatabaseToReleaseAnnotation(data, user.id)
+  }
+
+  async updateAnnotation(existing: ReleaseAnnotation, updates: UpdateReleaseAnnotation): Promise<ReleaseAnnotation> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const errors = validateAnnotation({ ...existing, ...updates })
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const { data, error } = await this.supabase
+      .from("release_annotations")
+      .update({ body: updates.body?.trim(), visibility: updates.visibility })
+      .eq("id", existing.id)
+      .eq("user_id", user.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.mapDatabaseToReleaseAnnotation(data, user.id)
+  }
+
+  async deleteAnnotation(id: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { error } = await this.supabase.from("release_annotations").delete().eq("id", id).eq("user_id", user.id)
+
+    if (error) throw error
+  }
+
+  private mapDatabaseToReleaseAnnotation(
+    dbAnnotation: DatabaseReleaseAnnotation,
+    currentUserId: string,
+    authorName?: string
+  ): ReleaseAnnotation {
+    return {
+      id: dbAnnotation.id,
+      releaseId: dbAnnotation.release_id,
+      userId: dbAnnotation.user_id,
+      authorName,
+      isOwn: dbAnnotation.user_id === currentUserId,
+      kind: dbAnnotation.kind,
+      body: dbAnnotation.body,
+      quote: dbAnnotation.quote || undefined,
+      visibility: dbAnnotation.visibility,
+      createdAt: dbAnnotation.created_at,
+      updatedAt: dbAnnotation.updated_at,
+    }
+  }
+}
+
+// Release Tag Management
+export class ReleaseTagManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * Tags on the active workspace's releases, by release id
+   */
+  async getTags(): Promise<Map<string, string[]>> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("release_tags")
+      .select("release_id, tag")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    const tags = new Map<string, string[]>()
+    for (const row of data as DatabaseReleaseTag[]) {
+      tags.set(row.release_id, [...(tags.get(row.release_id) || []), row.tag])
+    }
+    return tags
+  }
+
+  /**
+   * @returns The tag as stored
+   */
+  async addTag(releaseId: string, tag: string): Promise<string> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const errors = validateTag(tag)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+    const normalized = normalizeTag(tag)
+
+    const { error } = await this.supabase.from("release_tags").insert({
+      workspace_id: workspaceId,
+      user_id: user.id,
+      release_id: releaseId,
+      tag: normalized,
+    })
+
+    if (error && error.code !== "23505") throw error // Already tagged, possibly in another case
+
+    return normalized
+  }
+
+  async removeTag(releaseId: string, tag: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { error } = await this.supabase
+      .from("release_tags")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("release_id", releaseId)
+      .ilike("tag", tag.replace(/[\\%_]/g, "\\$&"))
+
+    if (error) throw error
+  }
+}
+
+// Alert Rule Management
+export class AlertRuleManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { data, error } = await this.supabase
+      .from("alert_rules")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return data.map(this.mapDatabaseToAlertRule)
+  }
+
+  async createAlertRule(rule: CreateAlertRule): Promise<AlertRule> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    this.validate(rule)
+
+    const { data, error } = await this.supabase
+      .from("alert_rules")
+      .insert({ user_id: user.id, ...this.mapAlertRuleToDatabase(rule) })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === "23505") throw new Error(`An alert rule named "${rule.name.trim()}" already exists`)
+      throw error
+    }
+
+    return this.mapDatabaseToAlertRule(data)
+  }
+
+  /**
+   * Update a rule; the result is validated as a whole, so a partial update can't leave it without a channel
+   */
+  async updateAlertRule(existing: AlertRule, updates: UpdateAlertRule): Promise<AlertRule> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const rule: CreateAlertRule = {
+      name: existing.name,
+      enabled: existing.enabled,
+      companyId: existing.companyId,
+      query: existing.query,
+      topicTaxonomyId: existing.topicTaxonomyId,
+      topicCategory: existing.topicCategory,
+      minRelevanceScore: existing.minRelevanceScore,
+      feedTypes: existing.feedTypes,
+      webhookUrl: existing.webhookUrl,
+      email: existing.email,
+      quietHoursStart: existing.quietHoursStart,
+      quietHoursEnd: existing.quietHoursEnd,
+      timezone: existing.timezone,
+      ...updates,
+    }
+    this.validate(rule)
+
+    const { data, error } = await this.supabase
+      .from("alert_rules")
+      .update(this.mapAlertRuleToDatabase(rule))
+      .eq("id", existing.id)
+      .eq("user_id", user.id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === "23505") throw new Error(`An alert rule named "${rule.name.trim()}" already exists`)
+      throw error
+    }
+
+    return this.mapDatabaseToAlertRule(data)
+  }
+
+  async deleteAlertRule(id: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { error } = await this.supabase.from("alert_rules").delete().eq("id", id).eq("user_id", user.id)
+
+    if (error) throw error
+  }
+
+  /**
+   * Latest deliveries across all of the user's rules, newest first
+   */
+  async getDeliveries(limit: number = 50): Promise<AlertDelivery[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { data, error } = await this.supabase
+      .from("alert_deliveries")
+      .select("*, alert_rules(name), press_releases(title)")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return data.map(this.mapDatabaseToAlertDelivery)
+  }
+
+  private validate(rule: CreateAlertRule): void {
+    const errors = validateAlertRule(rule)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+  }
+
+  private mapAlertRuleToDatabase(rule: CreateAlertRule) {
+    return {
+      name: rule.name.trim(),
+      enabled: rule.enabled,
+      company_id: rule.companyId || null,
+      query: rule.query?.trim() || null,
+      topic_taxonomy_id: rule.topicTaxonomyId || null,
+      topic_category: rule.topicTaxonomyId ? rule.topicCategory || null : null,
+      min_relevance_score: rule.topicTaxonomyId ? rule.minRelevanceScore ?? null : null,
+      feed_types: rule.feedTypes,
+      webhook_url: rule.webhookUrl?.trim() || null,
+      email: rule.email?.trim() || null,
+      quiet_hours_start: rule.quietHoursStart ?? null,
+      quiet_hours_end: rule.quietHoursEnd ?? null,
+      timezone: rule.timezone,
+    }
+  }
+
+  private mapDatabaseToAlertRule(dbRule: DatabaseAlertRule): AlertRule {
+    return {
+      id: dbRule.id,
+      userId: dbRule.user_id,
+      name: dbRule.name,
+      enabled: dbRule.enabled,
+      companyId: dbRule.company_id || undefined,
+      query: dbRule.query || undefined,
+      topicTaxonomyId: dbRule.topic_taxonomy_id || undefined,
+      topicCategory: dbRule.topic_category || undefined,
+      minRelevanceScore: dbRule.min_relevance_score ?? undefined,
+      feedTypes: (dbRule.feed_types || []) as SearchFeedType[],
+      webhookUrl: dbRule.webhook_url || undefined,
+      email: dbRule.email || undefined,
+      quietHoursStart: dbRule.quiet_hours_start ?? undefined,
+      quietHoursEnd: dbRule.quiet_hours_end ?? undefined,
+      timezone: dbRule.timezone,
+      createdAt: dbRule.created_at,
+      updatedAt: dbRule.updated_at,
+    }
+  }
+
+  private mapDatabaseToAlertDelivery(dbDelivery: DatabaseAlertDelivery): AlertDelivery {
+    return {
+      id: dbDelivery.id,
+      userId: dbDelivery.user_id,
+      ruleId: dbDelivery.rule_id,
+      releaseId: dbDelivery.release_id,
+      clusterKey: dbDelivery.cluster_key,
+      channel: dbDelivery.channel,
+      status: dbDelivery.status,
+      attempts: dbDelivery.attempts,
+      nextAttemptAt: dbDelivery.next_attempt_at,
+      lastError: dbDelivery.last_error || undefined,
+      sentAt: dbDelivery.sent_at || undefined,
+      createdAt: dbDelivery.created_at,
+      ruleName: dbDelivery.alert_rules?.name,
+      releaseTitle: dbDelivery.press_releases?.title,
+    }
+  }
+}
+
+// Digest Management
+export class DigestManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * The user's digest schedule for the active workspace, null until they save one
+   */
+  async getSettings(): Promise<DigestSettings | null> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("digest_settings")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? this.mapDatabaseToDigestSettings(data) : null
+  }
+
+  async saveSettings(settings: SaveDigestSettings): Promise<DigestSettings> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const errors = validateDigestSettings(settings)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("digest_settings")
+      .upsert(
+        {
+          user_id: user.id,
+          workspace_id: workspaceId,
+          enabled: settings.enabled,
+          frequency: settings.frequency,
+          send_hour: settings.sendHour,
+          weekday: settings.weekday,
+          timezone: settings.timezone,
+          company_ids: settings.companyIds,
+          email: settings.email?.trim() || null,
+          webhook_url: settings.webhookUrl?.trim() || null,
+        },
+        { onConflict: "user_id,workspace_id" },
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return this.mapDatabaseToDigestSettings(data)
+  }
+
+  /**
+   * The user's latest digests for the active workspace, newest first
+   */
+  async getDigests(limit: number = 20): Promise<Digest[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const workspaceId = await getActiveWorkspaceId(this.supabase, user.id)
+
+    const { data, error } = await this.supabase
+      .from("digests")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return data.map(this.mapDatabaseToDigest)
+  }
+
+  private mapDatabaseToDigestSettings(dbSettings: DatabaseDigestSettings): DigestSettings {
+    return {
+      id: dbSettings.id,
+      workspaceId: dbSettings.workspace_id,
+      enabled: dbSettings.enabled,
+      frequency: dbSettings.frequency,
+      sendHour: dbSettings.send_hour,
+      weekday: dbSettings.weekday,
+      timezone: dbSettings.timezone,
+      companyIds: dbSettings.company_ids || [],
+      email: dbSettings.email || undefined,
+      webhookUrl: dbSettings.webhook_url || undefined,
+      lastSentAt: dbSettings.last_sent_at || undefined,
+      createdAt: dbSettings.created_at,
+      updatedAt: dbSettings.updated_at,
+    }
+  }
+
+  private mapDatabaseToDigest(dbDigest: DatabaseDigest): Digest {
+    return {
+      id: dbDigest.id,
+      workspaceId: dbDigest.workspace_id,
+      periodStart: dbDigest.period_start,
+      periodEnd: dbDigest.period_end,
+      releaseCount: dbDigest.release_count,
+      sections: dbDigest.sections || [],
+      deliveries: dbDigest.deliveries || {},
+      createdAt: dbDigest.created_at,
+    }
+  }
+}
+
+// Workspace Management
+export class WorkspaceManager {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabase = supabaseClient || createClientComponentClient()
+  }
+
+  /**
+   * Workspaces the user belongs to, with their role in each
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { data, error } = await this.supabase
+      .from("workspace_members")
+      .select("role, created_at, workspaces(id, name, personal, created_at)")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return ((data || []) as unknown as DatabaseWorkspaceMembership[])
+      .filter((row) => row.workspaces)
+      .map((row) => ({
+        id: row.workspaces!.id,
+        name: row.workspaces!.name,
+        personal: row.workspaces!.personal,
+        role: row.role,
+        createdAt: row.workspaces!.created_at,
+      }))
+  }
+
+  async getActiveWorkspaceId(): Promise<string> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    return getActiveWorkspaceId(this.supabase, user.id)
+  }
+
+  /**
+   * Switch the workspace companies, feeds and releases are loaded from
+   */
+  async setActiveWorkspace(workspaceId: string): Promise<void> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser()
+    if (!user) throw new Error("User not authenticated")
+
+    const { error } = await this.supabase
+      .from("user_profiles")
+      .upsert({ id: user.id, email: user.email!, active_workspace_id: workspaceId })
+
+    if (error) throw error
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    const errors = validateWorkspaceName(name)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const { data, error } = await this.supabase.rpc("create_workspace", { p_name: name.trim() })
+
+    if (error) throw error
+
+    return { id: data as string, name: name.trim(), personal: false, role: "owner", createdAt: new Date().toISOString() }
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<void> {
+    const errors = validateWorkspaceName(name)
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join(", ")}`)
+    }
+
+    const { error } = await this.supabase.from("workspaces").update({ name: name.trim() }).eq("id", id)
+
+    if (error) throw error
+  }
+
+  /**
+   * Delete a shared workspace with its companies, feeds and releases
+   */
+  async deleteWorkspace(id: string): Promise<void> {
+    const { error } = await this.supabase.from("workspaces").delete().eq("id", id).eq("personal", false)
+
+    if (error) throw error
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const { data, error } = await this.supabase.rpc("get_workspace_members", { p_workspace_id: workspaceId })
+
+    if (error) throw error
+
+    return ((data || []) as DatabaseWorkspaceMember[]).map((row) => ({
+      userId: row.user_id,
+      email: row.email,
+      fullName: row.full_name || undefined,
+      role: row.role,
+      joinedAt: row.joined_at,
+    }))
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const { error } = await this.supabase
+      .from("workspace_members")
+      .update({ role })
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Remove a member, or leave the workspace when userId is the signed-in user
+   */
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Invitations that haven't been accepted yet, newest first (owners only)
+   */
+  async getInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await this.supabase
+      .from("workspace_invitations")
+      .select("id, workspace_id, email, role, expires_at, accepted_at, created_at")
+      .eq("workspace_id", workspaceId)
+      .is("accepted_at", null)
+      .order("created_at", { ascending: false })
+
+    if (error) throw error
+
+    return ((data || []) as DatabaseWorkspaceInvitation[]).map((row) => ({
+      id: row.id,
+      workspaceId: row.workspace_id,
+      email: row.email,
+      role: row.role,
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at || undefined,
+      createdAt: row.created_at,
+    }))
+  }
+
+  async revokeInvitation(id: string): Promise<void> {
+    const { error } = await this.supabase.from("workspace_invitations").delete().eq("id", id)
+
+    if (error) throw error
   }
 }
 
@@ -702,3 +2035,11 @@ export const userProfileManager = new UserProfileManager()
 export const bookmarkManager = new BookmarkManager()
 export const readStatusManager = new ReadStatusManager()
 export const rssSourceManager = new RSSSourceManager()
+export const topicTaxonomyManager = new TopicTaxonomyManager()
+export const savedSearchManager = new SavedSearchManager()
+export const alertRuleManager = new AlertRuleManager()
+export const digestManager = new DigestManager()
+export const watchlistGroupManager = new WatchlistGroupManager()
+export const releaseAnnotationManager = new ReleaseAnnotationManager()
+export const releaseTagManager = new ReleaseTagManager()
+export const workspaceManager = new WorkspaceManager()
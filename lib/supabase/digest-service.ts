@@ -0,0 +1,319 @@
+import { createClient } from '@supabase/supabase-js'
+import { alertChannels, isValidTimeZone } from '../alert-rules'
+import { sendEmailDigest, sendWebhookDigest, type DigestContent } from '../alert-delivery'
+import { digestPeriodStart, groupDigestReleases, isDigestDue, type DigestCandidate } from '../digests'
+import { ClaudeAPIError, describeClaudeError, summarizeCompanyReleases } from '../release-analyzer'
+import { apiKeyService } from './api-key-service'
+import { workspaceService } from './workspace-service'
+import type { AlertChannel, Digest, DigestCompanySection, DigestFrequency, DigestSettings } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const MAX_DIGESTS_PER_RUN = 25 // Due digests left over go out on the next run
+const MAX_SCANNED_RELEASES = 1000
+const MAX_ROLLUPS_PER_DIGEST = 15 // Companies with the most releases get one first
+
+type DigestOutcome = 'sent' | 'empty' | 'skipped' | 'failed'
+
+export type DigestRunResult = Record<DigestOutcome, number> & { due: number }
+
+interface DigestSettingsRow {
+  id: string
+  user_id: string
+  workspace_id: string
+  enabled: boolean
+  frequency: DigestFrequency
+  send_hour: number
+  weekday: number
+  timezone: string
+  company_ids: string[] | null
+  email: string | null
+  webhook_url: string | null
+  last_sent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface DigestRow {
+  id: string
+  user_id: string
+  workspace_id: string
+  period_start: string
+  period_end: string
+  release_count: number
+  sections: DigestCompanySection[] | null
+  deliveries: Digest['deliveries'] | null
+  created_at: string
+}
+
+interface DigestReleaseRow {
+  id: string
+  company_id: string
+  title: string
+  summary: string | null
+  source_url: string
+  published_at: string
+  ai_analysis: { summary?: string } | null
+  companies: { name: string } | null
+}
+
+const RELEASE_COLUMNS = 'id, company_id, title, summary, source_url, published_at, ai_analysis, companies(name)'
+
+function mapDbToDigestSettings(row: DigestSettingsRow): DigestSettings {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    enabled: row.enabled,
+    frequency: row.frequency,
+    sendHour: row.send_hour,
+    weekday: row.weekday,
+    timezone: row.timezone,
+    companyIds: row.company_ids || [],
+    email: row.email || undefined,
+    webhookUrl: row.webhook_url || undefined,
+    lastSentAt: row.last_sent_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function mapDbToDigest(row: DigestRow): Digest {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    releaseCount: row.release_count,
+    sections: row.sections || [],
+    deliveries: row.deliveries || {},
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Scheduled digests: the send-digests cron picks the users whose local send time has come,
+ * collects their workspace's releases stored since the last digest, adds a Claude roll-up per
+ * company with the user's own key, keeps the digest for the Digest page and delivers it
+ */
+class DigestService {
+  /**
+   * Send every digest that is due
+   */
+  async sendDue(now: Date = new Date()): Promise<DigestRunResult> {
+    const { data, error } = await supabaseAdmin
+      .from('digest_settings')
+      .select('*')
+      .eq('enabled', true)
+
+    if (error) {
+      throw new Error(`Failed to load digest settings: ${error.message}`)
+    }
+
+    const due = ((data || []) as DigestSettingsRow[]).filter((row) => isDigestDue(mapDbToDigestSettings(row), now))
+    const result: DigestRunResult = { due: due.length, sent: 0, empty: 0, skipped: 0, failed: 0 }
+
+    for (const row of due.slice(0, MAX_DIGESTS_PER_RUN)) {
+      try {
+        const { outcome } = await this.sendDigest(row, now)
+        result[outcome]++
+      } catch (error) {
+        result.failed++
+        console.error(`❌ Digest for user ${row.user_id} failed:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    console.log(`📰 Digests: ${result.sent} sent, ${result.empty} with nothing new, ${result.failed} failed of ${result.due} due`)
+    return result
+  }
+
+  /**
+   * Send the user's digest for a workspace right away, covering everything since the last one
+   * @returns The digest, null when there was nothing new
+   */
+  async sendNow(userId: string, workspaceId: string): Promise<Digest | null> {
+    const { data, error } = await supabaseAdmin
+      .from('digest_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load digest settings: ${error.message}`)
+    if (!data) throw new Error('Save your digest settings first')
+
+    const { outcome, digest } = await this.sendDigest(data as DigestSettingsRow, new Date())
+    if (outcome === 'skipped') throw new Error('A digest is already being sent, try again in a minute')
+    return digest || null
+  }
+
+  private async sendDigest(row: DigestSettingsRow, now: Date): Promise<{ outcome: DigestOutcome; digest?: Digest }> {
+    const settings = mapDbToDigestSettings(row)
+
+    // Members who left the workspace stop getting its digest
+    const role = await workspaceService.getRole(row.user_id, row.workspace_id)
+    if (!role) {
+      await supabaseAdmin.from('digest_settings').update({ enabled: false }).eq('id', row.id)
+      console.log(`📰 Disabled digest of user ${row.user_id}, no longer a member of workspace ${row.workspace_id}`)
+      return { outcome: 'skipped' }
+    }
+
+    // Claiming the period is a conditional update, so concurrent runs never send the same digest twice
+    const periodStart = digestPeriodStart(settings, now)
+    const claim = supabaseAdmin.from('digest_settings').update({ last_sent_at: now.toISOString() }).eq('id', row.id)
+    const { data: claimed } = await (row.last_sent_at ? claim.eq('last_sent_at', row.last_sent_at) : claim.is('last_sent_at', null)).select('id')
+
+    if (!claimed || claimed.length === 0) return { outcome: 'skipped' }
+
+    try {
+      const releases = await this.collectReleases(row, periodStart, now)
+      if (releases.length === 0) {
+        console.log(`📰 Nothing new for the digest of user ${row.user_id}`)
+        return { outcome: 'empty' }
+      }
+
+      const sections = groupDigestReleases(releases)
+      const usage = await this.addRollups(row.user_id, sections)
+
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('digests')
+        .insert({
+          user_id: row.user_id,
+          workspace_id: row.workspace_id,
+          period_start: periodStart.toISOString(),
+          period_end: now.toISOString(),
+          release_count: releases.length,
+          sections,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+        })
+        .select('*')
+        .single()
+
+      if (insertError) throw new Error(`Failed to store digest: ${insertError.message}`)
+
+      const digest = mapDbToDigest(inserted as DigestRow)
+      digest.deliveries = await this.deliver(settings, digest)
+      if (Object.keys(digest.deliveries).length > 0) {
+        await supabaseAdmin.from('digests').update({ deliveries: digest.deliveries }).eq('id', digest.id)
+      }
+
+      console.log(`✅ Sent digest of ${releases.length} releases from ${sections.length} companies to user ${row.user_id}`)
+      return { outcome: 'sent', digest }
+    } catch (error) {
+      // Hand the period back so the next run covers these releases
+      await supabaseAdmin
+        .from('digest_settings')
+        .update({ last_sent_at: row.last_sent_at })
+        .eq('id', row.id)
+        .eq('last_sent_at', now.toISOString())
+      throw error
+    }
+  }
+
+  /**
+   * Canonical copies of the releases stored in the period for the included companies
+   */
+  private async collectReleases(row: DigestSettingsRow, since: Date, until: Date): Promise<DigestCandidate[]> {
+    let query = supabaseAdmin
+      .from('press_releases')
+      .select(RELEASE_COLUMNS)
+      .eq('workspace_id', row.workspace_id)
+      .eq('is_deleted', false)
+      .is('cluster_id', null)
+      .gt('created_at', since.toISOString())
+      .lte('created_at', until.toISOString())
+      .order('published_at', { ascending: false })
+      .limit(MAX_SCANNED_RELEASES)
+
+    if (row.company_ids && row.company_ids.length > 0) {
+      query = query.in('company_id', row.company_ids)
+    }
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to load releases: ${error.message}`)
+
+    return ((data || []) as unknown as DigestReleaseRow[]).map((release) => ({
+      id: release.id,
+      companyId: release.company_id,
+      companyName: release.companies?.name || 'Unknown Company',
+      title: release.title,
+      sourceUrl: release.source_url,
+      publishedAt: release.published_at,
+      summary: release.ai_analysis?.summary || (release.summary || '').replace(/<[^>]*>/g, '').trim(),
+    }))
+  }
+
+  /**
+   * Ask Claude for a roll-up of each company's releases with the user's key; without a key, or
+   * when Claude fails, the digest goes out without them
+   */
+  private async addRollups(userId: string, sections: DigestCompanySection[]): Promise<{ inputTokens: number; outputTokens: number }> {
+    const usage = { inputTokens: 0, outputTokens: 0 }
+
+    const apiKey = await apiKeyService.getClaudeAPIKey(userId).catch((error) => {
+      console.warn(`⚠️ Failed to load API key for the digest of user ${userId}:`, error instanceof Error ? error.message : error)
+      return null
+    })
+    if (!apiKey) return usage
+
+    const busiest = [...sections].sort((a, b) => b.releaseCount - a.releaseCount).slice(0, MAX_ROLLUPS_PER_DIGEST)
+    for (const section of busiest) {
+      try {
+        const rollup = await summarizeCompanyReleases(apiKey, { companyName: section.companyName, releases: section.releases })
+        section.rollup = rollup.text || undefined
+        usage.inputTokens += rollup.usage.inputTokens
+        usage.outputTokens += rollup.usage.outputTokens
+      } catch (error) {
+        const message = error instanceof ClaudeAPIError ? describeClaudeError(error) : error instanceof Error ? error.message : error
+        console.warn(`⚠️ Digest roll-up for ${section.companyName} failed: ${message}`)
+        // A bad key or a rate limit fails the rest too
+        if (error instanceof ClaudeAPIError && (error.status === 401 || error.status === 429)) break
+      }
+    }
+
+    return usage
+  }
+
+  /**
+   * @returns Error message per channel, null for channels that worked
+   */
+  private async deliver(settings: DigestSettings, digest: Digest): Promise<Partial<Record<AlertChannel, string | null>>> {
+    const { data: workspace } = await supabaseAdmin
+      .from('workspaces')
+      .select('name')
+      .eq('id', settings.workspaceId)
+      .maybeSingle()
+
+    const content: DigestContent = {
+      workspaceName: workspace?.name || 'Your workspace',
+      periodStart: digest.periodStart,
+      periodEnd: digest.periodEnd,
+      timezone: isValidTimeZone(settings.timezone) ? settings.timezone : 'UTC',
+      releaseCount: digest.releaseCount,
+      sections: digest.sections,
+      url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/digest?id=${digest.id}`,
+    }
+
+    const results: Partial<Record<AlertChannel, string | null>> = {}
+    for (const channel of alertChannels(settings)) {
+      try {
+        if (channel === 'webhook' && settings.webhookUrl) {
+          await sendWebhookDigest(settings.webhookUrl, content)
+        } else if (channel === 'email' && settings.email) {
+          await sendEmailDigest(settings.email, content)
+        }
+        results[channel] = null
+      } catch (error) {
+        results[channel] = error instanceof Error ? error.message : 'Unknown error'
+        console.warn(`⚠️ Digest ${digest.id} ${channel} delivery failed: ${results[channel]}`)
+      }
+    }
+    return results
+  }
+}
+
+export const digestService = new DigestService()
@@ -0,0 +1,173 @@
+import { createClient } from '@supabase/supabase-js'
+import { extractContentFromUrl, type ContentExtractionResult } from '../enhanced-content-extractor'
+import { isGoogleNewsUrl } from '../rss-sources'
+import type { ExtractedContent } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const EXTRACTED_COLUMNS = 'extracted_html, extracted_text, extracted_by, extraction_confidence, extracted_at'
+
+interface ExtractedContentRow {
+  extracted_html: string | null
+  extracted_text: string | null
+  extracted_by: string | null
+  extraction_confidence: number | null
+  extracted_at: string
+}
+
+// Releases extracted per company during a poll, so one busy feed can't stall the cron run
+const DEFAULT_POLL_EXTRACTION_LIMIT = 10
+const POLL_EXTRACTION_DELAY = 500 // Pause between source pages
+const POLL_EXTRACTION_WINDOW_DAYS = 3 // Older releases are left to lazy extraction on first view
+
+/**
+ * Whether polling should extract full article bodies for new releases up front,
+ * instead of waiting for the first time each release is opened
+ */
+export function isPollExtractionEnabled(): boolean {
+  return process.env.EXTRACT_CONTENT_ON_POLL === 'true'
+}
+
+/**
+ * Present a stored extraction in the same shape as a fresh one
+ */
+export function toCachedExtractionResult(content: ExtractedContent): ContentExtractionResult {
+  return {
+    success: true,
+    content: content.htmlContent || content.textContent,
+    htmlContent: content.htmlContent,
+    textContent: content.textContent,
+    extractedBy: content.extractedBy,
+    confidence: content.confidence,
+    cached: true,
+    extractedAt: content.extractedAt,
+  }
+}
+
+/**
+ * Persists full article bodies extracted from source pages on the workspace's stored releases,
+ * keyed by source URL so every copy of a release shares one extraction
+ * Server-only: uses the service role and fetches source pages
+ */
+class ExtractedContentService {
+  /**
+   * Cached extraction for a source URL, if any of the workspace's releases has one
+   */
+  async getExtractedContent(workspaceId: string, sourceUrl: string): Promise<ExtractedContent | null> {
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .select(EXTRACTED_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .eq('source_url', sourceUrl)
+      .not('extracted_at', 'is', null)
+      .order('extracted_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`⚠️ Failed to load extracted content for ${sourceUrl}:`, error.message)
+      return null
+    }
+
+    return data ? this.mapDbToExtractedContent(data) : null
+  }
+
+  /**
+   * Store a successful extraction on every release the workspace has for this source URL
+   * @returns Number of releases updated, 0 when the URL is not stored (e.g. a live RSS item)
+   */
+  async saveExtractedContent(workspaceId: string, sourceUrl: string, result: ContentExtractionResult): Promise<number> {
+    if (!result.success) return 0
+
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .update({
+        extracted_html: result.htmlContent || result.content,
+        extracted_text: result.textContent || '',
+        extracted_by: result.extractedBy || 'Unknown',
+        extraction_confidence: result.confidence ?? 0,
+        extracted_at: new Date().toISOString(),
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('source_url', sourceUrl)
+      .eq('is_deleted', false)
+      .select('id')
+
+    if (error) {
+      console.warn(`⚠️ Failed to save extracted content for ${sourceUrl}:`, error.message)
+      return 0
+    }
+
+    const updated = data?.length || 0
+    if (updated > 0) {
+      console.log(`💾 Saved extracted content for ${updated} release(s): ${sourceUrl.substring(0, 100)}`)
+    }
+    return updated
+  }
+
+  /**
+   * Extract and store content for a company's recent releases that don't have it yet, newest
+   * first. SEC filings are skipped since their documents are not article pages, and Google News
+   * links are left to the Google News extraction route, which resolves them first.
+   */
+  async extractPendingContent(
+    workspaceId: string,
+    companyId: string,
+    limit: number = DEFAULT_POLL_EXTRACTION_LIMIT
+  ): Promise<{ extracted: number; failed: number }> {
+    const since = new Date(Date.now() - POLL_EXTRACTION_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    const { data, error } = await supabaseAdmin
+      .from('press_releases')
+      .select('source_url')
+      .eq('company_id', companyId)
+      .eq('is_deleted', false)
+      .is('extracted_at', null)
+      .is('filing', null)
+      .gte('published_at', since.toISOString())
+      .order('published_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.warn(`⚠️ Failed to load releases pending extraction for company ${companyId}:`, error.message)
+      return { extracted: 0, failed: 0 }
+    }
+
+    const sourceUrls = Array.from(new Set((data || []).map((row: { source_url: string }) => row.source_url)))
+      .filter((sourceUrl) => !isGoogleNewsUrl(sourceUrl))
+    let extracted = 0
+    let failed = 0
+
+    for (const sourceUrl of sourceUrls) {
+      const result = await extractContentFromUrl(sourceUrl)
+      if (result.success && (await this.saveExtractedContent(workspaceId, sourceUrl, result)) > 0) {
+        extracted++
+      } else {
+        failed++
+        console.warn(`⚠️ Could not extract ${sourceUrl.substring(0, 100)}: ${result.error || 'not saved'}`)
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_EXTRACTION_DELAY))
+    }
+
+    if (sourceUrls.length > 0) {
+      console.log(`📄 Extracted ${extracted} of ${sourceUrls.length} pending articles for company ${companyId}`)
+    }
+    return { extracted, failed }
+  }
+
+  private mapDbToExtractedContent(data: ExtractedContentRow): ExtractedContent {
+    return {
+      htmlContent: data.extracted_html || '',
+      textContent: data.extracted_text || '',
+      extractedBy: data.extracted_by || 'Unknown',
+      confidence: data.extraction_confidence ?? 0,
+      extractedAt: data.extracted_at,
+    }
+  }
+}
+
+export const extractedContentService = new ExtractedContentService()
@@ -0,0 +1,95 @@
+import { createClient } from '@supabase/supabase-js'
+import type { RSSFetchAttempt } from '../types'
+import { FeedHTTPError } from '../feed-fetcher'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Number of recent attempts the success rate is computed over
+export const HEALTH_WINDOW_SIZE = 20
+
+// A source is disabled after this many failed polls in a row
+export const MAX_CONSECUTIVE_FAILURES = Number(process.env.RSS_MAX_CONSECUTIVE_FAILURES) || 10
+
+export type FetchAttemptInput = Omit<RSSFetchAttempt, 'id' | 'rssSourceId' | 'attemptedAt'>
+
+/**
+ * Records per-feed fetch attempts and keeps the health columns on rss_sources
+ * (success rate, article count, last error, consecutive failures) in sync with them
+ */
+class FeedHealthService {
+  /**
+   * Record one fetch of a feed URL against every RSS source that shares it
+   * Health tracking never fails a poll, so errors are logged and swallowed
+   */
+  async recordAttempt(sourceIds: string[], attempt: FetchAttemptInput): Promise<void> {
+    for (const sourceId of sourceIds) {
+      try {
+        await this.recordSourceAttempt(sourceId, attempt)
+      } catch (error) {
+        console.warn(`⚠️ Failed to record fetch attempt for RSS source ${sourceId}:`, error instanceof Error ? error.message : error)
+      }
+    }
+  }
+
+  /**
+   * The record_rss_fetch_attempt function stores the attempt and updates the health columns in
+   * one statement, so concurrent polls of a shared feed can't lose a failure
+   */
+  private async recordSourceAttempt(sourceId: string, attempt: FetchAttemptInput): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .rpc('record_rss_fetch_attempt', {
+        p_source_id: sourceId,
+        p_status: attempt.status,
+        p_http_status: attempt.httpStatus ?? null,
+        p_latency_ms: Math.round(attempt.latencyMs),
+        p_item_count: attempt.itemCount,
+        p_bytes: attempt.bytes,
+        p_error_message: attempt.errorMessage || null,
+        p_window_size: HEALTH_WINDOW_SIZE,
+        p_max_failures: MAX_CONSECUTIVE_FAILURES,
+      })
+      .single()
+
+    if (error) throw error
+
+    const result = data as { source_name: string; failures: number; disabled: boolean }
+    if (result.disabled) {
+      console.warn(`🚫 Disabled RSS source ${result.source_name} after ${result.failures} consecutive failures`)
+    }
+  }
+
+  /**
+   * Delete each source's attempts beyond the health window, which is all the health columns
+   * and the history sparkline read. Called by the daily cleanup cron.
+   * @returns Number of attempts deleted
+   */
+  async pruneAttempts(): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('prune_rss_fetch_attempts', { p_window_size: HEALTH_WINDOW_SIZE })
+
+    if (error) {
+      throw new Error(`Failed to prune RSS fetch attempts: ${error.message}`)
+    }
+
+    return (data as number) || 0
+  }
+}
+
+/**
+ * Build a failed attempt from a fetch error, keeping the HTTP status when there was one
+ */
+export function failedAttempt(error: unknown, latencyMs: number): FetchAttemptInput {
+  return {
+    status: 'error',
+    httpStatus: error instanceof FeedHTTPError ? error.status : undefined,
+    latencyMs,
+    itemCount: 0,
+    bytes: 0,
+    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+  }
+}
+
+export const feedHealthService = new FeedHealthService()
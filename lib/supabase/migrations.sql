@@ -42,6 +42,8 @@ CREATE TABLE IF NOT EXISTS companies (
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   name TEXT NOT NULL,
   variations TEXT[] DEFAULT '{}',
+  negative_keywords TEXT[] DEFAULT '{}',
+  cik TEXT,
   website TEXT,
   industry TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
@@ -4,9 +4,13 @@ import type {
   StoredPressRelease, 
   CreateStoredPressRelease, 
   RSSPollLog, 
-  CreateRSSPollLog 
+  CreateRSSPollLog,
+  ReleaseSearchFilters
 } from '../types'
 import { generateContentHash } from '../content-hash'
+import { findNearDuplicate, CLUSTER_WINDOW_HOURS } from '../story-clusters'
+import { mapDbToAIAnalysis } from './ai-analysis-service'
+import { normalizeSearchQuery, searchDateRange, MAX_SEARCH_RESULTS } from '../release-search'
 
 // Admin client for server-side operations
 const supabaseAdmin = createClient(
@@ -26,13 +30,15 @@ class PressReleasesService {
   ): Promise<StoredPressRelease | null> {
     try {
       // Check if this press release already exists
-      const existingRelease = await this.findDuplicate(userId, data.companyId, data.contentHash)
+      const existingRelease = await this.findDuplicate(data.companyId, data.contentHash)
       
       if (existingRelease) {
         console.log('📦 Duplicate press release found, skipping:', data.title)
         return existingRelease
       }
 
+      const clusterId = await this.findStoryCluster(data)
+
       const { data: newRelease, error } = await this.supabase
         .from('press_releases')
         .insert({
@@ -47,6 +53,12 @@ class PressReleasesService {
           rss_source_url: data.rssSourceUrl,
           ai_analysis: data.aiAnalysis,
           highlights: data.highlights,
+          filing: data.filing,
+          simhash: data.simhash,
+          cluster_id: clusterId,
+          financial_facts: data.financialFacts,
+          deal_type: data.financialFacts?.dealType,
+          deal_amount: data.financialFacts?.amount?.value,
         })
         .select()
         .single()
@@ -64,10 +76,9 @@ class PressReleasesService {
   }
 
   /**
-   * Find duplicate press release by content hash
+   * Find duplicate press release by content hash; a company's releases are shared by its workspace
    */
   async findDuplicate(
-    userId: string, 
     companyId: string, 
     contentHash: string
   ): Promise<StoredPressRelease | null> {
@@ -75,7 +86,6 @@ class PressReleasesService {
       const { data, error } = await this.supabase
         .from('press_releases')
         .select('*')
-        .eq('user_id', userId)
         .eq('company_id', companyId)
         .eq('content_hash', contentHash)
         .eq('is_deleted', false)
@@ -92,10 +102,44 @@ class PressReleasesService {
   }
 
   /**
-   * Get press releases for a user, optionally filtered by company
+   * Find the story cluster a new release belongs to: the canonical release of the
+   * closest near-duplicate published for the same company within the cluster window
+   * @returns Canonical release id, or null when the release starts a new story
+   */
+  async findStoryCluster(
+    release: Pick<CreateStoredPressRelease, 'companyId' | 'publishedAt' | 'simhash'>
+  ): Promise<string | null> {
+    if (!release.simhash) return null
+
+    try {
+      const publishedAt = new Date(release.publishedAt).getTime()
+      const windowMs = CLUSTER_WINDOW_HOURS * 60 * 60 * 1000
+
+      const { data, error } = await this.supabase
+        .from('press_releases')
+        .select('id, simhash, cluster_id, published_at')
+        .eq('company_id', release.companyId)
+        .not('simhash', 'is', null)
+        .gte('published_at', new Date(publishedAt - windowMs).toISOString())
+        .lte('published_at', new Date(publishedAt + windowMs).toISOString())
+        .limit(200)
+
+      if (error || !data) return null
+
+      const match = findNearDuplicate(release.simhash, release.publishedAt, data)
+      return match ? match.cluster_id || match.id : null
+    } catch (error) {
+      // Clustering is best effort; the release is still stored on its own
+      console.warn('⚠️ Failed to find story cluster:', error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  /**
+   * Get press releases for a workspace, optionally filtered by company
    */
   async getPressReleases(
-    userId: string,
+    workspaceId: string,
     options: {
       companyId?: string
       limit?: number
@@ -115,7 +159,7 @@ class PressReleasesService {
             variations
           )
         `)
-        .eq('user_id', userId)
+        .eq('workspace_id', workspaceId)
         .eq('is_deleted', false)
 
       if (options.companyId) {
@@ -153,10 +197,38 @@ class PressReleasesService {
     }
   }
 
+  /**
+   * Full-text search over a workspace's releases, best matches first (newest first without a query)
+   * @throws Error when the search fails, e.g. a query Postgres can't parse
+   */
+  async searchPressReleases(
+    workspaceId: string,
+    filters: ReleaseSearchFilters,
+    limit: number = 50
+  ): Promise<StoredPressRelease[]> {
+    const { from, to } = searchDateRange(filters)
+
+    const { data, error } = await this.supabase.rpc('search_press_releases', {
+      p_workspace_id: workspaceId,
+      p_query: normalizeSearchQuery(filters.query) || null,
+      p_from: from || null,
+      p_to: to || null,
+      p_feed_types: filters.feedTypes.length > 0 ? filters.feedTypes : null,
+      p_limit: Math.min(limit, MAX_SEARCH_RESULTS),
+    })
+
+    if (error) {
+      console.error('Error searching press releases:', error)
+      throw new Error(`Search failed: ${error.message}`)
+    }
+
+    return (data || []).map(this.mapDbToStoredRelease)
+  }
+
   /**
    * Soft delete old press releases (beyond 30 days)
    */
-  async cleanupOldReleases(userId: string): Promise<number> {
+  async cleanupOldReleases(workspaceId: string): Promise<number> {
     try {
       const thirtyDaysAgo = new Date()
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
@@ -164,7 +236,7 @@ class PressReleasesService {
       const { data, error } = await this.supabase
         .from('press_releases')
         .update({ is_deleted: true })
-        .eq('user_id', userId)
+        .eq('workspace_id', workspaceId)
         .lt('published_at', thirtyDaysAgo.toISOString())
         .eq('is_deleted', false)
         .select('id')
@@ -175,7 +247,7 @@ class PressReleasesService {
       }
 
       const deletedCount = data?.length || 0
-      console.log(`🧹 Cleaned up ${deletedCount} old press releases for user ${userId}`)
+      console.log(`🧹 Cleaned up ${deletedCount} old press releases for workspace ${workspaceId}`)
       return deletedCount
     } catch (error) {
       console.error('Error in cleanupOldReleases:', error)
@@ -256,17 +328,17 @@ class PressReleasesService {
   }
 
   /**
-   * Get recent poll logs for a user
+   * Get recent poll logs for a workspace
    */
   async getPollLogs(
-    userId: string,
+    workspaceId: string,
     limit: number = 50
   ): Promise<RSSPollLog[]> {
     try {
       const { data, error } = await this.supabase
         .from('rss_poll_logs')
         .select('*')
-        .eq('user_id', userId)
+        .eq('workspace_id', workspaceId)
         .order('created_at', { ascending: false })
         .limit(limit)
 
@@ -284,28 +356,32 @@ class PressReleasesService {
 
   /**
    * Batch store multiple press releases
+   * @returns Counts of created, duplicate and failed releases; failed ones are logged and skipped
    */
   async batchCreatePressReleases(
     userId: string,
     releases: CreateStoredPressRelease[]
-  ): Promise<{ created: number; duplicates: number }> {
+  ): Promise<{ created: number; duplicates: number; failed: number }> {
     let created = 0
     let duplicates = 0
+    let failed = 0
 
     for (const release of releases) {
       const result = await this.createPressRelease(userId, release)
       if (result) {
         // Check if it was actually created or was a duplicate
-        const existingRelease = await this.findDuplicate(userId, release.companyId, release.contentHash)
+        const existingRelease = await this.findDuplicate(release.companyId, release.contentHash)
         if (existingRelease && existingRelease.createdAt !== result.createdAt) {
           duplicates++
         } else {
           created++
         }
+      } else {
+        failed++
       }
     }
 
-    return { created, duplicates }
+    return { created, duplicates, failed }
   }
 
   /**
@@ -315,6 +391,7 @@ class PressReleasesService {
     return {
       id: data.id,
       userId: data.user_id,
+      workspaceId: data.workspace_id,
       companyId: data.company_id,
       title: data.title,
       content: data.content,
@@ -323,8 +400,21 @@ class PressReleasesService {
       publishedAt: data.published_at,
       contentHash: data.content_hash,
       rssSourceUrl: data.rss_source_url,
-      aiAnalysis: data.ai_analysis,
+      aiAnalysis: mapDbToAIAnalysis(data),
+      financialFacts: data.financial_facts || undefined,
       highlights: data.highlights,
+      filing: data.filing || undefined,
+      simhash: data.simhash || undefined,
+      clusterId: data.cluster_id || undefined,
+      extractedContent: data.extracted_at
+        ? {
+            htmlContent: data.extracted_html || '',
+            textContent: data.extracted_text || '',
+            extractedBy: data.extracted_by || 'Unknown',
+            confidence: data.extraction_confidence ?? 0,
+            extractedAt: data.extracted_at,
+          }
+        : undefined,
       isDeleted: data.is_deleted,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
@@ -364,22 +454,24 @@ class AdminPressReleasesService extends PressReleasesService {
   async adminBatchCreatePressReleases(
     userId: string,
     releases: CreateStoredPressRelease[]
-  ): Promise<{ created: number; duplicates: number }> {
+  ): Promise<{ created: number; duplicates: number; failed: number }> {
     let created = 0
     let duplicates = 0
+    let failed = 0
 
     console.log(`📦 Admin batch creating ${releases.length} press releases for user ${userId}`)
 
     for (const release of releases) {
       try {
-        // Check for duplicates using admin client (based on title and company and user)
-        const { data: existingRelease, error: duplicateError } = await supabaseAdmin
+        // Check for duplicates using admin client (based on title and company, whoever stored it).
+        // Filings of the same form often share a title, so they are matched by filing URL instead.
+        const { data: existingRelease } = await supabaseAdmin
           .from('press_releases')
           .select('id')
-          .eq('user_id', userId)
           .eq('company_id', release.companyId)
-          .eq('title', release.title)
-          .single()
+          .eq(release.filing ? 'source_url' : 'title', release.filing ? release.sourceUrl : release.title)
+          .limit(1)
+          .maybeSingle()
 
         if (existingRelease) {
           duplicates++
@@ -387,6 +479,8 @@ class AdminPressReleasesService extends PressReleasesService {
           continue
         }
 
+        const clusterId = await this.findStoryCluster(release)
+
         // Create new release using admin client (include user_id)
         const { data: newRelease, error: createError } = await supabaseAdmin
           .from('press_releases')
@@ -398,14 +492,23 @@ class AdminPressReleasesService extends PressReleasesService {
             summary: release.summary,
             source_url: release.sourceUrl,
             published_at: release.publishedAt,
+            content_hash: release.contentHash,
+            rss_source_url: release.rssSourceUrl,
             ai_analysis: release.aiAnalysis,
             highlights: release.highlights,
+            filing: release.filing,
+            simhash: release.simhash,
+            cluster_id: clusterId,
+            financial_facts: release.financialFacts,
+            deal_type: release.financialFacts?.dealType,
+            deal_amount: release.financialFacts?.amount?.value,
           })
           .select()
           .single()
 
         if (createError) {
           console.error(`❌ Failed to create release: ${release.title}`, createError)
+          failed++
           continue
         }
 
@@ -414,11 +517,12 @@ class AdminPressReleasesService extends PressReleasesService {
 
       } catch (error) {
         console.error(`❌ Error processing release: ${release.title}`, error)
+        failed++
       }
     }
 
-    console.log(`📊 Admin batch complete: ${created} created, ${duplicates} duplicates`)
-    return { created, duplicates }
+    console.log(`📊 Admin batch complete: ${created} created, ${duplicates} duplicates, ${failed} failed`)
+    return { created, duplicates, failed }
   }
 
   /**
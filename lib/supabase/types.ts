@@ -37,6 +37,8 @@ export interface Database {
           user_id: string
           name: string
           variations: string[]
+          negative_keywords: string[] | null
+          cik: string | null
           website: string | null
           industry: string | null
           created_at: string
@@ -47,6 +49,8 @@ export interface Database {
           user_id: string
           name: string
           variations: string[]
+          negative_keywords?: string[] | null
+          cik?: string | null
           website?: string | null
           industry?: string | null
           created_at?: string
@@ -57,6 +61,8 @@ export interface Database {
           user_id?: string
           name?: string
           variations?: string[]
+          negative_keywords?: string[] | null
+          cik?: string | null
           website?: string | null
           industry?: string | null
           created_at?: string
@@ -0,0 +1,272 @@
+import crypto from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import { getEmailTransport, type EmailMessage } from '../email-transport'
+import { ALERT_EMAIL_FROM } from '../alert-delivery'
+import { INVITATION_TTL_DAYS, invitationProblem, normalizeEmail, ROLE_DESCRIPTIONS } from '../workspaces'
+import type { WorkspaceInvitation, WorkspaceRole } from '../types'
+
+// Admin client for server-side operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+interface WorkspaceInvitationRow {
+  id: string
+  workspace_id: string
+  email: string
+  role: WorkspaceInvitation['role']
+  token_hash: string
+  invited_by: string | null
+  expires_at: string
+  accepted_at: string | null
+  created_at: string
+}
+
+export interface ActiveWorkspace {
+  workspaceId: string
+  role: WorkspaceRole
+}
+
+/**
+ * Invitation problem the user can fix (wrong account, expired link), as opposed to a failed query
+ */
+export class InvitationError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'InvitationError'
+    this.status = status
+  }
+}
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export function buildInvitationEmail(options: {
+  to: string
+  workspaceName: string
+  inviterEmail?: string
+  role: WorkspaceInvitation['role']
+  url: string
+}): EmailMessage {
+  const inviter = options.inviterEmail || 'A teammate'
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+  return {
+    from: ALERT_EMAIL_FROM,
+    to: options.to,
+    subject: `${inviter} invited you to ${options.workspaceName} on Cignal`,
+    text: [
+      `${inviter} invited you to join the "${options.workspaceName}" workspace as ${options.role === 'editor' ? 'an editor' : 'a viewer'}.`,
+      ROLE_DESCRIPTIONS[options.role] + '.',
+      '',
+      `Accept the invitation: ${options.url}`,
+      '',
+      `The link expires in ${INVITATION_TTL_DAYS} days and only works for ${options.to}.`,
+    ].join('\n'),
+    html: [
+      `<p style="font-size:14px">${escape(inviter)} invited you to join the &quot;${escape(options.workspaceName)}&quot; workspace as ${options.role === 'editor' ? 'an editor' : 'a viewer'}.</p>`,
+      `<p style="font-size:14px"><a href="${escape(options.url)}">Accept the invitation</a></p>`,
+      `<p style="color:#999;font-size:12px">The link expires in ${INVITATION_TTL_DAYS} days and only works for ${escape(options.to)}.</p>`,
+    ].join('\n'),
+  }
+}
+
+/**
+ * Workspace membership for server routes and cron jobs: which workspace a request acts on,
+ * and invitations, whose tokens are hashed here so the raw token only ever exists in the link
+ * Server-only: uses the service role
+ */
+class WorkspaceService {
+  /**
+   * The workspace the user last switched to while they're still a member of it, otherwise
+   * their oldest membership; users without any get a personal workspace
+   */
+  async getActiveWorkspace(userId: string): Promise<ActiveWorkspace> {
+    const [{ data: profile }, { data: memberships, error }] = await Promise.all([
+      supabaseAdmin.from('user_profiles').select('active_workspace_id').eq('id', userId).maybeSingle(),
+      supabaseAdmin
+        .from('workspace_members')
+        .select('workspace_id, role')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true }),
+    ])
+
+    if (error) throw new Error(`Failed to load workspaces: ${error.message}`)
+
+    const rows = (memberships || []) as Array<{ workspace_id: string; role: WorkspaceRole }>
+    const active = rows.find((row) => row.workspace_id === profile?.active_workspace_id) || rows[0]
+    if (active) return { workspaceId: active.workspace_id, role: active.role }
+
+    const { data: workspaceId, error: createError } = await supabaseAdmin.rpc('ensure_personal_workspace', { p_user_id: userId })
+    if (createError || !workspaceId) {
+      throw new Error(`Failed to create personal workspace: ${createError?.message || 'no id returned'}`)
+    }
+
+    console.log(`🏠 Created personal workspace for user ${userId}`)
+    return { workspaceId: workspaceId as string, role: 'owner' }
+  }
+
+  /**
+   * @returns The user's role in the workspace, null when they aren't a member
+   */
+  async getRole(userId: string, workspaceId: string): Promise<WorkspaceRole | null> {
+    const { data, error } = await supabaseAdmin
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load workspace role: ${error.message}`)
+    return (data?.role as WorkspaceRole) || null
+  }
+
+  async getMemberIds(workspaceId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', workspaceId)
+
+    if (error) throw new Error(`Failed to load workspace members: ${error.message}`)
+    return (data || []).map((row: { user_id: string }) => row.user_id)
+  }
+
+  /**
+   * Create an invitation, replacing any pending one for the same address
+   * @returns The invitation and the raw token for the link
+   */
+  async createInvitation(
+    workspaceId: string,
+    invitedBy: string,
+    email: string,
+    role: WorkspaceInvitation['role']
+  ): Promise<{ invitation: WorkspaceInvitation; token: string }> {
+    const address = normalizeEmail(email)
+
+    const { data: profile } = await supabaseAdmin.from('user_profiles').select('id').eq('email', address).maybeSingle()
+    if (profile && (await this.getRole(profile.id, workspaceId))) {
+      throw new InvitationError(`${address} is already a member of this workspace`, 409)
+    }
+
+    await supabaseAdmin
+      .from('workspace_invitations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('email', address)
+      .is('accepted_at', null)
+
+    const token = crypto.randomBytes(32).toString('hex')
+    const { data, error } = await supabaseAdmin
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: workspaceId,
+        email: address,
+        role,
+        token_hash: hashInvitationToken(token),
+        invited_by: invitedBy,
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select('*')
+      .single()
+
+    if (error) throw new Error(`Failed to create invitation: ${error.message}`)
+
+    console.log(`✉️ Invited ${address} to workspace ${workspaceId} as ${role}`)
+    return { invitation: this.mapDbToInvitation(data as WorkspaceInvitationRow), token }
+  }
+
+  /**
+   * Email the invitation link when an email transport is configured
+   * @returns Whether the email went out; the link can still be shared by hand when it didn't
+   */
+  async sendInvitationEmail(invitation: WorkspaceInvitation, url: string, inviterEmail?: string): Promise<boolean> {
+    const transport = getEmailTransport()
+    if (!transport) return false
+
+    try {
+      const { data: workspace } = await supabaseAdmin
+        .from('workspaces')
+        .select('name')
+        .eq('id', invitation.workspaceId)
+        .single()
+
+      await transport.send(
+        buildInvitationEmail({
+          to: invitation.email,
+          workspaceName: workspace?.name || 'a workspace',
+          inviterEmail,
+          role: invitation.role,
+          url,
+        })
+      )
+      return true
+    } catch (error) {
+      console.warn(`⚠️ Failed to email invitation to ${invitation.email}:`, error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+
+  /**
+   * Join the invitation's workspace and make it the user's active one
+   * @throws InvitationError when the link is unknown, used, expired or for another address
+   */
+  async acceptInvitation(token: string, user: { id: string; email?: string }): Promise<{ workspaceId: string; name: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('workspace_invitations')
+      .select('*, workspaces(name)')
+      .eq('token_hash', hashInvitationToken(token))
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load invitation: ${error.message}`)
+    if (!data) throw new InvitationError('This invitation link is not valid', 404)
+
+    const row = data as WorkspaceInvitationRow & { workspaces: { name: string } | null }
+    const problem = invitationProblem(this.mapDbToInvitation(row), user.email)
+    if (problem) throw new InvitationError(problem, row.accepted_at ? 410 : 403)
+
+    // Claim the invitation first so the same link can't be used twice concurrently
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('workspace_invitations')
+      .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+      .eq('id', row.id)
+      .is('accepted_at', null)
+      .select('id')
+
+    if (claimError) throw new Error(`Failed to accept invitation: ${claimError.message}`)
+    if (!claimed || claimed.length === 0) throw new InvitationError('This invitation has already been used', 410)
+
+    // Existing members keep their current role
+    const { error: memberError } = await supabaseAdmin
+      .from('workspace_members')
+      .upsert(
+        { workspace_id: row.workspace_id, user_id: user.id, role: row.role },
+        { onConflict: 'workspace_id,user_id', ignoreDuplicates: true }
+      )
+
+    if (memberError) throw new Error(`Failed to join workspace: ${memberError.message}`)
+
+    await supabaseAdmin.from('user_profiles').update({ active_workspace_id: row.workspace_id }).eq('id', user.id)
+
+    console.log(`🤝 User ${user.id} joined workspace ${row.workspace_id} as ${row.role}`)
+    return { workspaceId: row.workspace_id, name: row.workspaces?.name || 'Workspace' }
+  }
+
+  private mapDbToInvitation(row: WorkspaceInvitationRow): WorkspaceInvitation {
+    return {
+      id: row.id,
+      workspaceId: row.workspace_id,
+      email: row.email,
+      role: row.role,
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at || undefined,
+      createdAt: row.created_at,
+    }
+  }
+}
+
+export const workspaceService = new WorkspaceService()
@@ -0,0 +1,235 @@
+import http from 'http'
+import net from 'net'
+import { AddressInfo } from 'net'
+import { matchesAlertRule, quietHoursEnd, validateAlertRule, type AlertCandidate } from './alert-rules'
+import { AlertDeliveryError, sendEmailAlert, sendWebhookAlert, type AlertContent, type WebhookPayload } from './alert-delivery'
+import { setEmailTransport, SMTPTransport } from './email-transport'
+import type { AlertRule, CreateAlertRule } from './types'
+
+const BASE_RULE: CreateAlertRule = {
+  name: 'Credit deals',
+  enabled: true,
+  feedTypes: [],
+  webhookUrl: 'https://hooks.example.com/alerts',
+  timezone: 'UTC',
+}
+
+const RELEASE: AlertCandidate = {
+  companyId: 'contoso',
+  title: 'Contoso Capital Closes $400 Million Credit Facility',
+  content: 'The unitranche financing supports data center expansion. Crypto assets are not involved.',
+  feedType: 'ir-news',
+  topicMatch: { taxonomyId: 'private-markets', categories: ['Private Credit', 'Infrastructure'], relevanceScore: 45, matchedTerms: [] },
+}
+
+const ALERT: AlertContent = {
+  ruleName: 'Credit deals',
+  title: 'Contoso Capital Closes $400 Million Credit Facility',
+  companyName: 'Contoso',
+  sourceUrl: 'https://example.com/news/contoso-credit-facility',
+  publishedAt: '2026-03-02T13:30:00Z',
+  summary: 'The unitranche financing supports data center expansion.',
+  categories: ['Private Credit'],
+}
+
+interface MatchCase {
+  description: string
+  rule: Partial<CreateAlertRule>
+  matches: boolean
+}
+
+const matchCases: MatchCase[] = [
+  { description: 'phrase and OR alternatives', rule: { query: '"credit facility" OR "term loan"' }, matches: true },
+  { description: 'excluded term rules the release out', rule: { query: 'unitranche -crypto' }, matches: false },
+  { description: 'words match whole words only', rule: { query: 'cap' }, matches: false },
+  { description: 'other company', rule: { companyId: 'fabrikam' }, matches: false },
+  { description: 'feed type filter', rule: { feedTypes: ['sec-filings'] }, matches: false },
+  { description: 'topic category', rule: { topicTaxonomyId: 'private-markets', topicCategory: 'infrastructure' }, matches: true },
+  { description: 'relevance below minimum', rule: { topicTaxonomyId: 'private-markets', minRelevanceScore: 60 }, matches: false },
+]
+
+/**
+ * Local SMTP stand-in that accepts one message and records the conversation
+ */
+function startSMTPStandIn(): Promise<{ server: net.Server; port: number; commands: string[]; data: string[] }> {
+  const commands: string[] = []
+  const data: string[] = []
+
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 localhost ESMTP stand-in\r\n')
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let index = buffer.indexOf('\r\n')
+      while (index >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        index = buffer.indexOf('\r\n')
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 Queued\r\n')
+          } else {
+            data.push(line)
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(' ')[0].toUpperCase()
+        if (verb === 'EHLO') socket.write('250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n')
+        else if (verb === 'AUTH') socket.write('235 Authenticated\r\n')
+        else if (verb === 'RCPT' && line.includes('unknown@')) socket.write('550 No such user\r\n')
+        else if (verb === 'DATA') {
+          inData = true
+          socket.write('354 Go ahead\r\n')
+        } else if (verb === 'QUIT') socket.end('221 Bye\r\n')
+        else socket.write('250 OK\r\n')
+      }
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as AddressInfo).port, commands, data }))
+  })
+}
+
+/**
+ * Local webhook stand-in that records JSON bodies
+ */
+function startWebhookStandIn(): Promise<{ server: http.Server; url: string; bodies: WebhookPayload[] }> {
+  const bodies: WebhookPayload[] = []
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', (chunk) => (body += chunk))
+    request.on('end', () => {
+      if (request.url === '/gone') {
+        response.writeHead(404).end('no_service')
+        return
+      }
+      bodies.push(JSON.parse(body))
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok')
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () =>
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, bodies })
+    )
+  })
+}
+
+/**
+ * Test alert rule matching, quiet hours, and delivery against local SMTP and webhook stand-ins
+ */
+export async function testAlerts() {
+  console.log('🧪 Testing alert rules and delivery...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  for (const testCase of matchCases) {
+    const rule = { ...BASE_RULE, ...testCase.rule } as AlertRule
+    check(testCase.description, matchesAlertRule(rule, RELEASE) === testCase.matches)
+  }
+
+  check(
+    'rule without a channel is rejected',
+    validateAlertRule({ ...BASE_RULE, webhookUrl: undefined }).some((error) => error.startsWith('Add a webhook'))
+  )
+
+  // Quiet hours wrapping midnight, checked in and out of the window
+  const overnight = { quietHoursStart: 22, quietHoursEnd: 7, timezone: 'America/New_York' }
+  const heldUntil = quietHoursEnd(overnight, new Date('2026-01-15T04:30:00Z')) // 23:30 in New York
+  check(
+    'quiet hours hold alerts until they end',
+    heldUntil?.toISOString() === '2026-01-15T12:00:00.000Z',
+    heldUntil?.toISOString() || 'not held'
+  )
+  check('alerts outside quiet hours go out', quietHoursEnd(overnight, new Date('2026-01-15T17:00:00Z')) === null)
+
+  // Email through the default SMTP transport
+  const smtp = await startSMTPStandIn()
+  try {
+    setEmailTransport(new SMTPTransport({ host: '127.0.0.1', port: smtp.port, secure: false, username: 'cignal', password: 'secret' }))
+    await sendEmailAlert('analyst@example.com', ALERT)
+
+    const message = smtp.data.join('\n')
+    // Plain text part: base64 lines after its headers, up to the next boundary
+    const textStart = smtp.data.indexOf('Content-Type: text/plain; charset=utf-8') + 3
+    const textEnd = smtp.data.findIndex((line, index) => index > textStart && line.startsWith('--'))
+    const text = Buffer.from(smtp.data.slice(textStart, textEnd).join(''), 'base64').toString('utf8')
+    check(
+      'email is delivered over SMTP',
+      smtp.commands.includes('RCPT TO:<analyst@example.com>') &&
+        smtp.commands.some((command) => command.startsWith('AUTH PLAIN')) &&
+        message.includes('Subject: [Credit deals] Contoso: Contoso Capital Closes $400 Million Credit Facility') &&
+        text.includes(ALERT.summary),
+      smtp.commands.join(' | ')
+    )
+
+    let rejection: unknown
+    await sendEmailAlert('unknown@example.com', ALERT).catch((error) => (rejection = error))
+    check(
+      'rejected recipient is a permanent failure',
+      rejection instanceof AlertDeliveryError && rejection.permanent,
+      String(rejection)
+    )
+  } finally {
+    setEmailTransport(undefined)
+    smtp.server.close()
+  }
+
+  // Webhook to a local receiver, which is only allowed when configured
+  const webhook = await startWebhookStandIn()
+  try {
+    let blocked: unknown
+    await sendWebhookAlert(webhook.url, ALERT).catch((error) => (blocked = error))
+    check('private webhook addresses are refused by default', blocked instanceof AlertDeliveryError && blocked.permanent)
+
+    process.env.ALERT_WEBHOOK_ALLOW_PRIVATE = 'true'
+    await sendWebhookAlert(webhook.url, ALERT)
+    const payload = webhook.bodies[0]
+    check(
+      'webhook receives a Slack-compatible payload',
+      Boolean(payload?.text.includes(ALERT.sourceUrl)) && JSON.stringify(payload?.blocks).includes(`<${ALERT.sourceUrl}|`),
+      JSON.stringify(payload)
+    )
+
+    let gone: unknown
+    await sendWebhookAlert(`${webhook.url}/gone`, ALERT).catch((error) => (gone = error))
+    check('webhook 404 is a permanent failure', gone instanceof AlertDeliveryError && gone.permanent, String(gone))
+  } finally {
+    delete process.env.ALERT_WEBHOOK_ALLOW_PRIVATE
+    webhook.server.close()
+  }
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} alert cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} alert cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testAlerts().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
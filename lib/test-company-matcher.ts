@@ -0,0 +1,153 @@
+import { CompanyMatcher, type MatchableCompany } from './company-matcher'
+
+const APPLE: MatchableCompany = { id: 'apple', name: 'Apple', variations: ['AAPL', 'Apple Inc.'] }
+const BLACKSTONE: MatchableCompany = {
+  id: 'blackstone',
+  name: 'Blackstone',
+  variations: ['Blackstone Group', 'NYSE: BX'],
+  negativeKeywords: ['Blackstone Valley'],
+}
+const BOX: MatchableCompany = { id: 'box', name: 'Box Inc', variations: ['Box'] }
+const CITI: MatchableCompany = { id: 'citi', name: 'Citigroup', variations: ['$C'] }
+
+interface MatcherCase {
+  description: string
+  companies: MatchableCompany[]
+  title: string
+  content?: string
+  companyIds: string[] // Expected matches, best first
+  score?: number // Expected score of the best match
+  terms?: string[] // Expected matched terms of the best match, in text order
+}
+
+const cases: MatcherCase[] = [
+  {
+    description: 'name in the title',
+    companies: [APPLE],
+    title: 'Apple Reports Fourth Quarter Results',
+    companyIds: ['apple'],
+    score: 100,
+    terms: ['Apple'],
+  },
+  {
+    description: 'name inside another word is not a mention',
+    companies: [APPLE],
+    title: 'Dole Expands Pineapple Plantations in Costa Rica',
+    content: 'The pineapple harvest rose 12% and Snapple volumes were flat.',
+    companyIds: [],
+  },
+  {
+    description: 'bare ticker matches in upper case only',
+    companies: [APPLE],
+    title: 'Options activity spikes in AAPL ahead of earnings',
+    content: 'Traders bought aapl calls.',
+    companyIds: ['apple'],
+    score: 80,
+    terms: ['AAPL'],
+  },
+  {
+    description: 'exchange-prefixed ticker and repeat mentions',
+    companies: [BLACKSTONE],
+    title: 'Blackstone Announces Quarterly Dividend',
+    content: 'Blackstone (NYSE: BX) declared a dividend of $0.93 per share.',
+    companyIds: ['blackstone'],
+    score: 100 + 50 + 40 + 2 * 10,
+    terms: ['Blackstone', 'Blackstone', 'BX'],
+  },
+  {
+    description: 'alias containing the name scores as the name',
+    companies: [BLACKSTONE],
+    title: 'Blackstone Group Completes Acquisition of Tricon',
+    companyIds: ['blackstone'],
+    score: 100,
+    terms: ['Blackstone Group'],
+  },
+  {
+    description: 'negative keyword rules the company out',
+    companies: [BLACKSTONE],
+    title: 'Blackstone Valley Tourism Council Opens New Trail',
+    companyIds: [],
+  },
+  {
+    description: 'short alias is case-sensitive',
+    companies: [BOX],
+    title: 'Retailer ships every order in a recycled box',
+    companyIds: [],
+  },
+  {
+    description: 'short alias matches as typed',
+    companies: [BOX],
+    title: 'Box Launches AI Agents for Enterprise Content',
+    companyIds: ['box'],
+    score: 80,
+    terms: ['Box'],
+  },
+  {
+    description: 'single-letter ticker needs its $ prefix',
+    companies: [CITI],
+    title: 'Plan C for the merger',
+    content: 'Shares of $C rose 2%.',
+    companyIds: ['citi'],
+    score: 40,
+    terms: ['C'],
+  },
+  {
+    description: 'title mention outranks a summary mention',
+    companies: [APPLE, BLACKSTONE],
+    title: 'Blackstone Invests in Data Centers',
+    content: 'Tenants include Apple.',
+    companyIds: ['blackstone', 'apple'],
+  },
+]
+
+/**
+ * Test which companies the matcher finds in a feed item and how it scores them
+ */
+export async function testCompanyMatcher() {
+  console.log('🧪 Testing company matcher...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+
+  for (const testCase of cases) {
+    const matches = new CompanyMatcher(testCase.companies).match(testCase.title, testCase.content)
+    const best = matches[0]
+    const failures: string[] = []
+
+    const ids = matches.map((match) => match.companyId).join(',')
+    if (ids !== testCase.companyIds.join(',')) {
+      failures.push(`matched [${ids}], expected [${testCase.companyIds.join(',')}]`)
+    }
+    if (testCase.score !== undefined && best?.score !== testCase.score) {
+      failures.push(`score ${best?.score}, expected ${testCase.score}`)
+    }
+    if (testCase.terms) {
+      const terms = (best?.positions || []).map((position) => position.term).join(',')
+      if (terms !== testCase.terms.join(',')) failures.push(`terms [${terms}], expected [${testCase.terms.join(',')}]`)
+    }
+
+    if (failures.length === 0) {
+      console.log(`✅ ${testCase.description}`)
+    } else {
+      failed++
+      console.error(`❌ ${testCase.description}:`)
+      failures.forEach((failure) => console.error(`   - ${failure}`))
+    }
+  }
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${cases.length} matcher cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${cases.length} matcher cases failed`)
+  }
+
+  return { success: failed === 0, total: cases.length, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testCompanyMatcher().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
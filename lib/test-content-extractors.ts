@@ -0,0 +1,150 @@
+import fs from 'fs'
+import path from 'path'
+import { extractContentFromHtml } from './enhanced-content-extractor'
+import { findExtractor } from './content-extractors'
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'content-extractors')
+
+interface ExtractorFixture {
+  file: string
+  url: string
+  extractorId: string | null // null when only the generic extractor should match
+  extractedBy: string // Prefix of the reported extractedBy, which also names the matching selector
+  includes: string[]
+  excludes: string[]
+}
+
+// Each fixture is a trimmed copy of a real page layout for that platform
+const fixtures: ExtractorFixture[] = [
+  {
+    file: 'businesswire.html',
+    url: 'https://www.businesswire.com/news/home/20250115005123/en/',
+    extractorId: 'businesswire',
+    extractedBy: 'Business Wire',
+    includes: ['instant settlement for merchants', '$40 billion in payment volume', 'lifeblood of small businesses'],
+    excludes: ['Share on LinkedIn', 'press@acmepayments.example', 'Copyright Business Wire'],
+  },
+  {
+    file: 'globenewswire.html',
+    url: 'https://www.globenewswire.com/news-release/2025/10/21/3170000/0/en/northwind-bank-q3.html',
+    extractorId: 'globenewswire',
+    extractedBy: 'GlobeNewswire',
+    includes: ['net income of $112 million', 'Total deposits grew 6 percent', 'quarterly dividend of $0.32'],
+    excludes: ['Tags: Banking', 'ir@northwind.example', 'Privacy policy'],
+  },
+  {
+    file: 'accesswire.html',
+    url: 'https://www.accesswire.com/viewarticle.aspx?id=912345',
+    extractorId: 'accesswire',
+    extractedBy: 'Accesswire',
+    includes: ['$60 million Series B round', 'reconciliation product into Europe', 'tripled since its Series A'],
+    excludes: ['Share this article', 'More from ACCESSWIRE', 'Newsfile company'],
+  },
+  {
+    file: 'prnewswire.html',
+    url: 'https://www.prnewswire.com/news-releases/contoso-completes-acquisition-302100000.html',
+    extractorId: 'prnewswire',
+    extractedBy: 'PR Newswire (article boundaries)',
+    includes: ['completed its acquisition of Fabrikam', 'approximately $1.1 billion', 'under its current leadership team'],
+    excludes: ['SOURCE Contoso Financial', 'News in focus', 'Cision US Inc'],
+  },
+  {
+    file: 'q4.html',
+    url: 'https://investors.tailspin.example/news/news-details/2025/share-repurchase/default.aspx',
+    extractorId: 'q4',
+    extractedBy: 'Q4 IR site',
+    includes: ['$500 million share repurchase program', 'privately negotiated transactions', '$2.3 billion of cash'],
+    excludes: ['Add to calendar', 'Download PDF', 'Events and presentations'],
+  },
+  {
+    file: 'notified.html',
+    url: 'https://ir.woodgrove.example/news-releases/news-release-details/woodgrove-prices-senior-notes',
+    extractorId: 'notified',
+    extractedBy: 'Notified IR site',
+    includes: ['$750 million of 5.25 percent senior notes', 'revolving credit facility', 'investment grade'],
+    excludes: ['View PDF version', 'Powered by Notified', 'News releases'],
+  },
+  {
+    file: 'generic.html',
+    url: 'https://news.adventure-works.example/2025/07/lending-partnership',
+    extractorId: null,
+    extractedBy: 'Generic',
+    includes: ['twelve regional banks', 'working capital lines of up to $250,000', 'up 45 percent'],
+    excludes: ['Popular stories', 'About us', 'All rights reserved'],
+  },
+]
+
+/**
+ * Run one fixture through detection and extraction
+ * @returns list of failures, empty when the fixture passes
+ */
+async function checkFixture(fixture: ExtractorFixture): Promise<string[]> {
+  const failures: string[] = []
+  const html = fs.readFileSync(path.join(FIXTURE_DIR, fixture.file), 'utf8')
+
+  const detected = findExtractor(fixture.url, html)
+  if ((detected?.id ?? null) !== fixture.extractorId) {
+    failures.push(`detected ${detected?.id ?? 'generic'}, expected ${fixture.extractorId ?? 'generic'}`)
+  }
+
+  const result = await extractContentFromHtml(html, fixture.url)
+  if (!result.success) {
+    failures.push(`extraction failed: ${result.error}`)
+    return failures
+  }
+
+  if (!result.extractedBy?.startsWith(fixture.extractedBy)) {
+    failures.push(`extractedBy was "${result.extractedBy}", expected "${fixture.extractedBy} ..."`)
+  }
+
+  if (!result.confidence || result.confidence <= 0 || result.confidence > 1) {
+    failures.push(`confidence ${result.confidence} is out of range`)
+  }
+
+  const text = result.textContent || ''
+  fixture.includes.forEach((phrase) => {
+    if (!text.includes(phrase)) failures.push(`missing "${phrase}"`)
+  })
+  fixture.excludes.forEach((phrase) => {
+    if (text.includes(phrase)) failures.push(`boilerplate not removed: "${phrase}"`)
+  })
+
+  return failures
+}
+
+/**
+ * Test every extractor fixture
+ */
+export async function testContentExtractors() {
+  console.log('🧪 Testing content extractor registry...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+
+  for (const fixture of fixtures) {
+    const failures = await checkFixture(fixture)
+    if (failures.length === 0) {
+      console.log(`✅ ${fixture.file}: matched ${fixture.extractedBy}`)
+    } else {
+      failed++
+      console.error(`❌ ${fixture.file}:`)
+      failures.forEach((failure) => console.error(`   - ${failure}`))
+    }
+  }
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${fixtures.length} extractor fixtures passed`)
+  } else {
+    console.error(`❌ ${failed} of ${fixtures.length} extractor fixtures failed`)
+  }
+
+  return { success: failed === 0, total: fixtures.length, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testContentExtractors().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
@@ -0,0 +1,147 @@
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { AddressInfo } from 'net'
+import { parseFeed } from './feed-parser'
+import { feedItemsForUrl, processRSSFeed } from './rss-to-stored-release'
+
+const FEED_URL = 'https://investors.acmepayments.example/rss'
+const USER_ID = '00000000-0000-0000-0000-000000000001'
+const COMPANY_ID = '00000000-0000-0000-0000-0000000000c1'
+
+type Row = Record<string, unknown>
+
+/**
+ * Columns the press_releases migration declares NOT NULL without a default
+ */
+function requiredColumns(): string[] {
+  const sql = fs.readFileSync(path.join(__dirname, 'supabase', 'press-releases-migration.sql'), 'utf8')
+  const table = sql.slice(sql.indexOf('CREATE TABLE IF NOT EXISTS press_releases'), sql.indexOf(');'))
+  return table
+    .split('\n')
+    .filter((line) => /NOT NULL/.test(line) && !/DEFAULT/.test(line))
+    .map((line) => line.trim().split(/\s+/)[0])
+}
+
+/**
+ * Local stand-in for the Supabase REST API with an in-memory press_releases table. Inserts
+ * missing a required column fail like Postgres does, and single-row reads follow PostgREST:
+ * anything but exactly one row is an error.
+ */
+function startSupabaseStandIn(rows: Row[], required: string[]): Promise<{ server: http.Server; port: number }> {
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const reply = (status: number, body: unknown) =>
+      response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+
+    let raw = ''
+    request.on('data', (chunk) => (raw += chunk))
+    request.on('end', () => {
+      if (url.pathname === '/rest/v1/rss_poll_logs') {
+        return reply(201, { id: 'poll-log-1', status: 'running' })
+      }
+      if (url.pathname !== '/rest/v1/press_releases') return reply(404, {})
+
+      if (request.method === 'POST') {
+        const row = JSON.parse(raw) as Row
+        const missing = required.find((column) => row[column] === undefined || row[column] === null)
+        if (missing) {
+          return reply(400, { code: '23502', message: `null value in column "${missing}" violates not-null constraint` })
+        }
+        const stored = { id: `release-${rows.length + 1}`, ...row }
+        rows.push(stored)
+        return reply(201, stored)
+      }
+
+      const filters = Array.from(url.searchParams.entries()).filter(([, value]) => value.startsWith('eq.'))
+      let matches = rows.filter((row) => filters.every(([column, value]) => String(row[column]) === value.slice(3)))
+      const limit = Number(url.searchParams.get('limit'))
+      if (limit > 0) matches = matches.slice(0, limit)
+
+      if (request.headers.accept === 'application/vnd.pgrst.object+json' && matches.length !== 1) {
+        return reply(406, { code: 'PGRST116', message: `JSON object requested, multiple (or no) rows returned` })
+      }
+      reply(200, request.headers.accept === 'application/vnd.pgrst.object+json' ? matches[0] : matches)
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as AddressInfo).port }))
+  })
+}
+
+/**
+ * Test the cron storage path: a polled feed converted and stored through the admin service
+ */
+export async function testCronStorage() {
+  console.log('🧪 Testing cron release storage...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  const rows: Row[] = []
+  const required = requiredColumns()
+  const { server, port } = await startSupabaseStandIn(rows, required)
+
+  try {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = `http://127.0.0.1:${port}`
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key'
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key'
+    // The service creates its clients on import, so load it once the stand-in is configured
+    const { adminPressReleasesService } = await import('./supabase/press-releases-service')
+
+    const feed = parseFeed(fs.readFileSync(path.join(__dirname, 'fixtures', 'feed-parser', 'rss2.xml'), 'utf8'))
+    const { validReleases } = processRSSFeed(feedItemsForUrl(feed, FEED_URL), COMPANY_ID, FEED_URL)
+    check('feed items convert to releases', validReleases.length === 2, `${validReleases.length} releases`)
+
+    const first = await adminPressReleasesService.adminBatchCreatePressReleases(USER_ID, validReleases)
+    check('new releases are stored', first.created === 2 && first.failed === 0, JSON.stringify(first))
+    check(
+      'stored rows have every required column',
+      rows.length === 2 && rows.every((row) => required.every((column) => row[column] !== undefined)),
+      `required: ${required.join(', ')}`
+    )
+    check(
+      'content hash and feed URL are stored',
+      rows.length > 0 && rows.every((row) => row.content_hash && row.rss_source_url === FEED_URL),
+      JSON.stringify(rows.map((row) => [row.content_hash, row.rss_source_url]))
+    )
+
+    const second = await adminPressReleasesService.adminBatchCreatePressReleases(USER_ID, validReleases)
+    check('polling the feed again stores nothing new', second.created === 0 && second.duplicates === 2, JSON.stringify(second))
+
+    // Stored twice already, e.g. by two users before workspaces shared releases
+    rows.push({ ...rows[0], id: 'release-copy' })
+    const third = await adminPressReleasesService.adminBatchCreatePressReleases(USER_ID, validReleases.slice(0, 1))
+    check('title stored more than once still counts as a duplicate', third.duplicates === 1 && rows.length === 3, JSON.stringify(third))
+  } finally {
+    server.closeAllConnections()
+    server.close()
+  }
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} cron storage cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} cron storage cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testCronStorage().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
@@ -0,0 +1,173 @@
+import { digestPeriodStart, groupDigestReleases, isDigestDue, validateDigestSettings, type DigestCandidate } from './digests'
+import { buildDigestEmail, buildDigestWebhookPayload, sendEmailDigest, type DigestContent } from './alert-delivery'
+import { setEmailTransport, type EmailMessage } from './email-transport'
+import type { DigestSettings, SaveDigestSettings } from './types'
+
+const SETTINGS: SaveDigestSettings = {
+  enabled: true,
+  frequency: 'daily',
+  sendHour: 8,
+  weekday: 1,
+  timezone: 'America/New_York',
+  companyIds: [],
+}
+
+const RELEASES: DigestCandidate[] = [
+  {
+    id: 'r1',
+    companyId: 'globex',
+    companyName: 'Globex',
+    title: 'Globex raises $50M Series B',
+    sourceUrl: 'https://example.com/globex-series-b',
+    publishedAt: '2026-10-18T14:00:00.000Z',
+    summary: 'Globex closed a $50M Series B led by Initech.',
+  },
+  {
+    id: 'r2',
+    companyId: 'acme',
+    companyName: 'Acme',
+    title: 'Acme reports third quarter results',
+    sourceUrl: 'https://example.com/acme-q3',
+    publishedAt: '2026-10-17T09:30:00.000Z',
+    summary: 'Revenue grew 12% year over year.',
+  },
+  {
+    id: 'r3',
+    companyId: 'globex',
+    companyName: 'Globex',
+    title: 'Globex opens <Austin> office',
+    sourceUrl: 'https://example.com/globex-austin',
+    publishedAt: '2026-10-19T10:00:00.000Z',
+    summary: 'The office will house 200 engineers.',
+  },
+]
+
+/**
+ * Test digest scheduling, grouping and the email and webhook formats
+ */
+export async function testDigests() {
+  console.log('🧪 Testing digests...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  check('valid settings pass', validateDigestSettings(SETTINGS).length === 0, validateDigestSettings(SETTINGS).join('; '))
+  check(
+    'bad hour, time zone and webhook are reported',
+    validateDigestSettings({ ...SETTINGS, sendHour: 24, timezone: 'Mars/Olympus', webhookUrl: 'ftp://example.com' }).length === 3
+  )
+
+  // 12:30 UTC is 08:30 in New York on Monday, October 19 2026
+  const monday = new Date('2026-10-19T12:30:00Z')
+  const daily: Pick<DigestSettings, 'enabled' | 'frequency' | 'sendHour' | 'weekday' | 'timezone' | 'lastSentAt'> = SETTINGS
+  check('first digest goes out once the local send hour has passed', isDigestDue(daily, monday))
+  check('not before the local send hour', !isDigestDue(daily, new Date('2026-10-19T11:30:00Z')))
+  check('once per local day', !isDigestDue({ ...daily, lastSentAt: '2026-10-19T12:15:00Z' }, monday))
+  check(
+    'sent late yesterday evening in New York, due again today',
+    isDigestDue({ ...daily, lastSentAt: '2026-10-19T02:00:00Z' }, monday) // 22:00 on the 18th locally
+  )
+  check('weekly digests wait for their day', !isDigestDue({ ...daily, frequency: 'weekly', weekday: 2 }, monday))
+  check('weekly digest on its day', isDigestDue({ ...daily, frequency: 'weekly', weekday: 1 }, monday))
+  check('disabled digests never go out', !isDigestDue({ ...daily, enabled: false }, monday))
+
+  check(
+    'period starts at the last digest',
+    digestPeriodStart({ frequency: 'daily', lastSentAt: '2026-10-18T12:05:00.000Z' }, monday).toISOString() === '2026-10-18T12:05:00.000Z'
+  )
+  check(
+    'first weekly digest looks back a week',
+    digestPeriodStart({ frequency: 'weekly' }, monday).toISOString() === '2026-10-12T12:30:00.000Z'
+  )
+  check(
+    'lookback is capped after a long pause',
+    digestPeriodStart({ frequency: 'daily', lastSentAt: '2026-01-01T00:00:00Z' }, monday).toISOString() === '2026-10-05T12:30:00.000Z'
+  )
+
+  const sections = groupDigestReleases(RELEASES, 1)
+  check('companies are in alphabetical order', sections.map((section) => section.companyName).join(',') === 'Acme,Globex')
+  check(
+    'newest release first, limited but counted',
+    sections[1].releaseCount === 2 && sections[1].releases.length === 1 && sections[1].releases[0].id === 'r3'
+  )
+
+  sections[1].rollup = 'Globex is expanding after its Series B.'
+  const digest: DigestContent = {
+    workspaceName: 'Deal Team',
+    periodStart: '2026-10-18T12:05:00.000Z',
+    periodEnd: monday.toISOString(),
+    timezone: 'America/New_York',
+    releaseCount: 3,
+    sections,
+    url: 'http://localhost:3000/digest?id=d1',
+  }
+
+  const payload = buildDigestWebhookPayload(digest)
+  const globexBlock = JSON.stringify(payload.blocks[2])
+  check('webhook has a block per company', payload.blocks.length === 3, String(payload.blocks.length))
+  check(
+    'webhook escapes titles and counts left-out releases',
+    globexBlock.includes('Globex opens &lt;Austin&gt; office') && globexBlock.includes('_and 1 more_'),
+    globexBlock
+  )
+
+  // Any transport can stand in for SMTP
+  const sent: EmailMessage[] = []
+  setEmailTransport({ send: async (message) => void sent.push(message) })
+  try {
+    await sendEmailDigest('analyst@example.com', digest)
+  } finally {
+    setEmailTransport(undefined)
+  }
+  const email = sent[0]
+  check(
+    'email goes through the configured transport',
+    email?.to === 'analyst@example.com' && email.subject === 'Cignal digest: 3 new releases from 2 companies',
+    email?.subject
+  )
+  check(
+    'email shows the period in the user\'s time zone and the roll-up',
+    !!email && email.text.includes('Oct 18, 2026 – Oct 19, 2026') && email.text.includes(sections[1].rollup),
+    email?.text
+  )
+  check('email HTML is escaped', !!email?.html && email.html.includes('Globex opens &lt;Austin&gt; office'))
+
+  // Feed-supplied links that aren't http(s) go out as plain titles
+  const scripted: DigestContent = {
+    ...digest,
+    sections: [{ ...sections[0], releases: [{ ...sections[0].releases[0], sourceUrl: 'javascript:alert(1)' }] }],
+  }
+  const scriptedPayload = JSON.stringify(buildDigestWebhookPayload(scripted).blocks)
+  const scriptedEmail = buildDigestEmail(scripted, 'analyst@example.com')
+  check(
+    'non-http links are left out of the email and webhook',
+    !scriptedEmail.html?.includes('href="javascript:') && !scriptedPayload.includes('<javascript:'),
+    `${scriptedEmail.html} ${scriptedPayload}`
+  )
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} digest cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} digest cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testDigests().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
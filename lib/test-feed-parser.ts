@@ -0,0 +1,158 @@
+import fs from 'fs'
+import path from 'path'
+import { FeedParseError, parseFeed, type ParsedFeed } from './feed-parser'
+import { convertRSSItemToStoredRelease, feedToRSSItems } from './rss-to-stored-release'
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'feed-parser')
+
+function loadFixture(file: string): ParsedFeed {
+  return parseFeed(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'))
+}
+
+/**
+ * Test the feed parser against recorded RSS 2.0, Atom, RSS 1.0 and malformed documents
+ */
+export async function testFeedParser() {
+  console.log('🧪 Testing feed parser...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  const rss = loadFixture('rss2.xml')
+  const [series, results] = rss.items
+  check('RSS 2.0 channel and items', rss.format === 'rss' && rss.title === 'Acme Payments - Press Releases' && rss.items.length === 2)
+  check(
+    'CDATA title has its entities decoded',
+    series.title === 'Acme Payments Raises $60M Series B & Expands Into Europe',
+    series.title
+  )
+  check(
+    'escaped HTML description becomes markup',
+    series.description === '<p>Acme Payments today announced a <b>$60 million</b> Series B round.</p>',
+    series.description
+  )
+  check('content:encoded is kept as HTML', !!series.content?.startsWith('<p>Acme Payments today announced'), series.content)
+  check(
+    'guid, creator and de-duplicated categories',
+    series.guid === 'acme-2025-01-15-series-b' &&
+      series.author === 'Acme Payments Communications' &&
+      series.categories.join(',') === 'Funding,Europe'
+  )
+  check('text entities are decoded only once', results.title === 'Acme Q4 results: revenue &lt;&gt; guidance', results.title)
+  check(
+    'permalink guid stands in for a missing link',
+    results.link === 'https://investors.acmepayments.example/news/2025/02/06/q4-results',
+    results.link
+  )
+
+  const atom = loadFixture('atom.xml')
+  const [quarter] = atom.items
+  check('Atom feed and alternate link', atom.format === 'atom' && atom.link === 'https://newsroom.northwind.example/', atom.link)
+  check(
+    'Atom entry prefers the alternate link and the published date',
+    quarter.link === 'https://newsroom.northwind.example/news/q3-2025-results' && quarter.pubDate === '2025-10-21T12:00:00Z',
+    `${quarter.link} ${quarter.pubDate}`
+  )
+  check(
+    'Atom author, category and xhtml content',
+    quarter.author === 'Northwind Investor Relations' &&
+      quarter.categories.join(',') === 'Earnings' &&
+      !!quarter.content?.includes('<strong>$112 million</strong>'),
+    quarter.content
+  )
+
+  const prefixed = loadFixture('atom-prefixed.xml')
+  const [notes] = prefixed.items
+  check('prefixed atom:feed is read as Atom', prefixed.format === 'atom' && prefixed.title === 'Woodgrove Capital Updates', prefixed.title)
+  check(
+    'prefixed atom:entry and atom:link',
+    prefixed.items.length === 1 &&
+      notes.title === 'Woodgrove Prices $750 Million of Senior Notes' &&
+      notes.link === 'https://woodgrove.example/updates/senior-notes' &&
+      notes.pubDate === '2025-03-04T20:15:00Z' &&
+      notes.categories.join(',') === 'Debt',
+    JSON.stringify(notes)
+  )
+
+  const rdf = loadFixture('rdf.xml')
+  const [partnership] = rdf.items
+  check('RSS 1.0 items are read next to the channel', rdf.format === 'rdf' && rdf.title === 'Fabrikam News' && rdf.items.length === 1)
+  check(
+    'RDF item uses dc:date, dc:subject and rdf:about',
+    partnership.pubDate === '2025-05-12T08:00:00+02:00' &&
+      partnership.categories.join(',') === 'Partnerships' &&
+      partnership.guid === 'https://fabrikam.example/news/partnership-visa'
+  )
+
+  const relative = loadFixture('atom-relative.xml')
+  const relativeItems = feedToRSSItems(relative, 'https://tailspin.example/press/feed.xml')
+  const [visa] = relativeItems
+  check(
+    'relative links resolve against the feed URL and javascript: links are dropped',
+    relativeItems.length === 1 && visa.link === 'https://tailspin.example/press/visa-partnership',
+    JSON.stringify(relativeItems.map((item) => item.link))
+  )
+  check(
+    'undated item falls back to the feed updated date',
+    relative.updated === '2025-06-02T09:00:00Z' && visa.pubDate === relative.updated && visa.undated === true,
+    `${visa.pubDate} ${visa.undated}`
+  )
+  const feedUrl = 'https://tailspin.example/press/feed.xml'
+  const [republished] = feedToRSSItems({ ...relative, updated: '2025-06-09T09:00:00Z' }, feedUrl)
+  check(
+    'undated item keeps its content hash when the feed is updated',
+    convertRSSItemToStoredRelease(visa, 'company-1', feedUrl).contentHash ===
+      convertRSSItemToStoredRelease(republished, 'company-1', feedUrl).contentHash
+  )
+  check('dated item is not marked undated', feedToRSSItems(atom)[0]?.undated === undefined)
+
+  const malformed = loadFixture('malformed.xml')
+  check(
+    'malformed feed still yields its items',
+    malformed.items.length === 2 && malformed.items[0].title === 'Contoso to Acquire Fabrikam Payments',
+    JSON.stringify(malformed.items.map((item) => item.title))
+  )
+  check(
+    'truncated item keeps what was read',
+    malformed.items[1]?.link === 'https://contoso.example/news/truncated',
+    malformed.items[1]?.link
+  )
+
+  const rejects = (xml: string) => {
+    try {
+      parseFeed(xml)
+      return false
+    } catch (error) {
+      return error instanceof FeedParseError
+    }
+  }
+  check('empty document is rejected', rejects('  '))
+  check('HTML page is rejected', rejects('<!DOCTYPE html><html><body>Not a feed</body></html>'))
+  check('RSS without a channel is rejected', rejects('<rss version="2.0"></rss>'))
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} feed parser cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} feed parser cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testFeedParser().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
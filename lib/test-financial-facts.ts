@@ -0,0 +1,137 @@
+import { extractFinancialFacts, formatAmount } from './financial-facts'
+import type { DealType } from './types'
+
+interface FactsCase {
+  title: string
+  content: string
+  publishedAt?: string
+  dealType?: DealType
+  amount?: string // As formatted by formatAmount
+  counterparties?: string[]
+  fiscalPeriod?: string
+}
+
+// Headlines and lead paragraphs in the shapes the wires publish them
+const cases: FactsCase[] = [
+  {
+    title: 'Contoso Financial to Acquire Fabrikam Payments for $1.1 Billion',
+    content: 'Contoso Financial today announced a definitive agreement to acquire Fabrikam Payments in an all-cash transaction valued at approximately $1.1 billion.',
+    dealType: 'acquisition',
+    amount: '$1.1B',
+    counterparties: ['Fabrikam Payments'],
+  },
+  {
+    title: 'Acme Pay Raises $60M Series B to Expand Into Europe',
+    content: 'Acme Pay today announced a $60 million Series B round led by Sequoia Capital with participation from Ribbit Capital and QED Investors.',
+    dealType: 'funding_round',
+    amount: '$60M',
+    counterparties: ['Sequoia Capital', 'Ribbit Capital', 'QED Investors'],
+  },
+  {
+    title: 'Woodgrove Prices $750 Million of Senior Notes',
+    content: 'Woodgrove Bank priced an offering of $750 million aggregate principal amount of 5.25% senior notes due 2030.',
+    dealType: 'debt_raise',
+    amount: '$750M',
+  },
+  {
+    title: 'Northwind Ventures Announces Final Close of Fund IV',
+    content: 'The oversubscribed fund closed above its target at €350m.',
+    dealType: 'fund_close',
+    amount: '€350M',
+  },
+  // Title only, with a decimal amount between the verb and "fund" / "results"
+  {
+    title: 'Ares Closes $1.5 Billion Private Credit Fund',
+    content: '',
+    dealType: 'fund_close',
+    amount: '$1.5B',
+  },
+  {
+    title: 'Fabrikam Reports $3.2 Billion Annual Results',
+    content: '',
+    dealType: 'earnings',
+    amount: '$3.2B',
+  },
+  {
+    title: 'Tailspin Partners with Visa to Launch Instant Payouts',
+    content: 'Tailspin today announced a strategic partnership with Visa.',
+    dealType: 'partnership',
+    counterparties: ['Visa'],
+  },
+  {
+    title: 'Northwind Bank Reports Third Quarter Results',
+    content: 'Net income of $112 million, or $1.04 per diluted share. Revenue of USD 2.3 billion.',
+    publishedAt: '2025-10-21T12:00:00Z',
+    dealType: 'earnings',
+    amount: '$112M',
+    fiscalPeriod: 'Q3 2025',
+  },
+  {
+    title: 'Adventure Works Announces Fourth Quarter and Full Year Results',
+    content: 'Revenue rose to 50 million euros for the year.',
+    publishedAt: '2025-02-05T12:00:00Z',
+    dealType: 'earnings',
+    amount: '€50M',
+    fiscalPeriod: 'Q4 2024',
+  },
+  {
+    title: 'Woodgrove Appoints New Chief Financial Officer',
+    content: 'The Company announced that Jane Doe will join as CFO effective March 1.',
+  },
+]
+
+/**
+ * Test financial fact extraction against typical release headlines
+ */
+export function testFinancialFacts() {
+  console.log('🧪 Testing financial fact extraction...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+
+  for (const testCase of cases) {
+    const facts = extractFinancialFacts(testCase.title, testCase.content, testCase.publishedAt)
+    const failures: string[] = []
+
+    if (facts.dealType !== testCase.dealType) {
+      failures.push(`deal type ${facts.dealType ?? 'none'}, expected ${testCase.dealType ?? 'none'}`)
+    }
+
+    const amount = facts.amount ? formatAmount(facts.amount) : undefined
+    if (amount !== testCase.amount) {
+      failures.push(`amount ${amount ?? 'none'}, expected ${testCase.amount ?? 'none'}`)
+    }
+
+    const counterparties = facts.counterparties.join(', ')
+    if (counterparties !== (testCase.counterparties || []).join(', ')) {
+      failures.push(`counterparties [${counterparties}], expected [${(testCase.counterparties || []).join(', ')}]`)
+    }
+
+    if (facts.fiscalPeriod?.label !== testCase.fiscalPeriod) {
+      failures.push(`fiscal period ${facts.fiscalPeriod?.label ?? 'none'}, expected ${testCase.fiscalPeriod ?? 'none'}`)
+    }
+
+    if (failures.length === 0) {
+      console.log(`✅ ${testCase.title}`)
+    } else {
+      failed++
+      console.error(`❌ ${testCase.title}:`)
+      failures.forEach((failure) => console.error(`   - ${failure}`))
+    }
+  }
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${cases.length} financial fact cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${cases.length} financial fact cases failed`)
+  }
+
+  return { success: failed === 0, total: cases.length, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  const result = testFinancialFacts()
+  if (!result.success) process.exitCode = 1
+}
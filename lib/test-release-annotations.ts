@@ -0,0 +1,75 @@
+import { markHighlightsInHTML, normalizeTag, segmentHighlights, validateAnnotation, validateTag } from './release-annotations'
+
+const TEXT = `Contoso Capital closed a $400 million
+credit facility. The unitranche financing supports data center expansion.`
+
+const HTML =
+  '<p>Contoso Capital closed a $400&nbsp;million <strong>credit facility</strong>.</p>' +
+  '<p>The unitranche financing supports data center expansion &amp; M&amp;A.</p>'
+
+/**
+ * Test tag normalization and placing user highlights in plain text and article HTML
+ */
+export function testReleaseAnnotations() {
+  console.log('🧪 Testing release annotations...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  check('tags lose a leading # and extra spaces', normalizeTag('  #IC   memo ') === 'IC memo')
+  check('empty tags are rejected', validateTag('#').length === 1)
+  check('highlights need a selection', validateAnnotation({ kind: 'highlight', body: '', quote: '  ' }).length === 1)
+  check('notes need text', validateAnnotation({ kind: 'note', body: ' ' }).length === 1)
+
+  // Selection spans a line break in the text; the overlapping highlight is skipped
+  const { segments, placed } = segmentHighlights(TEXT, [
+    { id: 'facility', quote: '$400 million credit facility' },
+    { id: 'overlap', quote: 'credit facility. The unitranche' },
+    { id: 'missing', quote: 'revolving credit' },
+  ])
+  const marked = segments.filter((segment) => segment.highlight)
+  check(
+    'highlight is found across whitespace differences',
+    marked.length === 1 && marked[0].text === '$400 million\ncredit facility' && segments.map((s) => s.text).join('') === TEXT,
+    JSON.stringify(segments)
+  )
+  check('overlapping and missing highlights are not placed', placed.size === 1 && !placed.has('overlap') && !placed.has('missing'))
+
+  const result = markHighlightsInHTML(HTML, [
+    { id: 'amount', quote: '$400 million', comment: 'Bigger than "expected"' },
+    { id: 'entities', quote: 'expansion & M&A' },
+    { id: 'across-tags', quote: 'million credit facility' },
+  ])
+  check(
+    'highlight matches non-breaking spaces and escapes its comment',
+    result.html.includes('<mark class="highlight-user" data-annotation-id="amount" title="Bigger than &quot;expected&quot;">$400&nbsp;million</mark>'),
+    result.html
+  )
+  check('highlight matches escaped characters', result.html.includes('>expansion &amp; M&amp;A</mark>'), result.html)
+  check('selection across tags is left unmarked', !result.placed.has('across-tags') && result.placed.size === 2)
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} annotation cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} annotation cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  const result = testReleaseAnnotations()
+  if (!result.success) process.exitCode = 1
+}
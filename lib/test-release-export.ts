@@ -0,0 +1,144 @@
+import {
+  describeExportView,
+  EMPTY_EXPORT_FILTERS,
+  exportFilename,
+  fromExportParams,
+  toCSV,
+  toExportParams,
+  toHTMLDigest,
+  toMarkdownDigest,
+  type ExportedRelease,
+} from './release-export'
+
+const RELEASES: ExportedRelease[] = [
+  {
+    id: 'r1',
+    title: 'Globex raises $50M Series B [update]',
+    company: 'Globex',
+    publishedAt: '2026-10-18T14:00:00.000Z',
+    sourceUrl: 'https://example.com/globex (b)',
+    categories: ['Funding Round'],
+    tags: ['follow-up'],
+    summary: 'Globex raised a Series B.',
+    aiSummary: 'Globex closed a "$50M" Series B led by Initech.',
+    keyPoints: ['Led by Initech', 'Proceeds fund hiring'],
+  },
+  {
+    id: 'r2',
+    title: '=HYPERLINK("http://evil") Acme <b>earnings</b>',
+    company: 'Acme',
+    publishedAt: '2026-10-17T09:30:00.000Z',
+    sourceUrl: 'https://example.com/acme',
+    categories: [],
+    tags: [],
+    summary: 'Acme reported third quarter results.',
+    keyPoints: [],
+  },
+]
+
+// Key order doesn't matter; unset and undefined fields are the same
+const sameView = (a: object, b: object) =>
+  JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort())
+
+const META = { view: 'All releases', generatedAt: new Date('2026-10-19T08:00:00.000Z') }
+
+/**
+ * Test export view encoding and the CSV and digest formats
+ */
+export function testReleaseExport() {
+  console.log('🧪 Testing release export...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  const filters = {
+    ...EMPTY_EXPORT_FILTERS,
+    query: 'series b',
+    sinceDays: 7,
+    companyIds: ['c1', 'c2'],
+    bookmarkedOnly: true,
+    tag: 'IC memo',
+    dealType: 'funding_round' as const,
+    minAmount: 10e6,
+  }
+  const params = toExportParams(filters, 'csv')
+  check('view survives the round trip', sameView(fromExportParams(params), filters), params.toString())
+  check('format is part of the request', params.get('format') === 'csv')
+  check(
+    'invalid values are dropped',
+    sameView(fromExportParams(new URLSearchParams('dealType=lottery&minAmount=-5&sinceDays=x')), EMPTY_EXPORT_FILTERS)
+  )
+  check(
+    'view is described for the digest',
+    describeExportView(filters, { companies: ['Acme', 'Globex'] }) ===
+      'Acme, Globex · "series b" · Past week · Funding round · 10M+ · Bookmarked · Tagged "IC memo"',
+    describeExportView(filters, { companies: ['Acme', 'Globex'] })
+  )
+
+  const csv = toCSV(RELEASES)
+  const lines = csv.replace(/^\uFEFF/, '').trim().split('\r\n')
+  check('CSV has a header and a row per release', lines.length === 3, String(lines.length))
+  check('CSV escapes quotes', lines[1].includes('"Globex closed a ""$50M"" Series B led by Initech."'), lines[1])
+  check('CSV joins key points', lines[1].endsWith('"Led by Initech; Proceeds fund hiring"'), lines[1])
+  check('CSV defuses formulas', lines[2].startsWith(`"'=HYPERLINK(""http://evil"")`), lines[2])
+
+  const markdown = toMarkdownDigest(RELEASES, META)
+  check('digest groups companies alphabetically', markdown.indexOf('## Acme (1)') < markdown.indexOf('## Globex (1)'))
+  check(
+    'digest escapes link text and URL',
+    markdown.includes('### [Globex raises $50M Series B \\[update\\]](https://example.com/globex%20%28b%29)'),
+    markdown
+  )
+  check('digest falls back to the feed summary', markdown.includes('Acme reported third quarter results.'))
+
+  const html = toHTMLDigest(RELEASES, META)
+  check('HTML digest escapes titles', html.includes('Acme &lt;b&gt;earnings&lt;/b&gt;') && !html.includes('<b>earnings'))
+  check('HTML digest lists key points', html.includes('<li>Led by Initech</li>'))
+
+  // Feed-supplied links that aren't http(s) are shown as plain titles
+  const scripted = [{ ...RELEASES[1], title: 'Acme update', sourceUrl: 'javascript:alert(document.cookie)' }]
+  const scriptedHTML = toHTMLDigest(scripted, META)
+  const scriptedMarkdown = toMarkdownDigest(scripted, META)
+  check('HTML digest drops non-http links', !scriptedHTML.includes('javascript:') && scriptedHTML.includes('>Acme update</h3>'), scriptedHTML)
+  check('Markdown digest drops non-http links', !scriptedMarkdown.includes('javascript:') && scriptedMarkdown.includes('### Acme update\n'), scriptedMarkdown)
+
+  // Summaries and key points come from feeds and the AI, so they can't add links or headings
+  const injected = toMarkdownDigest(
+    [{ ...RELEASES[1], aiSummary: 'Read [more](javascript:alert(1))\n# Breaking', keyPoints: ['<img src=x onerror=alert(1)>'] }],
+    META
+  )
+  check(
+    'Markdown digest escapes links and headings in summaries and key points',
+    injected.includes('Read \\[more\\](javascript:alert(1)) # Breaking') &&
+      injected.includes('- \\<img src=x onerror=alert(1)\\>') &&
+      !injected.includes('\n# Breaking'),
+    injected
+  )
+
+  check('filename carries the date and extension', exportFilename('markdown', META.generatedAt) === 'cignal-releases-2026-10-19.md')
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} export cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} export cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  const result = testReleaseExport()
+  if (!result.success) process.exitCode = 1
+}
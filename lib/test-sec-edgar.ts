@@ -0,0 +1,158 @@
+import fs from 'fs'
+import path from 'path'
+import { parseFeed } from './feed-parser'
+import { feedToFilingItems, parseEdgarEntry } from './sec-edgar'
+import type { SECFiling } from './types'
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'sec-edgar')
+
+interface FilingCase {
+  file: string
+  accessionNumber: string
+  formType: string
+  cik?: string
+  filerName?: string
+  filedAt: string
+  items: string[] // 8-K item codes
+}
+
+// Entries from EDGAR's per-company feed (browse-edgar output=atom) and the "latest filings" feed (getcurrent)
+const cases: FilingCase[] = [
+  {
+    file: 'company-feed.xml',
+    accessionNumber: '0000320193-24-000120',
+    formType: '8-K',
+    cik: '0000320193',
+    filedAt: '2024-10-31',
+    items: ['2.02', '9.01'],
+  },
+  {
+    file: 'company-feed.xml',
+    accessionNumber: '0000320193-24-000123',
+    formType: '10-K',
+    cik: '0000320193',
+    filedAt: '2024-11-01',
+    items: [],
+  },
+  {
+    file: 'company-feed.xml',
+    accessionNumber: '0000320193-24-000125',
+    formType: '4',
+    cik: '0000320193',
+    filedAt: '2024-11-01',
+    items: [],
+  },
+  {
+    file: 'latest-filings.xml',
+    accessionNumber: '0001193125-24-245678',
+    formType: '8-K',
+    cik: '0001393818',
+    filerName: 'Blackstone Inc.',
+    filedAt: '2024-10-31',
+    items: ['5.02', '9.01'],
+  },
+  {
+    file: 'latest-filings.xml',
+    accessionNumber: '0001393818-24-000201',
+    formType: '4',
+    cik: '0001070844',
+    filerName: 'Schwarzman Stephen A',
+    filedAt: '2024-10-31',
+    items: [],
+  },
+  {
+    file: 'latest-filings.xml',
+    accessionNumber: '0001876543-24-000044',
+    formType: '8-K/A',
+    cik: '0001876543',
+    filerName: 'Contoso Holdings Corp',
+    filedAt: '', // The entry has no Filed line and no updated date
+    items: ['2.01'],
+  },
+]
+
+function loadFilings(file: string): SECFiling[] {
+  const feed = parseFeed(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'))
+  return feed.items.map(parseEdgarEntry).filter((filing): filing is SECFiling => filing !== null)
+}
+
+/**
+ * Test EDGAR filing parsing against recorded Atom feeds
+ */
+export async function testSecEdgar() {
+  console.log('🧪 Testing SEC EDGAR filings...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, failures: string[]) => {
+    total++
+    if (failures.length === 0) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}:`)
+      failures.forEach((failure) => console.error(`   - ${failure}`))
+    }
+  }
+
+  const filings = new Map<string, SECFiling[]>()
+  for (const file of ['company-feed.xml', 'latest-filings.xml']) {
+    filings.set(file, loadFilings(file))
+  }
+
+  for (const testCase of cases) {
+    const filing = filings.get(testCase.file)?.find((f) => f.accessionNumber === testCase.accessionNumber)
+    const failures: string[] = []
+
+    if (!filing) {
+      failures.push('filing not found')
+    } else {
+      const items = filing.items.map((item) => item.code).join(',')
+      if (filing.formType !== testCase.formType) failures.push(`formType ${filing.formType}, expected ${testCase.formType}`)
+      if (filing.cik !== testCase.cik) failures.push(`cik ${filing.cik}, expected ${testCase.cik}`)
+      if (filing.filerName !== testCase.filerName) failures.push(`filerName ${filing.filerName}, expected ${testCase.filerName}`)
+      if (filing.filedAt !== testCase.filedAt) failures.push(`filedAt ${filing.filedAt}, expected ${testCase.filedAt}`)
+      if (items !== testCase.items.join(',')) failures.push(`items [${items}], expected [${testCase.items.join(',')}]`)
+    }
+
+    check(`${testCase.file}: Form ${testCase.formType} ${testCase.accessionNumber}`, failures)
+  }
+
+  const companyItems = feedToFilingItems(parseFeed(fs.readFileSync(path.join(FIXTURE_DIR, 'company-feed.xml'), 'utf8')))
+  check('untracked form types are left out', companyItems.length === 3 ? [] : [`${companyItems.length} items, expected 3`])
+
+  const eightK = companyItems.find((item) => item.filing?.accessionNumber === '0000320193-24-000120')
+  check(
+    '8-K headline names its items',
+    eightK?.title === 'Form 8-K: Results of Operations and Financial Condition' ? [] : [`title "${eightK?.title}"`]
+  )
+
+  let latestItems: ReturnType<typeof feedToFilingItems> = []
+  const latestFailures: string[] = []
+  try {
+    latestItems = feedToFilingItems(parseFeed(fs.readFileSync(path.join(FIXTURE_DIR, 'latest-filings.xml'), 'utf8')))
+  } catch (error) {
+    latestFailures.push(`threw ${error instanceof Error ? error.message : error}`)
+  }
+  const undated = latestItems.find((item) => item.filing?.accessionNumber === '0001876543-24-000044')
+  if (latestItems.length !== 3) latestFailures.push(`${latestItems.length} items, expected 3`)
+  if (!undated || isNaN(Date.parse(undated.pubDate))) latestFailures.push(`undated entry pubDate "${undated?.pubDate}"`)
+  check('an entry without a date keeps the rest of the feed', latestFailures)
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} EDGAR cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} EDGAR cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testSecEdgar().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
@@ -0,0 +1,142 @@
+import {
+  MAX_NEAR_DUPLICATE_DISTANCE,
+  generateSimHash,
+  groupStoryClusters,
+  simHashDistance,
+  type ClusterableRelease,
+} from './story-clusters'
+
+const BODY =
+  'Acme Payments, the payments platform for independent retailers, today announced a $60 million Series B ' +
+  'round led by Sequoia Capital with participation from Ribbit Capital and QED Investors. The company will use ' +
+  'the funding to bring instant settlement to merchants across Europe and to double its engineering team. ' +
+  'Acme processes more than $40 billion in payment volume for 120,000 merchants.'
+
+// The same release as each wire and the company IR site publish it
+const PR_NEWSWIRE: ClusterableRelease = {
+  id: 'prn',
+  companyId: 'acme',
+  title: 'Acme Payments Raises $60 Million Series B to Expand Instant Settlement Across Europe',
+  content: `SAN FRANCISCO, Jan. 15, 2025 /PRNewswire/ -- ${BODY} View original content to download multimedia: https://www.prnewswire.com/news-releases/acme-302345678.html SOURCE Acme Payments`,
+  sourceUrl: 'https://www.prnewswire.com/news-releases/acme-302345678.html',
+  publishedAt: '2025-01-15T13:00:00Z',
+}
+
+const BUSINESS_WIRE: ClusterableRelease = {
+  id: 'bw',
+  companyId: 'acme',
+  title: 'Acme Payments Raises $60 Million Series B to Expand Instant Settlement Across Europe',
+  content: `SAN FRANCISCO--(BUSINESS WIRE)--${BODY}`,
+  sourceUrl: 'https://www.businesswire.com/news/home/20250115005123/en/',
+  publishedAt: '2025-01-15T13:05:00Z',
+}
+
+const IR_SITE: ClusterableRelease = {
+  id: 'ir',
+  companyId: 'acme',
+  title: 'Acme Payments raises $60 million Series B to expand instant settlement across Europe',
+  content: `<p>${BODY}</p><p>Read more on our blog.</p>`,
+  sourceUrl: 'https://investors.acmepayments.example/news/series-b',
+  publishedAt: '2025-01-15T14:30:00Z',
+}
+
+// A different Acme release two days later, in the same window
+const PARTNERSHIP: ClusterableRelease = {
+  id: 'partnership',
+  companyId: 'acme',
+  title: 'Acme Payments Partners with Visa to Launch Instant Payouts for Small Businesses',
+  content:
+    'SAN FRANCISCO--(BUSINESS WIRE)--Acme Payments today announced a strategic partnership with Visa to offer ' +
+    'instant payouts to small businesses in the United States. Merchants on Acme can move card sales to a Visa ' +
+    'debit card within minutes, starting in the second quarter.',
+  sourceUrl: 'https://www.businesswire.com/news/home/20250117005200/en/',
+  publishedAt: '2025-01-17T13:00:00Z',
+}
+
+const EARNINGS: ClusterableRelease = {
+  id: 'earnings',
+  companyId: 'acme',
+  title: 'Acme Payments Reports Fourth Quarter Results',
+  content:
+    'SAN FRANCISCO, Jan. 16, 2025 /PRNewswire/ -- Acme Payments reported fourth quarter revenue of $48 million, ' +
+    'up 35% year over year, and net income of $3 million. Payment volume grew 41% to $11 billion.',
+  sourceUrl: 'https://www.prnewswire.com/news-releases/acme-q4-302345999.html',
+  publishedAt: '2025-01-16T21:05:00Z',
+}
+
+function fingerprint(release: ClusterableRelease): string {
+  return generateSimHash(release.title, release.content) || ''
+}
+
+/**
+ * Test that syndicated copies of a release cluster and different releases stay apart
+ */
+export async function testStoryClusters() {
+  console.log('🧪 Testing story clusters...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+  let total = 0
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  check(
+    'Business Wire dateline is stripped like the PR Newswire one',
+    fingerprint(BUSINESS_WIRE) === generateSimHash(BUSINESS_WIRE.title, BODY),
+    `${fingerprint(BUSINESS_WIRE)} vs ${generateSimHash(BUSINESS_WIRE.title, BODY)}`
+  )
+  check(
+    'PR Newswire dateline and trailer are stripped',
+    fingerprint(PR_NEWSWIRE) === generateSimHash(PR_NEWSWIRE.title, BODY),
+    `${fingerprint(PR_NEWSWIRE)} vs ${generateSimHash(PR_NEWSWIRE.title, BODY)}`
+  )
+
+  const copies = [PR_NEWSWIRE, BUSINESS_WIRE, IR_SITE]
+  for (const copy of copies.slice(1)) {
+    const distance = simHashDistance(fingerprint(PR_NEWSWIRE), fingerprint(copy))
+    check(`${copy.id} copy is within ${MAX_NEAR_DUPLICATE_DISTANCE} bits`, distance <= MAX_NEAR_DUPLICATE_DISTANCE, `${distance} bits`)
+  }
+
+  for (const other of [PARTNERSHIP, EARNINGS]) {
+    const distance = simHashDistance(fingerprint(PR_NEWSWIRE), fingerprint(other))
+    check(`${other.id} release is more than ${MAX_NEAR_DUPLICATE_DISTANCE} bits away`, distance > MAX_NEAR_DUPLICATE_DISTANCE, `${distance} bits`)
+  }
+
+  const stories = groupStoryClusters([IR_SITE, PARTNERSHIP, BUSINESS_WIRE, EARNINGS, PR_NEWSWIRE])
+  const seriesB = stories.find((story) => story.relatedReleases.length > 0)
+  check('three stories from five releases', stories.length === 3, stories.map((story) => story.id).join(','))
+  check(
+    'earliest copy is canonical and the others are related',
+    seriesB?.id === 'prn' && seriesB.relatedReleases.map((related) => related.id).sort().join(',') === 'bw,ir',
+    JSON.stringify(seriesB && { id: seriesB.id, related: seriesB.relatedReleases.map((related) => related.id) })
+  )
+
+  const otherCompany = groupStoryClusters([PR_NEWSWIRE, { ...BUSINESS_WIRE, companyId: 'globex' }])
+  check('copies for different companies stay apart', otherCompany.length === 2)
+
+  const weekLater = groupStoryClusters([PR_NEWSWIRE, { ...BUSINESS_WIRE, publishedAt: '2025-01-22T13:05:00Z' }])
+  check('copies outside the window stay apart', weekLater.length === 2)
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} story cluster cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} story cluster cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  testStoryClusters().then((result) => {
+    if (!result.success) process.exitCode = 1
+  })
+}
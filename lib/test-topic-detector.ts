@@ -0,0 +1,183 @@
+import { MAX_TOPIC_PATTERN_TEXT_LENGTH, compileTaxonomy, detectTopic, validateTopicCategories } from './topic-detector'
+import { FINTECH_TAXONOMY_TEMPLATE } from './topic-templates'
+import type { CreateTopicTaxonomy } from './types'
+
+// A private credit and infrastructure desk's taxonomy, the kind users build instead of the fintech default
+const PRIVATE_MARKETS: CreateTopicTaxonomy = {
+  name: 'Private Markets',
+  minScore: 20,
+  categories: [
+    {
+      name: 'Private Credit',
+      keywords: ['direct lending', 'private credit', 'unitranche'],
+      patterns: ['$* million credit facility', '$* billion credit facility'],
+      negativeTerms: ['credit card'],
+      weight: 2,
+    },
+    {
+      name: 'Infrastructure',
+      keywords: ['infrastructure fund', 'data center', 'toll road'],
+      patterns: [],
+      negativeTerms: [],
+      weight: 1,
+    },
+  ],
+}
+
+interface TopicCase {
+  description: string
+  taxonomy: CreateTopicTaxonomy
+  title: string
+  content: string
+  categories?: string[] // Expected matched categories, best first; undefined when the release shouldn't match
+}
+
+const cases: TopicCase[] = [
+  {
+    description: 'weighted category outranks a single infrastructure mention',
+    taxonomy: PRIVATE_MARKETS,
+    title: 'Contoso Capital Provides $400 Million Credit Facility to Fund Data Center Expansion',
+    content: 'The unitranche financing was arranged by Contoso Capital\'s direct lending team.',
+    categories: ['Private Credit', 'Infrastructure'],
+  },
+  {
+    description: 'negative term rules a category out',
+    taxonomy: PRIVATE_MARKETS,
+    title: 'Woodgrove Launches Private Credit Card for Wealth Clients',
+    content: 'The new card offers travel rewards.',
+  },
+  {
+    description: 'below the taxonomy threshold',
+    taxonomy: PRIVATE_MARKETS,
+    title: 'City Council Approves Toll Road Study',
+    content: 'A feasibility study will start next year.',
+  },
+  {
+    description: 'fintech template still matches funding news',
+    taxonomy: FINTECH_TAXONOMY_TEMPLATE,
+    title: 'Acme Pay Raises $60M Series B',
+    content: 'The payment processing startup raised the round from venture capital firms.',
+    categories: ['Funding', 'Payments'],
+  },
+  {
+    description: 'fintech template matches banking and crypto news',
+    taxonomy: FINTECH_TAXONOMY_TEMPLATE,
+    title: 'Northwind Launches FDIC-Insured Accounts on Its Cryptocurrency App',
+    content: '',
+    categories: ['Banking', 'Crypto'],
+  },
+  {
+    description: 'keywords match whole words only',
+    taxonomy: FINTECH_TAXONOMY_TEMPLATE,
+    title: 'Local Bakery Said to Open Second Location',
+    content: 'The owners said the federal holiday weekend was their busiest.',
+  },
+]
+
+/**
+ * Test topic detection and taxonomy validation
+ */
+export function testTopicDetector() {
+  console.log('🧪 Testing topic detection...')
+  console.log('='.repeat(50))
+
+  let failed = 0
+
+  for (const testCase of cases) {
+    const taxonomy = compileTaxonomy({ id: 'test', ...testCase.taxonomy })
+    const match = detectTopic(taxonomy, testCase.title, testCase.content)
+    const actual = match ? match.categories.join(', ') : 'no match'
+    const expected = testCase.categories ? testCase.categories.join(', ') : 'no match'
+
+    if (actual === expected) {
+      console.log(`✅ ${testCase.description}${match ? ` (relevance ${match.relevanceScore})` : ''}`)
+    } else {
+      failed++
+      console.error(`❌ ${testCase.description}: got ${actual}, expected ${expected}`)
+    }
+  }
+
+  let total = cases.length
+  const check = (description: string, passed: boolean, detail: string = '') => {
+    total++
+    if (passed) {
+      console.log(`✅ ${description}`)
+    } else {
+      failed++
+      console.error(`❌ ${description}${detail ? `: ${detail}` : ''}`)
+    }
+  }
+
+  const patternErrors = (pattern: string) =>
+    validateTopicCategories([{ name: 'Custom', keywords: [], patterns: [pattern], negativeTerms: [], weight: 1 }])
+
+  // Regular expressions, including ones that backtrack catastrophically on text that almost matches
+  for (const pattern of ['(unclosed', '(a+)+$', '(a|a)*b', '(\\w*)*@', '\\$\\d+ round', 'fund [IVX]{1,4}', 'series b?']) {
+    const errors = patternErrors(pattern)
+    check(`${pattern} is rejected as regular expression syntax`, errors.length === 1 && errors[0].includes('regular expression'), errors.join('; ') || 'accepted')
+  }
+
+  const templatePatterns = FINTECH_TAXONOMY_TEMPLATE.categories.flatMap((category) => category.patterns)
+  const wildcardPatterns = [...templatePatterns, 'direct lend*', 'insur*tech', '$* million credit facility', 'raises * round']
+  const flagged = wildcardPatterns.filter((pattern) => patternErrors(pattern).length > 0)
+  check('template and wildcard patterns are accepted', flagged.length === 0, flagged.join(', '))
+  check('patterns without words are rejected', patternErrors('- -').length === 1)
+
+  const custom = compileTaxonomy({
+    id: 'custom',
+    name: 'Custom',
+    categories: [
+      { name: 'Rounds', keywords: [], patterns: ['raises * round', '$*b'], negativeTerms: [], weight: 1 },
+      { name: 'Backtracking', keywords: [], patterns: ['.*.*.*.*x', '*a*a*a*a*a*a*a*a*x'], negativeTerms: [], weight: 1 },
+    ],
+  })
+  const rounds = detectTopic(custom, 'Fabrikam Raises Growth Round at $1.5B Valuation', '')
+  check(
+    'a lone * stands for one word and amounts stay one word',
+    rounds?.matchedTerms.join(',') === 'raises growth round,$1.5b',
+    rounds?.matchedTerms.join(',')
+  )
+
+  const fintech = compileTaxonomy({ id: 'fintech', ...FINTECH_TAXONOMY_TEMPLATE })
+  const insured = detectTopic(fintech, 'Northwind Launches FDIC-Insured Accounts', '')
+  check('hyphenated words match a pattern written with a space', !!insured?.matchedTerms.includes('fdic insured'), insured?.matchedTerms.join(','))
+
+  // Inputs that stall a backtracking regex engine on the same rules
+  const started = Date.now()
+  const backtracking = detectTopic(custom, 'Update', `${'a'.repeat(MAX_TOPIC_PATTERN_TEXT_LENGTH)}! ${'.a'.repeat(2000)}`)
+  check('wildcard matching stays fast on text that almost matches', Date.now() - started < 1000 && backtracking === null, `${Date.now() - started}ms`)
+
+  // A pattern saved as a regular expression before patterns became wildcards is skipped
+  const stored = compileTaxonomy({
+    id: 'stored',
+    name: 'Stored',
+    categories: [{ name: 'Risky', keywords: ['credit facility'], patterns: ['(a+)+$'], negativeTerms: [], weight: 1 }],
+  })
+  const storedMatch = detectTopic(stored, 'Credit facility', `${'a'.repeat(40)}!`)
+  check('regular expression patterns stored earlier are skipped', storedMatch?.matchedTerms.join(',') === 'credit facility', storedMatch?.matchedTerms.join(','))
+
+  const lateMention = compileTaxonomy({
+    id: 'late',
+    name: 'Late',
+    categories: [{ name: 'Crypto', keywords: [], patterns: ['stablecoin'], negativeTerms: [], weight: 2 }],
+  })
+  check(
+    'patterns only run over the start of long releases',
+    detectTopic(lateMention, 'Quarterly update', `${'word '.repeat(MAX_TOPIC_PATTERN_TEXT_LENGTH / 5)} stablecoin`) === null
+  )
+
+  console.log('='.repeat(50))
+  if (failed === 0) {
+    console.log(`🎉 All ${total} topic detection cases passed`)
+  } else {
+    console.error(`❌ ${failed} of ${total} topic detection cases failed`)
+  }
+
+  return { success: failed === 0, total, failed }
+}
+
+// Auto-run test if this file is executed directly
+if (require.main === module) {
+  const result = testTopicDetector()
+  if (!result.success) process.exitCode = 1
+}
@@ -0,0 +1,286 @@
+import type { TopicCategory, TopicMatch, TopicTaxonomy } from "./types"
+
+/**
+ * Topic Detection Utility
+ * Scores press releases against user-defined topic taxonomies (see lib/topic-templates.ts for the
+ * default fintech set). Keywords and negative terms match whole words. Patterns are words with
+ * * wildcards, matched word by word here rather than run as regular expressions, so no rule a
+ * user saves can make detection slow.
+ */
+
+// Relevance a release needs when a taxonomy doesn't set its own threshold
+export const DEFAULT_MIN_TOPIC_SCORE = 10
+
+// Longest pattern accepted
+export const MAX_TOPIC_PATTERN_LENGTH = 200
+
+// Patterns only see the start of a release, which bounds the work per release
+export const MAX_TOPIC_PATTERN_TEXT_LENGTH = 10000
+
+// Regular expression syntax, which patterns no longer support; "$", "." and "*" are ordinary pattern text
+const REGEX_SYNTAX = /[\\()[\]{}|+?^]/
+
+// Words as patterns see them. Letters, digits and currency signs joined across inner . , and '
+// stay one word, like "$1.5b", "1,000" or "checkout.com"; hyphens and other punctuation split words.
+const TEXT_WORD = /[\p{L}\p{N}$€£&]+(?:[.,'’][\p{L}\p{N}$€£&]+)*/gu
+const PATTERN_WORD = /[\p{L}\p{N}$€£&*]+(?:[.,'’][\p{L}\p{N}$€£&*]+)*/gu
+
+interface CompiledTerm {
+  term: string
+  regex: RegExp
+}
+
+// A pattern as the pieces of each word between its wildcards, e.g. "insur*tech" is ["insur", "tech"]
+interface CompiledPattern {
+  pattern: string
+  words: string[][]
+}
+
+interface CompiledCategory {
+  name: string
+  weight: number
+  keywords: CompiledTerm[]
+  patterns: CompiledPattern[]
+  negativeTerms: RegExp[]
+}
+
+export interface CompiledTaxonomy {
+  id: string
+  name: string
+  minScore: number
+  categories: CompiledCategory[]
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Whole-word, case-insensitive matcher for a keyword or phrase
+ */
+function termRegExp(term: string): RegExp {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.trim())}($|[^a-z0-9])`, "i")
+}
+
+function textWords(text: string): string[] {
+  return text.toLowerCase().match(TEXT_WORD) || []
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+  const words = pattern.toLowerCase().match(PATTERN_WORD) || []
+  return { pattern, words: words.map((word) => word.split("*")) }
+}
+
+/**
+ * Whether a whole word fits a pattern word, with each wildcard standing for any run of characters
+ * Pieces are found left to right, so this never backtracks.
+ */
+function wordMatches(word: string, pieces: string[]): boolean {
+  if (pieces.length === 1) return word === pieces[0]
+
+  const first = pieces[0]
+  const last = pieces[pieces.length - 1]
+  if (word.length < first.length + last.length || !word.startsWith(first) || !word.endsWith(last)) return false
+
+  let position = first.length
+  const end = word.length - last.length
+  for (const piece of pieces.slice(1, -1)) {
+    const found = word.indexOf(piece, position)
+    if (found === -1 || found + piece.length > end) return false
+    position = found + piece.length
+  }
+  return true
+}
+
+/**
+ * Runs of consecutive words matching a pattern, without overlaps
+ */
+function patternMatches(words: string[], pattern: CompiledPattern): string[] {
+  const matches: string[] = []
+  const length = pattern.words.length
+
+  for (let i = 0; i + length <= words.length; i++) {
+    if (pattern.words.every((pieces, offset) => wordMatches(words[i + offset], pieces))) {
+      matches.push(words.slice(i, i + length).join(" "))
+      i += length - 1
+    }
+  }
+  return matches
+}
+
+/**
+ * Why a pattern can't be used, or null when it is fine
+ */
+function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_TOPIC_PATTERN_LENGTH) return `is longer than ${MAX_TOPIC_PATTERN_LENGTH} characters`
+  if (REGEX_SYNTAX.test(pattern)) return "uses regular expression syntax; write words with * wildcards instead"
+  if (compilePattern(pattern).words.length === 0) return "has no words to match"
+  return null
+}
+
+/**
+ * Compile a taxonomy's terms and patterns once, so it can score many releases
+ * Patterns saved as regular expressions before patterns became wildcards are skipped;
+ * validateTopicCategories reports them when the taxonomy is next saved.
+ */
+export function compileTaxonomy(
+  taxonomy: Pick<TopicTaxonomy, "id" | "name" | "categories"> & { minScore?: number },
+): CompiledTaxonomy {
+  let skipped = 0
+
+  const categories = taxonomy.categories.map((category) => {
+    const patterns: CompiledPattern[] = []
+    for (const pattern of category.patterns) {
+      if (patternProblem(pattern)) {
+        skipped++
+        continue
+      }
+      patterns.push(compilePattern(pattern))
+    }
+
+    return {
+      name: category.name,
+      weight: category.weight,
+      keywords: category.keywords.filter((term) => term.trim()).map((term) => ({ term, regex: termRegExp(term) })),
+      patterns,
+      negativeTerms: category.negativeTerms.filter((term) => term.trim()).map(termRegExp),
+    }
+  })
+
+  if (skipped > 0) {
+    console.warn(`⚠️ Skipping ${skipped} unsupported pattern(s) in topic "${taxonomy.name}"`)
+  }
+
+  return {
+    id: taxonomy.id,
+    name: taxonomy.name,
+    minScore: taxonomy.minScore ?? DEFAULT_MIN_TOPIC_SCORE,
+    categories,
+  }
+}
+
+/**
+ * Score content against one taxonomy
+ * Each matched category adds 10 points and each keyword or pattern hit 5 (hits capped at 50),
+ * both scaled by the category's weight; the total is capped at 100.
+ * @returns The match, or null when the content scores below the taxonomy's threshold
+ */
+export function detectTopic(taxonomy: CompiledTaxonomy, title: string, content: string): TopicMatch | null {
+  const fullText = `${title} ${content}`
+  const words = textWords(fullText.slice(0, MAX_TOPIC_PATTERN_TEXT_LENGTH))
+  const matchedTerms = new Set<string>()
+  const categoryScores: Array<{ name: string; score: number }> = []
+  let categoryBonus = 0
+  let matchBonus = 0
+
+  for (const category of taxonomy.categories) {
+    if (category.weight <= 0) continue
+    if (category.negativeTerms.some((term) => term.test(fullText))) continue
+
+    let categoryMatches = 0
+    const categoryTerms: string[] = []
+
+    // Check keywords
+    for (const keyword of category.keywords) {
+      if (keyword.regex.test(fullText)) {
+        categoryMatches++
+        categoryTerms.push(keyword.term)
+      }
+    }
+
+    // Check wildcard patterns
+    for (const pattern of category.patterns) {
+      const matches = patternMatches(words, pattern)
+      if (matches.length > 0) {
+        categoryMatches += matches.length
+        categoryTerms.push(...matches)
+      }
+    }
+
+    if (categoryMatches > 0) {
+      categoryBonus += 10 * category.weight
+      matchBonus += categoryMatches * 5 * category.weight
+      categoryScores.push({ name: category.name, score: categoryMatches * category.weight })
+      categoryTerms.forEach((term) => matchedTerms.add(term))
+    }
+  }
+
+  const relevanceScore = Math.round(Math.min(categoryBonus + Math.min(matchBonus, 50), 100))
+  if (categoryScores.length === 0 || relevanceScore < taxonomy.minScore) {
+    return null
+  }
+
+  return {
+    taxonomyId: taxonomy.id,
+    categories: categoryScores.sort((a, b) => b.score - a.score).map((category) => category.name),
+    relevanceScore,
+    matchedTerms: Array.from(matchedTerms),
+  }
+}
+
+/**
+ * Score content against each taxonomy, keeping the ones it matches
+ */
+export function detectTopics(taxonomies: CompiledTaxonomy[], title: string, content: string): TopicMatch[] {
+  const matches: TopicMatch[] = []
+  for (const taxonomy of taxonomies) {
+    const match = detectTopic(taxonomy, title, content)
+    if (match) matches.push(match)
+  }
+  return matches
+}
+
+/**
+ * Check taxonomy categories before they are saved
+ * @returns Problems found, empty when the categories are valid
+ */
+export function validateTopicCategories(categories: TopicCategory[]): string[] {
+  const errors: string[] = []
+  const names = new Set<string>()
+
+  if (categories.length === 0) {
+    errors.push("Add at least one category")
+  }
+
+  for (const category of categories) {
+    const name = category.name.trim()
+    if (!name) {
+      errors.push("Every category needs a name")
+      continue
+    }
+    if (names.has(name.toLowerCase())) {
+      errors.push(`Duplicate category "${name}"`)
+    }
+    names.add(name.toLowerCase())
+
+    if (category.keywords.every((term) => !term.trim()) && category.patterns.every((pattern) => !pattern.trim())) {
+      errors.push(`Category "${name}" needs at least one keyword or pattern`)
+    }
+    if (!Number.isFinite(category.weight) || category.weight < 0 || category.weight > 10) {
+      errors.push(`Category "${name}" weight must be between 0 and 10`)
+    }
+
+    for (const pattern of category.patterns) {
+      const problem = patternProblem(pattern)
+      if (problem) {
+        errors.push(`Pattern in "${name}" ${problem}: ${pattern}`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Trim terms and drop empty ones, so stored taxonomies stay tidy
+ */
+export function normalizeTopicCategories(categories: TopicCategory[]): TopicCategory[] {
+  const clean = (terms: string[]) => terms.map((term) => term.trim()).filter(Boolean)
+  return categories.map((category) => ({
+    name: category.name.trim(),
+    keywords: clean(category.keywords),
+    patterns: clean(category.patterns),
+    negativeTerms: clean(category.negativeTerms),
+    weight: category.weight,
+  }))
+}
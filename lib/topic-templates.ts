@@ -0,0 +1,205 @@
+import type { CreateTopicTaxonomy } from "./types"
+
+/**
+ * Topic Taxonomy Templates
+ * Starting points for user taxonomies. The fintech template is the keyword set the feed's
+ * "Fintech News" filter used before taxonomies were configurable, and is what new users get.
+ */
+
+export const FINTECH_TAXONOMY_TEMPLATE: CreateTopicTaxonomy = {
+  name: "Fintech News",
+  minScore: 10,
+  categories: [
+    {
+      name: "Funding",
+      keywords: [
+        "series a", "series b", "series c", "series d", "series e",
+        "seed round", "seed funding", "pre-seed",
+        "funding round", "capital raise", "raised", "raises",
+        "venture capital", "vc funding", "private equity",
+        "valuation", "valued at", "unicorn",
+        "investment", "investor", "lead investor",
+        "term sheet", "cap table", "equity round",
+      ],
+      patterns: [
+        "$* in funding", "$* funding round", "raised $*", "raises $*", "$* round",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Banking",
+      keywords: [
+        "digital banking", "neobank", "challenger bank",
+        "banking as a service", "baas", "embedded banking",
+        "banking license", "bank charter", "fdic",
+        "core banking", "open banking", "banking api",
+        "deposit", "withdrawal", "account opening",
+        "kyc", "know your customer", "aml", "anti money laundering",
+        "checking account", "savings account", "money market",
+      ],
+      patterns: [
+        "bank* license", "bank* charter", "bank* regulation", "fdic insured",
+        "digital bank*", "neo bank*",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Payments",
+      keywords: [
+        "payment processing", "payment gateway", "payment processor",
+        "stripe", "square", "paypal", "adyen", "checkout.com",
+        "point of sale", "pos system", "terminal",
+        "card processing", "credit card", "debit card",
+        "ach", "wire transfer", "swift", "sepa",
+        "payment rails", "payment infrastructure",
+        "digital wallet", "mobile payment", "contactless",
+        "buy now pay later", "bnpl", "installments",
+        "merchant services", "payment service provider", "psp",
+      ],
+      patterns: [
+        "payment process*", "payment gateway*", "payment platform*", "pos system*",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Crypto",
+      keywords: [
+        "cryptocurrency", "bitcoin", "ethereum", "blockchain",
+        "defi", "decentralized finance", "web3",
+        "smart contract", "nft", "token", "tokenization",
+        "crypto exchange", "digital asset", "stablecoin",
+        "cbdc", "central bank digital currency",
+        "wallet", "crypto wallet", "cold storage",
+        "mining", "staking", "yield farming",
+        "dex", "decentralized exchange", "liquidity pool",
+      ],
+      patterns: [
+        "crypto*", "block chain", "nft*", "web3*", "web 3*", "btc", "eth", "usdc", "usdt",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Lending",
+      keywords: [
+        "lending platform", "loan origination", "underwriting",
+        "credit scoring", "credit risk", "risk assessment",
+        "personal loan", "business loan", "mortgage",
+        "line of credit", "revolving credit",
+        "apr", "annual percentage rate", "interest rate",
+        "default rate", "charge-off", "collections",
+        "loan servicing", "debt consolidation",
+        "peer to peer lending", "p2p lending",
+      ],
+      patterns: [
+        "lending platform*", "lending marketplace*", "loan originat*", "loan servic*",
+        "credit scor*", "credit assess*", "p2p lend*",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Regulatory",
+      keywords: [
+        "sec", "securities and exchange commission",
+        "finra", "occ", "cfpb", "federal reserve", "fed",
+        "compliance", "regulatory approval", "regulation",
+        "license", "charter", "registration",
+        "audit", "examination", "enforcement",
+        "anti money laundering", "aml", "kyc",
+        "dodd-frank", "basel iii", "mifid",
+        "gdpr", "psd2", "open banking regulation",
+        "sandbox", "regulatory sandbox",
+      ],
+      patterns: [
+        "regulat* approval*", "regulat* framework*", "financial regulat*",
+        "regulat* sandbox*", "bsa",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "Markets",
+      keywords: [
+        "ipo", "initial public offering", "going public",
+        "spac", "direct listing", "public offering",
+        "acquisition", "merger", "m&a", "buyout",
+        "stock market", "nasdaq", "nyse", "exchange",
+        "trading", "securities", "equities", "bonds",
+        "market cap", "market capitalization",
+        "earnings", "revenue", "ebitda", "profit margin",
+        // Add major tech companies and business terms
+        "apple", "tesla", "amazon", "google", "microsoft", "meta",
+        "openai", "chatgpt", "artificial intelligence", "ai",
+        "technology", "tech company", "silicon valley",
+        "business", "enterprise", "corporate", "ceo", "cfo",
+      ],
+      patterns: [
+        "ipo*", "going public", "spac*", "m&a", "merger*", "acqui*", "$* acquisition",
+        "$* deal", "tech* earnings", "tech* results",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "WealthTech",
+      keywords: [
+        "robo advisor", "robo-advisor", "automated investing",
+        "wealth management", "asset management",
+        "portfolio management", "investment platform",
+        "financial planning", "retirement planning",
+        "etf", "mutual fund", "index fund",
+        "brokerage", "trading platform", "investment app",
+        "financial advisor", "ria", "registered investment advisor",
+      ],
+      patterns: [
+        "robo advis*", "wealth manag*", "wealth tech*", "investment platform*",
+        "investment app*", "investment advis*", "etf*", "ria",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "InsurTech",
+      keywords: [
+        "insurtech", "insurance technology",
+        "digital insurance", "embedded insurance",
+        "underwriting", "claims processing", "claims automation",
+        "actuarial", "risk modeling", "premium",
+        "policy", "coverage", "deductible",
+        "reinsurance", "parametric insurance",
+        "usage-based insurance", "ubi", "telematics",
+      ],
+      patterns: [
+        "insur*tech", "insur* tech", "digital insur*", "embedded insur*",
+        "claims process*", "claims automat*", "usage based insur*",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+    {
+      name: "RegTech",
+      keywords: [
+        "regtech", "regulatory technology",
+        "compliance automation", "compliance platform",
+        "risk management", "regulatory reporting",
+        "transaction monitoring", "suspicious activity",
+        "sanctions screening", "pep screening",
+        "identity verification", "document verification",
+        "audit trail", "compliance dashboard",
+      ],
+      patterns: [
+        "reg tech", "compliance automat*", "compliance platform*",
+        "compliance technolog*", "regulatory technolog*", "regulatory report*",
+        "transaction monitor*", "sanctions screen*",
+      ],
+      negativeTerms: [],
+      weight: 1,
+    },
+  ],
+}
+
+export const TOPIC_TAXONOMY_TEMPLATES: CreateTopicTaxonomy[] = [FINTECH_TAXONOMY_TEMPLATE]
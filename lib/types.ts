@@ -1,22 +1,52 @@
 export interface Company {
   id: string
-  userId: string
+  userId: string // Member who added the company
+  workspaceId?: string
   name: string
   variations: string[]
+  negativeKeywords?: string[] // Items mentioning any of these are never matched to the company
+  cik?: string // SEC Central Index Key, 10-digit zero-padded
   website: string
   industry: string
   createdAt: string
   updatedAt: string
 }
 
+// Where a tracked company was found in an item, used to explain why it matched
+export interface CompanyMatchPosition {
+  field: "title" | "description"
+  start: number
+  end: number
+  text: string
+  term: string
+  kind: "name" | "alias" | "ticker"
+}
+
+// SEC filing parsed from an EDGAR feed entry
+export interface SECFiling {
+  formType: string // e.g. "8-K", "10-Q", "4", "8-K/A"
+  formName?: string
+  cik?: string
+  filerName?: string
+  accessionNumber: string
+  filedAt: string // YYYY-MM-DD
+  items: SECFilingItem[] // 8-K items, empty for other forms
+}
+
+export interface SECFilingItem {
+  code: string // e.g. "2.02"
+  description: string
+}
+
 // RSS Source for company-specific feeds
 export interface RSSSource {
   id: string
   companyId: string
   userId: string
+  workspaceId?: string
   feedUrl: string
   feedName: string
-  feedType: 'ir-news' | 'sec-filings' | 'general-news' | 'industry' | 'custom'
+  feedType: 'ir-news' | 'sec-filings' | 'general-news' | 'google-news' | 'industry' | 'custom'
   enabled: boolean
   createdAt: string
   updatedAt: string
@@ -24,6 +54,24 @@ export interface RSSSource {
   lastError?: string
   articleCount: number
   successRate: number
+  lastChangedAt?: string // Last poll where the feed content actually changed
+  consecutiveFailures: number
+  disabledReason?: string // Set when polling disabled the source automatically
+  disabledAt?: string
+  recentAttempts?: RSSFetchAttempt[] // Newest first, when requested
+}
+
+// One fetch of an RSS source during polling
+export interface RSSFetchAttempt {
+  id: string
+  rssSourceId: string
+  status: 'success' | 'not-modified' | 'error'
+  httpStatus?: number
+  latencyMs: number
+  itemCount: number
+  bytes: number
+  errorMessage?: string
+  attemptedAt: string
 }
 
 // For creating/updating RSS sources
@@ -53,6 +101,92 @@ export interface RSSValidationResult {
   itemCount?: number
   error?: string
   detectedType?: RSSSource['feedType']
+  feedFormat?: 'rss' | 'atom' | 'rdf'
+}
+
+// AI analysis of a release; stored analyses carry the prompt version that produced them
+export interface ReleaseAIAnalysis {
+  summary: string
+  keyPoints: string[]
+  promptVersion?: string
+  analyzedAt?: string
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+  }
+  // Highlights Claude quoted that couldn't be located in the analyzed content
+  unalignedHighlights?: Array<{
+    type: "financial" | "opportunity" | "risk" | "strategic"
+    text: string
+    reasoning?: string
+  }>
+}
+
+// Primary deal a release announces, see lib/financial-facts.ts
+export type DealType = "acquisition" | "funding_round" | "debt_raise" | "fund_close" | "partnership" | "earnings"
+
+// Money amount normalized to whole currency units
+export interface FinancialAmount {
+  value: number // e.g. 1200000000 for "$1.2 billion"
+  currency: string // ISO 4217 code
+  text: string // As written in the release
+}
+
+export interface FiscalPeriod {
+  label: string // "Q3 2025", "H1 2025" or "FY 2025"
+  year: number
+  quarter?: number
+  half?: number
+}
+
+// Typed facts pulled from a release by rules, optionally refined by AI analysis
+export interface FinancialFacts {
+  dealType?: DealType
+  amount?: FinancialAmount // Headline amount of the deal or results
+  amounts: FinancialAmount[] // Every amount mentioned
+  counterparties: string[] // Acquisition targets, investors and partners
+  fiscalPeriod?: FiscalPeriod // Set for earnings releases
+  source: "rules" | "ai"
+}
+
+// Category of a topic taxonomy; patterns are case-insensitive regular expression sources
+export interface TopicCategory {
+  name: string
+  keywords: string[]
+  patterns: string[]
+  negativeTerms: string[] // Any of these in a release rules the category out
+  weight: number // Multiplies the category's matches when scoring, 1 by default
+}
+
+// User-defined topic taxonomy, shown as its own filter in the activity feed
+export interface TopicTaxonomy {
+  id: string
+  userId: string
+  name: string
+  categories: TopicCategory[]
+  minScore: number // Relevance (0-100) a release needs to appear under this topic
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateTopicTaxonomy {
+  name: string
+  categories: TopicCategory[]
+  minScore?: number
+}
+
+export interface UpdateTopicTaxonomy {
+  name?: string
+  categories?: TopicCategory[]
+  minScore?: number
+}
+
+// How a release scored against one taxonomy
+export interface TopicMatch {
+  taxonomyId: string
+  categories: string[] // Matched category names, best first
+  relevanceScore: number // 0-100
+  matchedTerms: string[]
 }
 
 // Current in-memory press release (from RSS)
@@ -64,10 +198,8 @@ export interface PressRelease {
   sourceUrl: string
   publishedAt: string
   companyId: string
-  aiAnalysis?: {
-    summary: string
-    keyPoints: string[]
-  }
+  aiAnalysis?: ReleaseAIAnalysis
+  financialFacts?: FinancialFacts
   highlights?: Array<{
     type: "financial" | "opportunity" | "risk" | "strategic"
     text: string
@@ -75,16 +207,110 @@ export interface PressRelease {
     end: number
   }>
   createdAt: string
-  // Fintech detection fields
-  isFintech?: boolean
-  fintechCategories?: string[]
-  fintechRelevanceScore?: number
+  // Topic taxonomies the release matched, see lib/topic-detector.ts
+  topicMatches?: TopicMatch[]
+  // Company matcher output
+  companyMatches?: CompanyMatchPosition[]
+  // Set for items from SEC EDGAR feeds
+  filing?: SECFiling
+  // Other copies of the same story from different sources
+  relatedReleases?: Array<{
+    id: string
+    title: string
+    sourceUrl: string
+    publishedAt: string
+  }>
+}
+
+// Feed types a search can be limited to; releases from the built-in feeds count as "general"
+export type SearchFeedType = RSSSource['feedType'] | 'general'
+
+// Full-text search over stored releases, see lib/release-search.ts
+export interface ReleaseSearchFilters {
+  query: string // Words, "quoted phrases", OR, and -excluded or NOT excluded terms
+  sinceDays?: number // Relative date range, so a saved search stays current
+  from?: string // Custom date range, YYYY-MM-DD (inclusive)
+  to?: string
+  feedTypes: SearchFeedType[] // Empty for every feed type
+}
+
+// Search saved as a named view, shown next to the company filters
+export interface SavedSearch extends ReleaseSearchFilters {
+  id: string
+  userId: string
+  name: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateSavedSearch extends ReleaseSearchFilters {
+  name: string
+}
+
+// Named set of companies ("Portfolio", "Competitors") shown as a feed tab; shared by the workspace
+export interface WatchlistGroup {
+  id: string
+  workspaceId: string
+  name: string
+  companyIds: string[] // A company can be in several groups
+  position: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateWatchlistGroup {
+  name: string
+  companyIds: string[]
+}
+
+export type UpdateWatchlistGroup = Partial<CreateWatchlistGroup>
+
+// Private annotations are only visible to their author; team ones to the whole workspace
+export type AnnotationVisibility = 'private' | 'team'
+
+// Note on a release, or a passage of its article text highlighted with a comment
+export interface ReleaseAnnotation {
+  id: string
+  releaseId: string
+  userId: string
+  authorName?: string // Set for teammates' annotations
+  isOwn: boolean
+  kind: 'note' | 'highlight'
+  body: string // The note, or the highlight's comment (may be empty)
+  quote?: string // Highlighted passage, whitespace collapsed
+  visibility: AnnotationVisibility
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateReleaseAnnotation {
+  releaseId: string
+  kind: ReleaseAnnotation['kind']
+  body: string
+  quote?: string
+  visibility: AnnotationVisibility
+}
+
+export type UpdateReleaseAnnotation = Partial<Pick<ReleaseAnnotation, 'body' | 'visibility'>>
+
+// Formats the activity feed can be exported in, see lib/release-export.ts
+export type ReleaseExportFormat = 'csv' | 'json' | 'markdown' | 'html'
+
+// Activity feed view an export covers; the search's query and date range apply, its feed types don't
+export interface ReleaseExportFilters extends Omit<ReleaseSearchFilters, 'feedTypes'> {
+  companyIds: string[] // Empty for every company
+  topicTaxonomyId?: string // Only releases matching the taxonomy
+  bookmarkedOnly: boolean
+  tag?: string
+  dealType: DealType | 'any'
+  minAmount: number // Headline amount, 0 for any
 }
 
 // Stored press release in database
 export interface StoredPressRelease {
   id: string
-  userId: string
+  userId: string // Member whose poll stored the release
+  workspaceId?: string
   companyId: string
   title: string
   content: string
@@ -93,21 +319,32 @@ export interface StoredPressRelease {
   publishedAt: string
   contentHash: string
   rssSourceUrl: string
-  aiAnalysis?: {
-    summary: string
-    keyPoints: string[]
-  }
+  aiAnalysis?: ReleaseAIAnalysis
+  financialFacts?: FinancialFacts
   highlights?: Array<{
     type: "financial" | "opportunity" | "risk" | "strategic"
     text: string
     start: number
     end: number
   }>
+  filing?: SECFiling
+  simhash?: string // Near-duplicate fingerprint, see lib/story-clusters.ts
+  clusterId?: string // Canonical release of this story, unset on the canonical release
+  extractedContent?: ExtractedContent // Full article body, cached on first view or during polling
   isDeleted: boolean
   createdAt: string
   updatedAt: string
 }
 
+// Full article body persisted alongside a stored release
+export interface ExtractedContent {
+  htmlContent: string
+  textContent: string
+  extractedBy: string
+  confidence: number
+  extractedAt: string
+}
+
 // For creating new stored press releases
 export interface CreateStoredPressRelease {
   companyId: string
@@ -118,16 +355,16 @@ export interface CreateStoredPressRelease {
   publishedAt: string
   contentHash: string
   rssSourceUrl: string
-  aiAnalysis?: {
-    summary: string
-    keyPoints: string[]
-  }
+  aiAnalysis?: ReleaseAIAnalysis
+  financialFacts?: FinancialFacts
   highlights?: Array<{
     type: "financial" | "opportunity" | "risk" | "strategic"
     text: string
     start: number
     end: number
   }>
+  filing?: SECFiling
+  simhash?: string
 }
 
 // RSS polling job log
@@ -150,6 +387,7 @@ export interface RSSPollLog {
 export interface CreateRSSPollLog {
   companyId: string
   pollStartedAt: string
+  pollCompletedAt?: string
   status: 'running' | 'success' | 'error'
   releasesFound?: number
   releasesNew?: number
@@ -170,3 +408,165 @@ export interface ContentHashOptions {
   includeContent: boolean
   includePublishedAt: boolean
 }
+
+// Stored Claude API key as exposed to the browser (never the key itself)
+export interface APIKeyStatus {
+  hasKey: boolean
+  maskedKey: string | null
+}
+
+// Background AI analysis job, see lib/supabase/ai-analysis-queue-service.ts
+export type AIAnalysisJobStatus = 'pending' | 'running' | 'succeeded' | 'failed'
+
+export interface AIAnalysisJob {
+  id: string
+  userId: string
+  releaseId: string
+  promptVersion: string
+  status: AIAnalysisJobStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  lastError?: string
+  inputTokens: number
+  outputTokens: number
+  startedAt?: string
+  completedAt?: string
+  createdAt: string
+}
+
+// A user's analysis queue as shown in settings
+export interface AIAnalysisQueueSummary {
+  counts: Record<AIAnalysisJobStatus, number>
+  tokensUsedToday: number
+  dailyTokenBudget: number
+  recentJobs: Array<AIAnalysisJob & { releaseTitle?: string }>
+}
+
+// Rule that alerts on newly polled releases, see lib/alert-rules.ts
+export interface AlertRule {
+  id: string
+  userId: string
+  name: string
+  enabled: boolean
+  companyId?: string // Unset for every company
+  query?: string // Same syntax as release search
+  topicTaxonomyId?: string
+  topicCategory?: string // Category of the taxonomy that must match, unset for any
+  minRelevanceScore?: number // Topic relevance (0-100) required, needs a taxonomy
+  feedTypes: SearchFeedType[] // Empty for every feed type
+  webhookUrl?: string // Receives a Slack-compatible JSON payload
+  email?: string
+  quietHoursStart?: number // Local hour (0-23) alerts start being held, unset for no quiet hours
+  quietHoursEnd?: number // Local hour held alerts are sent
+  timezone: string // IANA zone for quiet hours
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateAlertRule = Omit<AlertRule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+
+export type UpdateAlertRule = Partial<CreateAlertRule>
+
+export type AlertChannel = 'webhook' | 'email'
+
+// Pending deliveries wait for retry, deferred ones for quiet hours to end
+export type AlertDeliveryStatus = 'pending' | 'deferred' | 'sent' | 'failed'
+
+// One alert sent (or to be sent) for a story over one channel
+export interface AlertDelivery {
+  id: string
+  userId: string
+  ruleId: string
+  releaseId: string
+  clusterKey: string // Canonical release of the story, so copies from other sources alert once
+  channel: AlertChannel
+  status: AlertDeliveryStatus
+  attempts: number
+  nextAttemptAt: string
+  lastError?: string
+  sentAt?: string
+  createdAt: string
+  ruleName?: string
+  releaseTitle?: string
+}
+
+export type DigestFrequency = 'daily' | 'weekly'
+
+// A user's scheduled digest of one workspace's new releases, see lib/digests.ts
+export interface DigestSettings {
+  id: string
+  workspaceId: string
+  enabled: boolean
+  frequency: DigestFrequency
+  sendHour: number // Local hour (0-23) the digest goes out
+  weekday: number // Day weekly digests go out, 0 is Sunday
+  timezone: string // IANA zone for the send hour and weekday
+  companyIds: string[] // Empty for every company in the workspace
+  email?: string
+  webhookUrl?: string // Receives a Slack-compatible JSON payload
+  lastSentAt?: string // End of the last digest's period; the next one starts there
+  createdAt: string
+  updatedAt: string
+}
+
+export type SaveDigestSettings = Omit<DigestSettings, 'id' | 'workspaceId' | 'lastSentAt' | 'createdAt' | 'updatedAt'>
+
+export interface DigestRelease {
+  id: string
+  title: string
+  sourceUrl: string
+  publishedAt: string
+  summary: string // AI summary when the release was analyzed, otherwise the feed excerpt
+}
+
+// One company's part of a digest
+export interface DigestCompanySection {
+  companyId: string
+  companyName: string
+  rollup?: string // Claude's summary across the company's releases, unset without an API key or when it failed
+  releaseCount: number // Releases in the period, some may be left out of releases
+  releases: DigestRelease[]
+}
+
+// A digest as sent and shown on the Digest page
+export interface Digest {
+  id: string
+  workspaceId: string
+  periodStart: string
+  periodEnd: string
+  releaseCount: number
+  sections: DigestCompanySection[]
+  deliveries: Partial<Record<AlertChannel, string | null>> // Error per channel, null where it was sent
+  createdAt: string
+}
+
+// Owners manage members and invitations, editors change companies and feeds, viewers read
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// A workspace the signed-in user belongs to, with their role in it
+export interface Workspace {
+  id: string
+  name: string
+  personal: boolean // Created for the user on sign-up or migration; can't be deleted
+  role: WorkspaceRole
+  createdAt: string
+}
+
+export interface WorkspaceMember {
+  userId: string
+  email: string
+  fullName?: string
+  role: WorkspaceRole
+  joinedAt: string
+}
+
+export interface WorkspaceInvitation {
+  id: string
+  workspaceId: string
+  email: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  expiresAt: string
+  acceptedAt?: string
+  createdAt: string
+}
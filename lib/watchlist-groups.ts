@@ -0,0 +1,56 @@
+import type { CreateWatchlistGroup, PressRelease, WatchlistGroup } from "./types"
+
+/**
+ * Watchlist Groups
+ * Named sets of companies shown as feed tabs. A group's tab aggregates its companies' releases,
+ * and its unread count comes from the same read-status set the feed uses for unread dots.
+ */
+
+export const MAX_WATCHLIST_GROUP_NAME_LENGTH = 60
+
+/**
+ * @returns Error messages, empty when the group can be saved
+ */
+export function validateWatchlistGroup(group: Partial<CreateWatchlistGroup>): string[] {
+  const errors: string[] = []
+  if (group.name !== undefined) {
+    const name = group.name.trim()
+    if (!name) errors.push("Group name is required")
+    else if (name.length > MAX_WATCHLIST_GROUP_NAME_LENGTH) {
+      errors.push(`Group name must be ${MAX_WATCHLIST_GROUP_NAME_LENGTH} characters or fewer`)
+    }
+  }
+  return errors
+}
+
+export function releasesInGroup<T extends Pick<PressRelease, "companyId">>(
+  group: Pick<WatchlistGroup, "companyIds">,
+  releases: T[]
+): T[] {
+  const companyIds = new Set(group.companyIds)
+  return releases.filter((release) => companyIds.has(release.companyId))
+}
+
+/**
+ * Unread releases per group id; a release counts once in every group its company is in
+ */
+export function countUnreadByGroup(
+  groups: Array<Pick<WatchlistGroup, "id" | "companyIds">>,
+  releases: Array<Pick<PressRelease, "id" | "companyId">>,
+  readReleases: Set<string>
+): Map<string, number> {
+  const unreadByCompany = new Map<string, number>()
+  for (const release of releases) {
+    if (readReleases.has(release.id)) continue
+    unreadByCompany.set(release.companyId, (unreadByCompany.get(release.companyId) || 0) + 1)
+  }
+
+  const counts = new Map<string, number>()
+  for (const group of groups) {
+    counts.set(
+      group.id,
+      group.companyIds.reduce((total, companyId) => total + (unreadByCompany.get(companyId) || 0), 0)
+    )
+  }
+  return counts
+}
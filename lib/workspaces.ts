@@ -0,0 +1,76 @@
+import type { WorkspaceInvitation, WorkspaceRole } from "./types"
+
+/**
+ * Workspaces
+ * Role checks and validation shared by the workspace UI and the server routes. Membership
+ * itself is enforced by RLS (scripts/add-workspaces.sql); these checks only decide what to
+ * offer and give friendlier errors than a denied query.
+ */
+
+export const MAX_WORKSPACE_NAME_LENGTH = 80
+
+// Invitation links stop working after this many days
+export const INVITATION_TTL_DAYS = 7
+
+// Sign-in returns to the site root, which sends the user back to /invite/<token> while this is set
+export const PENDING_INVITATION_KEY = "cignal-pending-invitation"
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "editor", "viewer"]
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Manages members and invitations, and can edit everything",
+  editor: "Adds and edits companies and feeds, and polls for releases",
+  viewer: "Reads releases and analyses",
+}
+
+export function canEditWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return role === "owner" || role === "editor"
+}
+
+export function canManageWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return role === "owner"
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === "string" && (WORKSPACE_ROLES as string[]).includes(value)
+}
+
+export function isInvitationRole(value: unknown): value is WorkspaceInvitation["role"] {
+  return value === "editor" || value === "viewer"
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(email.trim())
+}
+
+/**
+ * @returns Error messages, empty when the name is usable
+ */
+export function validateWorkspaceName(name: string): string[] {
+  const trimmed = name.trim()
+  if (!trimmed) return ["Workspace name is required"]
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return [`Workspace name must be ${MAX_WORKSPACE_NAME_LENGTH} characters or fewer`]
+  }
+  return []
+}
+
+/**
+ * Why an invitation can't be accepted, or null when it still can
+ */
+export function invitationProblem(
+  invitation: Pick<WorkspaceInvitation, "email" | "expiresAt" | "acceptedAt">,
+  userEmail: string | undefined,
+  now: Date = new Date()
+): string | null {
+  if (invitation.acceptedAt) return "This invitation has already been used"
+  if (new Date(invitation.expiresAt).getTime() <= now.getTime()) return "This invitation has expired"
+  if (!userEmail || normalizeEmail(userEmail) !== normalizeEmail(invitation.email)) {
+    return `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+  }
+  return null
+}
@@ -0,0 +1,35 @@
+-- AI Analysis Jobs Migration
+-- Queue of releases to analyze in the background after polling, with retry state and token usage
+-- Run this in Supabase SQL Editor after add-ai-analysis-versions.sql
+
+-- Step 1: Create ai_analysis_jobs table
+CREATE TABLE IF NOT EXISTS ai_analysis_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  release_id UUID REFERENCES press_releases(id) ON DELETE CASCADE NOT NULL,
+  prompt_version TEXT NOT NULL,
+  status TEXT CHECK (status IN ('pending', 'running', 'succeeded', 'failed')) DEFAULT 'pending' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 5 NOT NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  last_error TEXT,
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(release_id, prompt_version)
+);
+
+-- Step 2: Indexes for picking due jobs and summing a user's daily token usage
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_jobs_due
+  ON ai_analysis_jobs(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_jobs_user_started
+  ON ai_analysis_jobs(user_id, started_at DESC);
+
+-- Step 3: Enable Row Level Security (jobs are written by the service role)
+ALTER TABLE ai_analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own AI analysis jobs" ON ai_analysis_jobs
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- AI Analysis Versions Migration
+-- Records which prompt version produced each stored AI analysis so it can be reused until the prompts change
+-- Run this in Supabase SQL Editor after add-extracted-content.sql
+
+-- Step 1: Prompt version and time of the analysis stored in ai_analysis / highlights
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS ai_prompt_version TEXT,
+ADD COLUMN IF NOT EXISTS ai_analyzed_at TIMESTAMPTZ;
+
+-- Step 2: Find releases whose analysis is missing or from an older prompt version
+CREATE INDEX IF NOT EXISTS idx_press_releases_ai_prompt_version ON press_releases(user_id, ai_prompt_version);
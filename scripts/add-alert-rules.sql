@@ -0,0 +1,76 @@
+-- Alert Rules Migration
+-- Per-user alert rules evaluated when polling stores new releases, and a log of webhook and email deliveries
+-- Run this in Supabase SQL Editor after add-release-search.sql
+
+-- Step 1: Create alert_rules table. Unset filters match everything; quiet hours are local hours in timezone
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  query TEXT,
+  topic_taxonomy_id UUID REFERENCES topic_taxonomies(id) ON DELETE SET NULL,
+  topic_category TEXT,
+  min_relevance_score INTEGER CHECK (min_relevance_score BETWEEN 0 AND 100),
+  feed_types TEXT[] NOT NULL DEFAULT '{}',
+  webhook_url TEXT,
+  email TEXT,
+  quiet_hours_start INTEGER CHECK (quiet_hours_start BETWEEN 0 AND 23),
+  quiet_hours_end INTEGER CHECK (quiet_hours_end BETWEEN 0 AND 23),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  UNIQUE(user_id, name),
+  CHECK (webhook_url IS NOT NULL OR email IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id, created_at);
+
+-- Step 2: Create alert_deliveries table. cluster_key is the story's canonical release,
+-- so copies of the same story from other sources alert once per rule and channel
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE CASCADE NOT NULL,
+  release_id UUID REFERENCES press_releases(id) ON DELETE CASCADE NOT NULL,
+  cluster_key TEXT NOT NULL,
+  channel TEXT CHECK (channel IN ('webhook', 'email')) NOT NULL,
+  status TEXT CHECK (status IN ('pending', 'deferred', 'sent', 'failed')) DEFAULT 'pending' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(rule_id, cluster_key, channel)
+);
+
+-- Step 3: Indexes for picking due deliveries and showing a user's delivery log
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due
+  ON alert_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'deferred');
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_user_created
+  ON alert_deliveries(user_id, created_at DESC);
+
+-- Step 4: Enable Row Level Security (deliveries are written by the service role)
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own alert rules" ON alert_rules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own alert rules" ON alert_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own alert rules" ON alert_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own alert rules" ON alert_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own alert deliveries" ON alert_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Step 5: Add updated_at trigger (using existing function)
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
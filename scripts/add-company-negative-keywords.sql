@@ -0,0 +1,11 @@
+-- Company Negative Keywords Migration
+-- Adds per-company exclusion terms used by the company matcher
+-- Run this in Supabase SQL Editor after the main schema is set up
+
+-- Items mentioning any of these keywords are never matched to the company
+-- (e.g. "Apple Records" for Apple, "Apollo program" for Apollo)
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS negative_keywords TEXT[] DEFAULT '{}';
+
+-- Backfill existing rows so the column is never NULL for the app
+UPDATE companies SET negative_keywords = '{}' WHERE negative_keywords IS NULL;
@@ -0,0 +1,74 @@
+-- Scheduled Digests Migration
+-- Per-user digest schedule for a workspace, and the digests sent, which are also shown in the app
+-- Run this in Supabase SQL Editor after add-release-annotations.sql
+
+-- Step 1: Create digest_settings table. send_hour and weekday are local to timezone;
+-- empty company_ids means every company in the workspace
+CREATE TABLE IF NOT EXISTS digest_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  frequency TEXT CHECK (frequency IN ('daily', 'weekly')) DEFAULT 'daily' NOT NULL,
+  send_hour INTEGER CHECK (send_hour BETWEEN 0 AND 23) DEFAULT 8 NOT NULL,
+  weekday INTEGER CHECK (weekday BETWEEN 0 AND 6) DEFAULT 1 NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  company_ids UUID[] NOT NULL DEFAULT '{}',
+  email TEXT,
+  webhook_url TEXT,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  UNIQUE(user_id, workspace_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_settings_enabled ON digest_settings(enabled) WHERE enabled;
+
+-- Step 2: Create digests table. sections holds each company's releases and AI roll-up;
+-- deliveries maps a channel to its error, null when it was sent
+CREATE TABLE IF NOT EXISTS digests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  release_count INTEGER DEFAULT 0 NOT NULL,
+  sections JSONB NOT NULL DEFAULT '[]',
+  deliveries JSONB NOT NULL DEFAULT '{}',
+  input_tokens INTEGER DEFAULT 0 NOT NULL,
+  output_tokens INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_digests_user_workspace_created
+  ON digests(user_id, workspace_id, created_at DESC);
+
+-- Step 3: Enable Row Level Security (digests are written by the service role)
+ALTER TABLE digest_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own digest settings" ON digest_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own digest settings" ON digest_settings
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_members.workspace_id = digest_settings.workspace_id
+        AND workspace_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own digest settings" ON digest_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own digest settings" ON digest_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own digests" ON digests
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Step 4: Add updated_at trigger (using existing function)
+CREATE TRIGGER update_digest_settings_updated_at BEFORE UPDATE ON digest_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,20 @@
+-- Extracted Content Migration
+-- Persists the full article body extracted from each release's source page
+-- Run this in Supabase SQL Editor after add-story-clusters.sql
+
+-- Step 1: Extracted article body, sanitized HTML and plain text
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS extracted_html TEXT,
+ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+-- Step 2: Which extractor produced it, how confident it was and when
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS extracted_by TEXT,
+ADD COLUMN IF NOT EXISTS extraction_confidence REAL,
+ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMPTZ;
+
+-- Step 3: Cache lookups by source URL and the backlog of releases still to extract
+CREATE INDEX IF NOT EXISTS idx_press_releases_user_source_url ON press_releases(user_id, source_url);
+CREATE INDEX IF NOT EXISTS idx_press_releases_pending_extraction
+  ON press_releases(user_id, company_id, published_at)
+  WHERE extracted_at IS NULL AND is_deleted = false;
@@ -0,0 +1,15 @@
+-- Financial Facts Migration
+-- Stores typed facts extracted from each release (deal type, amounts, counterparties, fiscal period)
+-- Run this in Supabase SQL Editor after add-ai-analysis-jobs.sql
+
+-- Step 1: Facts as extracted, plus the deal type and headline amount as columns for filtering
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS financial_facts JSONB,
+ADD COLUMN IF NOT EXISTS deal_type TEXT CHECK (deal_type IN ('acquisition', 'funding_round', 'debt_raise', 'fund_close', 'partnership', 'earnings')),
+ADD COLUMN IF NOT EXISTS deal_amount NUMERIC;
+
+-- Step 2: Filter a user's releases by deal type and size
+CREATE INDEX IF NOT EXISTS idx_press_releases_deal_type ON press_releases(user_id, deal_type, deal_amount DESC)
+  WHERE deal_type IS NOT NULL;
+
+-- Releases stored before this migration have no facts; they are extracted on read until re-polled or re-analyzed
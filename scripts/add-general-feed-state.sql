@@ -0,0 +1,18 @@
+-- General Feed State Migration
+-- HTTP validators for the general wire feeds polled by the poll-all-users cron. They have no
+-- rss_sources row, and the dashboard's in-process feed cache can't be shared with the cron
+-- without the cron missing items the dashboard fetched first
+-- Run this in Supabase SQL Editor after add-rss-fetch-state.sql
+
+-- Step 1: Create general_feed_state table, one row per feed URL
+CREATE TABLE IF NOT EXISTS general_feed_state (
+  feed_url TEXT PRIMARY KEY,
+  etag TEXT,
+  last_modified TEXT,
+  content_hash TEXT,
+  last_changed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+-- Step 2: Enable Row Level Security (only the service role reads and writes it)
+ALTER TABLE general_feed_state ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,11 @@
+-- Google News Feed Type Migration
+-- Allows RSS sources built from Google News search queries
+-- Run this in Supabase SQL Editor after add-rss-sources-table.sql
+
+-- Step 1: Replace the feed_type check constraint with one that includes 'google-news'
+ALTER TABLE rss_sources
+DROP CONSTRAINT IF EXISTS rss_sources_feed_type_check;
+
+ALTER TABLE rss_sources
+ADD CONSTRAINT rss_sources_feed_type_check
+CHECK (feed_type IN ('ir-news', 'sec-filings', 'general-news', 'google-news', 'industry', 'custom'));
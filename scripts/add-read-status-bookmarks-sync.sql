@@ -0,0 +1,52 @@
+-- Read Status & Bookmarks Sync Migration
+-- Makes sure the bookmarks and read_status tables used for cross-device sync exist with RLS
+-- Run this in Supabase SQL Editor after the main schema is set up
+-- Existing localStorage bookmarks and read status are copied in by the app on first sign-in
+
+-- Step 1: Tables (no-op when created by lib/supabase/migrations.sql)
+-- press_release_id is TEXT because live RSS items use link-derived ids, not press_releases UUIDs
+CREATE TABLE IF NOT EXISTS bookmarks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  press_release_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(user_id, press_release_id)
+);
+
+CREATE TABLE IF NOT EXISTS read_status (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  press_release_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(user_id, press_release_id)
+);
+
+-- Step 2: Row Level Security
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE read_status ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can insert their own bookmarks" ON bookmarks;
+DROP POLICY IF EXISTS "Users can delete their own bookmarks" ON bookmarks;
+
+CREATE POLICY "Users can view their own bookmarks" ON bookmarks
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own bookmarks" ON bookmarks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own bookmarks" ON bookmarks
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own read status" ON read_status;
+DROP POLICY IF EXISTS "Users can insert their own read status" ON read_status;
+DROP POLICY IF EXISTS "Users can delete their own read status" ON read_status;
+
+CREATE POLICY "Users can view their own read status" ON read_status
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own read status" ON read_status
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own read status" ON read_status
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Step 3: Index for loading a user's state
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_id ON bookmarks(user_id);
+CREATE INDEX IF NOT EXISTS idx_read_status_user_id ON read_status(user_id);
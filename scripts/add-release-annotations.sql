@@ -0,0 +1,73 @@
+-- Release Annotations Migration
+-- Notes, highlighted passages with comments, and free-form tags on releases. Notes and highlights
+-- are private to their author or shared with the workspace; tags are shared with the workspace.
+-- Run this in Supabase SQL Editor after add-watchlist-groups.sql
+
+-- Step 1: Create release_annotations and release_tags
+-- release_id is TEXT like bookmarks.press_release_id: live RSS items use link-derived ids
+CREATE TABLE IF NOT EXISTS release_annotations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  release_id TEXT NOT NULL,
+  kind TEXT CHECK (kind IN ('note', 'highlight')) NOT NULL,
+  body TEXT DEFAULT '' NOT NULL CHECK (char_length(body) <= 5000), -- The note, or the highlight's comment
+  quote TEXT CHECK (char_length(quote) <= 1000), -- Selected passage, highlights only
+  visibility TEXT CHECK (visibility IN ('private', 'team')) NOT NULL DEFAULT 'private',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  CHECK (
+    (kind = 'note' AND char_length(trim(body)) > 0 AND quote IS NULL) OR
+    (kind = 'highlight' AND char_length(trim(quote)) > 0)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS release_tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Member who applied the tag
+  release_id TEXT NOT NULL,
+  tag TEXT NOT NULL CHECK (char_length(tag) BETWEEN 1 AND 40),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+-- Step 2: Create indexes; a tag is applied once per release regardless of case
+CREATE INDEX IF NOT EXISTS idx_release_annotations_release ON release_annotations(workspace_id, release_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_release_tags_unique ON release_tags(workspace_id, release_id, lower(tag));
+CREATE INDEX IF NOT EXISTS idx_release_tags_tag ON release_tags(workspace_id, lower(tag));
+
+-- Step 3: Enable RLS. Members read team annotations and their own private ones and only edit
+-- their own; any member can tag, since tags are how the team sorts releases.
+ALTER TABLE release_annotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE release_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view team and own annotations" ON release_annotations
+  FOR SELECT USING (
+    is_workspace_member(workspace_id) AND (visibility = 'team' OR auth.uid() = user_id)
+  );
+
+CREATE POLICY "Members can insert own annotations" ON release_annotations
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Users can update own annotations" ON release_annotations
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id AND is_workspace_member(workspace_id));
+
+CREATE POLICY "Users can delete own annotations" ON release_annotations
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Members can view workspace release tags" ON release_tags
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can tag workspace releases" ON release_tags
+  FOR INSERT WITH CHECK (is_workspace_member(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can untag workspace releases" ON release_tags
+  FOR DELETE USING (is_workspace_member(workspace_id));
+
+-- Step 4: Add updated_at trigger (using existing function)
+CREATE TRIGGER update_release_annotations_updated_at BEFORE UPDATE ON release_annotations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Verify the tables were created
+SELECT table_name FROM information_schema.tables
+WHERE table_name IN ('release_annotations', 'release_tags');
@@ -0,0 +1,85 @@
+-- Release Search Migration
+-- Full-text search over stored press releases and saved searches shown as feed views
+-- Run this in Supabase SQL Editor after add-topic-taxonomies.sql
+
+-- Step 1: Search document, weighting title over summary over body
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(summary, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(content, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_press_releases_search ON press_releases USING GIN(search_vector);
+
+-- Step 2: Search a user's releases. The query uses web search syntax: words are ANDed, "quoted phrases",
+-- OR between alternatives and -word to exclude. Releases from feeds that aren't a company's RSS source
+-- (the built-in general feeds) have feed type 'general'. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION search_press_releases(
+  p_user_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_feed_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF press_releases
+LANGUAGE sql STABLE
+AS $$
+  SELECT pr.*
+  FROM press_releases pr
+  WHERE pr.user_id = p_user_id
+    AND pr.is_deleted = FALSE
+    AND (COALESCE(p_query, '') = '' OR pr.search_vector @@ websearch_to_tsquery('english', p_query))
+    AND (p_from IS NULL OR pr.published_at >= p_from)
+    AND (p_to IS NULL OR pr.published_at <= p_to)
+    AND (
+      COALESCE(cardinality(p_feed_types), 0) = 0 OR
+      COALESCE(
+        (SELECT rs.feed_type FROM rss_sources rs
+          WHERE rs.user_id = pr.user_id AND rs.company_id = pr.company_id AND rs.feed_url = pr.rss_source_url
+          LIMIT 1),
+        'general'
+      ) = ANY(p_feed_types)
+    )
+  ORDER BY
+    CASE WHEN COALESCE(p_query, '') = '' THEN 0
+      ELSE ts_rank_cd(pr.search_vector, websearch_to_tsquery('english', p_query)) END DESC,
+    pr.published_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Step 3: Saved searches
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  since_days INTEGER CHECK (since_days > 0),
+  from_date DATE,
+  to_date DATE,
+  feed_types TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at);
+
+-- Step 4: Enable Row Level Security
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved searches" ON saved_searches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved searches" ON saved_searches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches" ON saved_searches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches" ON saved_searches
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,108 @@
+-- RSS Fetch Attempts Migration
+-- Records every poll of an RSS source so health metrics can be derived from history
+-- Run this in Supabase SQL Editor after add-rss-fetch-state.sql
+
+-- Step 1: Create rss_fetch_attempts table
+CREATE TABLE IF NOT EXISTS rss_fetch_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  rss_source_id UUID REFERENCES rss_sources(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT CHECK (status IN ('success', 'not-modified', 'error')) NOT NULL,
+  http_status INTEGER,
+  latency_ms INTEGER DEFAULT 0,
+  item_count INTEGER DEFAULT 0,
+  bytes INTEGER DEFAULT 0,
+  error_message TEXT,
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+-- Step 2: Index for "last N attempts for a source" lookups
+CREATE INDEX IF NOT EXISTS rss_fetch_attempts_source_time_idx
+  ON rss_fetch_attempts(rss_source_id, attempted_at DESC);
+
+-- Step 3: Enable Row Level Security (attempts are written by the service role during polling)
+ALTER TABLE rss_fetch_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own RSS fetch attempts" ON rss_fetch_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Step 4: Health columns derived from the attempt history
+ALTER TABLE rss_sources
+ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS disabled_reason TEXT,
+ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 5: Record an attempt and update the source's health columns in one call. The failure count is
+-- incremented in the UPDATE itself, so polls of a shared feed running at the same time can't lose one.
+-- Called by the service role during polling.
+CREATE OR REPLACE FUNCTION record_rss_fetch_attempt(
+  p_source_id UUID,
+  p_status TEXT,
+  p_http_status INTEGER,
+  p_latency_ms INTEGER,
+  p_item_count INTEGER,
+  p_bytes INTEGER,
+  p_error_message TEXT,
+  p_window_size INTEGER,
+  p_max_failures INTEGER
+)
+RETURNS TABLE (source_name TEXT, failures INTEGER, disabled BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  attempted TIMESTAMP WITH TIME ZONE := TIMEZONE('UTC', NOW());
+  failed BOOLEAN := p_status = 'error';
+  last_error_message TEXT := COALESCE(p_error_message, 'Unknown error');
+BEGIN
+  INSERT INTO rss_fetch_attempts
+    (rss_source_id, user_id, status, http_status, latency_ms, item_count, bytes, error_message, attempted_at)
+  SELECT rs.id, rs.user_id, p_status, p_http_status, p_latency_ms, p_item_count, p_bytes, p_error_message, attempted
+  FROM rss_sources rs
+  WHERE rs.id = p_source_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RSS source % not found', p_source_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE rss_sources rs SET
+    last_fetched_at = attempted,
+    last_error = CASE WHEN failed THEN last_error_message END,
+    success_rate = (
+      SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE recent.status <> 'error') / COUNT(*), 2)
+      FROM (
+        SELECT a.status FROM rss_fetch_attempts a
+        WHERE a.rss_source_id = p_source_id
+        ORDER BY a.attempted_at DESC
+        LIMIT p_window_size
+      ) recent
+    ),
+    consecutive_failures = CASE WHEN failed THEN COALESCE(rs.consecutive_failures, 0) + 1 ELSE 0 END,
+    -- A 304 carries no items, so keep the count from the last full fetch
+    article_count = CASE WHEN p_status = 'success' THEN p_item_count ELSE rs.article_count END,
+    enabled = CASE WHEN failed AND COALESCE(rs.consecutive_failures, 0) + 1 >= p_max_failures THEN FALSE ELSE rs.enabled END,
+    disabled_reason = CASE WHEN failed AND COALESCE(rs.consecutive_failures, 0) + 1 >= p_max_failures
+      THEN format('Disabled after %s consecutive failed fetches. Last error: %s', COALESCE(rs.consecutive_failures, 0) + 1, last_error_message)
+      ELSE rs.disabled_reason END,
+    disabled_at = CASE WHEN failed AND COALESCE(rs.consecutive_failures, 0) + 1 >= p_max_failures THEN attempted ELSE rs.disabled_at END
+  WHERE rs.id = p_source_id
+  RETURNING rs.feed_name, rs.consecutive_failures, failed AND rs.consecutive_failures >= p_max_failures;
+END;
+$$;
+
+-- Step 6: Delete each source's attempts beyond the health window in one statement
+CREATE OR REPLACE FUNCTION prune_rss_fetch_attempts(p_window_size INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH ranked AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY rss_source_id ORDER BY attempted_at DESC) AS position
+    FROM rss_fetch_attempts
+  ), deleted AS (
+    DELETE FROM rss_fetch_attempts a
+    USING ranked
+    WHERE a.id = ranked.id AND ranked.position > p_window_size
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
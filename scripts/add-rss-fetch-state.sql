@@ -0,0 +1,12 @@
+-- RSS Fetch State Migration
+-- Stores HTTP validators per feed so polling can use conditional GET
+-- Run this in Supabase SQL Editor after add-rss-sources-table.sql
+
+-- Step 1: Add validator columns
+-- etag / last_modified are echoed back as If-None-Match / If-Modified-Since,
+-- content_hash (SHA-256 of the body) catches unchanged feeds from servers without validators
+ALTER TABLE rss_sources
+ADD COLUMN IF NOT EXISTS etag TEXT,
+ADD COLUMN IF NOT EXISTS last_modified TEXT,
+ADD COLUMN IF NOT EXISTS content_hash TEXT,
+ADD COLUMN IF NOT EXISTS last_changed_at TIMESTAMP WITH TIME ZONE;
@@ -9,14 +9,21 @@ CREATE TABLE IF NOT EXISTS rss_sources (
   user_id UUID REFERENCES auth.users(id) NOT NULL,
   feed_url TEXT NOT NULL,
   feed_name TEXT NOT NULL,
-  feed_type TEXT CHECK (feed_type IN ('ir-news', 'sec-filings', 'general-news', 'industry', 'custom')) DEFAULT 'custom',
+  feed_type TEXT CHECK (feed_type IN ('ir-news', 'sec-filings', 'general-news', 'google-news', 'industry', 'custom')) DEFAULT 'custom',
   enabled BOOLEAN DEFAULT true,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   last_fetched_at TIMESTAMP WITH TIME ZONE,
   last_error TEXT,
   article_count INTEGER DEFAULT 0,
-  success_rate DECIMAL(5,2) DEFAULT 100.00
+  success_rate DECIMAL(5,2) DEFAULT 100.00,
+  etag TEXT,
+  last_modified TEXT,
+  content_hash TEXT,
+  last_changed_at TIMESTAMP WITH TIME ZONE,
+  consecutive_failures INTEGER DEFAULT 0,
+  disabled_reason TEXT,
+  disabled_at TIMESTAMP WITH TIME ZONE
 );
 
 -- Step 2: Add performance indexes (matching existing pattern)
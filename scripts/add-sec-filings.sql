@@ -0,0 +1,15 @@
+-- SEC Filings Migration
+-- Adds a CIK to companies and structured filing data to press releases
+-- Run this in Supabase SQL Editor after add-rss-sources-table.sql
+
+-- Step 1: SEC Central Index Key, stored 10-digit zero-padded (e.g. 0000320193)
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS cik TEXT;
+
+-- Step 2: Parsed filing for releases that came from EDGAR feeds
+-- { formType, formName, cik, filerName, accessionNumber, filedAt, items: [{ code, description }] }
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS filing JSONB;
+
+-- Step 3: Filings are deduplicated by filing URL
+CREATE INDEX IF NOT EXISTS idx_press_releases_source_url ON press_releases(user_id, company_id, source_url);
@@ -0,0 +1,17 @@
+-- Story Clusters Migration
+-- Stores a SimHash fingerprint per release and groups near-duplicates into story clusters
+-- Run this in Supabase SQL Editor after add-user-id-migration.sql
+
+-- Step 1: 64-bit SimHash over word shingles, as 16 hex characters
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS simhash TEXT;
+
+-- Step 2: Canonical release of the story; NULL on the canonical release itself
+ALTER TABLE press_releases
+ADD COLUMN IF NOT EXISTS cluster_id UUID REFERENCES press_releases(id) ON DELETE SET NULL;
+
+-- Step 3: Indexes for candidate lookup and cluster membership
+CREATE INDEX IF NOT EXISTS idx_press_releases_cluster_candidates
+  ON press_releases(user_id, company_id, published_at)
+  WHERE simhash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_press_releases_cluster_id ON press_releases(cluster_id);
@@ -0,0 +1,41 @@
+-- Topic Taxonomies Migration
+-- User-defined topic taxonomies (categories with keywords, patterns, negative terms and weights) that replace the fixed fintech filter
+-- Run this in Supabase SQL Editor after add-financial-facts.sql
+
+-- Step 1: One row per taxonomy; categories are stored as a JSON array of
+-- { name, keywords, patterns, negativeTerms, weight }
+CREATE TABLE IF NOT EXISTS topic_taxonomies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  categories JSONB NOT NULL DEFAULT '[]'::jsonb,
+  min_score INTEGER NOT NULL DEFAULT 10 CHECK (min_score BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_taxonomies_user ON topic_taxonomies(user_id, created_at);
+
+-- Step 2: Enable Row Level Security
+ALTER TABLE topic_taxonomies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own topic taxonomies" ON topic_taxonomies
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own topic taxonomies" ON topic_taxonomies
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own topic taxonomies" ON topic_taxonomies
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own topic taxonomies" ON topic_taxonomies
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Step 3: Add updated_at trigger (using existing function)
+CREATE TRIGGER update_topic_taxonomies_updated_at BEFORE UPDATE ON topic_taxonomies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 4: Remember when a user was given the default fintech taxonomy, so deleting it sticks
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS topic_taxonomies_seeded BOOLEAN DEFAULT FALSE;
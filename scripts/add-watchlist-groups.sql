@@ -0,0 +1,86 @@
+-- Watchlist Groups Migration
+-- Named groups of companies (portfolio, competitors, deal pipeline) shown as feed tabs. Groups belong
+-- to a workspace like its companies, and a company can be in several groups.
+-- Run this in Supabase SQL Editor after add-workspaces.sql
+
+-- Step 1: Create watchlist_groups and the group membership table
+CREATE TABLE IF NOT EXISTS watchlist_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Member who created the group
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(workspace_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_group_companies (
+  group_id UUID REFERENCES watchlist_groups(id) ON DELETE CASCADE NOT NULL,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  PRIMARY KEY (group_id, company_id)
+);
+
+-- Step 2: Create indexes
+CREATE INDEX IF NOT EXISTS idx_watchlist_groups_workspace ON watchlist_groups(workspace_id, position);
+CREATE INDEX IF NOT EXISTS idx_watchlist_group_companies_company ON watchlist_group_companies(company_id);
+
+-- Step 3: A group only holds companies from its own workspace
+CREATE OR REPLACE FUNCTION validate_watchlist_group_company()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM watchlist_groups g
+    JOIN companies c ON c.workspace_id = g.workspace_id
+    WHERE g.id = NEW.group_id AND c.id = NEW.company_id
+  ) THEN
+    RAISE EXCEPTION 'Company % is not in the group''s workspace', NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_watchlist_group_company_trigger
+  BEFORE INSERT OR UPDATE ON watchlist_group_companies
+  FOR EACH ROW EXECUTE FUNCTION validate_watchlist_group_company();
+
+-- Step 4: Enable RLS. Members see the workspace's groups; owners and editors change them.
+ALTER TABLE watchlist_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist_group_companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace watchlist groups" ON watchlist_groups
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace watchlist groups" ON watchlist_groups
+  FOR INSERT WITH CHECK (can_edit_workspace(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update workspace watchlist groups" ON watchlist_groups
+  FOR UPDATE USING (can_edit_workspace(workspace_id)) WITH CHECK (can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace watchlist groups" ON watchlist_groups
+  FOR DELETE USING (can_edit_workspace(workspace_id));
+
+CREATE POLICY "Members can view watchlist group companies" ON watchlist_group_companies
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM watchlist_groups g WHERE g.id = group_id AND is_workspace_member(g.workspace_id))
+  );
+
+CREATE POLICY "Editors can add watchlist group companies" ON watchlist_group_companies
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM watchlist_groups g WHERE g.id = group_id AND can_edit_workspace(g.workspace_id))
+  );
+
+CREATE POLICY "Editors can remove watchlist group companies" ON watchlist_group_companies
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM watchlist_groups g WHERE g.id = group_id AND can_edit_workspace(g.workspace_id))
+  );
+
+-- Step 5: Add updated_at trigger (using existing function)
+CREATE TRIGGER update_watchlist_groups_updated_at BEFORE UPDATE ON watchlist_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Verify the tables were created
+SELECT table_name FROM information_schema.tables
+WHERE table_name IN ('watchlist_groups', 'watchlist_group_companies');
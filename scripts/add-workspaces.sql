@@ -0,0 +1,379 @@
+-- Workspaces Migration
+-- Team workspaces with owner/editor/viewer roles: companies, RSS sources, stored releases and poll logs
+-- belong to a workspace and are shared by its members. Every existing user's data moves into a personal workspace.
+-- Run this in Supabase SQL Editor after add-alert-rules.sql
+
+-- Step 1: Workspaces, members and invitations
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  personal BOOLEAN DEFAULT FALSE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+-- One personal workspace per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_personal ON workspaces(created_by) WHERE personal;
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT CHECK (role IN ('owner', 'editor', 'viewer')) NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL,
+  UNIQUE(workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Only a SHA-256 hash of the token is stored; the token itself is only in the invitation link
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT CHECK (role IN ('editor', 'viewer')) NOT NULL DEFAULT 'viewer',
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('UTC', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace ON workspace_invitations(workspace_id, created_at DESC);
+
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The workspace the user last switched to
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS active_workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+
+-- Step 2: Membership checks used by the RLS policies. SECURITY DEFINER so policies on
+-- workspace_members can use them without recursing into their own policy.
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT workspace_role(p_workspace_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_workspace(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(workspace_role(p_workspace_id) IN ('owner', 'editor'), FALSE);
+$$;
+
+-- Step 3: Workspace creation. Workspaces are only created through these functions so the
+-- creator always becomes the owner.
+CREATE OR REPLACE FUNCTION ensure_personal_workspace(p_user_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target UUID := COALESCE(p_user_id, auth.uid());
+  workspace UUID;
+BEGIN
+  -- Signed-in users may only ensure their own; the service role and SQL editor have no auth.uid()
+  IF target IS NULL OR (auth.uid() IS NOT NULL AND target <> auth.uid()) THEN
+    RAISE EXCEPTION 'Cannot create a personal workspace for another user';
+  END IF;
+
+  SELECT id INTO workspace FROM workspaces WHERE created_by = target AND personal;
+
+  IF workspace IS NULL THEN
+    INSERT INTO workspaces (name, personal, created_by) VALUES ('Personal', TRUE, target) RETURNING id INTO workspace;
+    INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (workspace, target, 'owner');
+  END IF;
+
+  UPDATE user_profiles SET active_workspace_id = workspace WHERE id = target AND active_workspace_id IS NULL;
+  RETURN workspace;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_workspace(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  workspace UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO workspaces (name, created_by) VALUES (btrim(p_name), auth.uid()) RETURNING id INTO workspace;
+  INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (workspace, auth.uid(), 'owner');
+  RETURN workspace;
+END;
+$$;
+
+-- Members with their profile details, for other members of the workspace
+CREATE OR REPLACE FUNCTION get_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, role TEXT, joined_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.user_id, COALESCE(p.email, u.email)::TEXT, p.full_name, m.role, m.created_at
+  FROM workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN user_profiles p ON p.id = m.user_id
+  WHERE m.workspace_id = p_workspace_id AND is_workspace_member(p_workspace_id)
+  ORDER BY m.created_at;
+$$;
+
+-- A workspace always keeps at least one owner
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner' AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id) -- Not a cascade from deleting the workspace
+    AND NOT EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER keep_workspace_owner_trigger
+  BEFORE UPDATE OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- Step 4: Workspace RLS. Members see their workspaces; owners manage them. Invitations are
+-- created and accepted by the server, which hashes tokens and checks the invited address.
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspaces" ON workspaces
+  FOR SELECT USING (is_workspace_member(id));
+
+CREATE POLICY "Owners can update workspaces" ON workspaces
+  FOR UPDATE USING (workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete shared workspaces" ON workspaces
+  FOR DELETE USING (workspace_role(id) = 'owner' AND NOT personal);
+
+CREATE POLICY "Members can view workspace members" ON workspace_members
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+-- Owners may only change a member's role: the column grant keeps workspace_id and user_id fixed,
+-- so a membership can't be moved to another workspace or handed to another user
+CREATE POLICY "Owners can update workspace members" ON workspace_members
+  FOR UPDATE USING (workspace_role(workspace_id) = 'owner')
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+REVOKE UPDATE ON workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON workspace_members TO authenticated;
+
+CREATE POLICY "Owners can remove members and members can leave" ON workspace_members
+  FOR DELETE USING (workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Owners can view workspace invitations" ON workspace_invitations
+  FOR SELECT USING (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can revoke workspace invitations" ON workspace_invitations
+  FOR DELETE USING (workspace_role(workspace_id) = 'owner');
+
+-- Step 5: workspace_id on shared data. user_id stays as the member who added the row.
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE rss_sources ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE press_releases ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE rss_poll_logs ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- Step 6: Move every existing user's data into their personal workspace
+SELECT ensure_personal_workspace(owners.id)
+FROM (
+  SELECT id FROM user_profiles
+  UNION
+  SELECT user_id FROM companies
+) owners
+WHERE owners.id IN (SELECT id FROM auth.users);
+
+UPDATE companies c
+SET workspace_id = w.id
+FROM workspaces w
+WHERE w.personal AND w.created_by = c.user_id AND c.workspace_id IS NULL;
+
+UPDATE rss_sources rs SET workspace_id = c.workspace_id
+FROM companies c WHERE c.id = rs.company_id AND rs.workspace_id IS NULL;
+
+UPDATE press_releases pr SET workspace_id = c.workspace_id
+FROM companies c WHERE c.id = pr.company_id AND pr.workspace_id IS NULL;
+
+UPDATE rss_poll_logs pl SET workspace_id = c.workspace_id
+FROM companies c WHERE c.id = pl.company_id AND pl.workspace_id IS NULL;
+
+ALTER TABLE companies ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE rss_sources ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE press_releases ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE rss_poll_logs ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_companies_workspace ON companies(workspace_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_rss_sources_workspace ON rss_sources(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_press_releases_workspace_published ON press_releases(workspace_id, published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_press_releases_workspace_source_url ON press_releases(workspace_id, source_url);
+CREATE INDEX IF NOT EXISTS idx_rss_poll_logs_workspace ON rss_poll_logs(workspace_id, created_at DESC);
+
+-- Step 7: Rows under a company always belong to the company's workspace
+CREATE OR REPLACE FUNCTION set_workspace_from_company()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT workspace_id INTO NEW.workspace_id FROM companies WHERE id = NEW.company_id;
+
+  IF NEW.workspace_id IS NULL THEN
+    RAISE EXCEPTION 'Company % not found', NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces the "user owns the company" check: any editor of the workspace may add sources
+DROP TRIGGER IF EXISTS validate_rss_source_ownership_trigger ON rss_sources;
+DROP FUNCTION IF EXISTS validate_rss_source_ownership();
+
+CREATE TRIGGER set_rss_sources_workspace BEFORE INSERT OR UPDATE OF company_id ON rss_sources
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_company();
+
+CREATE TRIGGER set_press_releases_workspace BEFORE INSERT ON press_releases
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_company();
+
+CREATE TRIGGER set_rss_poll_logs_workspace BEFORE INSERT ON rss_poll_logs
+  FOR EACH ROW EXECUTE FUNCTION set_workspace_from_company();
+
+-- A release is stored once per company, whichever member's poll found it
+ALTER TABLE press_releases DROP CONSTRAINT IF EXISTS press_releases_user_id_company_id_content_hash_key;
+ALTER TABLE press_releases DROP CONSTRAINT IF EXISTS press_releases_user_company_title_key;
+ALTER TABLE press_releases ADD CONSTRAINT press_releases_company_content_hash_key UNIQUE(company_id, content_hash);
+
+-- Step 8: Replace the per-user policies with membership-based ones: members read,
+-- owners and editors write
+DROP POLICY IF EXISTS "Users can view own companies" ON companies;
+DROP POLICY IF EXISTS "Users can insert own companies" ON companies;
+DROP POLICY IF EXISTS "Users can update own companies" ON companies;
+DROP POLICY IF EXISTS "Users can delete own companies" ON companies;
+DROP POLICY IF EXISTS "Users can view their own companies" ON companies;
+DROP POLICY IF EXISTS "Users can insert their own companies" ON companies;
+DROP POLICY IF EXISTS "Users can update their own companies" ON companies;
+DROP POLICY IF EXISTS "Users can delete their own companies" ON companies;
+
+CREATE POLICY "Members can view workspace companies" ON companies
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace companies" ON companies
+  FOR INSERT WITH CHECK (can_edit_workspace(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update workspace companies" ON companies
+  FOR UPDATE USING (can_edit_workspace(workspace_id)) WITH CHECK (can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace companies" ON companies
+  FOR DELETE USING (can_edit_workspace(workspace_id));
+
+DROP POLICY IF EXISTS "Users can view own RSS sources" ON rss_sources;
+DROP POLICY IF EXISTS "Users can insert own RSS sources" ON rss_sources;
+DROP POLICY IF EXISTS "Users can update own RSS sources" ON rss_sources;
+DROP POLICY IF EXISTS "Users can delete own RSS sources" ON rss_sources;
+
+CREATE POLICY "Members can view workspace RSS sources" ON rss_sources
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace RSS sources" ON rss_sources
+  FOR INSERT WITH CHECK (can_edit_workspace(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update workspace RSS sources" ON rss_sources
+  FOR UPDATE USING (can_edit_workspace(workspace_id)) WITH CHECK (can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace RSS sources" ON rss_sources
+  FOR DELETE USING (can_edit_workspace(workspace_id));
+
+DROP POLICY IF EXISTS "Users can view their own press releases" ON press_releases;
+DROP POLICY IF EXISTS "Users can insert their own press releases" ON press_releases;
+DROP POLICY IF EXISTS "Users can update their own press releases" ON press_releases;
+DROP POLICY IF EXISTS "Users can delete their own press releases" ON press_releases;
+
+CREATE POLICY "Members can view workspace press releases" ON press_releases
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace press releases" ON press_releases
+  FOR INSERT WITH CHECK (can_edit_workspace(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update workspace press releases" ON press_releases
+  FOR UPDATE USING (can_edit_workspace(workspace_id)) WITH CHECK (can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace press releases" ON press_releases
+  FOR DELETE USING (can_edit_workspace(workspace_id));
+
+DROP POLICY IF EXISTS "Users can view their own poll logs" ON rss_poll_logs;
+DROP POLICY IF EXISTS "Users can insert their own poll logs" ON rss_poll_logs;
+
+CREATE POLICY "Members can view workspace poll logs" ON rss_poll_logs
+  FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace poll logs" ON rss_poll_logs
+  FOR INSERT WITH CHECK (can_edit_workspace(workspace_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Editors can update workspace poll logs" ON rss_poll_logs
+  FOR UPDATE USING (can_edit_workspace(workspace_id));
+
+DROP POLICY IF EXISTS "Users can view own RSS fetch attempts" ON rss_fetch_attempts;
+
+CREATE POLICY "Members can view workspace RSS fetch attempts" ON rss_fetch_attempts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM rss_sources rs WHERE rs.id = rss_source_id AND is_workspace_member(rs.workspace_id))
+  );
+
+-- Step 9: Search a workspace's releases (same query syntax and ranking as before)
+DROP FUNCTION IF EXISTS search_press_releases(UUID, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION search_press_releases(
+  p_workspace_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_feed_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF press_releases
+LANGUAGE sql STABLE
+AS $$
+  SELECT pr.*
+  FROM press_releases pr
+  WHERE pr.workspace_id = p_workspace_id
+    AND pr.is_deleted = FALSE
+    AND (COALESCE(p_query, '') = '' OR pr.search_vector @@ websearch_to_tsquery('english', p_query))
+    AND (p_from IS NULL OR pr.published_at >= p_from)
+    AND (p_to IS NULL OR pr.published_at <= p_to)
+    AND (
+      COALESCE(cardinality(p_feed_types), 0) = 0 OR
+      COALESCE(
+        (SELECT rs.feed_type FROM rss_sources rs
+          WHERE rs.company_id = pr.company_id AND rs.feed_url = pr.rss_source_url
+          LIMIT 1),
+        'general'
+      ) = ANY(p_feed_types)
+    )
+  ORDER BY
+    CASE WHEN COALESCE(p_query, '') = '' THEN 0
+      ELSE ts_rank_cd(pr.search_vector, websearch_to_tsquery('english', p_query)) END DESC,
+    pr.published_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Verify the migration: every user with companies has a personal workspace
+SELECT
+  (SELECT COUNT(*) FROM workspaces WHERE personal) AS personal_workspaces,
+  (SELECT COUNT(DISTINCT user_id) FROM companies) AS users_with_companies,
+  (SELECT COUNT(*) FROM companies WHERE workspace_id IS NULL) AS companies_without_workspace;